@@ -0,0 +1,277 @@
+import { Clock, Context, Effect, Layer, Option } from "effect";
+import { encodeSyncNameToString, type Name } from "./name";
+import type {
+	ResourceRecord,
+	ResourceRecordClass,
+	ResourceRecordOf,
+	ResourceRecordType,
+} from "./resource-record";
+
+/**
+ * What the cache knows about an owner name, TYPE and CLASS. TTLs count down
+ * from when the data was cached.
+ */
+export type CachedAnswer =
+	| {
+			readonly _tag: "RRset";
+			readonly records: ReadonlyArray<ResourceRecord>;
+	  }
+	| {
+			/** The name does not exist */
+			readonly _tag: "NameError";
+			readonly soa: ResourceRecordOf<"SOA">;
+	  }
+	| {
+			/** The name exists without RRs of the TYPE */
+			readonly _tag: "NoData";
+			readonly soa: ResourceRecordOf<"SOA">;
+	  };
+
+/**
+ * 7.4. Using the cache
+ *
+ * In general, we expect a resolver to cache all data which it receives in
+ * responses since it may be useful in answering future client requests.
+ * However, there are several types of data which should not be cached:
+ *
+ *    - When several RRs of the same type are available for a
+ *      particular owner name, the resolver should either cache them
+ *      all or none at all.
+ *
+ * Zero TTL RRs are never cached. An RRset is cached for the smallest TTL of
+ * its RRs, as every RR of an RRset must have the same TTL.
+ *
+ * Name errors and no data responses are cached for the smaller of the TTL
+ * and the MINIMUM field of the SOA RR of the zone.
+ *
+ * The cache is bounded: inserting past `maxEntries` evicts the expired
+ * entries, then the least recently cached ones until it fits. Expired
+ * entries are otherwise only evicted when looked up or by `evictExpired`.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-7.4
+ * @see https://www.rfc-editor.org/rfc/rfc2181.html#section-5.2
+ * @see https://www.rfc-editor.org/rfc/rfc2308.html#section-5
+ */
+export class DnsCache extends Context.Tag("DnsCache")<
+	DnsCache,
+	{
+		/**
+		 * Caches every RRset of `records`, replacing what was cached for
+		 * their owner names, TYPEs and CLASSes.
+		 */
+		readonly insert: (
+			records: ReadonlyArray<ResourceRecord>,
+		) => Effect.Effect<void>;
+		/** Caches that `name` does not exist in `rrclass` */
+		readonly insertNameError: (
+			name: Name,
+			rrclass: ResourceRecordClass,
+			soa: ResourceRecordOf<"SOA">,
+		) => Effect.Effect<void>;
+		/** Caches that `name` has no RRs of `type` in `rrclass` */
+		readonly insertNoData: (
+			name: Name,
+			type: ResourceRecordType,
+			rrclass: ResourceRecordClass,
+			soa: ResourceRecordOf<"SOA">,
+		) => Effect.Effect<void>;
+		/** Returns what is cached for `name`, `type` and `rrclass`, if not expired */
+		readonly lookup: (
+			name: Name,
+			type: ResourceRecordType,
+			rrclass: ResourceRecordClass,
+		) => Effect.Effect<Option.Option<CachedAnswer>>;
+		/** Evicts every expired entry, without waiting for the cache to fill */
+		readonly evictExpired: Effect.Effect<void>;
+		/** The number of entries, expired or not */
+		readonly size: Effect.Effect<number>;
+	}
+>() {
+	static readonly layer = (config: DnsCacheConfig = {}) =>
+		Layer.sync(DnsCache, () => makeDnsCache(config));
+}
+
+export interface DnsCacheConfig {
+	/** The number of entries kept before evicting any, defaults to 10000 */
+	readonly maxEntries?: number;
+}
+
+interface Entry {
+	readonly answer: CachedAnswer;
+	readonly ttl: number;
+	readonly cachedAt: number;
+}
+
+/**
+ * Makes an empty `DnsCache`. Expiry is measured with the `Clock`.
+ */
+export function makeDnsCache(config: DnsCacheConfig = {}) {
+	const maxEntries = config.maxEntries ?? 10000;
+	// Ordered from the least to the most recently cached
+	const entries = new Map<string, Entry>();
+
+	const set = (key: string, answer: CachedAnswer, ttl: number) =>
+		Effect.gen(function* () {
+			const now = yield* Clock.currentTimeMillis;
+
+			// A zero TTL still replaces what was cached, which must not be used
+			entries.delete(key);
+
+			if (ttl > 0) {
+				entries.set(key, { answer, ttl, cachedAt: now });
+			}
+
+			if (entries.size <= maxEntries) {
+				return;
+			}
+
+			deleteExpired(now);
+
+			for (const key of entries.keys()) {
+				if (entries.size <= maxEntries) {
+					break;
+				}
+				entries.delete(key);
+			}
+		});
+
+	const deleteExpired = (now: number) => {
+		for (const [key, entry] of entries) {
+			if (isExpired(entry, now)) {
+				entries.delete(key);
+			}
+		}
+	};
+
+	const get = (key: string) =>
+		Effect.gen(function* () {
+			const now = yield* Clock.currentTimeMillis;
+			const entry = entries.get(key);
+
+			if (entry === undefined) {
+				return Option.none();
+			}
+
+			if (isExpired(entry, now)) {
+				entries.delete(key);
+				return Option.none();
+			}
+
+			return Option.some(decrementTtls(entry, now));
+		});
+
+	const evictExpired = Effect.map(Clock.currentTimeMillis, deleteExpired);
+
+	return DnsCache.of({
+		insert: (records) =>
+			Effect.forEach(
+				groupRRsets(records),
+				([key, rrset]) =>
+					Effect.gen(function* () {
+						const [{ name, class: rrclass }] = rrset;
+
+						// Data that exists replaces any negative answer
+						entries.delete(makeNameErrorKey(name, rrclass));
+
+						yield* set(
+							key,
+							{ _tag: "RRset", records: rrset },
+							Math.min(...rrset.map(({ ttl }) => ttl)),
+						);
+					}),
+				{ discard: true },
+			),
+		insertNameError: (name, rrclass, soa) =>
+			set(
+				makeNameErrorKey(name, rrclass),
+				{ _tag: "NameError", soa },
+				getNegativeTtl(soa),
+			),
+		insertNoData: (name, type, rrclass, soa) =>
+			set(
+				makeKey(name, type, rrclass),
+				{ _tag: "NoData", soa },
+				getNegativeTtl(soa),
+			),
+		lookup: (name, type, rrclass) =>
+			Effect.gen(function* () {
+				const nameError = yield* get(makeNameErrorKey(name, rrclass));
+
+				if (Option.isSome(nameError)) {
+					return nameError;
+				}
+
+				return yield* get(makeKey(name, type, rrclass));
+			}),
+		evictExpired,
+		size: Effect.sync(() => entries.size),
+	});
+}
+
+/**
+ * Names are cached case-insensitively, by their presentation format so that
+ * labels holding dots stay distinct.
+ */
+function makeKey(
+	name: Name,
+	type: ResourceRecordType,
+	rrclass: ResourceRecordClass,
+) {
+	return `${encodeSyncNameToString(name).toLowerCase()} ${rrclass} ${type}`;
+}
+
+function makeNameErrorKey(name: Name, rrclass: ResourceRecordClass) {
+	return `${encodeSyncNameToString(name).toLowerCase()} ${rrclass} *`;
+}
+
+function groupRRsets(records: ReadonlyArray<ResourceRecord>) {
+	const rrsets = new Map<string, [ResourceRecord, ...Array<ResourceRecord>]>();
+
+	for (const record of records) {
+		const key = makeKey(record.name, record.type, record.class);
+		const rrset = rrsets.get(key);
+
+		if (rrset === undefined) {
+			rrsets.set(key, [record]);
+		} else {
+			rrset.push(record);
+		}
+	}
+
+	return rrsets;
+}
+
+function getNegativeTtl(soa: ResourceRecordOf<"SOA">) {
+	return Math.min(soa.ttl, soa.rdata.minimum);
+}
+
+function isExpired(entry: Entry, now: number) {
+	return now - entry.cachedAt >= entry.ttl * 1000;
+}
+
+/**
+ * The cached answer with TTLs lowered by the whole seconds it has been
+ * cached for.
+ */
+function decrementTtls(entry: Entry, now: number): CachedAnswer {
+	const remaining = entry.ttl - Math.floor((now - entry.cachedAt) / 1000);
+
+	switch (entry.answer._tag) {
+		case "RRset": {
+			return {
+				_tag: "RRset",
+				records: entry.answer.records.map((record) => ({
+					...record,
+					ttl: remaining,
+				})),
+			};
+		}
+		case "NameError":
+		case "NoData": {
+			return {
+				...entry.answer,
+				soa: { ...entry.answer.soa, ttl: remaining },
+			};
+		}
+	}
+}
@@ -0,0 +1,466 @@
+import * as Dgram from "node:dgram";
+import * as Net from "node:net";
+import {
+	Context,
+	Data,
+	Deferred,
+	Duration,
+	Effect,
+	Exit,
+	Layer,
+	ParseResult,
+	Random,
+	Option,
+	Schedule,
+	Schema,
+	Stream,
+} from "effect";
+import { decodeHeaderFromUint8Array } from "./header";
+import { MessageFromUint8Array, type Message } from "./message";
+import { encodeSyncNameToString, nameEquals, type Name } from "./name";
+import { makeNotifyMessage } from "./notify";
+import { QTypeNameToQType, type Question } from "./question";
+import type { ResourceRecord, ResourceRecordOf } from "./resource-record";
+import { splitTcpFrames, Uint8ArrayFromTcpFrame } from "./tcp";
+
+export interface DnsClientConfig {
+	/** Address of the name server */
+	readonly address: string;
+	/** Defaults to 53 */
+	readonly port?: number;
+	/** How long to wait for a reply before retransmitting, defaults to 2 seconds */
+	readonly timeout?: Duration.DurationInput;
+	/** Retransmissions after the first query times out, defaults to 2 */
+	readonly retries?: number;
+	/**
+	 * Delay before the first retransmission, doubled for every later one.
+	 * Defaults to 100 millis.
+	 */
+	readonly backoff?: Duration.DurationInput;
+	/** Sets the RD bit of queries, defaults to true */
+	readonly recursionDesired?: boolean;
+	/**
+	 * Advertises this UDP payload size in an EDNS(0) OPT RR of the queries,
+	 * so that the name server can send replies longer than 512 bytes over
+	 * UDP. Queries carry no OPT RR by default.
+	 */
+	readonly udpPayloadSize?: number;
+}
+
+export class DnsClientError extends Data.TaggedError("DnsClientError")<{
+	readonly reason: "Timeout" | "Transport" | "InvalidResponse";
+	readonly message: string;
+	readonly cause?: unknown;
+}> {}
+
+/**
+ * 4.2.1. UDP usage
+ *
+ * Messages sent using UDP user server port 53 (decimal). Messages carried
+ * by UDP are restricted to 512 bytes (not counting the IP or UDP headers).
+ *
+ * The optimal UDP retransmission policy will vary with performance of the
+ * Internet and the needs of the client, but the following are recommended:
+ *
+ *    - The client should try other servers and server addresses
+ *      before repeating a query to a specific address of a server.
+ *
+ *    - The retransmission interval should be based on prior
+ *      statistics if possible.  Too aggressive retransmission can
+ *      easily slow responses for the community at large.  Depending
+ *      on how well connected the client is to its expected servers,
+ *      the minimum retransmission interval should be 2-5 seconds.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-4.2.1
+ */
+export class DnsClient extends Context.Tag("DnsClient")<
+	DnsClient,
+	{
+		/**
+		 * Sends `question` to the name server and returns the reply whose ID
+		 * matches the query. When the reply over UDP is truncated, the query
+		 * is repeated over TCP to get the complete reply.
+		 */
+		readonly query: (
+			question: Question,
+		) => Effect.Effect<Message, DnsClientError | ParseResult.ParseError>;
+		/**
+		 * Transfers every RR of the zone at `origin` from the name server over
+		 * TCP. The SOA RR of the zone comes first and is not repeated at the
+		 * end.
+		 */
+		readonly transferZone: (
+			origin: Name,
+		) => Effect.Effect<
+			ReadonlyArray<ResourceRecord>,
+			DnsClientError | ParseResult.ParseError
+		>;
+		/**
+		 * Tells the name server, a slave of the zone at `zone`, that the zone
+		 * changed, hinting at its new SOA RR if given. Returns the response of
+		 * the name server.
+		 */
+		readonly notify: (
+			zone: Name,
+			soa?: ResourceRecordOf<"SOA">,
+		) => Effect.Effect<Message, DnsClientError | ParseResult.ParseError>;
+	}
+>() {
+	static readonly layer = (config: DnsClientConfig) =>
+		Layer.scoped(DnsClient, makeDnsClient(config));
+}
+
+/**
+ * Makes a `DnsClient` sending queries from a UDP socket, which is closed
+ * when the scope is.
+ */
+export const makeDnsClient = (config: DnsClientConfig) =>
+	Effect.gen(function* () {
+		const port = config.port ?? 53;
+		const timeout = Duration.decode(config.timeout ?? "2 seconds");
+		const schedule = Schedule.exponential(config.backoff ?? "100 millis").pipe(
+			Schedule.intersect(Schedule.recurs(config.retries ?? 2)),
+		);
+
+		// Outstanding queries by their ID
+		const pending = new Map<
+			number,
+			Deferred.Deferred<Uint8Array, DnsClientError>
+		>();
+
+		const socket = yield* Effect.acquireRelease(
+			Effect.sync(() =>
+				Dgram.createSocket(Net.isIPv6(config.address) ? "udp6" : "udp4"),
+			),
+			(socket) =>
+				Effect.async<void>((resume) => {
+					socket.close(() => resume(Effect.void));
+				}),
+		);
+
+		socket.on("message", (buffer, remote) => {
+			// Only the queried server may answer
+			if (
+				remote.port !== port ||
+				(Net.isIP(config.address) !== 0 && remote.address !== config.address) ||
+				buffer.byteLength < 2
+			) {
+				return;
+			}
+
+			const id = buffer.readUInt16BE(0);
+			const deferred = pending.get(id);
+
+			if (deferred !== undefined) {
+				pending.delete(id);
+				Deferred.unsafeDone(deferred, Exit.succeed(new Uint8Array(buffer)));
+			}
+		});
+
+		socket.on("error", (cause) => {
+			for (const deferred of pending.values()) {
+				Deferred.unsafeDone(deferred, Exit.fail(transportError(cause)));
+			}
+
+			pending.clear();
+		});
+
+		const send = (uint8Array: Uint8Array) =>
+			Effect.async<void, DnsClientError>((resume) => {
+				socket.send(uint8Array, port, config.address, (cause) => {
+					resume(
+						cause === null ? Effect.void : Effect.fail(transportError(cause)),
+					);
+				});
+			});
+
+		// Picks an ID that does not belong to an outstanding query
+		const nextId: Effect.Effect<number> = Effect.flatMap(
+			Random.nextIntBetween(0, 65536),
+			(id) => (pending.has(id) ? nextId : Effect.succeed(id)),
+		);
+
+		// Sends the request over UDP until the reply with the same ID arrives
+		const exchange = (uint8Array: Uint8Array, id: number) =>
+			Effect.gen(function* () {
+				const deferred = yield* Deferred.make<Uint8Array, DnsClientError>();
+				pending.set(id, deferred);
+
+				// A late reply to an earlier transmission still completes the request
+				return yield* send(uint8Array).pipe(
+					Effect.zipRight(
+						Deferred.await(deferred).pipe(
+							Effect.timeoutFail({ duration: timeout, onTimeout }),
+						),
+					),
+					Effect.retry({
+						schedule,
+						while: (error) => error.reason === "Timeout",
+					}),
+					Effect.ensuring(Effect.sync(() => pending.delete(id))),
+				);
+			});
+
+		const query = (question: Question) =>
+			Effect.gen(function* () {
+				const id = yield* nextId;
+				const uint8Array = yield* encodeQuery(id, question);
+				const reply = yield* exchange(uint8Array, id);
+
+				const header = yield* decodeHeaderFromUint8Array(reply.subarray(0, 12));
+
+				// The reply was truncated, repeat the query over TCP to get all of it
+				const message = yield* Schema.decode(MessageFromUint8Array)(
+					header.tc === 1 ? yield* queryOverTcp(uint8Array, id) : reply,
+				);
+
+				return yield* checkReply(message, question);
+			});
+
+		const encodeQuery = (id: number, question: Question) =>
+			Schema.encode(MessageFromUint8Array)({
+				header: {
+					id,
+					qr: 0,
+					opcode: "QUERY",
+					aa: 0,
+					tc: 0,
+					rd: config.recursionDesired === false ? 0 : 1,
+					ra: 0,
+					z: 0,
+					rcode: "NOERROR",
+					qdcount: 1,
+					ancount: 0,
+					nscount: 0,
+					arcount: 0,
+				},
+				question: [question],
+				answer: [],
+				authority: [],
+				additional: [],
+				...(config.udpPayloadSize === undefined
+					? {}
+					: {
+							opt: {
+								udpPayloadSize: config.udpPayloadSize,
+								version: 0,
+								dnssecOk: 0,
+								options: [],
+							},
+						}),
+			});
+
+		/**
+		 * 4.2.2. TCP usage
+		 *
+		 * Sends the query over a new TCP connection, which is closed with the
+		 * scope, and returns the stream of replies with the same ID.
+		 */
+		const sendOverTcp = (uint8Array: Uint8Array, id: number) =>
+			Effect.gen(function* () {
+				const connection = yield* Effect.acquireRelease(
+					Effect.async<Net.Socket, DnsClientError>((resume) => {
+						const connection = Net.connect(port, config.address);
+
+						connection.once("connect", () =>
+							resume(Effect.succeed(connection)),
+						);
+						connection.once("error", (cause) =>
+							resume(Effect.fail(transportError(cause))),
+						);
+					}),
+					(connection) => Effect.sync(() => connection.destroy()),
+				);
+
+				const frame = yield* Schema.encode(Uint8ArrayFromTcpFrame)(uint8Array);
+
+				yield* Effect.async<void, DnsClientError>((resume) => {
+					connection.write(frame, (cause) =>
+						resume(
+							cause == null ? Effect.void : Effect.fail(transportError(cause)),
+						),
+					);
+				});
+
+				// The connection is paused until data is listened for
+				return Stream.async<Uint8Array, DnsClientError>((emit) => {
+					connection.on("data", (buffer: Buffer) =>
+						emit.single(new Uint8Array(buffer)),
+					);
+					connection.on("end", () => emit.end());
+					connection.on("error", (cause) => emit.fail(transportError(cause)));
+				}).pipe(
+					splitTcpFrames,
+					Stream.mapEffect(Schema.decode(Uint8ArrayFromTcpFrame)),
+					Stream.filter(
+						(message) =>
+							message.byteLength >= 2 &&
+							new DataView(
+								message.buffer,
+								message.byteOffset,
+								message.byteLength,
+							).getUint16(0) === id,
+					),
+					// Waits at most the timeout for each reply
+					Stream.timeoutFail(onTimeout, timeout),
+				);
+			});
+
+		const queryOverTcp = (uint8Array: Uint8Array, id: number) =>
+			Effect.gen(function* () {
+				const reply = yield* Stream.runHead(yield* sendOverTcp(uint8Array, id));
+
+				if (Option.isNone(reply)) {
+					return yield* new DnsClientError({
+						reason: "Transport",
+						message: `Connection to ${config.address}:${port} closed without a reply`,
+					});
+				}
+
+				return reply.value;
+			}).pipe(Effect.scoped);
+
+		/**
+		 * 2.2. AXFR Response
+		 *
+		 * The AXFR response will consist of one or more messages. The first
+		 * message MUST begin with the SOA resource record of the zone, and the
+		 * last message MUST conclude with the same SOA resource record.
+		 *
+		 * @see https://www.rfc-editor.org/rfc/rfc5936.html#section-2.2
+		 */
+		const transferZone = (origin: Name) =>
+			Effect.gen(function* () {
+				const zone = encodeSyncNameToString(origin);
+				const id = yield* nextId;
+				const uint8Array = yield* encodeQuery(id, {
+					qname: origin,
+					qtype: QTypeNameToQType.AXFR,
+					qclass: 1,
+				});
+
+				const invalidResponse = (message: string) =>
+					new DnsClientError({
+						reason: "InvalidResponse",
+						message: `Transfer of '${zone}' ${message}`,
+					});
+
+				const records: Array<ResourceRecord> = [];
+
+				yield* (yield* sendOverTcp(uint8Array, id)).pipe(
+					Stream.mapEffect(Schema.decode(MessageFromUint8Array)),
+					Stream.mapEffect((message) =>
+						message.header.rcode === "NOERROR"
+							? Effect.succeed(message.answer)
+							: invalidResponse(`failed with ${message.header.rcode}`),
+					),
+					Stream.flattenIterables,
+					Stream.runForEachWhile((record) => {
+						if (records.length === 0) {
+							if (record.type !== "SOA" || !nameEquals(record.name, origin)) {
+								return invalidResponse("did not begin with its SOA RR");
+							}
+
+							records.push(record);
+							return Effect.succeed(true);
+						}
+
+						records.push(record);
+
+						// The SOA RR that began the transfer ends it
+						return Effect.succeed(record.type !== "SOA");
+					}),
+				);
+
+				const [openingSoa] = records;
+				const closingSoa = records.length > 1 ? records.pop() : undefined;
+
+				if (
+					openingSoa?.type !== "SOA" ||
+					closingSoa?.type !== "SOA" ||
+					!nameEquals(closingSoa.name, origin) ||
+					closingSoa.rdata.serial !== openingSoa.rdata.serial
+				) {
+					return yield* invalidResponse(
+						"did not end with the SOA RR it began with",
+					);
+				}
+
+				return records;
+			}).pipe(Effect.scoped);
+
+		// Retransmitted over UDP like queries until the slave responds
+		const notify = (zone: Name, soa?: ResourceRecordOf<"SOA">) =>
+			Effect.gen(function* () {
+				const id = yield* nextId;
+				const uint8Array = yield* Schema.encode(MessageFromUint8Array)(
+					makeNotifyMessage({
+						id,
+						zone,
+						...(soa === undefined ? {} : { soa }),
+					}),
+				);
+
+				return yield* Schema.decode(MessageFromUint8Array)(
+					yield* exchange(uint8Array, id),
+				);
+			});
+
+		/**
+		 * RFC 5452: Measures for Making DNS More Resilient against Forged
+		 * Answers
+		 *
+		 * Besides coming from the queried address and port with the ID of the
+		 * query, a reply must be a response whose question section is the one
+		 * of the query.
+		 *
+		 * @see https://www.rfc-editor.org/rfc/rfc5452.html#section-4.1
+		 * @see https://www.rfc-editor.org/rfc/rfc5452.html#section-9.1
+		 */
+		function checkReply(message: Message, question: Question) {
+			const [echoed] = message.question;
+
+			if (message.header.qr !== 1) {
+				return Effect.fail(
+					new DnsClientError({
+						reason: "InvalidResponse",
+						message: `Reply from ${config.address}:${port} is not a response`,
+					}),
+				);
+			}
+
+			if (
+				message.question.length !== 1 ||
+				echoed === undefined ||
+				!nameEquals(echoed.qname, question.qname) ||
+				echoed.qtype !== question.qtype ||
+				echoed.qclass !== question.qclass
+			) {
+				return Effect.fail(
+					new DnsClientError({
+						reason: "InvalidResponse",
+						message: `Reply from ${config.address}:${port} does not echo the question of the query`,
+					}),
+				);
+			}
+
+			return Effect.succeed(message);
+		}
+
+		function onTimeout() {
+			return new DnsClientError({
+				reason: "Timeout",
+				message: `No reply from ${config.address}:${port} within ${Duration.format(timeout)}`,
+			});
+		}
+
+		return DnsClient.of({ query, transferZone, notify });
+	});
+
+function transportError(cause: Error) {
+	return new DnsClientError({
+		reason: "Transport",
+		message: cause.message,
+		cause,
+	});
+}
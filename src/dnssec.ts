@@ -0,0 +1,699 @@
+import { Clock, Data, Effect, Encoding, ParseResult, Schema } from "effect";
+import type { EncodedName } from "./name";
+import { isSubdomain, nameEquals } from "./name";
+import {
+	encodeResourceRecordToDnsPacketWriter,
+	getRRClass,
+	getRRType,
+	ResourceRecord,
+	type EncodedResourceRecord,
+	type ResourceRecordOf,
+} from "./resource-record";
+import { encodeRDataToDnsPacketWriter, isUnknownResourceRecord } from "./rdata";
+import { DnsPacketWriter } from "./types";
+import { compareBytes, equalBytes, serialGreaterThan } from "./utils";
+
+export class DnssecError extends Data.TaggedError("DnssecError")<{
+	readonly reason:
+		| "UnsupportedAlgorithm"
+		| "InvalidRRset"
+		| "KeyMismatch"
+		| "SignatureExpired"
+		| "SignatureNotYetValid"
+		| "InvalidKey"
+		| "BogusSignature"
+		| "BogusDigest";
+	readonly message: string;
+}> {}
+
+/**
+ * DNSSEC algorithm numbers the validator can verify signatures of.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc8624.html#section-3.1
+ */
+export const DnssecAlgorithmNameToAlgorithm = {
+	RSASHA256: 8,
+	ECDSAP256SHA256: 13,
+	ED25519: 15,
+} as const;
+
+/**
+ * DS digest types the validator can check.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc8624.html#section-3.3
+ */
+export const DigestTypeNameToDigestType = {
+	"SHA-1": 1,
+	"SHA-256": 2,
+	"SHA-384": 4,
+} as const;
+
+type DNSKEYRecord = ResourceRecordOf<"DNSKEY">;
+type RRSIGRecord = ResourceRecordOf<"RRSIG">;
+type DSRecord = ResourceRecordOf<"DS">;
+
+/**
+ * Appendix B. Key Tag Calculation
+ *
+ * The key tag is the same for a given DNSKEY RR's RDATA regardless of the
+ * algorithm, except for algorithm 1 (RSA/MD5), which is not supported.
+ *
+ *    ac += (i & 1) ? key[i] : key[i] << 8;
+ *    ac += (ac >> 16) & 0xFFFF;
+ *    return ac & 0xFFFF;
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc4034.html#appendix-B
+ */
+export function computeKeyTag(rdata: DNSKEYRecord["rdata"]) {
+	const key = encodeDNSKEYRData(rdata);
+
+	let ac = 0;
+	for (let i = 0; i < key.byteLength; i++) {
+		ac += i & 1 ? (key[i] ?? 0) : (key[i] ?? 0) << 8;
+	}
+	ac += (ac >> 16) & 0xffff;
+
+	return ac & 0xffff;
+}
+
+/**
+ * 6.2. Canonical RR Form
+ *
+ * For the purposes of DNS security, the canonical form of an RR is the
+ * wire format of the RR where:
+ *
+ *    1.  every domain name in the RR is fully expanded (no DNS name
+ *        compression) and fully qualified;
+ *
+ *    2.  all uppercase US-ASCII letters in the owner name of the RR are
+ *        replaced by the corresponding lowercase US-ASCII letters;
+ *
+ *    3.  if the type of the RR is NS, MD, MF, CNAME, SOA, MB, MG, MR, PTR,
+ *        HINFO, MINFO, MX, HINFO, RP, AFSDB, RT, SIG, PX, NXT, NAPTR, KX,
+ *        SRV, DNAME, A6, RRSIG, or NSEC, all uppercase US-ASCII letters in
+ *        the DNS names contained within the RDATA are replaced by the
+ *        corresponding lowercase US-ASCII letters;
+ *
+ *    4.  if the owner name of the RR is a wildcard name, the owner name is
+ *        in its original unexpanded form, including the "*" label (no
+ *        wildcard substitution); and
+ *
+ *    5.  the RR's TTL is set to its original value as it appears in the
+ *        originating authoritative zone or the Original TTL field of the
+ *        covering RRSIG RR.
+ *
+ * NSEC is left out of item 3, as corrected by RFC 6840 5.1.
+ *
+ * 6.3. Canonical RR Ordering within an RRset
+ *
+ * RRs with the same owner name, class, and type are sorted by treating the
+ * RDATA portion of the canonical form of each RR as a left-justified
+ * unsigned octet sequence in which the absence of an octet sorts before a
+ * zero octet. Duplicate RRs are removed.
+ *
+ * When `rrsig` is given, the TTLs are its Original TTL and owner names
+ * with more labels than its Labels field are replaced by the wildcard they
+ * were expanded from (RFC 4035 5.3.2).
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc4034.html#section-6
+ */
+export const canonicalizeRRset = (
+	rrset: ReadonlyArray<ResourceRecord>,
+	rrsig?: RRSIGRecord["rdata"],
+): Effect.Effect<Array<Uint8Array>, ParseResult.ParseError> =>
+	Effect.gen(function* () {
+		const canonical: Array<{ wire: Uint8Array; rdata: Uint8Array }> = [];
+
+		for (const resourceRecord of rrset) {
+			const encoded = yield* Schema.encode(ResourceRecord)(resourceRecord);
+
+			let labels = encoded.name.labels.map(lowercaseLabel);
+			if (rrsig !== undefined && labels.length > rrsig.labels) {
+				labels = [
+					WILDCARD_LABEL,
+					...labels.slice(labels.length - rrsig.labels),
+				];
+			}
+
+			const name = makeEncodedName(labels);
+			const writer = DnsPacketWriter.make();
+
+			yield* encodeResourceRecordToDnsPacketWriter(
+				writer,
+				{
+					...lowercaseRDataNames(encoded),
+					name,
+					ttl: rrsig?.originalTtl ?? encoded.ttl,
+				},
+				ResourceRecord.ast,
+			).pipe(Effect.mapError(ParseResult.parseError));
+
+			const wire = DnsPacketWriter.toUint8Array(writer);
+
+			// NAME, 2 bytes type, 2 bytes class, 4 bytes ttl, 2 bytes rdlength
+			canonical.push({
+				wire,
+				rdata: wire.subarray(name.encodedByteLength + 10),
+			});
+		}
+
+		canonical.sort((a, b) => compareBytes(a.rdata, b.rdata));
+
+		return canonical
+			.filter((rr, idx) => {
+				const previous = canonical[idx - 1];
+
+				return previous === undefined || !equalBytes(rr.rdata, previous.rdata);
+			})
+			.map((rr) => rr.wire);
+	});
+
+/**
+ * 5.3.1. Checking the RRSIG RR Validity
+ *
+ * A security-aware resolver can use an RRSIG RR to authenticate an RRset
+ * if all of the following conditions hold:
+ *
+ *    o  The RRSIG RR and the RRset MUST have the same owner name and the
+ *       same class.
+ *
+ *    o  The RRSIG RR's Signer's Name field MUST be the name of the zone
+ *       that contains the RRset.
+ *
+ *    o  The RRSIG RR's Type Covered field MUST equal the RRset's type.
+ *
+ *    o  The number of labels in the RRset owner name MUST be greater than
+ *       or equal to the value in the RRSIG RR's Labels field.
+ *
+ *    o  The validator's notion of the current time MUST be less than or
+ *       equal to the time listed in the RRSIG RR's Expiration field.
+ *
+ *    o  The validator's notion of the current time MUST be greater than or
+ *       equal to the time listed in the RRSIG RR's Inception field.
+ *
+ *    o  The RRSIG RR's Signer's Name, Algorithm, and Key Tag fields MUST
+ *       match the owner name, algorithm, and key tag for some DNSKEY RR in
+ *       the zone's apex DNSKEY RRset.
+ *
+ *    o  The matching DNSKEY RR MUST be present in the zone's apex DNSKEY
+ *       RRset, and MUST have the Zone Flag bit (DNSKEY RDATA Flag bit 7)
+ *       set.
+ *
+ * 5.3.2. Reconstructing the Signed Data
+ *
+ *    signed_data = RRSIG_RDATA | RR(1) | RR(2)...
+ *
+ * where RRSIG_RDATA is the wire format of the RRSIG RDATA fields with the
+ * Signer's Name field in canonical form and the Signature field excluded.
+ *
+ * The current time is read from the `Clock`. Signatures can be verified
+ * for RSA/SHA-256, ECDSA P-256 with SHA-256 and Ed25519.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc4035.html#section-5.3
+ */
+export const verifyRRSIG = (
+	rrset: ReadonlyArray<ResourceRecord>,
+	rrsig: RRSIGRecord,
+	dnskey: DNSKEYRecord,
+): Effect.Effect<void, DnssecError | ParseResult.ParseError> =>
+	Effect.gen(function* () {
+		const [first] = rrset;
+
+		if (first === undefined) {
+			return yield* invalidRRset("The RRset must not be empty");
+		}
+
+		const type = getRRType(first.type);
+		const rrClass = getRRClass(first.class);
+
+		for (const resourceRecord of rrset) {
+			if (
+				!nameEquals(resourceRecord.name, first.name) ||
+				getRRType(resourceRecord.type) !== type ||
+				getRRClass(resourceRecord.class) !== rrClass
+			) {
+				return yield* invalidRRset(
+					"The RRs of an RRset must share their owner name, type and class",
+				);
+			}
+		}
+
+		if (
+			!nameEquals(rrsig.name, first.name) ||
+			getRRClass(rrsig.class) !== rrClass ||
+			rrsig.rdata.typeCovered !== type
+		) {
+			return yield* invalidRRset(
+				"The RRSIG RR must have the owner name, class and covered type of the RRset",
+			);
+		}
+
+		if (!isSubdomain(first.name, rrsig.rdata.signerName)) {
+			return yield* invalidRRset(
+				"The RRSIG RR's Signer's Name must be the zone containing the RRset",
+			);
+		}
+
+		const ownerLabels = first.name.labels.filter(
+			(label, idx) => idx !== 0 || label !== "*",
+		).length;
+
+		if (ownerLabels < rrsig.rdata.labels) {
+			return yield* invalidRRset(
+				`The owner name has ${ownerLabels} labels, fewer than the RRSIG RR's Labels field ${rrsig.rdata.labels}`,
+			);
+		}
+
+		const now = Math.floor((yield* Clock.currentTimeMillis) / 1000);
+
+		if (serialGreaterThan(now, rrsig.rdata.signatureExpiration)) {
+			return yield* new DnssecError({
+				reason: "SignatureExpired",
+				message: `The signature expired at ${rrsig.rdata.signatureExpiration}`,
+			});
+		}
+
+		if (serialGreaterThan(rrsig.rdata.signatureInception, now)) {
+			return yield* new DnssecError({
+				reason: "SignatureNotYetValid",
+				message: `The signature is valid from ${rrsig.rdata.signatureInception}`,
+			});
+		}
+
+		if (
+			!nameEquals(dnskey.name, rrsig.rdata.signerName) ||
+			getRRClass(dnskey.class) !== rrClass ||
+			dnskey.rdata.algorithm !== rrsig.rdata.algorithm ||
+			computeKeyTag(dnskey.rdata) !== rrsig.rdata.keyTag
+		) {
+			return yield* new DnssecError({
+				reason: "KeyMismatch",
+				message:
+					"The DNSKEY RR must match the RRSIG RR's Signer's Name, Algorithm and Key Tag",
+			});
+		}
+
+		if (
+			(dnskey.rdata.flags & ZONE_KEY_FLAG) === 0 ||
+			dnskey.rdata.protocol !== 3
+		) {
+			return yield* new DnssecError({
+				reason: "KeyMismatch",
+				message: "The DNSKEY RR must be a zone key with protocol 3",
+			});
+		}
+
+		const { signature, ...fields } = rrsig.rdata;
+		const rrsigRData = yield* encodeCanonicalRData({
+			...rrsig,
+			rdata: { ...fields, signature: new Uint8Array() },
+		});
+		const rrs = yield* canonicalizeRRset(rrset, rrsig.rdata);
+		const signedData = concatOctets([rrsigRData, ...rrs]);
+
+		const verified = yield* verifySignature(
+			dnskey.rdata,
+			signature.slice(),
+			signedData,
+		);
+
+		if (!verified) {
+			return yield* new DnssecError({
+				reason: "BogusSignature",
+				message: "The signature does not verify with the DNSKEY RR",
+			});
+		}
+	});
+
+/**
+ * 5.1.4. The Digest Field
+ *
+ * The digest is calculated by concatenating the canonical form of the
+ * fully qualified owner name of the DNSKEY RR with the DNSKEY RDATA, and
+ * then applying the digest algorithm.
+ *
+ *    digest = digest_algorithm( DNSKEY owner name | DNSKEY RDATA);
+ *
+ * Digests can be checked for SHA-1, SHA-256 and SHA-384.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc4034.html#section-5.1.4
+ */
+export const verifyDS = (
+	dnskey: DNSKEYRecord,
+	ds: DSRecord,
+): Effect.Effect<void, DnssecError | ParseResult.ParseError> =>
+	Effect.gen(function* () {
+		if (
+			!nameEquals(dnskey.name, ds.name) ||
+			dnskey.rdata.algorithm !== ds.rdata.algorithm ||
+			computeKeyTag(dnskey.rdata) !== ds.rdata.keyTag
+		) {
+			return yield* new DnssecError({
+				reason: "KeyMismatch",
+				message:
+					"The DNSKEY RR must match the DS RR's owner name, Algorithm and Key Tag",
+			});
+		}
+
+		const hash = DIGEST_TYPES.get(ds.rdata.digestType);
+
+		if (hash === undefined) {
+			return yield* new DnssecError({
+				reason: "UnsupportedAlgorithm",
+				message: `Unsupported DS digest type ${ds.rdata.digestType}`,
+			});
+		}
+
+		const encoded = yield* Schema.encode(ResourceRecord)(dnskey);
+		const owner = makeEncodedName(encoded.name.labels.map(lowercaseLabel));
+
+		const digest = yield* subtle((subtle) =>
+			subtle.digest(
+				hash,
+				concatOctets([
+					...owner.labels.flatMap((label) => [
+						Uint8Array.of(label.byteLength),
+						label,
+					]),
+					Uint8Array.of(0),
+					encodeDNSKEYRData(dnskey.rdata),
+				]),
+			),
+		);
+
+		if (!equalBytes(new Uint8Array(digest), ds.rdata.digest)) {
+			return yield* new DnssecError({
+				reason: "BogusDigest",
+				message: "The DS RR's digest does not match the DNSKEY RR",
+			});
+		}
+	});
+
+const ZONE_KEY_FLAG = 0x0100;
+
+const WILDCARD_LABEL = Uint8Array.of(0x2a);
+
+const DIGEST_TYPES = new Map<number, string>([
+	[DigestTypeNameToDigestType["SHA-1"], "SHA-1"],
+	[DigestTypeNameToDigestType["SHA-256"], "SHA-256"],
+	[DigestTypeNameToDigestType["SHA-384"], "SHA-384"],
+]);
+
+const invalidRRset = (message: string) =>
+	new DnssecError({ reason: "InvalidRRset", message });
+
+function lowercaseLabel(label: Uint8Array) {
+	return label.map((byte) =>
+		byte >= 0x41 && byte <= 0x5a ? byte | 0x20 : byte,
+	);
+}
+
+function makeEncodedName(labels: Array<Uint8Array>): EncodedName {
+	return {
+		labels,
+		encodedByteLength: labels.reduce(
+			(length, label) => length + 1 + label.byteLength,
+			1,
+		),
+	};
+}
+
+// NS, MD, MF, CNAME, SOA, MB, MG, MR, PTR, MINFO, MX, SRV, RRSIG
+function lowercaseRDataNames(
+	resourceRecord: EncodedResourceRecord,
+): EncodedResourceRecord {
+	if (isUnknownResourceRecord(resourceRecord)) {
+		return resourceRecord;
+	}
+
+	switch (resourceRecord.type) {
+		case 2: {
+			const { rdata } = resourceRecord;
+
+			return {
+				...resourceRecord,
+				rdata: { nsdname: lowercaseName(rdata.nsdname) },
+			};
+		}
+		case 3:
+		case 4:
+		case 7: {
+			const { rdata } = resourceRecord;
+
+			return {
+				...resourceRecord,
+				rdata: { madname: lowercaseName(rdata.madname) },
+			};
+		}
+		case 5: {
+			const { rdata } = resourceRecord;
+
+			return {
+				...resourceRecord,
+				rdata: { cname: lowercaseName(rdata.cname) },
+			};
+		}
+		case 6: {
+			const { rdata } = resourceRecord;
+
+			return {
+				...resourceRecord,
+				rdata: {
+					...rdata,
+					mname: lowercaseName(rdata.mname),
+					rname: lowercaseName(rdata.rname),
+				},
+			};
+		}
+		case 8: {
+			const { rdata } = resourceRecord;
+
+			return {
+				...resourceRecord,
+				rdata: { mgmname: lowercaseName(rdata.mgmname) },
+			};
+		}
+		case 9: {
+			const { rdata } = resourceRecord;
+
+			return {
+				...resourceRecord,
+				rdata: { newname: lowercaseName(rdata.newname) },
+			};
+		}
+		case 12: {
+			const { rdata } = resourceRecord;
+
+			return {
+				...resourceRecord,
+				rdata: { ptrdname: lowercaseName(rdata.ptrdname) },
+			};
+		}
+		case 14: {
+			const { rdata } = resourceRecord;
+
+			return {
+				...resourceRecord,
+				rdata: {
+					rmailbx: lowercaseName(rdata.rmailbx),
+					emailbx: lowercaseName(rdata.emailbx),
+				},
+			};
+		}
+		case 15: {
+			const { rdata } = resourceRecord;
+
+			return {
+				...resourceRecord,
+				rdata: { ...rdata, exchange: lowercaseName(rdata.exchange) },
+			};
+		}
+		case 33: {
+			const { rdata } = resourceRecord;
+
+			return {
+				...resourceRecord,
+				rdata: { ...rdata, target: lowercaseName(rdata.target) },
+			};
+		}
+		case 46: {
+			const { rdata } = resourceRecord;
+
+			return {
+				...resourceRecord,
+				rdata: { ...rdata, signerName: lowercaseName(rdata.signerName) },
+			};
+		}
+		default:
+			return resourceRecord;
+	}
+}
+
+function lowercaseName(name: EncodedName): EncodedName {
+	return makeEncodedName(name.labels.map(lowercaseLabel));
+}
+
+const encodeCanonicalRData = (resourceRecord: ResourceRecord) =>
+	Effect.gen(function* () {
+		const encoded = yield* Schema.encode(ResourceRecord)(resourceRecord);
+		const writer = DnsPacketWriter.make();
+
+		yield* encodeRDataToDnsPacketWriter(
+			writer,
+			lowercaseRDataNames(encoded),
+			ResourceRecord.ast,
+		).pipe(Effect.mapError(ParseResult.parseError));
+
+		return DnsPacketWriter.toUint8Array(writer);
+	});
+
+function encodeDNSKEYRData(rdata: DNSKEYRecord["rdata"]) {
+	const out = new Uint8Array(4 + rdata.publicKey.byteLength);
+	const dataView = new DataView(out.buffer);
+
+	dataView.setUint16(0, rdata.flags);
+	dataView.setUint8(2, rdata.protocol);
+	dataView.setUint8(3, rdata.algorithm);
+	out.set(rdata.publicKey, 4);
+
+	return out;
+}
+
+function concatOctets(chunks: ReadonlyArray<Uint8Array>) {
+	const out = new Uint8Array(
+		chunks.reduce((length, chunk) => length + chunk.byteLength, 0),
+	);
+
+	let offset = 0;
+	for (const chunk of chunks) {
+		out.set(chunk, offset);
+		offset += chunk.byteLength;
+	}
+
+	return out;
+}
+
+const subtle = <A>(f: (subtle: SubtleCrypto) => Promise<A>) =>
+	Effect.tryPromise({
+		try: () => f(globalThis.crypto.subtle),
+		catch: (cause) =>
+			new DnssecError({
+				reason: "InvalidKey",
+				message: `WebCrypto rejected the key: ${String(cause)}`,
+			}),
+	});
+
+function verifySignature(
+	rdata: DNSKEYRecord["rdata"],
+	signature: Uint8Array<ArrayBuffer>,
+	data: Uint8Array<ArrayBuffer>,
+): Effect.Effect<boolean, DnssecError> {
+	return Effect.gen(function* () {
+		switch (rdata.algorithm) {
+			case DnssecAlgorithmNameToAlgorithm.RSASHA256: {
+				const algorithm = { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" };
+				const jwk = yield* parseRsaPublicKey(rdata.publicKey);
+				const key = yield* subtle((subtle) =>
+					subtle.importKey("jwk", jwk, algorithm, false, ["verify"]),
+				);
+
+				return yield* subtle((subtle) =>
+					subtle.verify(algorithm, key, signature, data),
+				);
+			}
+			case DnssecAlgorithmNameToAlgorithm.ECDSAP256SHA256: {
+				// RFC 6605 4: the public key is Q as x | y, 32 octets each
+				if (rdata.publicKey.byteLength !== 64) {
+					return yield* new DnssecError({
+						reason: "InvalidKey",
+						message: `ECDSA P-256 public keys must be 64 bytes, received ${rdata.publicKey.byteLength}`,
+					});
+				}
+
+				const key = yield* subtle((subtle) =>
+					subtle.importKey(
+						"raw",
+						concatOctets([Uint8Array.of(0x04), rdata.publicKey]),
+						{ name: "ECDSA", namedCurve: "P-256" },
+						false,
+						["verify"],
+					),
+				);
+
+				// The signature is r | s, as WebCrypto expects
+				return yield* subtle((subtle) =>
+					subtle.verify(
+						{ name: "ECDSA", hash: "SHA-256" },
+						key,
+						signature,
+						data,
+					),
+				);
+			}
+			case DnssecAlgorithmNameToAlgorithm.ED25519: {
+				const key = yield* subtle((subtle) =>
+					subtle.importKey(
+						"raw",
+						rdata.publicKey.slice(),
+						{ name: "Ed25519" },
+						false,
+						["verify"],
+					),
+				);
+
+				return yield* subtle((subtle) =>
+					subtle.verify({ name: "Ed25519" }, key, signature, data),
+				);
+			}
+			default:
+				return yield* new DnssecError({
+					reason: "UnsupportedAlgorithm",
+					message: `Unsupported DNSSEC algorithm ${rdata.algorithm}`,
+				});
+		}
+	});
+}
+
+/**
+ * 2. RSA Public KEY Resource Records
+ *
+ *    Field             Size
+ *    -----             ----
+ *    exponent length   1 or 3 octets (see text)
+ *    exponent          as specified by length field
+ *    modulus           remaining space
+ *
+ * The exponent length is a single octet, or a zero octet followed by a
+ * two octet length.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc3110.html#section-2
+ */
+function parseRsaPublicKey(
+	publicKey: Uint8Array,
+): Effect.Effect<
+	{ readonly kty: "RSA"; readonly e: string; readonly n: string },
+	DnssecError
+> {
+	const long = publicKey[0] === 0;
+	const offset = long ? 3 : 1;
+	const exponentLength = long
+		? ((publicKey[1] ?? 0) << 8) | (publicKey[2] ?? 0)
+		: (publicKey[0] ?? 0);
+
+	if (exponentLength === 0 || offset + exponentLength >= publicKey.byteLength) {
+		return Effect.fail(
+			new DnssecError({
+				reason: "InvalidKey",
+				message: "The RSA public key is truncated",
+			}),
+		);
+	}
+
+	return Effect.succeed({
+		kty: "RSA",
+		e: Encoding.encodeBase64Url(
+			publicKey.subarray(offset, offset + exponentLength),
+		),
+		n: Encoding.encodeBase64Url(publicKey.subarray(offset + exponentLength)),
+	});
+}
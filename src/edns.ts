@@ -0,0 +1,578 @@
+import { Effect, ParseResult, Schema, SchemaAST } from "effect";
+import { Ipv4Address, Ipv6Address } from "./rdata";
+import { Bit, DnsPacketCursor, DnsPacketWriter, Uint16, Uint8 } from "./types";
+import {
+	equalBytes,
+	getUint16,
+	getUint32,
+	getUint8,
+	setUint16,
+	setUint32,
+} from "./utils";
+
+/**
+ * 6.1.1. Basic Elements
+ *
+ * An OPT pseudo-RR (sometimes called a meta-RR) MAY be added to the
+ * additional data section of a request.
+ *
+ * The OPT RR has RR type 41.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc6891.html#section-6.1.1
+ */
+export const OPT = 41;
+
+/**
+ * EDNS option codes with a dedicated representation.
+ *
+ * @see https://www.iana.org/assignments/dns-parameters/dns-parameters.xhtml#dns-parameters-11
+ */
+export const EdnsOptionCodeNameToCode = {
+	NSID: 3,
+	ECS: 8,
+	COOKIE: 10,
+	PADDING: 12,
+} as const;
+
+export type EdnsOptionCodeName = keyof typeof EdnsOptionCodeNameToCode;
+
+/**
+ * 2.3. The NSID Option
+ *
+ * The OPTION-DATA for the NSID option is an opaque byte string, the
+ * semantics of which are deliberately left outside the protocol.
+ *
+ * A request carries an empty NSID option to ask for the identifier of the
+ * name server.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc5001.html#section-2.3
+ */
+export const NsidOption = Schema.Struct({
+	code: Schema.transformLiteral(EdnsOptionCodeNameToCode.NSID, "NSID"),
+	nsid: Schema.Uint8ArrayFromSelf,
+}).annotations({ identifier: "NsidOption" });
+
+/**
+ * 6. Option Format
+ *
+ * FAMILY, 2 octets, indicates the family of the address contained in the
+ * option, using address family codes as assigned by IANA in Address Family
+ * Numbers.
+ *
+ * SOURCE PREFIX-LENGTH, an unsigned octet representing the leftmost
+ * number of significant bits of ADDRESS to be used for the lookup.
+ *
+ * SCOPE PREFIX-LENGTH, an unsigned octet representing the leftmost number
+ * of significant bits of ADDRESS that the response covers.  In queries, it
+ * MUST be set to 0.
+ *
+ * ADDRESS, variable number of octets, contains either an IPv4 or IPv6
+ * address, depending on FAMILY, which MUST be truncated to the number of
+ * bits indicated by the SOURCE PREFIX-LENGTH field, padding with 0 bits to
+ * pad to the end of the last octet needed.
+ *
+ * The address is decoded with its truncated octets padded back to a full
+ * address. Bits beyond SOURCE PREFIX-LENGTH are rejected when decoding and
+ * cleared when encoding.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc7871.html#section-6
+ */
+export const ClientSubnetOption = Schema.Union(
+	makeClientSubnetOption(1, Ipv4Address, 32),
+	makeClientSubnetOption(2, Ipv6Address, 128),
+).annotations({ identifier: "ClientSubnetOption" });
+
+/**
+ * 4. DNS Cookie Option
+ *
+ * The client cookie is a fixed size of 8 bytes.  The server cookie, when
+ * present, is a variable size of 8 to 32 bytes.  A request from a client
+ * that has not yet learned a server cookie carries the client cookie only.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc7873.html#section-4
+ */
+export const CookieOption = Schema.Struct({
+	code: Schema.transformLiteral(EdnsOptionCodeNameToCode.COOKIE, "COOKIE"),
+	client: Schema.Uint8ArrayFromSelf.pipe(
+		Schema.filter(
+			(client) =>
+				client.byteLength === 8 ||
+				`Client cookie must be 8 bytes, received ${client.byteLength}`,
+		),
+	),
+	server: Schema.optional(
+		Schema.Uint8ArrayFromSelf.pipe(
+			Schema.filter(
+				(server) =>
+					(server.byteLength >= 8 && server.byteLength <= 32) ||
+					`Server cookie must be between 8 and 32 bytes, received ${server.byteLength}`,
+			),
+		),
+	),
+}).annotations({ identifier: "CookieOption" });
+
+/**
+ * 4. The "Padding" Option
+ *
+ * The PADDING octets SHOULD be set to 0x00.  Other values MAY be used, for
+ * example, in cases where there is a concern that the padded message could
+ * be subject to compression before encryption.  PADDING octets of any value
+ * MUST be accepted in the messages received.
+ *
+ * Only the number of padding octets is kept, and zeros are written.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc7830.html#section-4
+ */
+export const PaddingOption = Schema.Struct({
+	code: Schema.transformLiteral(EdnsOptionCodeNameToCode.PADDING, "PADDING"),
+	length: Uint16,
+}).annotations({ identifier: "PaddingOption" });
+
+const EdnsOptionCodeToCodeName = new Map<number, string>(
+	Object.entries(EdnsOptionCodeNameToCode).map(([name, code]) => [code, name]),
+);
+
+/** Option codes without a dedicated representation */
+export const UnknownEdnsOptionCode = Uint16.pipe(
+	Schema.filter(
+		(code) =>
+			!EdnsOptionCodeToCodeName.has(code) ||
+			`Option code ${code} is assigned, use its name '${EdnsOptionCodeToCodeName.get(code)}'`,
+	),
+).annotations({ identifier: "UnknownEdnsOptionCode" });
+
+/**
+ * An option whose OPTION-DATA is kept as the opaque octets it was received
+ * as.
+ */
+export const UnknownEdnsOption = Schema.Struct({
+	code: UnknownEdnsOptionCode,
+	data: Schema.Uint8ArrayFromSelf,
+}).annotations({ identifier: "UnknownEdnsOption" });
+
+export const EdnsOption = Schema.Union(
+	NsidOption,
+	ClientSubnetOption,
+	CookieOption,
+	PaddingOption,
+	UnknownEdnsOption,
+).annotations({
+	identifier: "EdnsOption",
+	description: "An option carried in the RDATA of an OPT RR",
+});
+
+export type EdnsOption = typeof EdnsOption.Type;
+export type EncodedEdnsOption = typeof EdnsOption.Encoded;
+
+/**
+ * 6.1.2. Wire Format
+ *
+ *  +------------+--------------+------------------------------+
+ *  | Field Name | Field Type   | Description                  |
+ *  +------------+--------------+------------------------------+
+ *  | NAME       | domain name  | MUST be 0 (root domain)      |
+ *  | TYPE       | u_int16_t    | OPT (41)                     |
+ *  | CLASS      | u_int16_t    | requestor's UDP payload size |
+ *  | TTL        | u_int32_t    | extended RCODE and flags     |
+ *  | RDLEN      | u_int16_t    | length of all RDATA          |
+ *  | RDATA      | octet stream | {attribute,value} pairs      |
+ *  +------------+--------------+------------------------------+
+ *
+ * The extended RCODE is not part of the OPT RR here: it is combined with
+ * the RCODE of the header of the message carrying it. The Z flags, which
+ * are set to zero by senders and ignored by receivers, are not kept.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc6891.html#section-6.1.2
+ */
+export const Opt = Schema.Struct({
+	/**
+	 * The number of octets of the largest UDP payload that can be
+	 * reassembled and delivered in the requestor's network stack. Values
+	 * lower than 512 MUST be treated as equal to 512.
+	 */
+	udpPayloadSize: Uint16,
+
+	/**
+	 * Indicates the implementation level of the setter. Full conformance
+	 * with this specification is indicated by version '0'.
+	 */
+	version: Uint8,
+
+	/**
+	 * DNSSEC OK bit as defined by RFC 3225.
+	 */
+	dnssecOk: Bit,
+
+	options: Schema.Array(EdnsOption),
+}).annotations({
+	identifier: "Opt",
+	description: "The OPT pseudo-RR of an EDNS(0) message",
+});
+
+export type Opt = typeof Opt.Type;
+export type EncodedOpt = typeof Opt.Encoded;
+
+/**
+ * Whether the RR at the cursor is an OPT RR, which is owned by the root
+ * domain.
+ */
+export function isOptAtDnsPacketCursor(cursor: DnsPacketCursor) {
+	const { uint8Array, offset } = cursor;
+
+	return (
+		uint8Array[offset] === 0 &&
+		uint8Array[offset + 1] === 0 &&
+		uint8Array[offset + 2] === OPT
+	);
+}
+
+// NAME, TYPE, CLASS, TTL and RDLEN
+const OPT_FIXED_BYTE_LENGTH = 11;
+
+const OptWithEncodedByteLengthFromDnsPacketCursor = Schema.transformOrFail(
+	DnsPacketCursor.schema,
+	Schema.Struct({
+		opt: Schema.encodedSchema(Opt),
+		extendedRCode: Uint8,
+		encodedByteLength: Schema.Int,
+	}),
+	{
+		strict: true,
+		decode(cursor, _, ast) {
+			return Effect.gen(function* () {
+				const uint8Array = cursor.uint8Array.subarray(cursor.offset);
+
+				const dataView = new DataView(
+					uint8Array.buffer,
+					uint8Array.byteOffset,
+					uint8Array.byteLength,
+				);
+
+				if (!isOptAtDnsPacketCursor(cursor)) {
+					return yield* ParseResult.fail(
+						new ParseResult.Type(
+							ast,
+							uint8Array,
+							"OPT RR must have TYPE 41 and the root domain as its NAME",
+						),
+					);
+				}
+
+				const udpPayloadSize = yield* getUint16(dataView, 3, ast);
+				const ttl = yield* getUint32(dataView, 5, ast);
+				const rdlength = yield* getUint16(dataView, 9, ast);
+				const end = OPT_FIXED_BYTE_LENGTH + rdlength;
+
+				if (end > uint8Array.byteLength) {
+					return yield* ParseResult.fail(
+						new ParseResult.Type(
+							ast,
+							uint8Array,
+							`RDATA length did not match RDLENGTH. Expected '${rdlength}, received '${uint8Array.byteLength - OPT_FIXED_BYTE_LENGTH}'`,
+						),
+					);
+				}
+
+				const options: Array<EncodedEdnsOption> = [];
+
+				for (let offset = OPT_FIXED_BYTE_LENGTH; offset < end;) {
+					if (offset + 4 > end) {
+						return yield* ParseResult.fail(
+							new ParseResult.Type(
+								ast,
+								uint8Array,
+								`OPT RDATA has ${end - offset} unexpected trailing bytes`,
+							),
+						);
+					}
+
+					const code = yield* getUint16(dataView, offset, ast);
+					const length = yield* getUint16(dataView, offset + 2, ast);
+
+					offset += 4;
+
+					if (offset + length > end) {
+						return yield* ParseResult.fail(
+							new ParseResult.Type(
+								ast,
+								uint8Array,
+								`Option ${code} is ${length} bytes, exceeding the RDATA of the OPT RR`,
+							),
+						);
+					}
+
+					options.push(
+						yield* decodeOptionData(
+							code,
+							uint8Array.slice(offset, offset + length),
+							ast,
+						),
+					);
+
+					offset += length;
+				}
+
+				return {
+					opt: {
+						udpPayloadSize,
+						version: (ttl >>> 16) & 0xff,
+						dnssecOk: ((ttl >>> 15) & 0x01) as Bit,
+						options,
+					},
+					extendedRCode: ttl >>> 24,
+					encodedByteLength: end,
+				};
+			});
+		},
+		encode(opt, _, ast) {
+			return ParseResult.fail(
+				new ParseResult.Type(ast, opt, "encoding is not supported"),
+			);
+		},
+	},
+).annotations({
+	identifier: "Opt",
+	description:
+		"The OPT pseudo-RR in the additional section, carrying the EDNS(0) options and flags",
+});
+
+/**
+ * Decodes the OPT RR at the cursor, along with the upper 8 bits of the
+ * extended RCODE it carries.
+ */
+export const decodeOptFromDnsPacketCursor = Schema.decode(
+	OptWithEncodedByteLengthFromDnsPacketCursor,
+);
+
+/**
+ * Writes `opt` as an OPT RR, carrying the upper 8 bits of the extended
+ * RCODE of the message in `extendedRCode`.
+ */
+export function encodeOptToDnsPacketWriter(
+	writer: DnsPacketWriter,
+	opt: EncodedOpt,
+	extendedRCode: number,
+	ast: SchemaAST.AST,
+): Effect.Effect<void, ParseResult.ParseIssue> {
+	return Effect.gen(function* () {
+		const options = opt.options.map((option) => ({
+			code: option.code,
+			data: encodeOptionData(option),
+		}));
+		const rdlength = options.reduce(
+			(rdlength, { data }) => rdlength + 4 + data.byteLength,
+			0,
+		);
+
+		if (rdlength > 65_535) {
+			return yield* ParseResult.fail(
+				new ParseResult.Type(
+					ast,
+					opt,
+					`RDATA must be 65535 bytes or less, received ${rdlength}`,
+				),
+			);
+		}
+
+		const out = new Uint8Array(OPT_FIXED_BYTE_LENGTH + rdlength);
+		const dataView = new DataView(out.buffer);
+
+		// The NAME is the root domain, a single zero octet
+		yield* setUint16(dataView, 1, OPT, ast);
+		yield* setUint16(dataView, 3, opt.udpPayloadSize, ast);
+		yield* setUint32(
+			dataView,
+			5,
+			((extendedRCode << 24) | (opt.version << 16) | (opt.dnssecOk << 15)) >>>
+				0,
+			ast,
+		);
+		yield* setUint16(dataView, 9, rdlength, ast);
+
+		let offset = OPT_FIXED_BYTE_LENGTH;
+
+		for (const { code, data } of options) {
+			yield* setUint16(dataView, offset, code, ast);
+			yield* setUint16(dataView, offset + 2, data.byteLength, ast);
+			out.set(data, offset + 4);
+
+			offset += 4 + data.byteLength;
+		}
+
+		DnsPacketWriter.write(writer, out);
+	});
+}
+
+function makeClientSubnetOption(
+	family: 1 | 2,
+	address: typeof Ipv4Address | typeof Ipv6Address,
+	maxPrefixLength: number,
+) {
+	return Schema.Struct({
+		code: Schema.transformLiteral(EdnsOptionCodeNameToCode.ECS, "ECS"),
+		family: Schema.Literal(family),
+		sourcePrefixLength: Uint8,
+		scopePrefixLength: Uint8,
+		address,
+	}).pipe(
+		Schema.filter((option) => {
+			for (const field of [
+				"sourcePrefixLength",
+				"scopePrefixLength",
+			] as const) {
+				if (option[field] > maxPrefixLength) {
+					return {
+						path: [field],
+						message: `Prefix length must be ${maxPrefixLength} or less for FAMILY ${family}, received ${option[field]}`,
+					};
+				}
+			}
+
+			return true;
+		}),
+	);
+}
+
+function decodeOptionData(
+	code: number,
+	data: Uint8Array,
+	ast: SchemaAST.AST,
+): Effect.Effect<EncodedEdnsOption, ParseResult.ParseIssue> {
+	return Effect.gen(function* () {
+		switch (code) {
+			case EdnsOptionCodeNameToCode.NSID: {
+				return { code, nsid: data };
+			}
+			case EdnsOptionCodeNameToCode.ECS: {
+				const dataView = new DataView(
+					data.buffer,
+					data.byteOffset,
+					data.byteLength,
+				);
+
+				const family = yield* getUint16(dataView, 0, ast);
+				const sourcePrefixLength = yield* getUint8(dataView, 2, ast);
+				const scopePrefixLength = yield* getUint8(dataView, 3, ast);
+				const truncated = data.subarray(4);
+
+				if (family !== 1 && family !== 2) {
+					return yield* ParseResult.fail(
+						new ParseResult.Type(
+							ast,
+							data,
+							`ECS FAMILY must be 1 (IPv4) or 2 (IPv6), received ${family}`,
+						),
+					);
+				}
+
+				const address = new Uint8Array(family === 1 ? 4 : 16);
+
+				if (truncated.byteLength !== Math.ceil(sourcePrefixLength / 8)) {
+					return yield* ParseResult.fail(
+						new ParseResult.Type(
+							ast,
+							data,
+							`ECS ADDRESS must be ${Math.ceil(sourcePrefixLength / 8)} bytes for SOURCE PREFIX-LENGTH ${sourcePrefixLength}, received ${truncated.byteLength}`,
+						),
+					);
+				}
+
+				if (truncated.byteLength > address.byteLength) {
+					return yield* ParseResult.fail(
+						new ParseResult.Type(
+							ast,
+							data,
+							`ECS SOURCE PREFIX-LENGTH must be ${address.byteLength * 8} or less for FAMILY ${family}, received ${sourcePrefixLength}`,
+						),
+					);
+				}
+
+				address.set(truncated);
+
+				if (!equalBytes(address, maskAddress(address, sourcePrefixLength))) {
+					return yield* ParseResult.fail(
+						new ParseResult.Type(
+							ast,
+							data,
+							`ECS ADDRESS must not have bits set beyond SOURCE PREFIX-LENGTH ${sourcePrefixLength}`,
+						),
+					);
+				}
+
+				return {
+					code,
+					family,
+					sourcePrefixLength,
+					scopePrefixLength,
+					address,
+				};
+			}
+			case EdnsOptionCodeNameToCode.COOKIE: {
+				const client = data.subarray(0, 8);
+				const server = data.subarray(8);
+
+				return server.byteLength === 0
+					? { code, client }
+					: { code, client, server };
+			}
+			case EdnsOptionCodeNameToCode.PADDING: {
+				return { code, length: data.byteLength };
+			}
+			default: {
+				return { code, data };
+			}
+		}
+	});
+}
+
+function encodeOptionData(option: EncodedEdnsOption): Uint8Array {
+	if ("data" in option) {
+		return option.data;
+	}
+
+	switch (option.code) {
+		case EdnsOptionCodeNameToCode.NSID: {
+			return option.nsid;
+		}
+		case EdnsOptionCodeNameToCode.ECS: {
+			const length = Math.ceil(option.sourcePrefixLength / 8);
+			const data = new Uint8Array(4 + length);
+			const dataView = new DataView(data.buffer);
+
+			dataView.setUint16(0, option.family);
+			dataView.setUint8(2, option.sourcePrefixLength);
+			dataView.setUint8(3, option.scopePrefixLength);
+			data.set(
+				maskAddress(option.address, option.sourcePrefixLength).subarray(
+					0,
+					length,
+				),
+				4,
+			);
+
+			return data;
+		}
+		case EdnsOptionCodeNameToCode.COOKIE: {
+			const data = new Uint8Array(
+				option.client.byteLength + (option.server?.byteLength ?? 0),
+			);
+
+			data.set(option.client);
+			data.set(option.server ?? new Uint8Array(), option.client.byteLength);
+
+			return data;
+		}
+		case EdnsOptionCodeNameToCode.PADDING: {
+			return new Uint8Array(option.length);
+		}
+	}
+}
+
+/** `address` with the bits beyond `prefixLength` cleared */
+function maskAddress(address: Uint8Array, prefixLength: number) {
+	return address.map((byte, idx) => {
+		const bits = Math.min(Math.max(prefixLength - idx * 8, 0), 8);
+
+		return byte & (0xff << (8 - bits));
+	});
+}
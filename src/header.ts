@@ -1,5 +1,5 @@
 import { Effect, Either, ParseResult, Schema, Struct } from "effect";
-import { Bit, DnsPacketCursor, Nibble, Uint16, Uint3 } from "./types";
+import { Bit, DnsPacketCursor, Nibble, Uint12, Uint16, Uint3 } from "./types";
 import { getUint8, getUint16 } from "./utils";
 
 /**
@@ -11,75 +11,29 @@ import { getUint8, getUint16 } from "./utils";
  * 1   - an inverse query (IQUERY)
  * 2   - a server status request (STATUS)
  * 3-15 - reserved for future use
+ *
+ * Later RFCs assigned:
+ *
+ * 4   - a zone change notification (NOTIFY)
+ * 5   - a dynamic update (UPDATE)
+ * 6   - a DNS stateful operation (DSO)
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1996.html#section-3.1
+ * @see https://www.rfc-editor.org/rfc/rfc2136.html#section-1.3
+ * @see https://www.rfc-editor.org/rfc/rfc8490.html#section-5.4
  */
-const Opcode = Schema.transformOrFail(
-	Nibble,
-	Schema.Literal("QUERY", "IQUERY", "STATUS"),
-	{
-		strict: true,
-		decode(nibble, _, ast) {
-			switch (nibble) {
-				case 0: {
-					return ParseResult.succeed("QUERY" as const);
-				}
-				case 1: {
-					return ParseResult.succeed("IQUERY" as const);
-				}
-				case 2: {
-					return ParseResult.succeed("STATUS" as const);
-				}
-			}
-
-			return ParseResult.fail(
-				new ParseResult.Type(
-					ast,
-					nibble,
-					`opcode must be the literal value 0, 1, or 2. Received '${nibble}'`,
-				),
-			);
-		},
-		encode(opcode) {
-			switch (opcode) {
-				case "QUERY": {
-					return ParseResult.succeed(0);
-				}
-				case "IQUERY": {
-					return ParseResult.succeed(1);
-				}
-				case "STATUS": {
-					return ParseResult.succeed(2);
-				}
-			}
-		},
-	},
-).annotations({
-	identifier: "Opcode",
-	description:
-		"A four bit field that specifies the kind of query in this message.",
-});
+export const OpcodeNameToOpcode = {
+	QUERY: 0,
+	IQUERY: 1,
+	STATUS: 2,
+	NOTIFY: 4,
+	UPDATE: 5,
+	DSO: 6,
+} as const;
 
-// 0
-// NoError
-// No error condition
-// 1
-// FormErr
-// Format error (The name server was unable to interpret the query)
-// 2
-// ServFail
-// Server failure (The name server was unable to process this query due to a problem with the name server)
-// 3
-// NXDomain
-// Name Error (Meaningful only for responses from an authoritative name server, this code signifies that the domain name referenced in the query does not exist)
-// 4
-// NotImp
-// Not Implemented (The name server does not support the requested kind of query)
-// 5
-// Refused
-// Refused (The name server refuses to perform the specified operation for policy reasons)
+export type OpcodeName = keyof typeof OpcodeNameToOpcode;
 
 /**
- * Response code - this 4 bit field is set as part of
- * responses. The values have the following interpretation:
  * 0   - No error condition
  * 1   - Format error (unable to interpret the query)
  * 2   - Server failure (problem with the name server)
@@ -87,78 +41,104 @@ const Opcode = Schema.transformOrFail(
  * 4   - Not Implemented (unsupported kind of query)
  * 5   - Refused (operation refused for policy reasons)
  * 6-15 - Reserved for future use
+ *
+ * Later RFCs assigned:
+ *
+ * 6   - Some name that ought not to exist, does exist (YXDOMAIN)
+ * 7   - Some RRset that ought not to exist, does exist (YXRRSET)
+ * 8   - Some RRset that ought to exist, does not exist (NXRRSET)
+ * 9   - The server is not authoritative for the zone named in the Zone
+ *       Section, or the request is not authorized (NOTAUTH)
+ * 10  - A name used in the Prerequisite or Update Section is not within
+ *       the zone denoted by the Zone Section (NOTZONE)
+ * 11  - DSO-TYPE Not Implemented (DSOTYPENI)
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc2136.html#section-2.2
+ * @see https://www.rfc-editor.org/rfc/rfc8945.html#section-3
+ * @see https://www.rfc-editor.org/rfc/rfc8490.html#section-5.4
  */
-const RCode = Schema.transformOrFail(
-	Nibble,
-	Schema.Literal(
-		"NOERROR",
-		"FORMERR",
-		"SERVFAIL",
-		"NXDOMAIN",
-		"NOTIMP",
-		"REFUSED",
-	),
-	{
-		strict: true,
-		decode(nibble, _, ast) {
-			switch (nibble) {
-				case 0: {
-					return ParseResult.succeed("NOERROR" as const);
-				}
-				case 1: {
-					return ParseResult.succeed("FORMERR" as const);
-				}
-				case 2: {
-					return ParseResult.succeed("SERVFAIL" as const);
-				}
-				case 3: {
-					return ParseResult.succeed("NXDOMAIN" as const);
-				}
-				case 4: {
-					return ParseResult.succeed("NOTIMP" as const);
-				}
-				case 4: {
-					return ParseResult.succeed("REFUSED" as const);
-				}
-			}
+export const RCodeNameToRCode = {
+	NOERROR: 0,
+	FORMERR: 1,
+	SERVFAIL: 2,
+	NXDOMAIN: 3,
+	NOTIMP: 4,
+	REFUSED: 5,
+	YXDOMAIN: 6,
+	YXRRSET: 7,
+	NXRRSET: 8,
+	NOTAUTH: 9,
+	NOTZONE: 10,
+	DSOTYPENI: 11,
+} as const;
+
+export type RCodeName = keyof typeof RCodeNameToRCode;
 
-			return ParseResult.fail(
-				new ParseResult.Type(
-					ast,
-					nibble,
-					`opcode must be the literal value 0, 1, or 2. Received '${nibble}'`,
-				),
-			);
-		},
-		encode(rcode) {
-			switch (rcode) {
-				case "NOERROR": {
-					return ParseResult.succeed(0 as const);
-				}
-				case "FORMERR": {
-					return ParseResult.succeed(1 as const);
-				}
-				case "SERVFAIL": {
-					return ParseResult.succeed(2 as const);
-				}
-				case "NXDOMAIN": {
-					return ParseResult.succeed(3 as const);
-				}
-				case "NOTIMP": {
-					return ParseResult.succeed(4 as const);
-				}
-				case "REFUSED": {
-					return ParseResult.succeed(5 as const);
-				}
-			}
-		},
-	},
+/**
+ * 6.1.3. OPT Record TTL Field Use
+ *
+ * EXTENDED-RCODE
+ *    Forms the upper 8 bits of extended 12-bit RCODE (together with the
+ *    4 bits defined in [RFC1035].  Note that EXTENDED-RCODE value 0
+ *    indicates that an unextended RCODE is in use (values 0 through 15).
+ *
+ * 16  - Bad OPT Version (BADVERS)
+ * 23  - Bad/missing Server Cookie (BADCOOKIE)
+ *
+ * TSIG and TKEY also assigned 16 (BADSIG) and 17-22, which are only ever
+ * carried in the error field of their own RRs rather than in a header.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc6891.html#section-6.1.3
+ * @see https://www.rfc-editor.org/rfc/rfc7873.html#section-8
+ */
+export const ExtendedRCodeNameToRCode = {
+	...RCodeNameToRCode,
+	BADVERS: 16,
+	BADCOOKIE: 23,
+} as const;
+
+export type ExtendedRCodeName = keyof typeof ExtendedRCodeNameToRCode;
+
+/**
+ * A four bit field that specifies the kind of query in this message.
+ * Assigned values are decoded to their names and unassigned ones are kept
+ * as numbers, so messages using them can still be decoded.
+ */
+const Opcode = makeNamedInteger(
+	"Opcode",
+	Nibble,
+	OpcodeNameToOpcode,
 ).annotations({
+	identifier: "Opcode",
+	description:
+		"A four bit field that specifies the kind of query in this message.",
+});
+
+/**
+ * Response code - this 4 bit field is set as part of responses. Assigned
+ * values are decoded to their names and unassigned ones are kept as
+ * numbers, so messages using them can still be decoded.
+ */
+const RCode = makeNamedInteger("RCode", Nibble, RCodeNameToRCode).annotations({
 	identifier: "RCode",
 	description:
 		"A four bit field that specifies the response code of this message.",
 });
 
+/**
+ * The 12 bit response code of a message with an OPT RR, whose upper 8 bits
+ * are carried by the OPT RR and lower 4 bits by the header.
+ */
+export const ExtendedRCode = makeNamedInteger(
+	"RCode",
+	Uint12,
+	ExtendedRCodeNameToRCode,
+).annotations({
+	identifier: "ExtendedRCode",
+	description:
+		"A twelve bit field that specifies the response code of this message.",
+});
+
 /**
  * 4.1.1. Header section format
  *
@@ -206,6 +186,8 @@ export const Header = Schema.Struct({
 	 * 1   - an inverse query (IQUERY)
 	 * 2   - a server status request (STATUS)
 	 * 3-15 - reserved for future use
+	 *
+	 * Values assigned since are NOTIFY (4), UPDATE (5) and DSO (6).
 	 */
 	opcode: Opcode,
 
@@ -258,6 +240,9 @@ export const Header = Schema.Struct({
 	 * 4   - Not Implemented (unsupported kind of query)
 	 * 5   - Refused (operation refused for policy reasons)
 	 * 6-15 - Reserved for future use
+	 *
+	 * Values assigned since are YXDOMAIN (6), YXRRSET (7), NXRRSET (8),
+	 * NOTAUTH (9), NOTZONE (10) and DSOTYPENI (11).
 	 */
 	rcode: RCode,
 
@@ -353,19 +338,9 @@ export const HeaderFromUint8Array = Schema.transformOrFail(
 			const opcode = ((byte2 >> 3) & 0x0f) as Nibble;
 			const aa = ((byte2 >> 2) & 0x01) as Bit;
 			const z = (byte3 >> 4) & 0x07;
-			const rcode = byte3 & 0x0f;
-
-			if (opcode > 3) {
-				return ParseResult.fail(
-					new ParseResult.Type(
-						ast,
-						opcode,
-						`Opcode must be 0, 1, or 2. Recievied '${opcode}'`,
-					),
-				);
-			}
 
-			if (qr === 0 && aa === 1) {
+			// Except in NOTIFY requests, which set it (RFC 1996 3.7)
+			if (qr === 0 && aa === 1 && opcode !== OpcodeNameToOpcode.NOTIFY) {
 				return ParseResult.fail(
 					new ParseResult.Type(
 						ast,
@@ -381,16 +356,6 @@ export const HeaderFromUint8Array = Schema.transformOrFail(
 				);
 			}
 
-			if (rcode > 5) {
-				return ParseResult.fail(
-					new ParseResult.Type(
-						ast,
-						rcode,
-						`RCODE must be 0, 1, 2, 3, 4, or 5. Recievied '${opcode}'`,
-					),
-				);
-			}
-
 			return ParseResult.succeed({
 				id: idResult.right,
 				qr: ((byte2 >> 7) & 0x01) as Bit,
@@ -400,7 +365,7 @@ export const HeaderFromUint8Array = Schema.transformOrFail(
 				rd: (byte2 & 0x01) as Bit,
 				ra: ((byte3 >> 7) & 0x01) as Bit,
 				z: (byte3 >> 4) & 0x07,
-				rcode: byte3 & 0x0f,
+				rcode: (byte3 & 0x0f) as Nibble,
 				qdcount: qdcountResult.right,
 				ancount: ancountResult.right,
 				nscount: nscountResult.right,
@@ -455,7 +420,10 @@ const HeaderWithBytesConsumedFromDnsPacketCursor = Schema.transformOrFail(
 		strict: true,
 		decode(cursor) {
 			return decodeHeaderFromUint8Array(
-				cursor.uint8Array.subarray(cursor.offset),
+				cursor.uint8Array.subarray(
+					cursor.offset,
+					cursor.offset + HEADER_BYTE_LENGTH,
+				),
 			).pipe(
 				Effect.map((header) => {
 					return {
@@ -477,3 +445,36 @@ const HeaderWithBytesConsumedFromDnsPacketCursor = Schema.transformOrFail(
 export const decodeHeaderFromDnsPacket = Schema.decode(
 	HeaderWithBytesConsumedFromDnsPacketCursor,
 );
+
+/**
+ * An integer field whose assigned values have names. Unassigned values are
+ * decoded to numbers, which only encode when they are still unassigned.
+ */
+function makeNamedInteger<Name extends string>(
+	identifier: string,
+	integer: Schema.Schema<number>,
+	nameToInteger: Readonly<Record<Name, number>>,
+) {
+	const names = Object.keys(nameToInteger) as Array<Name>;
+	const integerToName = new Map(
+		names.map((name) => [nameToInteger[name], name]),
+	);
+
+	const Unassigned = integer.pipe(
+		Schema.filter((value) => !integerToName.has(value), {
+			message: (issue) =>
+				`${identifier} ${String(issue.actual)} is assigned, use its name '${integerToName.get(issue.actual as number)}'`,
+		}),
+	);
+
+	return Schema.transform(
+		integer,
+		Schema.Union(Schema.Literal(...names), Unassigned),
+		{
+			strict: true,
+			decode: (value) => integerToName.get(value) ?? value,
+			encode: (value) =>
+				typeof value === "number" ? value : nameToInteger[value as Name],
+		},
+	);
+}
@@ -13,5 +13,50 @@ export * from "./question";
 // Re-export ResourceRecord
 export * from "./resource-record";
 
+// Re-export RDATA
+export * from "./rdata";
+
+// Re-export EDNS(0)
+export * from "./edns";
+
+// Re-export DNSSEC validation
+export * from "./dnssec";
+
+// Re-export Message
+export * from "./message";
+
+// Re-export NOTIFY messages
+export * from "./notify";
+
+// Re-export Message builders
+export * from "./message-builder";
+
+// Re-export dynamic updates
+export * from "./update";
+
+// Re-export master file parsing
+export * from "./master-file";
+
+// Re-export inverse queries
+export * from "./inverse-query";
+
+// Re-export SRV service lookups
+export * from "./service";
+
+// Re-export TCP framing
+export * from "./tcp";
+
+// Re-export DnsClient
+export * from "./client";
+
+// Re-export authoritative name server
+export * from "./server";
+
+// Re-export iterative resolver
+export * from "./resolver";
+
+// Re-export resource record cache
+export * from "./cache";
+
 // Re-export utilities
 export * from "./utils";
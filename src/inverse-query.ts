@@ -0,0 +1,74 @@
+import { Schema } from "effect";
+import { Message } from "./message";
+import type { ResourceRecord } from "./resource-record";
+
+/**
+ * 6.4.1. The contents of inverse queries and responses
+ *
+ * Inverse queries reverse the mappings performed by standard query
+ * operations; while a standard query maps a domain name to a resource, an
+ * inverse query maps a resource to a domain name. For example, a standard
+ * query might bind a domain name to a host address; the corresponding
+ * inverse query binds the host address to a domain name.
+ *
+ * Inverse queries take the form of a single RR in the answer section of
+ * the message, with an empty question section. The owner name of the query
+ * RR and its TTL are not significant.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-6.4.1
+ */
+export const InverseQuery = Message.pipe(
+	Schema.filter((message) => {
+		if (message.header.opcode !== "IQUERY") {
+			return `Inverse queries must have the IQUERY opcode, received '${message.header.opcode}'`;
+		}
+
+		if (message.header.qr !== 0) {
+			return "Inverse queries must not be responses";
+		}
+
+		if (message.question.length !== 0) {
+			return `Inverse queries must have an empty question section, received ${message.question.length} questions`;
+		}
+
+		if (message.answer.length !== 1) {
+			return `Inverse queries must have a single RR in the answer section, received ${message.answer.length}`;
+		}
+
+		return true;
+	}),
+).annotations({
+	identifier: "InverseQuery",
+	description: "A DNS Packet Message asking for the names owning an RR",
+});
+
+export const validateInverseQuery = Schema.validate(InverseQuery);
+export const isInverseQuery = Schema.is(InverseQuery);
+
+/**
+ * Builds an inverse query for the names owning RRs like `record`, e.g. the
+ * names of the host with an address.
+ */
+export function makeInverseQuery(id: number, record: ResourceRecord): Message {
+	return {
+		header: {
+			id,
+			qr: 0,
+			opcode: "IQUERY",
+			aa: 0,
+			tc: 0,
+			rd: 0,
+			ra: 0,
+			z: 0,
+			rcode: "NOERROR",
+			qdcount: 0,
+			ancount: 1,
+			nscount: 0,
+			arcount: 0,
+		},
+		question: [],
+		answer: [record],
+		authority: [],
+		additional: [],
+	};
+}
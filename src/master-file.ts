@@ -0,0 +1,1691 @@
+import {
+	Effect,
+	Either,
+	Encoding,
+	ParseResult,
+	Schema,
+	SchemaAST,
+} from "effect";
+import {
+	decodeEncodedNameFromString,
+	Name,
+	NameFromString,
+	type EncodedName,
+} from "./name";
+import {
+	Ipv4Address,
+	Ipv6Address,
+	decodeRDataFromDnsPacketCursor,
+	encodeRDataToDnsPacketWriter,
+	type EncodedTypedRData,
+} from "./rdata";
+import {
+	ResourceRecord,
+	RRClassNameToRRClass,
+	RRTypeNameToRRType,
+	RRTypeToRRTypeName,
+	type EncodedResourceRecord,
+} from "./resource-record";
+import { DnsPacketCursor, DnsPacketWriter } from "./types";
+
+export interface MasterFileOptions {
+	/**
+	 * Origin for relative domain names until the first $ORIGIN entry, and the
+	 * origin names are written relative to
+	 */
+	readonly origin?: Name;
+	/** TTL of records that do not state one until the first $TTL entry */
+	readonly ttl?: number;
+	/** Reads the contents of the file named by an $INCLUDE entry */
+	readonly readFile?: (fileName: string) => Effect.Effect<string, unknown>;
+}
+
+/**
+ * 5. MASTER FILES
+ *
+ * Master files are text files that contain RRs in text form. Since the
+ * contents of a zone can be expressed in the form of a list of RRs a
+ * master file is most often used to define a zone, though it can be used
+ * to list a cache's contents.
+ *
+ * Besides the $ORIGIN and $INCLUDE control entries of RFC 1035, the $TTL
+ * entry of RFC 2308 sets the TTL of records that do not state one. Without
+ * a $TTL entry, omitted TTL and class values default to the last explicitly
+ * stated values, and the class defaults to IN for the first record.
+ *
+ * Every record is validated with the same schemas as the wire decoder.
+ *
+ * Records are written in order, one per line with aligned columns. Names
+ * are written relative to the origin when possible, the most common TTL
+ * becomes the $TTL directive and the SOA RDATA is split across lines.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-5
+ * @see https://www.rfc-editor.org/rfc/rfc2308.html#section-4
+ */
+export const MasterFileFromString = (options: MasterFileOptions = {}) =>
+	Schema.transformOrFail(
+		Schema.String,
+		Schema.Array(Schema.typeSchema(ResourceRecord)),
+		{
+			strict: true,
+			decode(text, _, ast) {
+				return Effect.gen(function* () {
+					const origin =
+						options.origin === undefined
+							? undefined
+							: yield* ParseResult.encode(Name)(options.origin);
+
+					return yield* parseMasterFile(
+						text,
+						{ ast, fileName: undefined, includeChain: [] },
+						{
+							origin,
+							owner: undefined,
+							ttl: options.ttl,
+							lastTtl: undefined,
+							lastClass: undefined,
+						},
+						options,
+					);
+				});
+			},
+			encode(records, _, ast) {
+				return formatMasterFile(records, options.origin, ast);
+			},
+		},
+	).annotations({
+		identifier: "MasterFile",
+		description: "Resource records in RFC 1035 master file format",
+	});
+
+export const decodeMasterFile = (text: string, options?: MasterFileOptions) =>
+	Schema.decode(MasterFileFromString(options))(text);
+
+export const encodeMasterFile = (
+	records: ReadonlyArray<ResourceRecord>,
+	options?: MasterFileOptions,
+) => Schema.encode(MasterFileFromString(options))(records);
+
+interface MasterFileContext {
+	readonly ast: SchemaAST.AST;
+	/** The $INCLUDE file being parsed, or undefined for the top level text */
+	readonly fileName: string | undefined;
+	readonly includeChain: ReadonlyArray<string>;
+}
+
+interface MasterFileState {
+	origin: EncodedName | undefined;
+	owner: EncodedName | undefined;
+	/** TTL set by $TTL */
+	ttl: number | undefined;
+	lastTtl: number | undefined;
+	lastClass: number | undefined;
+}
+
+interface Token {
+	readonly text: string;
+	readonly quoted: boolean;
+}
+
+interface Entry {
+	readonly line: number;
+	/** The entry began with a blank, so it is owned by the last stated owner */
+	readonly blankOwner: boolean;
+	readonly tokens: Array<Token>;
+}
+
+const WKSProtocolNameToProtocol: Record<string, number> = {
+	TCP: 6,
+	UDP: 17,
+};
+
+const WKSProtocolToProtocolName: Record<number, string> = {
+	6: "TCP",
+	17: "UDP",
+};
+
+function parseMasterFile(
+	text: string,
+	context: MasterFileContext,
+	state: MasterFileState,
+	options: MasterFileOptions,
+): Effect.Effect<Array<ResourceRecord>, ParseResult.ParseIssue> {
+	return Effect.gen(function* () {
+		const entries = yield* tokenize(text, context);
+		const records: Array<ResourceRecord> = [];
+
+		for (const entry of entries) {
+			const [first] = entry.tokens;
+
+			if (
+				first !== undefined &&
+				!entry.blankOwner &&
+				!first.quoted &&
+				first.text.startsWith("$")
+			) {
+				records.push(
+					...(yield* parseControlEntry(entry, context, state, options)),
+				);
+				continue;
+			}
+
+			records.push(yield* parseResourceRecordEntry(entry, context, state));
+		}
+
+		return records;
+	});
+}
+
+function parseControlEntry(
+	entry: Entry,
+	context: MasterFileContext,
+	state: MasterFileState,
+	options: MasterFileOptions,
+): Effect.Effect<Array<ResourceRecord>, ParseResult.ParseIssue> {
+	return Effect.gen(function* () {
+		const tokens = entry.tokens.slice(1);
+		const control = entry.tokens[0]?.text.toUpperCase();
+
+		switch (control) {
+			case "$ORIGIN": {
+				const origin = yield* nextToken(tokens, "domain name", entry, context);
+				yield* noMoreTokens(tokens, entry, context);
+
+				state.origin = yield* parseDomainName(origin, state, entry, context);
+				return [];
+			}
+			case "$TTL": {
+				const ttl = yield* nextToken(tokens, "TTL", entry, context);
+				yield* noMoreTokens(tokens, entry, context);
+
+				state.ttl = yield* parseInteger(ttl, "TTL", entry, context);
+				return [];
+			}
+			case "$INCLUDE": {
+				const fileName = yield* nextToken(tokens, "file name", entry, context);
+				const origin =
+					tokens.length > 0
+						? yield* parseDomainName(
+								yield* nextToken(tokens, "domain name", entry, context),
+								state,
+								entry,
+								context,
+							)
+						: state.origin;
+				yield* noMoreTokens(tokens, entry, context);
+
+				if (options.readFile === undefined) {
+					return yield* failAt(
+						entry,
+						context,
+						`$INCLUDE of '${fileName.text}' requires a file reader`,
+					);
+				}
+
+				if (context.includeChain.includes(fileName.text)) {
+					return yield* failAt(
+						entry,
+						context,
+						`$INCLUDE of '${fileName.text}' includes itself`,
+					);
+				}
+
+				const text = yield* options
+					.readFile(fileName.text)
+					.pipe(
+						Effect.mapError(() =>
+							issueAt(
+								entry,
+								context,
+								`Unable to read $INCLUDE file '${fileName.text}'`,
+							),
+						),
+					);
+
+				// Changes made by the included file never affect the parent file
+				return yield* parseMasterFile(
+					text,
+					{
+						ast: context.ast,
+						fileName: fileName.text,
+						includeChain: [...context.includeChain, fileName.text],
+					},
+					{ ...state, origin },
+					options,
+				);
+			}
+		}
+
+		return yield* failAt(
+			entry,
+			context,
+			`Unknown control entry '${entry.tokens[0]?.text}'`,
+		);
+	});
+}
+
+/**
+ * <domain-name><rr> [<comment>]
+ * <blank><rr> [<comment>]
+ *
+ * where <rr> is one of
+ *
+ * [<TTL>] [<class>] <type> <RDATA>
+ * [<class>] [<TTL>] <type> <RDATA>
+ */
+function parseResourceRecordEntry(
+	entry: Entry,
+	context: MasterFileContext,
+	state: MasterFileState,
+): Effect.Effect<ResourceRecord, ParseResult.ParseIssue> {
+	return Effect.gen(function* () {
+		const tokens = entry.tokens.slice();
+
+		if (!entry.blankOwner) {
+			state.owner = yield* parseDomainName(
+				yield* nextToken(tokens, "owner name", entry, context),
+				state,
+				entry,
+				context,
+			);
+		}
+
+		const owner = state.owner;
+
+		if (owner === undefined) {
+			return yield* failAt(
+				entry,
+				context,
+				"Record begins with a blank but no owner has been stated",
+			);
+		}
+
+		let ttl: number | undefined = undefined;
+		let rrClass: number | undefined = undefined;
+
+		// Type and class mnemonics are disjoint, so the parse is unique
+		for (let idx = 0; idx < 2; idx++) {
+			const token = tokens[0];
+
+			if (token === undefined || token.quoted) {
+				break;
+			}
+
+			if (ttl === undefined && /^[0-9]+$/.test(token.text)) {
+				ttl = yield* parseInteger(token, "TTL", entry, context);
+				tokens.shift();
+				continue;
+			}
+
+			const className = token.text.toUpperCase();
+
+			if (rrClass === undefined) {
+				rrClass = Object.hasOwn(RRClassNameToRRClass, className)
+					? RRClassNameToRRClass[className as keyof typeof RRClassNameToRRClass]
+					: parseGenericMnemonic("CLASS", className);
+
+				if (rrClass !== undefined) {
+					tokens.shift();
+					continue;
+				}
+			}
+
+			break;
+		}
+
+		const typeToken = yield* nextToken(tokens, "type", entry, context);
+		const typeName = typeToken.text.toUpperCase();
+		const type = Object.hasOwn(RRTypeNameToRRType, typeName)
+			? RRTypeNameToRRType[typeName as keyof typeof RRTypeNameToRRType]
+			: parseGenericMnemonic("TYPE", typeName);
+
+		if (type === undefined) {
+			return yield* failAt(entry, context, `Unknown TYPE '${typeToken.text}'`);
+		}
+
+		if (ttl !== undefined) {
+			state.lastTtl = ttl;
+		} else {
+			ttl = state.ttl ?? state.lastTtl;
+		}
+
+		if (ttl === undefined) {
+			return yield* failAt(
+				entry,
+				context,
+				"Record has no TTL and no default TTL has been stated",
+			);
+		}
+
+		rrClass = rrClass ?? state.lastClass ?? RRClassNameToRRClass.IN;
+		state.lastClass = rrClass;
+
+		const typedRData = yield* parseRData(type, tokens, state, entry, context);
+		yield* noMoreTokens(tokens, entry, context);
+
+		const encodedResourceRecord: EncodedResourceRecord = {
+			...typedRData,
+			name: owner,
+			class: rrClass,
+			ttl,
+			rdlength: 0,
+		};
+
+		const writer = DnsPacketWriter.make();
+		yield* encodeRDataToDnsPacketWriter(
+			writer,
+			encodedResourceRecord,
+			context.ast,
+		).pipe(
+			Effect.mapError((issue) =>
+				issueAt(
+					entry,
+					context,
+					ParseResult.TreeFormatter.formatIssueSync(issue),
+				),
+			),
+		);
+
+		return yield* ParseResult.decodeUnknown(ResourceRecord)({
+			...encodedResourceRecord,
+			rdlength: writer.offset,
+		}).pipe(
+			Effect.mapError((issue) =>
+				issueAt(
+					entry,
+					context,
+					ParseResult.TreeFormatter.formatIssueSync(issue),
+				),
+			),
+		);
+	});
+}
+
+/**
+ * Parses the RDATA fields of `type` in the order of their wire format, or
+ * the generic encoding of RFC 3597 when they begin with "\#".
+ */
+function parseRData(
+	type: number,
+	tokens: Array<Token>,
+	state: MasterFileState,
+	entry: Entry,
+	context: MasterFileContext,
+): Effect.Effect<EncodedTypedRData, ParseResult.ParseIssue> {
+	return Effect.gen(function* (): Effect.fn.Return<
+		EncodedTypedRData,
+		ParseResult.ParseIssue
+	> {
+		const name = (field: string) =>
+			Effect.flatMap(nextToken(tokens, field, entry, context), (token) =>
+				parseDomainName(token, state, entry, context),
+			);
+		const integer = (field: string) =>
+			Effect.flatMap(nextToken(tokens, field, entry, context), (token) =>
+				parseInteger(token, field, entry, context),
+			);
+		const characterString = (field: string) =>
+			Effect.flatMap(nextToken(tokens, field, entry, context), (token) =>
+				parseCharacterString(token, entry, context),
+			);
+		const address = (field: string, schema = Ipv4Address) =>
+			Effect.flatMap(nextToken(tokens, field, entry, context), (token) =>
+				ParseResult.encodeUnknown(schema)(token.text).pipe(
+					Effect.mapError(() =>
+						issueAt(entry, context, `Invalid address '${token.text}'`),
+					),
+				),
+			);
+
+		const rrType = (field: string) =>
+			Effect.flatMap(nextToken(tokens, field, entry, context), (token) =>
+				parseTypeMnemonic(token, entry, context),
+			);
+		const types = Effect.gen(function* () {
+			const types: Array<number> = [];
+
+			while (tokens.length > 0) {
+				types.push(yield* rrType("type"));
+			}
+
+			return types;
+		});
+		const time = (field: string) =>
+			Effect.flatMap(nextToken(tokens, field, entry, context), (token) =>
+				parseTime(token, field, entry, context),
+			);
+		// An empty salt is written as "-"
+		const salt = (field: string) =>
+			Effect.flatMap(nextToken(tokens, field, entry, context), (token) =>
+				token.text === "-" && !token.quoted
+					? Effect.succeed(new Uint8Array())
+					: decodeText(Encoding.decodeHex, [token], field, entry, context),
+			);
+		const nextHashedOwnerName = (field: string) =>
+			Effect.flatMap(nextToken(tokens, field, entry, context), (token) =>
+				decodeText(decodeBase32Hex, [token], field, entry, context),
+			);
+		const rest = (decode: typeof Encoding.decodeHex, field: string) =>
+			decodeText(decode, tokens.splice(0), field, entry, context);
+
+		if (tokens[0]?.text === "\\#" && !tokens[0].quoted) {
+			tokens.shift();
+			return yield* parseGenericRData(type, tokens, entry, context);
+		}
+
+		switch (type) {
+			// A
+			case 1: {
+				return { type, rdata: { address: yield* address("ADDRESS") } };
+			}
+			// NS
+			case 2: {
+				return { type, rdata: { nsdname: yield* name("NSDNAME") } };
+			}
+			// MD
+			case 3: {
+				return { type, rdata: { madname: yield* name("MADNAME") } };
+			}
+			// MF
+			case 4: {
+				return { type, rdata: { madname: yield* name("MADNAME") } };
+			}
+			// CNAME
+			case 5: {
+				return { type, rdata: { cname: yield* name("CNAME") } };
+			}
+			// SOA
+			case 6: {
+				return {
+					type,
+					rdata: {
+						mname: yield* name("MNAME"),
+						rname: yield* name("RNAME"),
+						serial: yield* integer("SERIAL"),
+						refresh: yield* integer("REFRESH"),
+						retry: yield* integer("RETRY"),
+						expire: yield* integer("EXPIRE"),
+						minimum: yield* integer("MINIMUM"),
+					},
+				};
+			}
+			// MB
+			case 7: {
+				return { type, rdata: { madname: yield* name("MADNAME") } };
+			}
+			// MG
+			case 8: {
+				return { type, rdata: { mgmname: yield* name("MGMNAME") } };
+			}
+			// MR
+			case 9: {
+				return { type, rdata: { newname: yield* name("NEWNAME") } };
+			}
+			// NULL
+			case 10: {
+				return yield* failAt(
+					entry,
+					context,
+					"NULL RRs are not allowed in master files",
+				);
+			}
+			// WKS
+			case 11: {
+				const wksAddress = yield* address("ADDRESS");
+				const protocolToken = yield* nextToken(
+					tokens,
+					"PROTOCOL",
+					entry,
+					context,
+				);
+				const protocol =
+					WKSProtocolNameToProtocol[protocolToken.text.toUpperCase()] ??
+					(yield* parseInteger(protocolToken, "PROTOCOL", entry, context));
+
+				// Bit N of the bitmap corresponds to port N
+				const ports: Array<number> = [];
+
+				while (tokens.length > 0) {
+					const port = yield* integer("port");
+
+					if (port > 65535) {
+						return yield* failAt(
+							entry,
+							context,
+							`Port must be between 0 and 65535, received ${port}`,
+						);
+					}
+
+					ports.push(port);
+				}
+
+				const bitmap = new Uint8Array(
+					ports.length === 0 ? 0 : (Math.max(...ports) >> 3) + 1,
+				);
+
+				for (const port of ports) {
+					bitmap[port >> 3] = (bitmap[port >> 3] ?? 0) | (0x80 >> (port & 7));
+				}
+
+				return { type, rdata: { address: wksAddress, protocol, bitmap } };
+			}
+			// PTR
+			case 12: {
+				return { type, rdata: { ptrdname: yield* name("PTRDNAME") } };
+			}
+			// HINFO
+			case 13: {
+				return {
+					type,
+					rdata: {
+						cpu: yield* characterString("CPU"),
+						os: yield* characterString("OS"),
+					},
+				};
+			}
+			// MINFO
+			case 14: {
+				return {
+					type,
+					rdata: {
+						rmailbx: yield* name("RMAILBX"),
+						emailbx: yield* name("EMAILBX"),
+					},
+				};
+			}
+			// MX
+			case 15: {
+				return {
+					type,
+					rdata: {
+						preference: yield* integer("PREFERENCE"),
+						exchange: yield* name("EXCHANGE"),
+					},
+				};
+			}
+			// TXT
+			case 16: {
+				const txtData: [Uint8Array, ...Array<Uint8Array>] = [
+					yield* characterString("TXT-DATA"),
+				];
+
+				while (tokens.length > 0) {
+					txtData.push(yield* characterString("TXT-DATA"));
+				}
+
+				return { type, rdata: { txtData } };
+			}
+			// AAAA
+			case 28: {
+				return {
+					type,
+					rdata: { address: yield* address("ADDRESS", Ipv6Address) },
+				};
+			}
+			// SRV
+			case 33: {
+				return {
+					type,
+					rdata: {
+						priority: yield* integer("PRIORITY"),
+						weight: yield* integer("WEIGHT"),
+						port: yield* integer("PORT"),
+						target: yield* name("TARGET"),
+					},
+				};
+			}
+			// DS
+			case 43: {
+				return {
+					type,
+					rdata: {
+						keyTag: yield* integer("KEY TAG"),
+						algorithm: yield* integer("ALGORITHM"),
+						digestType: yield* integer("DIGEST TYPE"),
+						digest: yield* rest(Encoding.decodeHex, "DIGEST"),
+					},
+				};
+			}
+			// RRSIG
+			case 46: {
+				return {
+					type,
+					rdata: {
+						typeCovered: yield* rrType("TYPE COVERED"),
+						algorithm: yield* integer("ALGORITHM"),
+						labels: yield* integer("LABELS"),
+						originalTtl: yield* integer("ORIGINAL TTL"),
+						signatureExpiration: yield* time("SIGNATURE EXPIRATION"),
+						signatureInception: yield* time("SIGNATURE INCEPTION"),
+						keyTag: yield* integer("KEY TAG"),
+						signerName: yield* name("SIGNER'S NAME"),
+						signature: yield* rest(Encoding.decodeBase64, "SIGNATURE"),
+					},
+				};
+			}
+			// NSEC
+			case 47: {
+				return {
+					type,
+					rdata: {
+						nextDomainName: yield* name("NEXT DOMAIN NAME"),
+						types: yield* types,
+					},
+				};
+			}
+			// DNSKEY
+			case 48: {
+				return {
+					type,
+					rdata: {
+						flags: yield* integer("FLAGS"),
+						protocol: yield* integer("PROTOCOL"),
+						algorithm: yield* integer("ALGORITHM"),
+						publicKey: yield* rest(Encoding.decodeBase64, "PUBLIC KEY"),
+					},
+				};
+			}
+			// NSEC3
+			case 50: {
+				return {
+					type,
+					rdata: {
+						hashAlgorithm: yield* integer("HASH ALGORITHM"),
+						flags: yield* integer("FLAGS"),
+						iterations: yield* integer("ITERATIONS"),
+						salt: yield* salt("SALT"),
+						nextHashedOwnerName: yield* nextHashedOwnerName(
+							"NEXT HASHED OWNER NAME",
+						),
+						types: yield* types,
+					},
+				};
+			}
+			// NSEC3PARAM
+			case 51: {
+				return {
+					type,
+					rdata: {
+						hashAlgorithm: yield* integer("HASH ALGORITHM"),
+						flags: yield* integer("FLAGS"),
+						iterations: yield* integer("ITERATIONS"),
+						salt: yield* salt("SALT"),
+					},
+				};
+			}
+		}
+
+		return yield* failAt(
+			entry,
+			context,
+			`RDATA of the unknown TYPE${type} must be in the \\# generic encoding`,
+		);
+	});
+}
+
+/**
+ * 5. Text Representation
+ *
+ * The RDATA section of an RR of unknown type is represented as a sequence
+ * of white space separated words as follows:
+ *
+ *    The special token \# (a backslash immediately followed by a hash
+ *    sign), which identifies the RDATA as having the generic encoding
+ *    defined herein rather than a traditional type-specific encoding.
+ *
+ *    An unsigned decimal integer specifying the RDATA length in octets.
+ *
+ *    Zero or more words of hexadecimal data encoding the actual RDATA
+ *    field, each containing an even number of hexadecimal digits.
+ *
+ * The RDATA of a known TYPE is decoded from the octets as it would be from
+ * the wire.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc3597.html#section-5
+ */
+function parseGenericRData(
+	type: number,
+	tokens: Array<Token>,
+	entry: Entry,
+	context: MasterFileContext,
+): Effect.Effect<EncodedTypedRData, ParseResult.ParseIssue> {
+	return Effect.gen(function* () {
+		const rdlength = yield* parseInteger(
+			yield* nextToken(tokens, "RDATA length", entry, context),
+			"RDATA length",
+			entry,
+			context,
+		);
+		let hex = "";
+
+		for (const token of tokens.splice(0)) {
+			if (token.quoted || !/^(?:[0-9a-fA-F]{2})+$/.test(token.text)) {
+				return yield* failAt(
+					entry,
+					context,
+					`Invalid hexadecimal RDATA '${token.text}'`,
+				);
+			}
+
+			hex += token.text;
+		}
+
+		if (hex.length !== rdlength * 2) {
+			return yield* failAt(
+				entry,
+				context,
+				`RDATA length is ${rdlength} octets, received ${hex.length / 2}`,
+			);
+		}
+
+		const octets = new Uint8Array(rdlength);
+
+		for (let idx = 0; idx < rdlength; idx++) {
+			octets[idx] = Number.parseInt(hex.slice(idx * 2, idx * 2 + 2), 16);
+		}
+
+		return yield* decodeRDataFromDnsPacketCursor(
+			DnsPacketCursor.fromUint8Array(octets, 0),
+			type,
+			rdlength,
+			context.ast,
+		).pipe(
+			Effect.mapError((issue) =>
+				issueAt(
+					entry,
+					context,
+					ParseResult.TreeFormatter.formatIssueSync(issue),
+				),
+			),
+		);
+	});
+}
+
+/**
+ * The value of a generic TYPE or CLASS mnemonic, e.g. 65534 for TYPE65534
+ */
+function parseGenericMnemonic(prefix: "TYPE" | "CLASS", mnemonic: string) {
+	const match = new RegExp(`^${prefix}([0-9]{1,5})$`).exec(mnemonic);
+	const integer = match === null ? undefined : Number(match[1]);
+
+	return integer !== undefined && integer <= 65535 ? integer : undefined;
+}
+
+/**
+ * The value of a TYPE mnemonic, e.g. 15 for MX and 65534 for TYPE65534
+ */
+function parseTypeMnemonic(
+	token: Token,
+	entry: Entry,
+	context: MasterFileContext,
+): Effect.Effect<number, ParseResult.ParseIssue> {
+	const typeName = token.text.toUpperCase();
+	const type = Object.hasOwn(RRTypeNameToRRType, typeName)
+		? RRTypeNameToRRType[typeName as keyof typeof RRTypeNameToRRType]
+		: parseGenericMnemonic("TYPE", typeName);
+
+	return type === undefined || token.quoted
+		? failAt(entry, context, `Unknown TYPE '${token.text}'`)
+		: Effect.succeed(type);
+}
+
+/**
+ * 3.2. The RRSIG RR Presentation Format
+ *
+ * The Signature Expiration Time and Inception Time field values MUST be
+ * represented either as an unsigned decimal integer indicating seconds
+ * since 1 January 1970 00:00:00 UTC, or in the form YYYYMMDDHHmmSS in UTC.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc4034.html#section-3.2
+ */
+function parseTime(
+	token: Token,
+	field: string,
+	entry: Entry,
+	context: MasterFileContext,
+): Effect.Effect<number, ParseResult.ParseIssue> {
+	const match = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/.exec(token.text);
+
+	if (token.quoted || match === null) {
+		return parseInteger(token, field, entry, context);
+	}
+
+	const [year, month, day, hours, minutes, seconds] = match
+		.slice(1)
+		.map(Number) as [number, number, number, number, number, number];
+	const millis = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+	const date = new Date(millis);
+
+	if (
+		date.getUTCFullYear() !== year ||
+		date.getUTCMonth() !== month - 1 ||
+		date.getUTCDate() !== day ||
+		date.getUTCHours() !== hours ||
+		date.getUTCMinutes() !== minutes ||
+		date.getUTCSeconds() !== seconds
+	) {
+		return failAt(
+			entry,
+			context,
+			`${field} is not a valid time '${token.text}'`,
+		);
+	}
+
+	// Times are kept modulo 2^32, as they are compared with serial arithmetic
+	return Effect.succeed((millis / 1000) % 2 ** 32);
+}
+
+/**
+ * Decodes the concatenated text of `tokens`, e.g. the Base64 or
+ * hexadecimal words that binary RDATA fields may be split into.
+ */
+function decodeText(
+	decode: (text: string) => Either.Either<Uint8Array, unknown>,
+	tokens: ReadonlyArray<Token>,
+	field: string,
+	entry: Entry,
+	context: MasterFileContext,
+): Effect.Effect<Uint8Array, ParseResult.ParseIssue> {
+	const text = tokens.map((token) => token.text).join("");
+
+	return tokens.some((token) => token.quoted)
+		? failAt(entry, context, `Invalid ${field} '${text}'`)
+		: Either.match(decode(text), {
+				onLeft: () => failAt(entry, context, `Invalid ${field} '${text}'`),
+				onRight: Effect.succeed,
+			});
+}
+
+const BASE32_HEX_ALPHABET = "0123456789abcdefghijklmnopqrstuv";
+
+/**
+ * 3.3. Presentation Format
+ *
+ * The Next Hashed Owner Name field is represented as an unpadded sequence
+ * of case-insensitive base32 digits, without whitespace.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc5155.html#section-3.3
+ * @see https://www.rfc-editor.org/rfc/rfc4648.html#section-7
+ */
+function decodeBase32Hex(text: string): Either.Either<Uint8Array, string> {
+	const octets: Array<number> = [];
+	let buffer = 0;
+	let bits = 0;
+
+	for (const char of text.toLowerCase()) {
+		const value = BASE32_HEX_ALPHABET.indexOf(char);
+
+		if (value === -1) {
+			return Either.left(`Invalid base32hex digit '${char}'`);
+		}
+
+		buffer = ((buffer << 5) | value) & 0xffff;
+		bits += 5;
+
+		if (bits >= 8) {
+			bits -= 8;
+			octets.push((buffer >> bits) & 0xff);
+		}
+	}
+
+	// Left over bits only pad the last digit
+	if (bits >= 5 || (buffer & ((1 << bits) - 1)) !== 0) {
+		return Either.left(`Invalid base32hex length ${text.length}`);
+	}
+
+	return Either.right(new Uint8Array(octets));
+}
+
+function encodeBase32Hex(octets: Uint8Array) {
+	let text = "";
+	let buffer = 0;
+	let bits = 0;
+
+	for (const octet of octets) {
+		buffer = ((buffer << 8) | octet) & 0xffff;
+		bits += 8;
+
+		while (bits >= 5) {
+			bits -= 5;
+			text += BASE32_HEX_ALPHABET[(buffer >> bits) & 0x1f];
+		}
+	}
+
+	if (bits > 0) {
+		text += BASE32_HEX_ALPHABET[(buffer << (5 - bits)) & 0x1f];
+	}
+
+	return text;
+}
+
+/**
+ * Splits master file text into entries. Parentheses continue an entry
+ * across line boundaries, ";" starts a comment and quoted strings may
+ * contain any character. Escapes are kept as is, to be interpreted by the
+ * field they are part of.
+ */
+function tokenize(
+	text: string,
+	context: MasterFileContext,
+): Either.Either<Array<Entry>, ParseResult.ParseIssue> {
+	const entries: Array<Entry> = [];
+
+	let tokens: Array<Token> = [];
+	let token: string | undefined = undefined;
+	let line = 1;
+	let entryLine = 1;
+	let blankOwner = false;
+	let parenthesesLine: number | undefined = undefined;
+	let startOfLine = true;
+	let idx = 0;
+
+	const endToken = () => {
+		if (token !== undefined) {
+			tokens.push({ text: token, quoted: false });
+			token = undefined;
+		}
+	};
+
+	const endEntry = () => {
+		if (tokens.length > 0) {
+			entries.push({ line: entryLine, blankOwner, tokens });
+		}
+
+		tokens = [];
+	};
+
+	while (idx < text.length) {
+		const char = text.charAt(idx);
+
+		if (startOfLine) {
+			startOfLine = false;
+
+			if (parenthesesLine === undefined) {
+				entryLine = line;
+				blankOwner = char === " " || char === "\t";
+			}
+		}
+
+		switch (char) {
+			case "\n": {
+				endToken();
+
+				if (parenthesesLine === undefined) {
+					endEntry();
+				}
+
+				line++;
+				startOfLine = true;
+				idx++;
+				continue;
+			}
+			case " ":
+			case "\t":
+			case "\r": {
+				endToken();
+				idx++;
+				continue;
+			}
+			case ";": {
+				endToken();
+
+				while (idx < text.length && text.charAt(idx) !== "\n") {
+					idx++;
+				}
+				continue;
+			}
+			case "(": {
+				endToken();
+
+				if (parenthesesLine !== undefined) {
+					return Either.left(
+						issueAt({ line }, context, "Parentheses can not be nested"),
+					);
+				}
+
+				parenthesesLine = line;
+				idx++;
+				continue;
+			}
+			case ")": {
+				endToken();
+
+				if (parenthesesLine === undefined) {
+					return Either.left(
+						issueAt({ line }, context, "Unbalanced closing parenthesis"),
+					);
+				}
+
+				parenthesesLine = undefined;
+				idx++;
+				continue;
+			}
+			case '"': {
+				endToken();
+
+				const quoteLine = line;
+				let quoted = "";
+
+				idx++;
+
+				while (idx < text.length && text.charAt(idx) !== '"') {
+					if (text.charAt(idx) === "\n") {
+						line++;
+					}
+
+					if (text.charAt(idx) === "\\") {
+						quoted += text.charAt(idx++);
+					}
+
+					quoted += text.charAt(idx++);
+				}
+
+				if (idx >= text.length) {
+					return Either.left(
+						issueAt({ line: quoteLine }, context, "Unterminated quoted string"),
+					);
+				}
+
+				tokens.push({ text: quoted, quoted: true });
+				idx++;
+				continue;
+			}
+			case "\\": {
+				// Keep the escaped character so it is not treated as a delimiter
+				token = (token ?? "") + text.slice(idx, idx + 2);
+				idx += 2;
+				continue;
+			}
+		}
+
+		token = (token ?? "") + char;
+		idx++;
+	}
+
+	endToken();
+
+	if (parenthesesLine !== undefined) {
+		return Either.left(
+			issueAt(
+				{ line: parenthesesLine },
+				context,
+				"Unbalanced opening parenthesis",
+			),
+		);
+	}
+
+	endEntry();
+
+	return Either.right(entries);
+}
+
+/**
+ * Parses an absolute or relative domain name, or "@" for the current origin.
+ */
+function parseDomainName(
+	token: Token,
+	state: MasterFileState,
+	entry: Entry,
+	context: MasterFileContext,
+): Effect.Effect<EncodedName, ParseResult.ParseIssue> {
+	return Effect.gen(function* () {
+		const isOrigin = token.text === "@" && !token.quoted;
+		const isAbsolute = isAbsoluteDomainName(token.text);
+
+		if (isAbsolute === false && state.origin === undefined) {
+			return yield* failAt(
+				entry,
+				context,
+				`Relative domain name '${token.text}' requires an origin`,
+			);
+		}
+
+		if (isOrigin || isAbsolute) {
+			return isOrigin
+				? state.origin!
+				: yield* decodeDomainName(token.text, entry, context);
+		}
+
+		const origin = state.origin!;
+		const relative = yield* decodeDomainName(`${token.text}.`, entry, context);
+		const encodedByteLength =
+			relative.encodedByteLength - 1 + origin.encodedByteLength;
+
+		if (encodedByteLength > 255) {
+			return yield* failAt(
+				entry,
+				context,
+				`Domain name '${token.text}' exceeds 255 bytes once the origin is appended`,
+			);
+		}
+
+		return {
+			labels: [...relative.labels, ...origin.labels],
+			encodedByteLength,
+		};
+	});
+}
+
+function decodeDomainName(
+	text: string,
+	entry: Entry,
+	context: MasterFileContext,
+): Effect.Effect<EncodedName, ParseResult.ParseIssue> {
+	return decodeEncodedNameFromString(text).pipe(
+		Effect.mapError(({ issue }) =>
+			issueAt(
+				entry,
+				context,
+				`Invalid domain name '${text}': ${ParseResult.TreeFormatter.formatIssueSync(issue)}`,
+			),
+		),
+	);
+}
+
+/**
+ * Domain names that end in an unescaped dot are absolute.
+ */
+function isAbsoluteDomainName(text: string) {
+	let endsWithDot = false;
+	let idx = 0;
+
+	while (idx < text.length) {
+		if (text.charAt(idx) === "\\") {
+			endsWithDot = false;
+			idx += /[0-9]/.test(text.charAt(idx + 1)) ? 4 : 2;
+			continue;
+		}
+
+		endsWithDot = text.charAt(idx) === ".";
+		idx++;
+	}
+
+	return endsWithDot;
+}
+
+/**
+ * Interprets \X and \DDD escapes of a <character-string>, each character
+ * being a single octet.
+ */
+function parseCharacterString(
+	token: Token,
+	entry: Entry,
+	context: MasterFileContext,
+): Effect.Effect<Uint8Array, ParseResult.ParseIssue> {
+	return Effect.gen(function* () {
+		const { text } = token;
+		const octets: Array<number> = [];
+		let idx = 0;
+
+		while (idx < text.length) {
+			let charCode = text.charCodeAt(idx);
+
+			if (text.charAt(idx) === "\\") {
+				const digits = text.slice(idx + 1, idx + 4);
+
+				if (/^[0-9]{3}$/.test(digits) && Number(digits) <= 255) {
+					octets.push(Number(digits));
+					idx += 4;
+					continue;
+				}
+
+				if (idx + 1 >= text.length || /^[0-9]/.test(digits)) {
+					return yield* failAt(
+						entry,
+						context,
+						`Invalid escape in <character-string> '${text}'`,
+					);
+				}
+
+				charCode = text.charCodeAt(++idx);
+			}
+
+			if (charCode > 255) {
+				return yield* failAt(
+					entry,
+					context,
+					`<character-string> characters must be single octets, found '${text.charAt(idx)}'`,
+				);
+			}
+
+			octets.push(charCode);
+			idx++;
+		}
+
+		return new Uint8Array(octets);
+	});
+}
+
+function parseInteger(
+	token: Token,
+	field: string,
+	entry: Entry,
+	context: MasterFileContext,
+): Effect.Effect<number, ParseResult.ParseIssue> {
+	if (token.quoted || !/^[0-9]+$/.test(token.text)) {
+		return failAt(
+			entry,
+			context,
+			`${field} must be a decimal integer, received '${token.text}'`,
+		);
+	}
+
+	return Effect.succeed(Number(token.text));
+}
+
+function nextToken(
+	tokens: Array<Token>,
+	field: string,
+	entry: Entry,
+	context: MasterFileContext,
+): Effect.Effect<Token, ParseResult.ParseIssue> {
+	const token = tokens.shift();
+
+	return token === undefined
+		? failAt(entry, context, `Missing ${field}`)
+		: Effect.succeed(token);
+}
+
+function noMoreTokens(
+	tokens: Array<Token>,
+	entry: Entry,
+	context: MasterFileContext,
+): Effect.Effect<void, ParseResult.ParseIssue> {
+	return tokens.length === 0
+		? Effect.void
+		: failAt(entry, context, `Unexpected '${tokens[0]?.text}'`);
+}
+
+/**
+ * Writes `records` as master file entries, with names relative to `origin`
+ * when one is given.
+ */
+function formatMasterFile(
+	records: ReadonlyArray<ResourceRecord>,
+	origin: Name | undefined,
+	ast: SchemaAST.AST,
+): Effect.Effect<string, ParseResult.ParseIssue> {
+	return Effect.gen(function* () {
+		const lines: Array<string> = [];
+		const ttl = getMostCommonTtl(records);
+
+		if (origin !== undefined) {
+			lines.push(
+				`$ORIGIN ${yield* ParseResult.encode(NameFromString)(origin)}`,
+			);
+		}
+
+		if (ttl !== undefined) {
+			lines.push(`$TTL ${ttl}`);
+		}
+
+		const rows: Array<{
+			columns: ReadonlyArray<string>;
+			rdata: ReadonlyArray<string>;
+		}> = [];
+
+		for (const record of records) {
+			rows.push({
+				columns: [
+					yield* formatDomainName(record.name, origin),
+					// Records with the $TTL value leave the TTL column blank
+					record.ttl === ttl ? "" : String(record.ttl),
+					record.class,
+					record.type,
+				],
+				rdata: yield* formatRData(record, origin, ast),
+			});
+		}
+
+		const widths = [0, 1, 2, 3].map((idx) =>
+			Math.max(0, ...rows.map((row) => row.columns[idx]?.length ?? 0)),
+		);
+
+		for (const { columns, rdata } of rows) {
+			let line = "";
+
+			for (let idx = 0; idx < columns.length; idx++) {
+				const width = widths[idx] ?? 0;
+
+				if (width > 0) {
+					line += `${columns[idx]?.padEnd(width)} `;
+				}
+			}
+
+			const [first = "", ...rest] = rdata;
+			const indent = " ".repeat(line.length);
+
+			lines.push(`${line}${first}`.trimEnd());
+			lines.push(...rest.map((rdataLine) => `${indent}${rdataLine}`));
+		}
+
+		return lines.map((line) => `${line}\n`).join("");
+	});
+}
+
+/**
+ * Formats the RDATA of `record`, one string per line.
+ */
+function formatRData(
+	record: ResourceRecord,
+	origin: Name | undefined,
+	ast: SchemaAST.AST,
+): Effect.Effect<Array<string>, ParseResult.ParseIssue> {
+	return Effect.gen(function* () {
+		const name = (value: Name) => formatDomainName(value, origin);
+
+		switch (record.type) {
+			case "A": {
+				return [record.rdata.address];
+			}
+			case "NS": {
+				return [yield* name(record.rdata.nsdname)];
+			}
+			case "MD":
+			case "MF":
+			case "MB": {
+				return [yield* name(record.rdata.madname)];
+			}
+			case "CNAME": {
+				return [yield* name(record.rdata.cname)];
+			}
+			case "SOA": {
+				const { rdata } = record;
+				const fields = [
+					[rdata.serial, "SERIAL"],
+					[rdata.refresh, "REFRESH"],
+					[rdata.retry, "RETRY"],
+					[rdata.expire, "EXPIRE"],
+					[`${rdata.minimum} )`, "MINIMUM"],
+				] as const;
+				const width = Math.max(
+					...fields.map(([value]) => String(value).length),
+				);
+
+				return [
+					`${yield* name(rdata.mname)} ${yield* name(rdata.rname)} (`,
+					...fields.map(
+						([value, field]) => `${String(value).padEnd(width)} ; ${field}`,
+					),
+				];
+			}
+			case "MG": {
+				return [yield* name(record.rdata.mgmname)];
+			}
+			case "MR": {
+				return [yield* name(record.rdata.newname)];
+			}
+			case "NULL": {
+				return yield* ParseResult.fail(
+					new ParseResult.Type(
+						ast,
+						record,
+						"NULL RRs are not allowed in master files",
+					),
+				);
+			}
+			case "WKS": {
+				const { rdata } = record;
+				const ports: Array<number> = [];
+
+				// Bit N of the bitmap corresponds to port N
+				for (let port = 0; port < rdata.bitmap.byteLength * 8; port++) {
+					if (((rdata.bitmap[port >> 3] ?? 0) & (0x80 >> (port & 7))) !== 0) {
+						ports.push(port);
+					}
+				}
+
+				return [
+					[
+						rdata.address,
+						WKSProtocolToProtocolName[rdata.protocol] ?? rdata.protocol,
+						...ports,
+					].join(" "),
+				];
+			}
+			case "PTR": {
+				return [yield* name(record.rdata.ptrdname)];
+			}
+			case "HINFO": {
+				return [
+					`${formatCharacterString(record.rdata.cpu)} ${formatCharacterString(record.rdata.os)}`,
+				];
+			}
+			case "MINFO": {
+				const { rdata } = record;
+
+				return [`${yield* name(rdata.rmailbx)} ${yield* name(rdata.emailbx)}`];
+			}
+			case "MX": {
+				const { rdata } = record;
+
+				return [`${rdata.preference} ${yield* name(rdata.exchange)}`];
+			}
+			case "TXT": {
+				return [record.rdata.txtData.map(formatCharacterString).join(" ")];
+			}
+			case "AAAA": {
+				return [record.rdata.address];
+			}
+			case "SRV": {
+				const { rdata } = record;
+
+				return [
+					`${rdata.priority} ${rdata.weight} ${rdata.port} ${yield* name(rdata.target)}`,
+				];
+			}
+			case "DS": {
+				const { rdata } = record;
+
+				return [
+					`${rdata.keyTag} ${rdata.algorithm} ${rdata.digestType} ${Encoding.encodeHex(rdata.digest).toUpperCase()}`,
+				];
+			}
+			case "RRSIG": {
+				const { rdata } = record;
+
+				return formatBase64Field(
+					[
+						formatTypeMnemonic(rdata.typeCovered),
+						rdata.algorithm,
+						rdata.labels,
+						rdata.originalTtl,
+						formatTime(rdata.signatureExpiration),
+						formatTime(rdata.signatureInception),
+						rdata.keyTag,
+						yield* name(rdata.signerName),
+					].join(" "),
+					rdata.signature,
+				);
+			}
+			case "NSEC": {
+				const { rdata } = record;
+
+				return [
+					[
+						yield* name(rdata.nextDomainName),
+						...rdata.types.map(formatTypeMnemonic),
+					].join(" "),
+				];
+			}
+			case "DNSKEY": {
+				const { rdata } = record;
+
+				return formatBase64Field(
+					`${rdata.flags} ${rdata.protocol} ${rdata.algorithm}`,
+					rdata.publicKey,
+				);
+			}
+			case "NSEC3": {
+				const { rdata } = record;
+
+				return [
+					[
+						rdata.hashAlgorithm,
+						rdata.flags,
+						rdata.iterations,
+						formatSalt(rdata.salt),
+						encodeBase32Hex(rdata.nextHashedOwnerName),
+						...rdata.types.map(formatTypeMnemonic),
+					].join(" "),
+				];
+			}
+			case "NSEC3PARAM": {
+				const { rdata } = record;
+
+				return [
+					`${rdata.hashAlgorithm} ${rdata.flags} ${rdata.iterations} ${formatSalt(rdata.salt)}`,
+				];
+			}
+		}
+
+		// The RDATA of an unknown TYPE can only be written in its generic encoding
+		const { data } = record.rdata;
+		const hex = Array.from(data, (octet) =>
+			octet.toString(16).toUpperCase().padStart(2, "0"),
+		).join("");
+
+		return [data.byteLength === 0 ? "\\# 0" : `\\# ${data.byteLength} ${hex}`];
+	});
+}
+
+function formatTypeMnemonic(type: number) {
+	return Object.hasOwn(RRTypeToRRTypeName, type)
+		? RRTypeToRRTypeName[type as keyof typeof RRTypeToRRTypeName]
+		: `TYPE${type}`;
+}
+
+/**
+ * Formats seconds since the epoch in the YYYYMMDDHHmmSS form, in UTC.
+ */
+function formatTime(time: number) {
+	return new Date(time * 1000).toISOString().slice(0, 19).replace(/[-T:]/g, "");
+}
+
+function formatSalt(salt: Uint8Array) {
+	return salt.byteLength === 0 ? "-" : Encoding.encodeHex(salt).toUpperCase();
+}
+
+/**
+ * Formats `fields` followed by the Base64 of `octets`, which is split across
+ * lines within parentheses when it is long.
+ */
+function formatBase64Field(fields: string, octets: Uint8Array) {
+	const base64 = Encoding.encodeBase64(octets);
+
+	if (base64.length <= BASE64_LINE_LENGTH) {
+		return [`${fields} ${base64}`.trimEnd()];
+	}
+
+	const lines = [`${fields} (`];
+
+	for (let idx = 0; idx < base64.length; idx += BASE64_LINE_LENGTH) {
+		lines.push(base64.slice(idx, idx + BASE64_LINE_LENGTH));
+	}
+
+	lines.push(`${lines.pop()} )`);
+
+	return lines;
+}
+
+const BASE64_LINE_LENGTH = 56;
+
+/**
+ * Formats `name` relative to `origin` when it is `origin` or one of its
+ * subdomains. Labels are compared exactly, so that the case of every label
+ * survives a roundtrip through the parser.
+ */
+function formatDomainName(
+	name: Name,
+	origin: Name | undefined,
+): Effect.Effect<string, ParseResult.ParseIssue> {
+	return Effect.gen(function* () {
+		const offset = name.labels.length - (origin?.labels.length ?? 0);
+		const isRelative =
+			origin !== undefined &&
+			origin.labels.length > 0 &&
+			offset >= 0 &&
+			origin.labels.every((label, idx) => label === name.labels[offset + idx]);
+
+		if (!isRelative) {
+			return yield* ParseResult.encode(NameFromString)(name);
+		}
+
+		if (offset === 0) {
+			return "@";
+		}
+
+		const labels = name.labels.slice(0, offset);
+		const absolute = yield* ParseResult.encode(NameFromString)({
+			labels,
+			encodedByteLength: labels.reduce(
+				(bytes, label) => bytes + label.length + 1,
+				1,
+			),
+		});
+
+		return absolute.slice(0, -1);
+	});
+}
+
+/**
+ * Quotes a <character-string>, escaping '"', '\' and non printable octets.
+ */
+function formatCharacterString(str: string) {
+	let quoted = "";
+
+	for (let idx = 0; idx < str.length; idx++) {
+		const charCode = str.charCodeAt(idx);
+
+		if (charCode === 0x22 || charCode === 0x5c) {
+			quoted += `\\${str.charAt(idx)}`;
+		} else if (charCode < 0x20 || charCode > 0x7e) {
+			quoted += `\\${charCode.toString().padStart(3, "0")}`;
+		} else {
+			quoted += str.charAt(idx);
+		}
+	}
+
+	return `"${quoted}"`;
+}
+
+/**
+ * The TTL shared by the most records, the first one seen on a tie.
+ */
+function getMostCommonTtl(records: ReadonlyArray<ResourceRecord>) {
+	const counts = new Map<number, number>();
+	let mostCommon: number | undefined = undefined;
+
+	for (const { ttl } of records) {
+		counts.set(ttl, (counts.get(ttl) ?? 0) + 1);
+	}
+
+	for (const [ttl, count] of counts) {
+		if (mostCommon === undefined || count > (counts.get(mostCommon) ?? 0)) {
+			mostCommon = ttl;
+		}
+	}
+
+	return mostCommon;
+}
+
+function failAt(
+	entry: Pick<Entry, "line">,
+	context: MasterFileContext,
+	message: string,
+) {
+	return ParseResult.fail(issueAt(entry, context, message));
+}
+
+function issueAt(
+	entry: Pick<Entry, "line">,
+	context: MasterFileContext,
+	message: string,
+) {
+	const location =
+		context.fileName === undefined
+			? `Line ${entry.line}`
+			: `Line ${entry.line} of '${context.fileName}'`;
+
+	return new ParseResult.Type(context.ast, entry, `${location}: ${message}`);
+}
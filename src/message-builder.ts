@@ -0,0 +1,203 @@
+import { Array, Function } from "effect";
+import type { Opt } from "./edns";
+import type { Header } from "./header";
+import type { Message } from "./message";
+import { decodeSyncNameFromString, type Name } from "./name";
+import type { Question } from "./question";
+import {
+	getRRClass,
+	getRRType,
+	type ResourceRecord,
+	type ResourceRecordClass,
+	type ResourceRecordType,
+} from "./resource-record";
+
+/**
+ * Builders of messages whose header counts always match their sections, e.g.
+ *
+ *   pipe(
+ *     makeResponseTo(query),
+ *     withAnswer(record),
+ *     withFlags({ aa: 1 }),
+ *   )
+ *
+ * Sections are only ever appended to, so the order of the RRs is the order
+ * they were added in.
+ *
+ * Queries and responses are made with `makeQuery` and `makeResponseTo`
+ * rather than `Message.query` and `Message.responseTo`, since `Message` is
+ * already the schema of messages and can not also hold the builders.
+ */
+
+type Records = ResourceRecord | ReadonlyArray<ResourceRecord>;
+
+/**
+ * Builds a standard query for the RRs of `qtype` at `qname`, which is
+ * parsed from its presentation format when given as a string. The query
+ * has ID 0 and the RD bit set unless options say otherwise.
+ */
+export const makeQuery = (
+	qname: Name | string,
+	qtype: ResourceRecordType | Question["qtype"],
+	options?: {
+		readonly id?: number;
+		readonly qclass?: ResourceRecordClass | Question["qclass"];
+		readonly recursionDesired?: boolean;
+	},
+): Message => {
+	const qclass = options?.qclass ?? "IN";
+	const question: Question = {
+		qname: typeof qname === "string" ? decodeSyncNameFromString(qname) : qname,
+		qtype: typeof qtype === "string" ? getRRType(qtype) : qtype,
+		qclass: typeof qclass === "string" ? getRRClass(qclass) : qclass,
+	};
+
+	return withCounts({
+		header: {
+			id: options?.id ?? 0,
+			qr: 0,
+			opcode: "QUERY",
+			aa: 0,
+			tc: 0,
+			rd: options?.recursionDesired === false ? 0 : 1,
+			ra: 0,
+			z: 0,
+			rcode: "NOERROR",
+			qdcount: 0,
+			ancount: 0,
+			nscount: 0,
+			arcount: 0,
+		},
+		question: [question],
+		answer: [],
+		authority: [],
+		additional: [],
+	});
+};
+
+/**
+ * 4.1.1. Header section format
+ *
+ * ID: A 16 bit identifier assigned by the program that generates any kind
+ * of query. This identifier is copied the corresponding reply and can be
+ * used by the requester to match up replies to outstanding queries.
+ *
+ * Builds an empty NOERROR response to `query`, copying its ID, OPCODE, RD
+ * bit and question section.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-4.1.1
+ */
+export const makeResponseTo = (query: Message): Message =>
+	withCounts({
+		header: {
+			id: query.header.id,
+			qr: 1,
+			opcode: query.header.opcode,
+			aa: 0,
+			tc: 0,
+			rd: query.header.rd,
+			ra: 0,
+			z: 0,
+			rcode: "NOERROR",
+			qdcount: 0,
+			ancount: 0,
+			nscount: 0,
+			arcount: 0,
+		},
+		question: query.question,
+		answer: [],
+		authority: [],
+		additional: [],
+	});
+
+/** Appends `question` to the question section */
+export const withQuestion: {
+	(question: Question): (message: Message) => Message;
+	(message: Message, question: Question): Message;
+} = Function.dual(2, (message: Message, question: Question) =>
+	withCounts({ ...message, question: [...message.question, question] }),
+);
+
+/** Appends `records` to the answer section */
+export const withAnswer: {
+	(records: Records): (message: Message) => Message;
+	(message: Message, records: Records): Message;
+} = Function.dual(2, (message: Message, records: Records) =>
+	withCounts({
+		...message,
+		answer: [...message.answer, ...Array.ensure(records)],
+	}),
+);
+
+/** Appends `records` to the authority section */
+export const withAuthority: {
+	(records: Records): (message: Message) => Message;
+	(message: Message, records: Records): Message;
+} = Function.dual(2, (message: Message, records: Records) =>
+	withCounts({
+		...message,
+		authority: [...message.authority, ...Array.ensure(records)],
+	}),
+);
+
+/**
+ * Appends `records` to the additional section. The OPT RR is set with
+ * `withOpt` instead.
+ */
+export const withAdditional: {
+	(records: Records): (message: Message) => Message;
+	(message: Message, records: Records): Message;
+} = Function.dual(2, (message: Message, records: Records) =>
+	withCounts({
+		...message,
+		additional: [...message.additional, ...Array.ensure(records)],
+	}),
+);
+
+/**
+ * Sets the RCODE of the header. Extended RCODEs are carried by the OPT RR
+ * when the message is encoded, which must then have one.
+ */
+export const withRcode: {
+	(rcode: Message["header"]["rcode"]): (message: Message) => Message;
+	(message: Message, rcode: Message["header"]["rcode"]): Message;
+} = Function.dual(
+	2,
+	(message: Message, rcode: Message["header"]["rcode"]): Message => ({
+		...message,
+		header: { ...message.header, rcode },
+	}),
+);
+
+type Flags = Partial<Pick<Header, "aa" | "tc" | "rd" | "ra">>;
+
+/** Sets the AA, TC, RD and RA bits of the header */
+export const withFlags: {
+	(flags: Flags): (message: Message) => Message;
+	(message: Message, flags: Flags): Message;
+} = Function.dual(2, (message: Message, flags: Flags): Message => ({
+	...message,
+	header: { ...message.header, ...flags },
+}));
+
+/** Sets the OPT RR of the additional section, counted in ARCOUNT */
+export const withOpt: {
+	(opt: Opt): (message: Message) => Message;
+	(message: Message, opt: Opt): Message;
+} = Function.dual(2, (message: Message, opt: Opt) =>
+	withCounts({ ...message, opt }),
+);
+
+function withCounts(message: Message): Message {
+	return {
+		...message,
+		header: {
+			...message.header,
+			qdcount: message.question.length,
+			ancount: message.answer.length,
+			nscount: message.authority.length,
+			// As decoded, ARCOUNT counts the OPT RR
+			arcount: message.additional.length + (message.opt === undefined ? 0 : 1),
+		},
+	};
+}
@@ -1,23 +1,51 @@
-import { Effect, ParseResult, Schema, Struct } from "effect";
-import { decodeHeaderFromDnsPacket, Header } from "./header";
+import { Effect, ParseResult, Schema, SchemaAST, Struct } from "effect";
+import {
+	decodeOptFromDnsPacketCursor,
+	encodeOptToDnsPacketWriter,
+	isOptAtDnsPacketCursor,
+	Opt,
+	type EncodedOpt,
+} from "./edns";
+import {
+	decodeHeaderFromDnsPacket,
+	encodeHeaderToUint8Array,
+	ExtendedRCode,
+	Header,
+} from "./header";
 import {
 	decodeQuestionFromDnsPacketCursor,
+	encodeQuestionToDnsPacketWriter,
 	Question,
 	type EncodedQuestion,
 } from "./question";
 import {
 	decodeResourceRecordFromDnsPacketCursor,
+	encodeResourceRecordToDnsPacketWriter,
 	ResourceRecord,
 	type EncodedResourceRecord,
 } from "./resource-record";
-import { DnsPacketCursor } from "./types";
+import { DnsPacketCursor, DnsPacketWriter } from "./types";
 
 export const Message = Schema.Struct({
-	header: Header,
+	/**
+	 * The RCODE of the header is extended to 12 bits, whose upper 8 bits are
+	 * carried by the OPT RR of messages that have one.
+	 */
+	header: Schema.Struct({ ...Header.fields, rcode: ExtendedRCode }),
 	question: Schema.Array(Question),
 	answer: Schema.Array(ResourceRecord),
 	authority: Schema.Array(ResourceRecord),
+	/** Every RR of the additional section except the OPT RR */
 	additional: Schema.Array(ResourceRecord),
+	/**
+	 * 6.1.1. Basic Elements
+	 *
+	 * The OPT RR of the additional section, which is present in messages
+	 * using EDNS(0).
+	 *
+	 * @see https://www.rfc-editor.org/rfc/rfc6891.html#section-6.1.1
+	 */
+	opt: Schema.optional(Opt),
 }).annotations({
 	identifier: "Message",
 	description: "A DNS Packet Message",
@@ -31,80 +59,268 @@ export const MessageFromUint8Array = Schema.transformOrFail(
 	Message,
 	{
 		strict: true,
-		decode(uint8Array) {
-			return Effect.gen(function* () {
-				const cursor = DnsPacketCursor.fromUint8Array(uint8Array);
+		decode(uint8Array, _, ast) {
+			return Effect.map(decodeMessage(uint8Array, ast), Struct.get("message"));
+		},
+		encode(message, _, ast) {
+			return encodeMessage(message, ast);
+		},
+	},
+);
 
-				// --- Header ---
-				const { header, bytesConsumed } =
-					yield* decodeHeaderFromDnsPacket(cursor);
+/**
+ * Like `MessageFromUint8Array`, except that decoding fails when bytes trail
+ * the last RR the header counts, as they could be smuggled past anything
+ * only looking at the records.
+ */
+export const StrictMessageFromUint8Array = Schema.transformOrFail(
+	Schema.Uint8ArrayFromSelf,
+	Message,
+	{
+		strict: true,
+		decode(uint8Array, _, ast) {
+			return Effect.flatMap(
+				decodeMessage(uint8Array, ast),
+				({ message, encodedByteLength }) =>
+					encodedByteLength < uint8Array.byteLength
+						? ParseResult.fail(
+								new ParseResult.Type(
+									ast,
+									uint8Array,
+									`${uint8Array.byteLength - encodedByteLength} bytes trail the last record, at offset ${encodedByteLength}`,
+								),
+							)
+						: ParseResult.succeed(message),
+			);
+		},
+		encode(message, _, ast) {
+			return encodeMessage(message, ast);
+		},
+	},
+).annotations({
+	identifier: "StrictMessageFromUint8Array",
+	description: "A DNS Packet Message without bytes trailing its records",
+});
+
+/**
+ * Decodes a message like `MessageFromUint8Array`, reporting the bytes that
+ * trail the last RR the header counts, if any, along with their offset.
+ */
+export const decodeMessageWithTrailingBytes = (
+	uint8Array: Uint8Array,
+): Effect.Effect<
+	{
+		readonly message: Message;
+		readonly trailing?: {
+			readonly offset: number;
+			readonly bytes: Uint8Array;
+		};
+	},
+	ParseResult.ParseError
+> =>
+	Effect.gen(function* () {
+		const { message, encodedByteLength } = yield* decodeMessage(
+			uint8Array,
+			MessageFromUint8Array.ast,
+		).pipe(Effect.mapError((issue) => new ParseResult.ParseError({ issue })));
+		const decoded = yield* Schema.decode(Message)(message);
 
-				cursor.offset += bytesConsumed;
+		if (encodedByteLength === uint8Array.byteLength) {
+			return { message: decoded };
+		}
 
-				// --- Questions ---
-				let questions: EncodedQuestion[] = [];
+		return {
+			message: decoded,
+			trailing: {
+				offset: encodedByteLength,
+				bytes: uint8Array.subarray(encodedByteLength),
+			},
+		};
+	});
 
-				for (let idx = 0; idx < header.qdcount; idx++) {
-					const { question, encodedByteLength } =
-						yield* decodeQuestionFromDnsPacketCursor(cursor);
+/**
+ * Decodes the sections the header counts, along with the byte length they
+ * take up, which is shorter than the message when bytes trail them.
+ */
+function decodeMessage(uint8Array: Uint8Array, ast: SchemaAST.AST) {
+	return Effect.gen(function* () {
+		const cursor = DnsPacketCursor.fromUint8Array(uint8Array);
 
-					// TODO: qname needs be labels as uint8Arrays
-					question.qname;
-					questions.push(question);
+		// --- Header ---
+		const { header, bytesConsumed } = yield* decodeHeaderFromDnsPacket(cursor);
 
-					// Progress the cursor to the next question
-					cursor.offset += encodedByteLength;
-				}
+		cursor.offset += bytesConsumed;
 
-				// --- Answers ---
-				let answers: EncodedResourceRecord[] = [];
+		// --- Questions ---
+		let questions: EncodedQuestion[] = [];
 
-				for (let idx = 0; idx < header.ancount; idx++) {
-					const { resourceRecord: answer, encodedByteLength } =
-						yield* decodeResourceRecordFromDnsPacketCursor(cursor);
-					answers.push(answer);
+		for (let idx = 0; idx < header.qdcount; idx++) {
+			const { question, encodedByteLength } =
+				yield* decodeQuestionFromDnsPacketCursor(cursor);
 
-					// Progress the cursor to the next question
-					cursor.offset += encodedByteLength;
-				}
+			questions.push(question);
 
-				// --- Nameserver Answers ---
-				let authorityRecords: EncodedResourceRecord[] = [];
+			// Progress the cursor to the next question
+			cursor.offset += encodedByteLength;
+		}
 
-				for (let idx = 0; idx < header.nscount; idx++) {
-					const { resourceRecord: authorityRecord, encodedByteLength } =
-						yield* decodeResourceRecordFromDnsPacketCursor(cursor);
-					authorityRecords.push(authorityRecord);
+		// --- Answers ---
+		let answers: EncodedResourceRecord[] = [];
 
-					// Progress the cursor to the next question
-					cursor.offset += encodedByteLength;
-				}
+		for (let idx = 0; idx < header.ancount; idx++) {
+			if (isOptAtDnsPacketCursor(cursor)) {
+				return yield* failOptOutsideAdditional(ast, uint8Array);
+			}
+
+			const { resourceRecord: answer, encodedByteLength } =
+				yield* decodeResourceRecordFromDnsPacketCursor(cursor);
+			answers.push(answer);
+
+			// Progress the cursor to the next question
+			cursor.offset += encodedByteLength;
+		}
 
-				// --- Additional ---
-				let additionalRecords: EncodedResourceRecord[] = [];
+		// --- Nameserver Answers ---
+		let authorityRecords: EncodedResourceRecord[] = [];
 
-				for (let idx = 0; idx < header.arcount; idx++) {
-					const { resourceRecord: additionalRecord, encodedByteLength } =
-						yield* decodeResourceRecordFromDnsPacketCursor(cursor);
-					additionalRecords.push(additionalRecord);
+		for (let idx = 0; idx < header.nscount; idx++) {
+			if (isOptAtDnsPacketCursor(cursor)) {
+				return yield* failOptOutsideAdditional(ast, uint8Array);
+			}
 
-					// Progress the cursor to the next question
-					cursor.offset += encodedByteLength;
+			const { resourceRecord: authorityRecord, encodedByteLength } =
+				yield* decodeResourceRecordFromDnsPacketCursor(cursor);
+			authorityRecords.push(authorityRecord);
+
+			// Progress the cursor to the next question
+			cursor.offset += encodedByteLength;
+		}
+
+		// --- Additional ---
+		let additionalRecords: EncodedResourceRecord[] = [];
+		let opt: EncodedOpt | undefined = undefined;
+		let extendedRCode = 0;
+
+		for (let idx = 0; idx < header.arcount; idx++) {
+			if (isOptAtDnsPacketCursor(cursor)) {
+				// RFC 6891 6.1.1
+				if (opt !== undefined) {
+					return yield* ParseResult.fail(
+						new ParseResult.Type(
+							ast,
+							uint8Array,
+							"A message must not contain more than one OPT RR",
+						),
+					);
 				}
 
-				return {
-					header,
-					question: questions,
-					answer: answers,
-					authority: authorityRecords,
-					additional: additionalRecords,
-				};
-			}).pipe(Effect.mapError(Struct.get("issue")));
-		},
-		encode(message, _, ast) {
-			return ParseResult.fail(
-				new ParseResult.Type(ast, message, "not implemented"),
+				const decoded = yield* decodeOptFromDnsPacketCursor(cursor);
+
+				opt = decoded.opt;
+				extendedRCode = decoded.extendedRCode;
+				cursor.offset += decoded.encodedByteLength;
+				continue;
+			}
+
+			const { resourceRecord: additionalRecord, encodedByteLength } =
+				yield* decodeResourceRecordFromDnsPacketCursor(cursor);
+			additionalRecords.push(additionalRecord);
+
+			// Progress the cursor to the next question
+			cursor.offset += encodedByteLength;
+		}
+
+		return {
+			message: {
+				header: { ...header, rcode: (extendedRCode << 4) | header.rcode },
+				question: questions,
+				answer: answers,
+				authority: authorityRecords,
+				additional: additionalRecords,
+				...(opt === undefined ? {} : { opt }),
+			},
+			encodedByteLength: cursor.offset,
+		};
+	}).pipe(
+		Effect.catchTag("ParseError", (error) => ParseResult.fail(error.issue)),
+	);
+}
+
+function encodeMessage(message: typeof Message.Encoded, ast: SchemaAST.AST) {
+	return Effect.gen(function* () {
+		const sections = {
+			qdcount: message.question.length,
+			ancount: message.answer.length,
+			nscount: message.authority.length,
+			arcount: message.additional.length + (message.opt ? 1 : 0),
+		};
+
+		for (const [field, count] of Object.entries(sections)) {
+			if (count > 65_535) {
+				return yield* ParseResult.fail(
+					new ParseResult.Type(
+						ast,
+						message,
+						`${field.toUpperCase()} must be 65535 or less, received ${count}`,
+					),
+				);
+			}
+		}
+
+		const { rcode } = message.header;
+
+		if (rcode > 0x0f && message.opt === undefined) {
+			return yield* ParseResult.fail(
+				new ParseResult.Type(
+					ast,
+					message,
+					`RCODE ${rcode} needs an OPT RR to carry its upper 8 bits`,
+				),
 			);
-		},
-	},
-);
+		}
+
+		// Names are compressed against every name written before them
+		const writer = DnsPacketWriter.make({ compression: true });
+
+		// --- Header ---
+		// The counts always describe the sections actually being written
+		const header = yield* encodeHeaderToUint8Array({
+			...message.header,
+			...sections,
+			rcode: rcode & 0x0f,
+		}).pipe(Effect.mapError(Struct.get("issue")));
+
+		DnsPacketWriter.write(writer, header);
+
+		// --- Questions ---
+		for (const question of message.question) {
+			yield* encodeQuestionToDnsPacketWriter(writer, question, ast);
+		}
+
+		// --- Answers, Nameserver Answers & Additional ---
+		for (const resourceRecord of [
+			...message.answer,
+			...message.authority,
+			...message.additional,
+		]) {
+			yield* encodeResourceRecordToDnsPacketWriter(writer, resourceRecord, ast);
+		}
+
+		// --- OPT RR, carrying the upper 8 bits of the RCODE ---
+		if (message.opt !== undefined) {
+			yield* encodeOptToDnsPacketWriter(writer, message.opt, rcode >> 4, ast);
+		}
+
+		return DnsPacketWriter.toUint8Array(writer);
+	});
+}
+
+function failOptOutsideAdditional(ast: SchemaAST.AST, uint8Array: Uint8Array) {
+	return ParseResult.fail(
+		new ParseResult.Type(
+			ast,
+			uint8Array,
+			"An OPT RR may only be in the additional section",
+		),
+	);
+}
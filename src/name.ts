@@ -7,8 +7,14 @@ import {
 	SchemaAST,
 } from "effect";
 import type { Mutable } from "effect/Types";
-import { getUint16, getUint8 } from "./utils";
-import { DnsPacketCursor } from "./types";
+import {
+	getUint16,
+	getUint8,
+	setUint16,
+	setUint8,
+	uint8ArraySet,
+} from "./utils";
+import { DnsPacketCursor, DnsPacketWriter } from "./types";
 
 /* 2.3.4. Size limits
  *
@@ -56,6 +62,12 @@ class AsciiHyphen extends Schema.Literal(45).annotations({
 
 const isHypen = (value: unknown) => Schema.is(AsciiHyphen)(value);
 
+/** ASCII code for underscore (_) */
+const AsciiUnderscore = 95;
+
+/** ASCII code for asterisk (*) */
+const AsciiAsterisk = 42;
+
 class LabelCharacter extends Schema.Union(
 	Digit,
 	UppercaseAsciiAlphabet,
@@ -73,102 +85,29 @@ const isValidLabelCharacter = (value: unknown): value is LabelCharacter =>
 export type Label = typeof Label.Type;
 export type EncodedLabel = typeof Label.Encoded;
 
-const Label = Schema.transformOrFail(Schema.Uint8ArrayFromSelf, Schema.String, {
-	strict: true,
-	decode(uint8Array, _, ast) {
-		if (uint8Array.byteLength === 0 || uint8Array.byteLength > 63) {
-			return ParseResult.fail(
-				new ParseResult.Type(
-					ast,
-					uint8Array,
-					"Label must be between 1 and 63 bytes",
-				),
+export const Label = Schema.transformOrFail(
+	Schema.Uint8ArrayFromSelf,
+	Schema.String,
+	{
+		strict: true,
+		decode(uint8Array, _, ast) {
+			return Either.flatMap(validateLabel(uint8Array, ast), (label) =>
+				decodeUint8ArrayToString(label, ast),
 			);
-		}
-
-		for (let idx = 0; idx < uint8Array.byteLength; idx++) {
-			const byte = uint8Array.at(idx);
-			const previousByte = idx > 0 ? uint8Array.at(idx - 1) : undefined;
-
-			if (!isValidLabelCharacter(byte)) {
-				return ParseResult.fail(
-					new ParseResult.Type(
-						ast,
-						uint8Array,
-						`Invalid Label character. Labels must contain only ASCII letters (A-Z, a-z), digits (0-9), and hyphens (-). Found invalid character '${byte}'.`,
-					),
-				);
-			}
-
-			if (idx === 0 && isHypen(byte)) {
-				return ParseResult.fail(
-					new ParseResult.Type(
-						ast,
-						uint8Array,
-						"Label can not start with hypen (-)",
-					),
-				);
-			}
-
-			if (idx === uint8Array.length - 1 && isHypen(byte)) {
-				return ParseResult.fail(
-					new ParseResult.Type(
-						ast,
-						uint8Array,
-						"Label can not end with hypen (-)",
-					),
-				);
-			}
-
-			/*
-			 * RFC 5891: Internationalized Domain Names in Applications (IDNA): Protocol
-			 * 4.2.3.1.  Hyphen Restrictions
-			 * The Unicode string MUST NOT contain "--" (two consecutive hyphens) in
-			 * the third and fourth character positions and MUST NOT start or end
-			 * with a "-" (hyphen).
-			 *
-			 * @see https://www.rfc-editor.org/rfc/rfc5891.html#section-4.2.3.1
-			 */
-			if (isHypen(previousByte) && isHypen(byte) && idx === 3) {
-				const firstByte = uint8Array.at(0) ?? 0;
-				const secondByte = uint8Array.at(1) ?? 0;
-
-				// 120 is the 'x' ascii code. 110 is the 'n' ascii code.
-				const isInternationalDomain = firstByte === 120 && secondByte === 110;
-				if (!isInternationalDomain) {
-					return ParseResult.fail(
-						new ParseResult.Type(
-							ast,
-							uint8Array,
-							"For non-Internationalized domain labels, the third and fourth " +
-								"characters cannot be two consecutive hyphens (-).",
-						),
-					);
-				}
-			}
-		}
-
-		const decodeResult = decodeUint8ArrayToString(uint8Array, ast);
-
-		if (Either.isLeft(decodeResult)) {
-			return ParseResult.fail(decodeResult.left);
-		}
-
-		return ParseResult.succeed(decodeResult.right);
-	},
-	encode(str, _, ast) {
-		const encodeResult = encodeStringToUint8Array(str, ast);
-
-		if (Either.isLeft(encodeResult)) {
-			return ParseResult.fail(encodeResult.left);
-		}
-
-		return ParseResult.succeed(encodeResult.right);
+		},
+		encode(str, _, ast) {
+			// Labels are validated in both directions so that no invalid label is
+			// ever written to the wire
+			return Either.flatMap(encodeStringToUint8Array(str, ast), (label) =>
+				validateLabel(label, ast),
+			);
+		},
 	},
-}).annotations({
+).annotations({
 	identifier: "Label",
 	description:
-		"63 octets or less and only ASCII letters (A-Z, a-z), digits (0-9), and hyphens (-)",
+		"63 octets or less and only ASCII letters (A-Z, a-z), digits (0-9), and hyphens (-), " +
+		"optionally after a leading underscore (_), or the asterisk (*) of a wildcard",
 });
 
 export type Name = typeof Name.Type;
@@ -195,137 +134,368 @@ export const Name = Schema.Struct({
 	encodedByteLength: Schema.Number.pipe(Schema.between(1, 255)),
 }).annotations({ identifier: "Name", description: "255 octets or less" });
 
-// Keep for Encoding
-// export const NameFromUint8Array = Schema.transformOrFail(
-// 	Schema.Uint8ArrayFromSelf,
-// 	Name,
-// 	{
-// 		strict: true,
-// 		decode(uint8Array, _, ast) {
-// 			return Effect.gen(function* () {
-// 				if (uint8Array.length < 2) {
-// 					return yield* ParseResult.fail(
-// 						new ParseResult.Type(
-// 							ast,
-// 							uint8Array,
-// 							`NAME length must be at least 2 bytes or more, received ${uint8Array.byteLength}`,
-// 						),
-// 					);
-// 				}
-//
-// 				const dataView = new DataView(
-// 					uint8Array.buffer,
-// 					uint8Array.byteOffset,
-// 					uint8Array.byteLength,
-// 				);
-//
-// 				let labels: Mutable<EncodedLabel>[] = [];
-// 				let offset = 0;
-// 				let nameSize = 0;
-//
-// 				while (true) {
-// 					const lengthResult = getUint8(dataView, offset, ast);
-//
-// 					if (Either.isLeft(lengthResult)) {
-// 						return yield* ParseResult.fail(lengthResult.left);
-// 					}
-// 					const length = lengthResult.right;
-//
-// 					// null terminating byte
-// 					if (length === 0) {
-// 						break;
-// 					}
-//
-// 					if (offset + 1 + length > uint8Array.length) {
-// 						return yield* ParseResult.fail(
-// 							new ParseResult.Type(
-// 								ast,
-// 								uint8Array,
-// 								`NAME label overruns buffer at offset ${offset}`,
-// 							),
-// 						);
-// 					}
-//
-// 					const label = uint8Array.subarray(offset + 1, offset + 1 + length);
-// 					nameSize += label.length;
-//
-// 					if (nameSize > 255) {
-// 						return yield* ParseResult.fail(
-// 							new ParseResult.Type(
-// 								ast,
-// 								uint8Array,
-// 								`NAME exceeded maximum size of 255 bytes`,
-// 							),
-// 						);
-// 					}
-// 					labels.push(label);
-// 					offset += length + 1;
-// 				}
-//
-// 				return {
-// 					labels,
-// 					encodedByteLength: offset,
-// 				};
-// 			});
-// 		},
-// 		encode(name, _, ast) {
-// 			return Effect.gen(function* () {
-// 				if (name.labels.length === 0) {
-// 					return yield* ParseResult.fail(
-// 						new ParseResult.Type(
-// 							ast,
-// 							name,
-// 							`NAME length must be at least 1 byte or more, received ${name.labels.length}`,
-// 						),
-// 					);
-// 				}
-// 				// length bytes + terminator byte
-// 				let nameSize = name.labels.length + 1;
-//
-// 				for (let idx = 0; idx < name.labels.length; idx++) {
-// 					const label = yield* encodeLabelFromUnknown(name.labels[idx]).pipe(
-// 						Effect.mapError(Struct.get("issue")),
-// 					);
-//
-// 					nameSize += label.byteLength;
-//
-// 					if (nameSize > 255) {
-// 						return yield* ParseResult.fail(
-// 							new ParseResult.Type(
-// 								ast,
-// 								name,
-// 								`NAME length must be 255 bytes or less, received ${name.labels.length}`,
-// 							),
-// 						);
-// 					}
-// 				}
-//
-// 				const buffer = new ArrayBuffer(nameSize);
-// 				const out = new Uint8Array(buffer);
-// 				const dataView = new DataView(out.buffer);
-//
-// 				let writeOffset = 0;
-//
-// 				for (const label of name.labels) {
-// 					yield* setUint8(dataView, writeOffset++, label.length, ast);
-// 					yield* uint8ArraySet(out, label, writeOffset, ast);
-// 					writeOffset += label.length;
-// 				}
-//
-// 				// terminating zero for QNAME
-// 				yield* setUint8(dataView, writeOffset++, 0x00, ast);
-//
-// 				return out;
-// 			});
-// 		},
-// 	},
-// ).annotations({
-// 	identifier: "Name",
-// 	description: "255 octets or less",
-// });
-
-// export const decodeNameFromUint8Array = Schema.decode(NameFromUint8Array);
-// export const encodeNameFromUint8Array = Schema.encode(NameFromUint8Array);
+export type EncodedName = typeof Name.Encoded;
+
+/**
+ * 3.1. Name space definitions
+ *
+ * Domain names in messages are expressed in terms of a sequence of labels.
+ * Each label is represented as a one octet length field followed by that
+ * number of octets. Since every domain name ends with the null label of
+ * the root, a domain name is terminated by a length byte of zero.
+ *
+ * A standalone, uncompressed NAME. Compression pointers only have meaning
+ * within a message and are rejected, as are bytes after the terminator.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-3.1
+ */
+export const NameFromUint8Array = Schema.transformOrFail(
+	Schema.Uint8ArrayFromSelf,
+	Name,
+	{
+		strict: true,
+		decode(uint8Array, _, ast) {
+			return Effect.gen(function* () {
+				// The root NAME is a single zero length octet
+				if (uint8Array.length < 1) {
+					return yield* ParseResult.fail(
+						new ParseResult.Type(
+							ast,
+							uint8Array,
+							`NAME length must be at least 1 byte or more, received ${uint8Array.byteLength}`,
+						),
+					);
+				}
+
+				const dataView = new DataView(
+					uint8Array.buffer,
+					uint8Array.byteOffset,
+					uint8Array.byteLength,
+				);
+
+				let labels: Mutable<EncodedLabel>[] = [];
+				let offset = 0;
+
+				while (true) {
+					const lengthResult = getUint8(dataView, offset, ast);
+
+					if (Either.isLeft(lengthResult)) {
+						return yield* ParseResult.fail(lengthResult.left);
+					}
+
+					const length = lengthResult.right;
+
+					// null terminating byte
+					if (length === 0) {
+						offset++;
+						break;
+					}
+
+					if (byteIsPointer(length)) {
+						return yield* ParseResult.fail(
+							new ParseResult.Type(
+								ast,
+								uint8Array,
+								`NAME must not be compressed, found a pointer at offset ${offset}`,
+							),
+						);
+					}
+
+					if (length > 63) {
+						return yield* ParseResult.fail(
+							new ParseResult.Type(
+								ast,
+								uint8Array,
+								`Label must be between 1 and 63 bytes, received ${length} at offset ${offset}`,
+							),
+						);
+					}
+
+					if (offset + 1 + length > uint8Array.length) {
+						return yield* ParseResult.fail(
+							new ParseResult.Type(
+								ast,
+								uint8Array,
+								`NAME label overruns buffer at offset ${offset}`,
+							),
+						);
+					}
+
+					labels.push(uint8Array.subarray(offset + 1, offset + 1 + length));
+					offset += length + 1;
+
+					// +1 for the terminator byte still to come
+					if (offset + 1 > MAX_NAME_BYTE_LENGTH) {
+						return yield* ParseResult.fail(
+							new ParseResult.Type(
+								ast,
+								uint8Array,
+								`NAME exceeded maximum size of 255 bytes`,
+							),
+						);
+					}
+				}
+
+				if (offset !== uint8Array.byteLength) {
+					return yield* ParseResult.fail(
+						new ParseResult.Type(
+							ast,
+							uint8Array,
+							`NAME has ${uint8Array.byteLength - offset} unexpected bytes after the terminator`,
+						),
+					);
+				}
+
+				return {
+					labels,
+					encodedByteLength: offset,
+				};
+			});
+		},
+		encode(name, _, ast) {
+			return Effect.gen(function* () {
+				const writer = DnsPacketWriter.make();
+
+				yield* encodeNameToDnsPacketWriter(writer, name, ast);
+
+				return DnsPacketWriter.toUint8Array(writer);
+			});
+		},
+	},
+).annotations({
+	identifier: "NameFromUint8Array",
+	description: "255 octets or less",
+});
+
+export const decodeNameFromUint8Array = Schema.decode(NameFromUint8Array);
+export const encodeNameFromUint8Array = Schema.encode(NameFromUint8Array);
+
+/**
+ * 5.1. Format
+ *
+ * Domain names that end in a dot are called absolute, and are taken as
+ * complete. The current label is the null label of the root when the
+ * domain name is a single dot.
+ *
+ * \X    where X is any character other than a digit (0-9), is used to quote
+ *       that character so that its special meaning does not apply. For
+ *       example, "\." can be used to place a dot character in a label.
+ *
+ * \DDD  where each D is a digit is the octet corresponding to the decimal
+ *       number described by DDD.
+ *
+ * Names are always taken as absolute, so the trailing dot is optional when
+ * parsing and always written when formatting. Octets outside of printable
+ * ASCII are formatted as \DDD escapes. Escapes only change how a label is
+ * written, the decoded labels are still validated by `Label`.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-5.1
+ */
+const EncodedNameFromString = Schema.transformOrFail(
+	Schema.String,
+	Schema.encodedSchema(Name),
+	{
+		strict: true,
+		decode(str, _, ast) {
+			return Effect.gen(function* () {
+				if (str === ".") {
+					return { labels: [], encodedByteLength: 1 };
+				}
+
+				if (str.length === 0) {
+					return yield* ParseResult.fail(
+						new ParseResult.Type(ast, str, "NAME must not be empty"),
+					);
+				}
+
+				const labels: Array<Uint8Array> = [];
+				let label: Array<number> = [];
+				let idx = 0;
+
+				while (idx < str.length) {
+					const char = str.charAt(idx);
+
+					if (char === ".") {
+						if (label.length === 0) {
+							return yield* ParseResult.fail(
+								new ParseResult.Type(
+									ast,
+									str,
+									`NAME contains an empty label at index ${idx}`,
+								),
+							);
+						}
+
+						labels.push(new Uint8Array(label));
+						label = [];
+						idx++;
+						continue;
+					}
+
+					if (char !== "\\") {
+						const codePoint = str.codePointAt(idx) ?? 0;
+
+						// Anything outside of ASCII has to be written as a \DDD escape
+						if (codePoint > 0x7f) {
+							return yield* ParseResult.fail(
+								new ParseResult.Type(
+									ast,
+									str,
+									`NAME contains a non ASCII character '${String.fromCodePoint(codePoint)}' at index ${idx}`,
+								),
+							);
+						}
+
+						label.push(codePoint);
+						idx++;
+						continue;
+					}
+
+					const digits = str.slice(idx + 1, idx + 4);
+
+					if (/^[0-9]/.test(digits)) {
+						const octet = Number(digits);
+
+						if (!/^[0-9]{3}$/.test(digits) || octet > 255) {
+							return yield* ParseResult.fail(
+								new ParseResult.Type(
+									ast,
+									str,
+									`NAME contains an invalid \\DDD escape at index ${idx}`,
+								),
+							);
+						}
+
+						label.push(octet);
+						idx += 4;
+						continue;
+					}
+
+					const escaped = str.codePointAt(idx + 1);
+
+					if (escaped === undefined || escaped > 0x7f) {
+						return yield* ParseResult.fail(
+							new ParseResult.Type(
+								ast,
+								str,
+								`NAME contains an invalid escape at index ${idx}`,
+							),
+						);
+					}
+
+					label.push(escaped);
+					idx += 2;
+				}
+
+				// Without a trailing dot the last label is still pending
+				if (label.length > 0) {
+					labels.push(new Uint8Array(label));
+				}
+
+				let encodedByteLength = 1;
+
+				for (const parsedLabel of labels) {
+					if (parsedLabel.byteLength > 63) {
+						return yield* ParseResult.fail(
+							new ParseResult.Type(
+								ast,
+								str,
+								`Label must be between 1 and 63 bytes, received ${parsedLabel.byteLength}`,
+							),
+						);
+					}
+
+					encodedByteLength += parsedLabel.byteLength + 1;
+				}
+
+				if (encodedByteLength > MAX_NAME_BYTE_LENGTH) {
+					return yield* ParseResult.fail(
+						new ParseResult.Type(
+							ast,
+							str,
+							`NAME length must be 255 bytes or less, received ${encodedByteLength}`,
+						),
+					);
+				}
+
+				return { labels, encodedByteLength };
+			});
+		},
+		encode(name) {
+			if (name.labels.length === 0) {
+				return ParseResult.succeed(".");
+			}
+
+			let str = "";
+
+			for (const label of name.labels) {
+				for (const byte of label) {
+					str += formatLabelOctet(byte);
+				}
+
+				str += ".";
+			}
+
+			return ParseResult.succeed(str);
+		},
+	},
+);
+
+export const decodeEncodedNameFromString = Schema.decode(EncodedNameFromString);
+export const encodeEncodedNameToString = Schema.encode(EncodedNameFromString);
+
+export const NameFromString = Schema.compose(
+	EncodedNameFromString,
+	Name,
+).annotations({
+	identifier: "NameFromString",
+	description: "Dotted presentation format of a NAME",
+});
+
+export const decodeNameFromString = Schema.decode(NameFromString);
+export const encodeNameToString = Schema.encode(NameFromString);
+export const decodeSyncNameFromString = Schema.decodeSync(NameFromString);
+export const encodeSyncNameToString = Schema.encodeSync(NameFromString);
+
+/**
+ * Whether `a` and `b` are the same domain name. Comparisons are
+ * case-insensitive.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc4343.html
+ */
+export function nameEquals(a: Name, b: Name) {
+	return labelsEqual(a.labels, b.labels);
+}
+
+/**
+ * Whether `name` is `ancestor` or below it.
+ */
+export function isSubdomain(name: Name, ancestor: Name) {
+	const offset = name.labels.length - ancestor.labels.length;
+
+	return offset >= 0 && labelsEqual(name.labels.slice(offset), ancestor.labels);
+}
+
+function labelsEqual(a: ReadonlyArray<string>, b: ReadonlyArray<string>) {
+	return (
+		a.length === b.length &&
+		a.every((label, idx) => label.toLowerCase() === b[idx]?.toLowerCase())
+	);
+}
+
+function formatLabelOctet(byte: number) {
+	// '.' and '\' are the only printable characters with a special meaning
+	if (byte === 0x2e || byte === 0x5c) {
+		return `\\${String.fromCharCode(byte)}`;
+	}
+
+	// Printable ASCII, excluding space
+	if (byte > 0x20 && byte < 0x7f) {
+		return String.fromCharCode(byte);
+	}
+
+	return `\\${byte.toString().padStart(3, "0")}`;
+}
 
 const MAX_NAME_BYTE_LENGTH = 255;
 
@@ -347,12 +517,13 @@ const EncodedNameFromDnsPacketCursor = Schema.transformOrFail(
 					cursor.offset + MAX_NAME_BYTE_LENGTH,
 				);
 
-				if (uint8Array.length < 2) {
+				// The root NAME is a single zero length octet
+				if (uint8Array.length < 1) {
 					return yield* ParseResult.fail(
 						new ParseResult.Type(
 							ast,
 							uint8Array,
-							`NAME length must be at least 2 bytes or more, received ${uint8Array.byteLength}`,
+							`NAME length must be at least 1 byte or more, received ${uint8Array.byteLength}`,
 						),
 					);
 				}
@@ -381,28 +552,44 @@ const EncodedNameFromDnsPacketCursor = Schema.transformOrFail(
 					const isPointer = byteIsPointer(byte);
 
 					if (isPointer) {
-						if (encounteredPointer === true) {
+						const pointerAndOffsetResult = getUint16(dataView, offset, ast);
+
+						if (Either.isLeft(pointerAndOffsetResult)) {
+							return yield* ParseResult.fail(pointerAndOffsetResult.left);
+						}
+
+						const pointerOffset = getPointerOffset(
+							pointerAndOffsetResult.right,
+						);
+
+						// Offset of the pointer itself from the start of the packet
+						const pointerPosition = encounteredPointer
+							? offset
+							: cursor.offset + offset;
+
+						/*
+						 * A pointer refers to a prior occurance of a name, so it must point
+						 * backwards. Requiring this for every pointer in a chain guarantees
+						 * decompression terminates.
+						 */
+						if (pointerOffset >= pointerPosition) {
 							return yield* ParseResult.fail(
 								new ParseResult.Type(
 									ast,
 									uint8Array,
-									`Encountered recursive pointer during NAME decompression`,
+									`Encountered recursive pointer during NAME decompression, pointer at offset ${pointerPosition} points to offset ${pointerOffset}`,
 								),
 							);
 						}
 
-						encounteredPointer = true;
-
-						const pointerAndOffsetResult = getUint16(dataView, offset, ast);
-
-						if (Either.isLeft(pointerAndOffsetResult)) {
-							return yield* ParseResult.fail(pointerAndOffsetResult.left);
+						// Only the first pointer is part of the NAME being decoded
+						if (encounteredPointer === false) {
+							// Increment bytes consumed by the pointer + offset 16 bits (e.g. 2 bytes)
+							bytesConsumed += 2;
 						}
 
-						offset = getPointerOffset(pointerAndOffsetResult.right);
-
-						// Increment bytes consumed by the pointer + offset 16 bits (e.g. 2 bytes)
-						bytesConsumed += 2;
+						encounteredPointer = true;
+						offset = pointerOffset;
 
 						// update the dataview to look further back in memory/the packet
 						dataView = new DataView(
@@ -464,9 +651,15 @@ const EncodedNameFromDnsPacketCursor = Schema.transformOrFail(
 			});
 		},
 		encode(name, _, ast) {
-			return ParseResult.fail(
-				new ParseResult.Type(ast, name, "encoding is not supported"),
-			);
+			return Effect.gen(function* () {
+				const writer = DnsPacketWriter.make();
+
+				yield* encodeNameToDnsPacketWriter(writer, name, ast);
+
+				return DnsPacketCursor.fromUint8Array(
+					DnsPacketWriter.toUint8Array(writer),
+				);
+			});
 		},
 	},
 );
@@ -475,6 +668,122 @@ export const decodeNameFromDnsPacketCursor = Schema.decode(
 	EncodedNameFromDnsPacketCursor,
 );
 
+/**
+ * Writes `name` as a sequence of length prefixed labels terminated by the
+ * zero length label of the root.
+ *
+ * When the writer has a compression dictionary, the longest suffix of `name`
+ * that has already been written is replaced by a pointer to it, and every
+ * suffix written out in full is added to the dictionary (RFC 1035 4.1.4).
+ */
+export function encodeNameToDnsPacketWriter(
+	writer: DnsPacketWriter,
+	name: EncodedName,
+	ast: SchemaAST.AST,
+): Effect.Effect<void, ParseResult.ParseIssue> {
+	return Effect.gen(function* () {
+		// length bytes + terminator byte
+		let nameSize = name.labels.length + 1;
+
+		for (const label of name.labels) {
+			if (label.byteLength === 0 || label.byteLength > 63) {
+				return yield* ParseResult.fail(
+					new ParseResult.Type(
+						ast,
+						name,
+						`Label must be between 1 and 63 bytes, received ${label.byteLength}`,
+					),
+				);
+			}
+
+			nameSize += label.byteLength;
+		}
+
+		if (nameSize > MAX_NAME_BYTE_LENGTH) {
+			return yield* ParseResult.fail(
+				new ParseResult.Type(
+					ast,
+					name,
+					`NAME length must be 255 bytes or less, received ${nameSize}`,
+				),
+			);
+		}
+
+		const dictionary = writer.compressionDictionary;
+		const suffixKeys = name.labels.map((_, idx) =>
+			getNameSuffixKey(name.labels, idx),
+		);
+
+		// Number of labels written out in full before the pointer, if any
+		let labelCount = name.labels.length;
+		let pointerOffset: number | undefined = undefined;
+
+		if (dictionary !== undefined) {
+			for (let idx = 0; idx < suffixKeys.length; idx++) {
+				const offset = dictionary.get(suffixKeys[idx] ?? "");
+
+				if (offset !== undefined) {
+					labelCount = idx;
+					pointerOffset = offset;
+					break;
+				}
+			}
+		}
+
+		// pointer + offset 16 bits (e.g. 2 bytes) or the terminator byte
+		let byteLength = pointerOffset === undefined ? 1 : 2;
+
+		for (let idx = 0; idx < labelCount; idx++) {
+			byteLength += 1 + (name.labels[idx]?.byteLength ?? 0);
+		}
+
+		const out = new Uint8Array(byteLength);
+		const dataView = new DataView(out.buffer);
+
+		let writeOffset = 0;
+
+		for (let idx = 0; idx < labelCount; idx++) {
+			const label = name.labels[idx] ?? new Uint8Array();
+			const suffixOffset = writer.offset + writeOffset;
+
+			// Pointers only have 14 bits to address the suffix with
+			if (dictionary !== undefined && suffixOffset <= MAX_POINTER_OFFSET) {
+				dictionary.set(suffixKeys[idx] ?? "", suffixOffset);
+			}
+
+			yield* setUint8(dataView, writeOffset++, label.byteLength, ast);
+			yield* uint8ArraySet(out, label, writeOffset, ast);
+			writeOffset += label.byteLength;
+		}
+
+		if (pointerOffset === undefined) {
+			// terminating zero for NAME
+			yield* setUint8(dataView, writeOffset, 0x00, ast);
+		} else {
+			yield* setUint16(dataView, writeOffset, 0xc000 | pointerOffset, ast);
+		}
+
+		DnsPacketWriter.write(writer, out);
+	});
+}
+
+const MAX_POINTER_OFFSET = 0x3fff;
+
+/**
+ * Builds a dictionary key from the uncompressed wire format of the name
+ * suffix starting at the label at `start`.
+ */
+function getNameSuffixKey(labels: ReadonlyArray<Uint8Array>, start: number) {
+	let key = "";
+
+	for (let idx = start; idx < labels.length; idx++) {
+		const label = labels[idx] ?? new Uint8Array();
+		key += String.fromCharCode(label.byteLength, ...label);
+	}
+
+	return key;
+}
+
 function byteIsPointer(byte: number) {
 	return (byte & 0xc0) === 0xc0;
 }
@@ -483,6 +792,112 @@ function getPointerOffset(uint16: number) {
 	return uint16 & 0x3fff;
 }
 
+function validateLabel(
+	uint8Array: Uint8Array,
+	ast: SchemaAST.AST,
+): Either.Either<Uint8Array, ParseResult.ParseIssue> {
+	if (uint8Array.byteLength === 0 || uint8Array.byteLength > 63) {
+		return ParseResult.fail(
+			new ParseResult.Type(
+				ast,
+				uint8Array,
+				"Label must be between 1 and 63 bytes",
+			),
+		);
+	}
+
+	/*
+	 * RFC 4592: The Role of Wildcards in the Domain Name System
+	 * 2.1.1. Wildcard Domain Name and Asterisk Label
+	 * A "wildcard domain name" is defined by having its initial (i.e.,
+	 * leftmost or least significant) label be, in binary format:
+	 *
+	 *   0000 0001 0010 1010 (binary) = 0x01 0x2a (hexadecimal)
+	 *
+	 * @see https://www.rfc-editor.org/rfc/rfc4592.html#section-2.1.1
+	 */
+	if (uint8Array.byteLength === 1 && uint8Array.at(0) === AsciiAsterisk) {
+		return ParseResult.succeed(uint8Array);
+	}
+
+	for (let idx = 0; idx < uint8Array.byteLength; idx++) {
+		const byte = uint8Array.at(idx);
+		const previousByte = idx > 0 ? uint8Array.at(idx - 1) : undefined;
+
+		/*
+		 * RFC 8552: Scoped Interpretation of DNS Resource Records through
+		 * "Underscored" Naming of Attribute Leaves
+		 * 1.1. Underscore-Based Scoping
+		 * The owner names of these RRs begin with a label whose first
+		 * character is an underscore, e.g. "_sip._udp.example.com".
+		 *
+		 * @see https://www.rfc-editor.org/rfc/rfc8552.html#section-1.1
+		 */
+		if (idx === 0 && byte === AsciiUnderscore && uint8Array.length > 1) {
+			continue;
+		}
+
+		if (!isValidLabelCharacter(byte)) {
+			return ParseResult.fail(
+				new ParseResult.Type(
+					ast,
+					uint8Array,
+					`Invalid Label character. Labels must contain only ASCII letters (A-Z, a-z), digits (0-9), and hyphens (-). Found invalid character '${byte}'.`,
+				),
+			);
+		}
+
+		if (idx === 0 && isHypen(byte)) {
+			return ParseResult.fail(
+				new ParseResult.Type(
+					ast,
+					uint8Array,
+					"Label can not start with hypen (-)",
+				),
+			);
+		}
+
+		if (idx === uint8Array.length - 1 && isHypen(byte)) {
+			return ParseResult.fail(
+				new ParseResult.Type(
+					ast,
+					uint8Array,
+					"Label can not end with hypen (-)",
+				),
+			);
+		}
+
+		/*
+		 * RFC 5891: Internationalized Domain Names in Applications (IDNA): Protocol
+		 * 4.2.3.1.  Hyphen Restrictions
+		 * The Unicode string MUST NOT contain "--" (two consecutive hyphens) in
+		 * the third and fourth character positions and MUST NOT start or end
+		 * with a "-" (hyphen).
+		 *
+		 * @see https://www.rfc-editor.org/rfc/rfc5891.html#section-4.2.3.1
+		 */
+		if (isHypen(previousByte) && isHypen(byte) && idx === 3) {
+			const firstByte = uint8Array.at(0) ?? 0;
+			const secondByte = uint8Array.at(1) ?? 0;
+
+			// 120 is the 'x' ascii code. 110 is the 'n' ascii code.
+			const isInternationalDomain = firstByte === 120 && secondByte === 110;
+			if (!isInternationalDomain) {
+				return ParseResult.fail(
+					new ParseResult.Type(
+						ast,
+						uint8Array,
+						"For non-Internationalized domain labels, the third and fourth " +
+							"characters cannot be two consecutive hyphens (-).",
+					),
+				);
+			}
+		}
+	}
+
+	return ParseResult.succeed(uint8Array);
+}
+
 function decodeUint8ArrayToString(uint8Array: Uint8Array, ast: SchemaAST.AST) {
 	const textDecoder = new TextDecoder("utf-8", { fatal: true });
 	return ParseResult.try({
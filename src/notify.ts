@@ -0,0 +1,125 @@
+import type { Message } from "./message";
+import { makeResponseTo, withFlags, withRcode } from "./message-builder";
+import { nameEquals, type Name } from "./name";
+import { QClassNameToQClass, type Question } from "./question";
+import {
+	getRRClass,
+	RRClassNameToRRClass,
+	RRTypeNameToRRType,
+	type ResourceRecordOf,
+} from "./resource-record";
+import type { Zone } from "./server";
+import { serialGreaterThan } from "./utils";
+
+/**
+ * Builds the NOTIFY request of a master telling its slaves that the zone at
+ * `zone` changed, with the new SOA RR of the zone in the answer section as
+ * a hint, if any.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1996.html#section-3.7
+ */
+export const makeNotifyMessage = (options: {
+	readonly id: number;
+	readonly zone: Name;
+	readonly zoneClass?: Question["qclass"];
+	readonly soa?: ResourceRecordOf<"SOA">;
+}): Message => {
+	const answer = options.soa === undefined ? [] : [options.soa];
+
+	return {
+		header: {
+			id: options.id,
+			qr: 0,
+			opcode: "NOTIFY",
+			aa: 1,
+			tc: 0,
+			rd: 0,
+			ra: 0,
+			z: 0,
+			rcode: "NOERROR",
+			qdcount: 1,
+			ancount: answer.length,
+			nscount: 0,
+			arcount: 0,
+		},
+		question: [
+			{
+				qname: options.zone,
+				qtype: RRTypeNameToRRType.SOA,
+				qclass: options.zoneClass ?? RRClassNameToRRClass.IN,
+			},
+		],
+		answer,
+		authority: [],
+		additional: [],
+	};
+};
+
+/**
+ * 3.7. A NOTIFY request has QDCOUNT>0, ANCOUNT>=0, AUCOUNT>=0, ADCOUNT>=0.
+ * If ANCOUNT>0, then the answer section represents an unsecure hint at the
+ * new RRset for this <QCLASS,QNAME,QTYPE>. A slave receiving such a hint is
+ * free to treat equivalence of this answer section with its local data as
+ * a "no further work needs to be done" indication. If ANCOUNT=0, or
+ * ANCOUNT>0 and the answer section differs from the slave's local data,
+ * then the slave should query its known masters to retrieve the new data.
+ *
+ * The zone at QNAME is to be refreshed unless the request hints at an SOA
+ * RR whose SERIAL is not greater than the one held. Only the SOA QTYPE is
+ * implemented, and zones that are not served are not authoritative.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1996.html#section-3.7
+ */
+export function answerNotify(
+	zones: ReadonlyArray<Zone>,
+	query: Message,
+): {
+	readonly response: Message;
+	readonly refresh?: { readonly zone: Zone; readonly serial?: number };
+} {
+	const [question] = query.question;
+	const rejected = (rcode: Message["header"]["rcode"]) => ({
+		response: withRcode(makeResponseTo(query), rcode),
+	});
+
+	if (question === undefined || query.question.length !== 1) {
+		return rejected("FORMERR");
+	}
+
+	if (question.qtype !== RRTypeNameToRRType.SOA) {
+		return rejected("NOTIMP");
+	}
+
+	const zone = zones.find((zone) => nameEquals(zone.origin, question.qname));
+	const soa = zone === undefined ? undefined : findZoneSoa(zone);
+
+	if (
+		zone === undefined ||
+		soa === undefined ||
+		(question.qclass !== QClassNameToQClass.ANY &&
+			question.qclass !== getRRClass(soa.class))
+	) {
+		return rejected("NOTAUTH");
+	}
+
+	const response = withFlags(makeResponseTo(query), { aa: 1 });
+	const hint = query.answer.find(
+		(record): record is ResourceRecordOf<"SOA"> =>
+			record.type === "SOA" && nameEquals(record.name, question.qname),
+	);
+
+	if (hint === undefined) {
+		return { response, refresh: { zone } };
+	}
+
+	return serialGreaterThan(hint.rdata.serial, soa.rdata.serial)
+		? { response, refresh: { zone, serial: hint.rdata.serial } }
+		: { response };
+}
+
+function findZoneSoa(zone: Zone) {
+	return zone.records.find(
+		(record): record is ResourceRecordOf<"SOA"> =>
+			record.type === "SOA" && nameEquals(record.name, zone.origin),
+	);
+}
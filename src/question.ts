@@ -1,11 +1,49 @@
-import { Effect, Either, ParseResult, Schema, Struct } from "effect";
-import { Name, decodeNameFromDnsPacketCursor } from "./name";
-import { getUint16 } from "./utils";
+import {
+	Effect,
+	Either,
+	ParseResult,
+	Schema,
+	SchemaAST,
+	Struct,
+} from "effect";
+import {
+	Name,
+	decodeNameFromDnsPacketCursor,
+	encodeNameToDnsPacketWriter,
+} from "./name";
+import { getUint16, setUint16 } from "./utils";
 import {
 	ResourceRecordClassInteger,
 	ResourceRecordTypeInteger,
+	UnknownResourceRecordClassInteger,
+	UnknownResourceRecordTypeInteger,
 } from "./resource-record";
-import { DnsPacketCursor } from "./types";
+import { DnsPacketCursor, DnsPacketWriter } from "./types";
+
+/** The QTYPEs that are not also TYPEs */
+export const QTypeNameToQType = {
+	/** A request for a transfer of an entire zone */
+	AXFR: 252,
+	/** A request for mailbox-related records (MB, MG or MR) */
+	MAILB: 253,
+	/** A request for mail agent RRs (Obsolete - see MX) */
+	MAILA: 254,
+	/** A request for all records */
+	ANY: 255,
+} as const;
+
+/**
+ * The QCLASSes that are not also CLASSes, and the NONE CLASS of dynamic
+ * updates.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc2136.html#section-1.3
+ */
+export const QClassNameToQClass = {
+	/** Marks RRs to delete in dynamic updates */
+	NONE: 254,
+	/** Any class */
+	ANY: 255,
+} as const;
 
 const QTypeSchema = Schema.Union(
 	ResourceRecordTypeInteger,
@@ -19,6 +57,7 @@ const QTypeSchema = Schema.Union(
 		/** * - A request for all records */
 		255,
 	),
+	UnknownResourceRecordTypeInteger,
 ).annotations({
 	identifier: "QType",
 	description:
@@ -38,7 +77,11 @@ const QTypeSchema = Schema.Union(
  * MAILA  254  A request for mail agent RRs (Obsolete - see MX)
  * *      255  A request for all records
  *
+ * QTYPEs of RR types unknown to this library are accepted as well, so that
+ * queries for them can be answered transparently.
+ *
  * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-3.2.3
+ * @see https://www.rfc-editor.org/rfc/rfc3597.html#section-2
  */
 export const QType = Schema.transformOrFail(Schema.Number, QTypeSchema, {
 	strict: true,
@@ -67,6 +110,7 @@ export const decodeQType = (value: number) => decodeQTypeFromNumber(value);
 export const QClassSchema = Schema.Union(
 	ResourceRecordClassInteger,
 	Schema.Literal(255),
+	UnknownResourceRecordClassInteger,
 ).annotations({
 	identifier: "QClass",
 	description:
@@ -338,16 +382,6 @@ const QuestionWithEncodedByteLengthFromDnsPacketCursor = Schema.transformOrFail(
 					);
 				}
 
-				if (uint8Array.length > 260) {
-					return yield* ParseResult.fail(
-						new ParseResult.Type(
-							ast,
-							uint8Array,
-							`Question must have a maximum length of 260 bytes, received ${uint8Array.length}`,
-						),
-					);
-				}
-
 				const qname = yield* decodeNameFromDnsPacketCursor(cursor).pipe(
 					Effect.mapError(Struct.get("issue")),
 				);
@@ -394,7 +428,6 @@ const QuestionWithEncodedByteLengthFromDnsPacketCursor = Schema.transformOrFail(
 					qclass,
 				};
 
-				console.log({ question });
 				return {
 					question,
 					// 4 bytes for qtype, qclass
@@ -413,3 +446,25 @@ const QuestionWithEncodedByteLengthFromDnsPacketCursor = Schema.transformOrFail(
 export const decodeQuestionFromDnsPacketCursor = Schema.decode(
 	QuestionWithEncodedByteLengthFromDnsPacketCursor,
 );
+
+/**
+ * Writes the QNAME, QTYPE and QCLASS of `question` in wire format.
+ */
+export function encodeQuestionToDnsPacketWriter(
+	writer: DnsPacketWriter,
+	question: EncodedQuestion,
+	ast: SchemaAST.AST,
+): Effect.Effect<void, ParseResult.ParseIssue> {
+	return Effect.gen(function* () {
+		yield* encodeNameToDnsPacketWriter(writer, question.qname, ast);
+
+		// 4 bytes for qtype, qclass
+		const out = new Uint8Array(4);
+		const dataView = new DataView(out.buffer);
+
+		yield* setUint16(dataView, 0, question.qtype, ast);
+		yield* setUint16(dataView, 2, question.qclass, ast);
+
+		DnsPacketWriter.write(writer, out);
+	});
+}
@@ -0,0 +1,1565 @@
+import {
+	Effect,
+	Either,
+	ParseResult,
+	Schema,
+	SchemaAST,
+	Struct,
+} from "effect";
+import {
+	Name,
+	decodeNameFromDnsPacketCursor,
+	encodeNameToDnsPacketWriter,
+	nameEquals,
+	type EncodedName,
+} from "./name";
+import type { EncodedResourceRecord } from "./resource-record";
+import { DnsPacketCursor, DnsPacketWriter, Uint16, Uint32, Uint8 } from "./types";
+import {
+	equalBytes,
+	getUint16,
+	getUint32,
+	getUint8,
+	setUint16,
+	setUint32,
+	setUint8,
+} from "./utils";
+
+/**
+ * 3.3. Standard RRs
+ *
+ * <character-string> is a single length octet followed by that number of
+ * characters. <character-string> is treated as binary information, and can
+ * be up to 256 characters in length (including the length octet).
+ *
+ * Every octet maps to the character with the same code point, so arbitrary
+ * binary data roundtrips unchanged.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-3.3
+ */
+export const CharacterString = Schema.transformOrFail(
+	Schema.Uint8ArrayFromSelf,
+	Schema.String,
+	{
+		strict: true,
+		decode(uint8Array, _, ast) {
+			if (uint8Array.byteLength > 255) {
+				return ParseResult.fail(
+					new ParseResult.Type(
+						ast,
+						uint8Array,
+						`<character-string> must be 255 bytes or less, received ${uint8Array.byteLength}`,
+					),
+				);
+			}
+
+			return ParseResult.succeed(String.fromCharCode(...uint8Array));
+		},
+		encode(str, _, ast) {
+			if (str.length > 255) {
+				return ParseResult.fail(
+					new ParseResult.Type(
+						ast,
+						str,
+						`<character-string> must be 255 bytes or less, received ${str.length}`,
+					),
+				);
+			}
+
+			const uint8Array = new Uint8Array(str.length);
+
+			for (let idx = 0; idx < str.length; idx++) {
+				const charCode = str.charCodeAt(idx);
+
+				if (charCode > 255) {
+					return ParseResult.fail(
+						new ParseResult.Type(
+							ast,
+							str,
+							`<character-string> characters must be single octets, found '${str.charAt(idx)}'`,
+						),
+					);
+				}
+
+				uint8Array[idx] = charCode;
+			}
+
+			return ParseResult.succeed(uint8Array);
+		},
+	},
+).annotations({
+	identifier: "CharacterString",
+	description: "A single length octet followed by up to 255 octets",
+});
+
+/**
+ * A 32 bit Internet address in dotted decimal notation, e.g. "10.0.0.1".
+ */
+export const Ipv4Address = Schema.transformOrFail(
+	Schema.Uint8ArrayFromSelf,
+	Schema.String,
+	{
+		strict: true,
+		decode(uint8Array, _, ast) {
+			if (uint8Array.byteLength !== 4) {
+				return ParseResult.fail(
+					new ParseResult.Type(
+						ast,
+						uint8Array,
+						`IPv4 address must be 4 bytes, received ${uint8Array.byteLength}`,
+					),
+				);
+			}
+
+			return ParseResult.succeed(uint8Array.join("."));
+		},
+		encode(str, _, ast) {
+			const octets = str.split(".");
+
+			if (
+				octets.length !== 4 ||
+				!octets.every((octet) => /^(0|[1-9]\d{0,2})$/.test(octet)) ||
+				!octets.every((octet) => Number(octet) <= 255)
+			) {
+				return ParseResult.fail(
+					new ParseResult.Type(
+						ast,
+						str,
+						`IPv4 address must be four dotted decimal octets, received '${str}'`,
+					),
+				);
+			}
+
+			return ParseResult.succeed(new Uint8Array(octets.map(Number)));
+		},
+	},
+).annotations({
+	identifier: "Ipv4Address",
+	description: "A 32 bit Internet address",
+});
+
+/**
+ * A 128 bit IPv6 address, e.g. "2001:db8::1".
+ *
+ * Addresses are decoded to the canonical text representation of RFC 5952:
+ * lowercase hexadecimal without leading zeros, with the longest run of two
+ * or more zero fields shortened to "::" (the first one on a tie), and
+ * IPv4-mapped addresses written with a dotted decimal tail. Any text
+ * representation of RFC 4291 can be encoded.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc5952.html#section-4
+ * @see https://www.rfc-editor.org/rfc/rfc4291.html#section-2.2
+ */
+export const Ipv6Address = Schema.transformOrFail(
+	Schema.Uint8ArrayFromSelf,
+	Schema.String,
+	{
+		strict: true,
+		decode(uint8Array, _, ast) {
+			if (uint8Array.byteLength !== 16) {
+				return ParseResult.fail(
+					new ParseResult.Type(
+						ast,
+						uint8Array,
+						`IPv6 address must be 16 bytes, received ${uint8Array.byteLength}`,
+					),
+				);
+			}
+
+			return ParseResult.succeed(formatIpv6Address(uint8Array));
+		},
+		encode(str, _, ast) {
+			const uint8Array = parseIpv6Address(str);
+
+			if (uint8Array === undefined) {
+				return ParseResult.fail(
+					new ParseResult.Type(
+						ast,
+						str,
+						`IPv6 address must be eight colon separated hexadecimal fields, received '${str}'`,
+					),
+				);
+			}
+
+			return ParseResult.succeed(uint8Array);
+		},
+	},
+).annotations({
+	identifier: "Ipv6Address",
+	description: "A 128 bit IPv6 address",
+});
+
+/**
+ * 3.4.1. A RDATA format
+ *
+ * ADDRESS         A 32 bit Internet address.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-3.4.1
+ */
+export const ARData = Schema.Struct({
+	address: Ipv4Address,
+}).annotations({ identifier: "ARData" });
+
+/**
+ * 2.2 AAAA data format
+ *
+ * A 128 bit IPv6 address is encoded in the data portion of an AAAA
+ * resource record in network byte order (high-order byte first).
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc3596.html#section-2.2
+ */
+export const AAAARData = Schema.Struct({
+	address: Ipv6Address,
+}).annotations({ identifier: "AAAARData" });
+
+/**
+ * The format of the SRV RR
+ *
+ * Priority
+ *     The priority of this target host. A client MUST attempt to contact
+ *     the target host with the lowest-numbered priority it can reach;
+ *     target hosts with the same priority SHOULD be tried in an order
+ *     defined by the weight field.
+ *
+ * Weight
+ *     A server selection mechanism. The weight field specifies a relative
+ *     weight for entries with the same priority. Larger weights SHOULD be
+ *     given a proportionately higher probability of being selected.
+ *
+ * Port
+ *     The port on this target host of this service.
+ *
+ * Target
+ *     The domain name of the target host. Name compression is not to be
+ *     used for this field. A Target of "." means that the service is
+ *     decidedly not available at this domain.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc2782.html
+ */
+export const SRVRData = Schema.Struct({
+	priority: Uint16,
+	weight: Uint16,
+	port: Uint16,
+	target: Name,
+}).annotations({ identifier: "SRVRData" });
+
+/**
+ * 3.3.11. NS RDATA format
+ *
+ * NSDNAME         A <domain-name> which specifies a host which should be
+ *                 authoritative for the specified class and domain.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-3.3.11
+ */
+export const NSRData = Schema.Struct({
+	nsdname: Name,
+}).annotations({ identifier: "NSRData" });
+
+/**
+ * 3.3.4. MD RDATA format (Obsolete)
+ *
+ * MADNAME         A <domain-name> which specifies a host which has a mail
+ *                 agent for the domain which should be able to deliver
+ *                 mail for the domain.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-3.3.4
+ */
+export const MDRData = Schema.Struct({
+	madname: Name,
+}).annotations({ identifier: "MDRData" });
+
+/**
+ * 3.3.5. MF RDATA format (Obsolete)
+ *
+ * MADNAME         A <domain-name> which specifies a host which has a mail
+ *                 agent for the domain which will accept mail for
+ *                 forwarding to the domain.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-3.3.5
+ */
+export const MFRData = Schema.Struct({
+	madname: Name,
+}).annotations({ identifier: "MFRData" });
+
+/**
+ * 3.3.1. CNAME RDATA format
+ *
+ * CNAME           A <domain-name> which specifies the canonical or primary
+ *                 name for the owner. The owner name is an alias.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-3.3.1
+ */
+export const CNAMERData = Schema.Struct({
+	cname: Name,
+}).annotations({ identifier: "CNAMERData" });
+
+/**
+ * 3.3.13. SOA RDATA format
+ *
+ * MNAME           The <domain-name> of the name server that was the
+ *                 original or primary source of data for this zone.
+ *
+ * RNAME           A <domain-name> which specifies the mailbox of the
+ *                 person responsible for this zone.
+ *
+ * SERIAL          The unsigned 32 bit version number of the original copy
+ *                 of the zone.
+ *
+ * REFRESH         A 32 bit time interval before the zone should be
+ *                 refreshed.
+ *
+ * RETRY           A 32 bit time interval that should elapse before a
+ *                 failed refresh should be retried.
+ *
+ * EXPIRE          A 32 bit time value that specifies the upper limit on
+ *                 the time interval that can elapse before the zone is no
+ *                 longer authoritative.
+ *
+ * MINIMUM         The unsigned 32 bit minimum TTL field that should be
+ *                 exported with any RR from this zone.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-3.3.13
+ */
+export const SOARData = Schema.Struct({
+	mname: Name,
+	rname: Name,
+	serial: Uint32,
+	refresh: Uint32,
+	retry: Uint32,
+	expire: Uint32,
+	minimum: Uint32,
+}).annotations({ identifier: "SOARData" });
+
+/**
+ * 3.3.3. MB RDATA format (EXPERIMENTAL)
+ *
+ * MADNAME         A <domain-name> which specifies a host which has the
+ *                 specified mailbox.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-3.3.3
+ */
+export const MBRData = Schema.Struct({
+	madname: Name,
+}).annotations({ identifier: "MBRData" });
+
+/**
+ * 3.3.6. MG RDATA format (EXPERIMENTAL)
+ *
+ * MGMNAME         A <domain-name> which specifies a mailbox which is a
+ *                 member of the mail group specified by the domain name.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-3.3.6
+ */
+export const MGRData = Schema.Struct({
+	mgmname: Name,
+}).annotations({ identifier: "MGRData" });
+
+/**
+ * 3.3.8. MR RDATA format (EXPERIMENTAL)
+ *
+ * NEWNAME         A <domain-name> which specifies a mailbox which is the
+ *                 proper rename of the specified mailbox.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-3.3.8
+ */
+export const MRRData = Schema.Struct({
+	newname: Name,
+}).annotations({ identifier: "MRRData" });
+
+/**
+ * 3.3.10. NULL RDATA format (EXPERIMENTAL)
+ *
+ * Anything at all may be in the RDATA field so long as it is 65535 octets
+ * or less.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-3.3.10
+ */
+export const NULLRData = Schema.Struct({
+	anything: Schema.Uint8ArrayFromSelf,
+}).annotations({ identifier: "NULLRData" });
+
+/**
+ * 3.4.2. WKS RDATA format
+ *
+ * ADDRESS         An 32 bit Internet address
+ *
+ * PROTOCOL        An 8 bit IP protocol number
+ *
+ * <BIT MAP>       A variable length bit map. The bit map must be a
+ *                 multiple of 8 bits long.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-3.4.2
+ */
+export const WKSRData = Schema.Struct({
+	address: Ipv4Address,
+	protocol: Uint8,
+	bitmap: Schema.Uint8ArrayFromSelf,
+}).annotations({ identifier: "WKSRData" });
+
+/**
+ * 3.3.12. PTR RDATA format
+ *
+ * PTRDNAME        A <domain-name> which points to some location in the
+ *                 domain name space.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-3.3.12
+ */
+export const PTRRData = Schema.Struct({
+	ptrdname: Name,
+}).annotations({ identifier: "PTRRData" });
+
+/**
+ * 3.3.2. HINFO RDATA format
+ *
+ * CPU             A <character-string> which specifies the CPU type.
+ *
+ * OS              A <character-string> which specifies the operating
+ *                 system type.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-3.3.2
+ */
+export const HINFORData = Schema.Struct({
+	cpu: CharacterString,
+	os: CharacterString,
+}).annotations({ identifier: "HINFORData" });
+
+/**
+ * 3.3.7. MINFO RDATA format (EXPERIMENTAL)
+ *
+ * RMAILBX         A <domain-name> which specifies a mailbox which is
+ *                 responsible for the mailing list or mailbox.
+ *
+ * EMAILBX         A <domain-name> which specifies a mailbox which is to
+ *                 receive error messages related to the mailing list or
+ *                 mailbox specified by the owner of the MINFO RR.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-3.3.7
+ */
+export const MINFORData = Schema.Struct({
+	rmailbx: Name,
+	emailbx: Name,
+}).annotations({ identifier: "MINFORData" });
+
+/**
+ * 3.3.9. MX RDATA format
+ *
+ * PREFERENCE      A 16 bit integer which specifies the preference given to
+ *                 this RR among others at the same owner. Lower values
+ *                 are preferred.
+ *
+ * EXCHANGE        A <domain-name> which specifies a host willing to act as
+ *                 a mail exchange for the owner name.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-3.3.9
+ */
+export const MXRData = Schema.Struct({
+	preference: Uint16,
+	exchange: Name,
+}).annotations({ identifier: "MXRData" });
+
+/**
+ * 3.3.14. TXT RDATA format
+ *
+ * TXT-DATA        One or more <character-string>s.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-3.3.14
+ */
+export const TXTRData = Schema.Struct({
+	txtData: Schema.NonEmptyArray(CharacterString),
+}).annotations({ identifier: "TXTRData" });
+
+/**
+ * 2.1. DNSKEY RDATA Wire Format
+ *
+ *                      1 1 1 1 1 1 1 1 1 1 2 2 2 2 2 2 2 2 2 2 3 3
+ *  0 1 2 3 4 5 6 7 8 9 0 1 2 3 4 5 6 7 8 9 0 1 2 3 4 5 6 7 8 9 0 1
+ * +-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+
+ * |              Flags            |    Protocol   |   Algorithm   |
+ * +-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+
+ * /                                                               /
+ * /                            Public Key                         /
+ * /                                                               /
+ * +-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+
+ *
+ * Bit 7 of the Flags field is the Zone Key flag and bit 15 the Secure
+ * Entry Point flag. The Protocol Field MUST have value 3.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc4034.html#section-2.1
+ */
+export const DNSKEYRData = Schema.Struct({
+	flags: Uint16,
+	protocol: Uint8,
+	algorithm: Uint8,
+	publicKey: Schema.Uint8ArrayFromSelf,
+}).annotations({ identifier: "DNSKEYRData" });
+
+/**
+ * 3.1. RRSIG RDATA Wire Format
+ *
+ * The RDATA for an RRSIG RR consists of a 2 octet Type Covered field, a 1
+ * octet Algorithm field, a 1 octet Labels field, a 4 octet Original TTL
+ * field, a 4 octet Signature Expiration field, a 4 octet Signature
+ * Inception field, a 2 octet Key tag, the Signer's Name field, and the
+ * Signature field.
+ *
+ * The Signature Expiration and Inception fields are seconds since
+ * 1 January 1970 00:00:00 UTC, compared with serial number arithmetic.
+ * The Signer's Name field MUST NOT use name compression.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc4034.html#section-3.1
+ */
+export const RRSIGRData = Schema.Struct({
+	typeCovered: Uint16,
+	algorithm: Uint8,
+	labels: Uint8,
+	originalTtl: Uint32,
+	signatureExpiration: Uint32,
+	signatureInception: Uint32,
+	keyTag: Uint16,
+	signerName: Name,
+	signature: Schema.Uint8ArrayFromSelf,
+}).annotations({ identifier: "RRSIGRData" });
+
+/**
+ * 5.1. DS RDATA Wire Format
+ *
+ *                      1 1 1 1 1 1 1 1 1 1 2 2 2 2 2 2 2 2 2 2 3 3
+ *  0 1 2 3 4 5 6 7 8 9 0 1 2 3 4 5 6 7 8 9 0 1 2 3 4 5 6 7 8 9 0 1
+ * +-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+
+ * |           Key Tag             |  Algorithm    |  Digest Type  |
+ * +-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+
+ * /                                                               /
+ * /                            Digest                             /
+ * /                                                               /
+ * +-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+-+
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc4034.html#section-5.1
+ */
+export const DSRData = Schema.Struct({
+	keyTag: Uint16,
+	algorithm: Uint8,
+	digestType: Uint8,
+	digest: Schema.Uint8ArrayFromSelf,
+}).annotations({ identifier: "DSRData" });
+
+/**
+ * 4.1.2. The Type Bit Maps Field
+ *
+ * The Type Bit Maps field identifies the RRset types that exist at the
+ * NSEC RR's owner name. The RR type space is split into 256 window
+ * blocks, each representing the low-order 8 bits of the 16-bit RR type
+ * space.
+ *
+ * The types are kept as TYPE values, and written in ascending order
+ * without duplicates.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc4034.html#section-4.1.2
+ */
+export const TypeBitMaps = Schema.Array(Uint16).annotations({
+	identifier: "TypeBitMaps",
+});
+
+/**
+ * 4.1. NSEC RDATA Wire Format
+ *
+ * The RDATA of the NSEC RR is as shown below:
+ *
+ * Next Domain Name  The next owner name (in the canonical ordering of the
+ *                   zone) that has authoritative data or contains a
+ *                   delegation point NS RRset. Domain names in the Next
+ *                   Domain Name field MUST NOT be compressed.
+ *
+ * Type Bit Maps     The RRset types that exist at the NSEC RR's owner
+ *                   name.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc4034.html#section-4.1
+ */
+export const NSECRData = Schema.Struct({
+	nextDomainName: Name,
+	types: TypeBitMaps,
+}).annotations({ identifier: "NSECRData" });
+
+const Salt = Schema.Uint8ArrayFromSelf.pipe(
+	Schema.filter(
+		(salt) =>
+			salt.byteLength <= 255 ||
+			`Salt must be 255 bytes or less, received ${salt.byteLength}`,
+	),
+);
+
+/**
+ * 3.2. NSEC3 RDATA Wire Format
+ *
+ * Hash Algorithm       identifies the cryptographic hash algorithm used
+ *                      to construct the hash-value.
+ *
+ * Flags                contains 8 one-bit flags that can be used to
+ *                      indicate different processing. The least
+ *                      significant bit is the Opt-Out flag.
+ *
+ * Iterations           defines the number of additional times the hash
+ *                      function has been performed.
+ *
+ * Salt                 appended to the original owner name before hashing
+ *                      in order to defend against pre-calculated
+ *                      dictionary attacks.
+ *
+ * Next Hashed Owner    the next hashed owner name in hash order, in
+ * Name                 binary format.
+ *
+ * Type Bit Maps        identifies the RRSet types that exist at the
+ *                      original owner name of the NSEC3 RR.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc5155.html#section-3.2
+ */
+export const NSEC3RData = Schema.Struct({
+	hashAlgorithm: Uint8,
+	flags: Uint8,
+	iterations: Uint16,
+	salt: Salt,
+	nextHashedOwnerName: Schema.Uint8ArrayFromSelf.pipe(
+		Schema.filter(
+			(hash) =>
+				(hash.byteLength >= 1 && hash.byteLength <= 255) ||
+				`Next Hashed Owner Name must be between 1 and 255 bytes, received ${hash.byteLength}`,
+		),
+	),
+	types: TypeBitMaps,
+}).annotations({ identifier: "NSEC3RData" });
+
+/**
+ * 4.2. NSEC3PARAM RDATA Wire Format
+ *
+ * The NSEC3PARAM RR contains the NSEC3 parameters (hash algorithm, flags,
+ * iterations, and salt) needed by authoritative servers to calculate
+ * hashed owner names.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc5155.html#section-4.2
+ */
+export const NSEC3PARAMRData = Schema.Struct({
+	hashAlgorithm: Uint8,
+	flags: Uint8,
+	iterations: Uint16,
+	salt: Salt,
+}).annotations({ identifier: "NSEC3PARAMRData" });
+
+/**
+ * 3. Transparency
+ *
+ * To enable new RR types to be deployed without server changes, name
+ * servers and resolvers MUST handle RRs of unknown type transparently.
+ * That is, they must treat the RDATA section of such RRs as unstructured
+ * binary data, storing and transmitting it without change.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc3597.html#section-3
+ */
+export const UnknownRData = Schema.Struct({
+	data: Schema.Uint8ArrayFromSelf,
+}).annotations({ identifier: "UnknownRData" });
+
+export type EncodedRData = EncodedResourceRecord["rdata"];
+
+/** The TYPE of a resource record along with RDATA of that TYPE */
+export type EncodedTypedRData = EncodedResourceRecord extends infer Member
+	? Member extends EncodedResourceRecord
+		? Pick<Member, "type" | "rdata">
+		: never
+	: never;
+
+/**
+ * Decodes the RDATA of a resource record of the given TYPE. `cursor` points
+ * at the first octet of the RDATA within the whole packet, so that
+ * compressed domain names can be followed to earlier parts of the message.
+ * The RDATA is returned along with its TYPE.
+ */
+export function decodeRDataFromDnsPacketCursor(
+	cursor: DnsPacketCursor,
+	type: number,
+	rdlength: number,
+	ast: SchemaAST.AST,
+): Effect.Effect<EncodedTypedRData, ParseResult.ParseIssue> {
+	return Effect.gen(function* () {
+		const rdataCursor = DnsPacketCursor.fromUint8Array(
+			cursor.uint8Array,
+			cursor.offset,
+		);
+		const end = cursor.offset + rdlength;
+
+		if (end > cursor.uint8Array.byteLength) {
+			return yield* ParseResult.fail(
+				new ParseResult.Type(
+					ast,
+					cursor.uint8Array,
+					`RDATA length did not match RDLENGTH. Expected '${rdlength}, received '${cursor.uint8Array.byteLength - cursor.offset}'`,
+				),
+			);
+		}
+
+		const rdata = yield* decodeRDataFields(rdataCursor, end, type, ast);
+
+		if (rdataCursor.offset !== end) {
+			return yield* ParseResult.fail(
+				new ParseResult.Type(
+					ast,
+					cursor.uint8Array,
+					`RDATA has ${end - rdataCursor.offset} unexpected trailing bytes`,
+				),
+			);
+		}
+
+		return rdata;
+	});
+}
+
+function decodeRDataFields(
+	cursor: DnsPacketCursor,
+	end: number,
+	type: number,
+	ast: SchemaAST.AST,
+): Effect.Effect<EncodedTypedRData, ParseResult.ParseIssue> {
+	return Effect.gen(function* (): Effect.fn.Return<
+		EncodedTypedRData,
+		ParseResult.ParseIssue
+	> {
+		switch (type) {
+			// A
+			case 1: {
+				return {
+					type,
+					rdata: { address: yield* readOctets(cursor, end, 4, ast) },
+				};
+			}
+			// NS
+			case 2: {
+				return { type, rdata: { nsdname: yield* readName(cursor, end, ast) } };
+			}
+			// MD
+			case 3: {
+				return { type, rdata: { madname: yield* readName(cursor, end, ast) } };
+			}
+			// MF
+			case 4: {
+				return { type, rdata: { madname: yield* readName(cursor, end, ast) } };
+			}
+			// CNAME
+			case 5: {
+				return { type, rdata: { cname: yield* readName(cursor, end, ast) } };
+			}
+			// SOA
+			case 6: {
+				return {
+					type,
+					rdata: {
+						mname: yield* readName(cursor, end, ast),
+						rname: yield* readName(cursor, end, ast),
+						serial: yield* readUint32(cursor, end, ast),
+						refresh: yield* readUint32(cursor, end, ast),
+						retry: yield* readUint32(cursor, end, ast),
+						expire: yield* readUint32(cursor, end, ast),
+						minimum: yield* readUint32(cursor, end, ast),
+					},
+				};
+			}
+			// MB
+			case 7: {
+				return { type, rdata: { madname: yield* readName(cursor, end, ast) } };
+			}
+			// MG
+			case 8: {
+				return { type, rdata: { mgmname: yield* readName(cursor, end, ast) } };
+			}
+			// MR
+			case 9: {
+				return { type, rdata: { newname: yield* readName(cursor, end, ast) } };
+			}
+			// NULL
+			case 10: {
+				return {
+					type,
+					rdata: {
+						anything: yield* readOctets(cursor, end, end - cursor.offset, ast),
+					},
+				};
+			}
+			// WKS
+			case 11: {
+				return {
+					type,
+					rdata: {
+						address: yield* readOctets(cursor, end, 4, ast),
+						protocol: yield* readUint8(cursor, end, ast),
+						bitmap: yield* readOctets(cursor, end, end - cursor.offset, ast),
+					},
+				};
+			}
+			// PTR
+			case 12: {
+				return { type, rdata: { ptrdname: yield* readName(cursor, end, ast) } };
+			}
+			// HINFO
+			case 13: {
+				return {
+					type,
+					rdata: {
+						cpu: yield* readCharacterString(cursor, end, ast),
+						os: yield* readCharacterString(cursor, end, ast),
+					},
+				};
+			}
+			// MINFO
+			case 14: {
+				return {
+					type,
+					rdata: {
+						rmailbx: yield* readName(cursor, end, ast),
+						emailbx: yield* readName(cursor, end, ast),
+					},
+				};
+			}
+			// MX
+			case 15: {
+				return {
+					type,
+					rdata: {
+						preference: yield* readUint16(cursor, end, ast),
+						exchange: yield* readName(cursor, end, ast),
+					},
+				};
+			}
+			// TXT
+			case 16: {
+				const txtData: [Uint8Array, ...Array<Uint8Array>] = [
+					yield* readCharacterString(cursor, end, ast),
+				];
+
+				while (cursor.offset < end) {
+					txtData.push(yield* readCharacterString(cursor, end, ast));
+				}
+
+				return { type, rdata: { txtData } };
+			}
+			// AAAA
+			case 28: {
+				return {
+					type,
+					rdata: { address: yield* readOctets(cursor, end, 16, ast) },
+				};
+			}
+			// SRV
+			case 33: {
+				return {
+					type,
+					rdata: {
+						priority: yield* readUint16(cursor, end, ast),
+						weight: yield* readUint16(cursor, end, ast),
+						port: yield* readUint16(cursor, end, ast),
+						target: yield* readName(cursor, end, ast),
+					},
+				};
+			}
+			// DS
+			case 43: {
+				return {
+					type,
+					rdata: {
+						keyTag: yield* readUint16(cursor, end, ast),
+						algorithm: yield* readUint8(cursor, end, ast),
+						digestType: yield* readUint8(cursor, end, ast),
+						digest: yield* readOctets(cursor, end, end - cursor.offset, ast),
+					},
+				};
+			}
+			// RRSIG
+			case 46: {
+				return {
+					type,
+					rdata: {
+						typeCovered: yield* readUint16(cursor, end, ast),
+						algorithm: yield* readUint8(cursor, end, ast),
+						labels: yield* readUint8(cursor, end, ast),
+						originalTtl: yield* readUint32(cursor, end, ast),
+						signatureExpiration: yield* readUint32(cursor, end, ast),
+						signatureInception: yield* readUint32(cursor, end, ast),
+						keyTag: yield* readUint16(cursor, end, ast),
+						signerName: yield* readName(cursor, end, ast),
+						signature: yield* readOctets(cursor, end, end - cursor.offset, ast),
+					},
+				};
+			}
+			// NSEC
+			case 47: {
+				return {
+					type,
+					rdata: {
+						nextDomainName: yield* readName(cursor, end, ast),
+						types: yield* readTypeBitMaps(cursor, end, ast),
+					},
+				};
+			}
+			// DNSKEY
+			case 48: {
+				return {
+					type,
+					rdata: {
+						flags: yield* readUint16(cursor, end, ast),
+						protocol: yield* readUint8(cursor, end, ast),
+						algorithm: yield* readUint8(cursor, end, ast),
+						publicKey: yield* readOctets(cursor, end, end - cursor.offset, ast),
+					},
+				};
+			}
+			// NSEC3
+			case 50: {
+				return {
+					type,
+					rdata: {
+						hashAlgorithm: yield* readUint8(cursor, end, ast),
+						flags: yield* readUint8(cursor, end, ast),
+						iterations: yield* readUint16(cursor, end, ast),
+						salt: yield* readCharacterString(cursor, end, ast),
+						nextHashedOwnerName: yield* readCharacterString(cursor, end, ast),
+						types: yield* readTypeBitMaps(cursor, end, ast),
+					},
+				};
+			}
+			// NSEC3PARAM
+			case 51: {
+				return {
+					type,
+					rdata: {
+						hashAlgorithm: yield* readUint8(cursor, end, ast),
+						flags: yield* readUint8(cursor, end, ast),
+						iterations: yield* readUint16(cursor, end, ast),
+						salt: yield* readCharacterString(cursor, end, ast),
+					},
+				};
+			}
+		}
+
+		// The RDATA of an unknown TYPE is kept as is
+		return {
+			type,
+			rdata: { data: yield* readOctets(cursor, end, end - cursor.offset, ast) },
+		};
+	});
+}
+
+/**
+ * Writes the RDATA of `resourceRecord`. Domain names within the RDATA take
+ * part in message compression when the writer has a compression dictionary.
+ */
+export function encodeRDataToDnsPacketWriter(
+	writer: DnsPacketWriter,
+	resourceRecord: EncodedResourceRecord,
+	ast: SchemaAST.AST,
+): Effect.Effect<void, ParseResult.ParseIssue> {
+	return Effect.gen(function* () {
+		// Names within unknown RDATA cannot be compressed, as they are not known
+		if (isUnknownResourceRecord(resourceRecord)) {
+			DnsPacketWriter.write(writer, resourceRecord.rdata.data);
+			return;
+		}
+
+		switch (resourceRecord.type) {
+			case 1: {
+				yield* writeOctets(writer, resourceRecord.rdata.address, 4, ast);
+				return;
+			}
+			case 2: {
+				yield* encodeNameToDnsPacketWriter(
+					writer,
+					resourceRecord.rdata.nsdname,
+					ast,
+				);
+				return;
+			}
+			case 3:
+			case 4:
+			case 7: {
+				yield* encodeNameToDnsPacketWriter(
+					writer,
+					resourceRecord.rdata.madname,
+					ast,
+				);
+				return;
+			}
+			case 5: {
+				yield* encodeNameToDnsPacketWriter(
+					writer,
+					resourceRecord.rdata.cname,
+					ast,
+				);
+				return;
+			}
+			case 6: {
+				const { rdata } = resourceRecord;
+
+				yield* encodeNameToDnsPacketWriter(writer, rdata.mname, ast);
+				yield* encodeNameToDnsPacketWriter(writer, rdata.rname, ast);
+				yield* writeUint32(writer, rdata.serial, ast);
+				yield* writeUint32(writer, rdata.refresh, ast);
+				yield* writeUint32(writer, rdata.retry, ast);
+				yield* writeUint32(writer, rdata.expire, ast);
+				yield* writeUint32(writer, rdata.minimum, ast);
+				return;
+			}
+			case 8: {
+				yield* encodeNameToDnsPacketWriter(
+					writer,
+					resourceRecord.rdata.mgmname,
+					ast,
+				);
+				return;
+			}
+			case 9: {
+				yield* encodeNameToDnsPacketWriter(
+					writer,
+					resourceRecord.rdata.newname,
+					ast,
+				);
+				return;
+			}
+			case 10: {
+				DnsPacketWriter.write(writer, resourceRecord.rdata.anything);
+				return;
+			}
+			case 11: {
+				const { rdata } = resourceRecord;
+
+				yield* writeOctets(writer, rdata.address, 4, ast);
+				yield* writeUint8(writer, rdata.protocol, ast);
+				DnsPacketWriter.write(writer, rdata.bitmap);
+				return;
+			}
+			case 12: {
+				yield* encodeNameToDnsPacketWriter(
+					writer,
+					resourceRecord.rdata.ptrdname,
+					ast,
+				);
+				return;
+			}
+			case 13: {
+				yield* writeCharacterString(writer, resourceRecord.rdata.cpu, ast);
+				yield* writeCharacterString(writer, resourceRecord.rdata.os, ast);
+				return;
+			}
+			case 14: {
+				const { rdata } = resourceRecord;
+
+				yield* encodeNameToDnsPacketWriter(writer, rdata.rmailbx, ast);
+				yield* encodeNameToDnsPacketWriter(writer, rdata.emailbx, ast);
+				return;
+			}
+			case 15: {
+				const { rdata } = resourceRecord;
+
+				yield* writeUint16(writer, rdata.preference, ast);
+				yield* encodeNameToDnsPacketWriter(writer, rdata.exchange, ast);
+				return;
+			}
+			case 16: {
+				for (const characterString of resourceRecord.rdata.txtData) {
+					yield* writeCharacterString(writer, characterString, ast);
+				}
+				return;
+			}
+			case 28: {
+				yield* writeOctets(writer, resourceRecord.rdata.address, 16, ast);
+				return;
+			}
+			case 33: {
+				const { rdata } = resourceRecord;
+
+				yield* writeUint16(writer, rdata.priority, ast);
+				yield* writeUint16(writer, rdata.weight, ast);
+				yield* writeUint16(writer, rdata.port, ast);
+				yield* writeUncompressedName(writer, rdata.target, ast);
+				return;
+			}
+			case 43: {
+				const { rdata } = resourceRecord;
+
+				yield* writeUint16(writer, rdata.keyTag, ast);
+				yield* writeUint8(writer, rdata.algorithm, ast);
+				yield* writeUint8(writer, rdata.digestType, ast);
+				DnsPacketWriter.write(writer, rdata.digest);
+				return;
+			}
+			case 46: {
+				const { rdata } = resourceRecord;
+
+				yield* writeUint16(writer, rdata.typeCovered, ast);
+				yield* writeUint8(writer, rdata.algorithm, ast);
+				yield* writeUint8(writer, rdata.labels, ast);
+				yield* writeUint32(writer, rdata.originalTtl, ast);
+				yield* writeUint32(writer, rdata.signatureExpiration, ast);
+				yield* writeUint32(writer, rdata.signatureInception, ast);
+				yield* writeUint16(writer, rdata.keyTag, ast);
+				yield* writeUncompressedName(writer, rdata.signerName, ast);
+				DnsPacketWriter.write(writer, rdata.signature);
+				return;
+			}
+			case 47: {
+				const { rdata } = resourceRecord;
+
+				yield* writeUncompressedName(writer, rdata.nextDomainName, ast);
+				writeTypeBitMaps(writer, rdata.types);
+				return;
+			}
+			case 48: {
+				const { rdata } = resourceRecord;
+
+				yield* writeUint16(writer, rdata.flags, ast);
+				yield* writeUint8(writer, rdata.protocol, ast);
+				yield* writeUint8(writer, rdata.algorithm, ast);
+				DnsPacketWriter.write(writer, rdata.publicKey);
+				return;
+			}
+			case 50: {
+				const { rdata } = resourceRecord;
+
+				yield* writeUint8(writer, rdata.hashAlgorithm, ast);
+				yield* writeUint8(writer, rdata.flags, ast);
+				yield* writeUint16(writer, rdata.iterations, ast);
+				yield* writeCharacterString(writer, rdata.salt, ast);
+				yield* writeCharacterString(writer, rdata.nextHashedOwnerName, ast);
+				writeTypeBitMaps(writer, rdata.types);
+				return;
+			}
+			case 51: {
+				const { rdata } = resourceRecord;
+
+				yield* writeUint8(writer, rdata.hashAlgorithm, ast);
+				yield* writeUint8(writer, rdata.flags, ast);
+				yield* writeUint16(writer, rdata.iterations, ast);
+				yield* writeCharacterString(writer, rdata.salt, ast);
+				return;
+			}
+		}
+	});
+}
+
+/** Whether `resourceRecord` is of a TYPE whose RDATA is not known */
+export function isUnknownResourceRecord(
+	resourceRecord: EncodedResourceRecord,
+): resourceRecord is Extract<
+	EncodedResourceRecord,
+	{ readonly rdata: typeof UnknownRData.Encoded }
+> {
+	return "data" in resourceRecord.rdata;
+}
+
+function readOctets(
+	cursor: DnsPacketCursor,
+	end: number,
+	length: number,
+	ast: SchemaAST.AST,
+): Either.Either<Uint8Array, ParseResult.ParseIssue> {
+	if (cursor.offset + length > end) {
+		return Either.left(
+			new ParseResult.Type(
+				ast,
+				cursor.uint8Array,
+				`RDATA overrun, expected ${length} more bytes at offset ${cursor.offset}`,
+			),
+		);
+	}
+
+	const octets = cursor.uint8Array.subarray(
+		cursor.offset,
+		cursor.offset + length,
+	);
+	cursor.offset += length;
+
+	return Either.right(octets);
+}
+
+function readUint8(
+	cursor: DnsPacketCursor,
+	end: number,
+	ast: SchemaAST.AST,
+): Either.Either<number, ParseResult.ParseIssue> {
+	return Either.flatMap(readOctets(cursor, end, 1, ast), (octets) =>
+		getUint8(toDataView(octets), 0, ast),
+	);
+}
+
+function readUint16(
+	cursor: DnsPacketCursor,
+	end: number,
+	ast: SchemaAST.AST,
+): Either.Either<number, ParseResult.ParseIssue> {
+	return Either.flatMap(readOctets(cursor, end, 2, ast), (octets) =>
+		getUint16(toDataView(octets), 0, ast),
+	);
+}
+
+function readUint32(
+	cursor: DnsPacketCursor,
+	end: number,
+	ast: SchemaAST.AST,
+): Either.Either<number, ParseResult.ParseIssue> {
+	return Either.flatMap(readOctets(cursor, end, 4, ast), (octets) =>
+		getUint32(toDataView(octets), 0, ast),
+	);
+}
+
+function readCharacterString(
+	cursor: DnsPacketCursor,
+	end: number,
+	ast: SchemaAST.AST,
+): Either.Either<Uint8Array, ParseResult.ParseIssue> {
+	return Either.flatMap(readUint8(cursor, end, ast), (length) =>
+		readOctets(cursor, end, length, ast),
+	);
+}
+
+function readName(
+	cursor: DnsPacketCursor,
+	end: number,
+	ast: SchemaAST.AST,
+): Effect.Effect<EncodedName, ParseResult.ParseIssue> {
+	return Effect.gen(function* () {
+		const name = yield* decodeNameFromDnsPacketCursor(cursor).pipe(
+			Effect.mapError(Struct.get("issue")),
+		);
+
+		yield* readOctets(cursor, end, name.encodedByteLength, ast);
+
+		return name;
+	});
+}
+
+function writeOctets(
+	writer: DnsPacketWriter,
+	octets: Uint8Array,
+	length: number,
+	ast: SchemaAST.AST,
+): Either.Either<void, ParseResult.ParseIssue> {
+	if (octets.byteLength !== length) {
+		return Either.left(
+			new ParseResult.Type(
+				ast,
+				octets,
+				`Expected ${length} bytes, received ${octets.byteLength}`,
+			),
+		);
+	}
+
+	DnsPacketWriter.write(writer, octets);
+
+	return Either.void;
+}
+
+function writeUint8(
+	writer: DnsPacketWriter,
+	value: number,
+	ast: SchemaAST.AST,
+): Either.Either<void, ParseResult.ParseIssue> {
+	const out = new Uint8Array(1);
+
+	return Either.map(setUint8(toDataView(out), 0, value, ast), () =>
+		DnsPacketWriter.write(writer, out),
+	);
+}
+
+function writeUint16(
+	writer: DnsPacketWriter,
+	value: number,
+	ast: SchemaAST.AST,
+): Either.Either<void, ParseResult.ParseIssue> {
+	const out = new Uint8Array(2);
+
+	return Either.map(setUint16(toDataView(out), 0, value, ast), () =>
+		DnsPacketWriter.write(writer, out),
+	);
+}
+
+function writeUint32(
+	writer: DnsPacketWriter,
+	value: number,
+	ast: SchemaAST.AST,
+): Either.Either<void, ParseResult.ParseIssue> {
+	const out = new Uint8Array(4);
+
+	return Either.map(setUint32(toDataView(out), 0, value, ast), () =>
+		DnsPacketWriter.write(writer, out),
+	);
+}
+
+/**
+ * Writes `name` without compression, for RDATA fields that forbid it.
+ */
+function writeUncompressedName(
+	writer: DnsPacketWriter,
+	name: EncodedName,
+	ast: SchemaAST.AST,
+): Effect.Effect<void, ParseResult.ParseIssue> {
+	const dictionary = writer.compressionDictionary;
+	writer.compressionDictionary = undefined;
+
+	return encodeNameToDnsPacketWriter(writer, name, ast).pipe(
+		Effect.ensuring(
+			Effect.sync(() => {
+				writer.compressionDictionary = dictionary;
+			}),
+		),
+	);
+}
+
+/**
+ * Reads the window blocks of a type bit map up to the end of the RDATA.
+ * Blocks are in increasing order of their window number, and each bit map
+ * is 1 to 32 octets long.
+ */
+function readTypeBitMaps(
+	cursor: DnsPacketCursor,
+	end: number,
+	ast: SchemaAST.AST,
+): Effect.Effect<Array<number>, ParseResult.ParseIssue> {
+	return Effect.gen(function* () {
+		const types: Array<number> = [];
+		let lastWindow = -1;
+
+		while (cursor.offset < end) {
+			const window = yield* readUint8(cursor, end, ast);
+			const length = yield* readUint8(cursor, end, ast);
+
+			if (window <= lastWindow || length === 0 || length > 32) {
+				return yield* ParseResult.fail(
+					new ParseResult.Type(
+						ast,
+						cursor.uint8Array,
+						`Type bit map window ${window} of ${length} bytes must follow window ${lastWindow} and be 1 to 32 bytes long`,
+					),
+				);
+			}
+
+			const bitmap = yield* readOctets(cursor, end, length, ast);
+
+			// Bit N of the bit map corresponds to type N of the window
+			for (let bit = 0; bit < length * 8; bit++) {
+				if (((bitmap[bit >> 3] ?? 0) & (0x80 >> (bit & 7))) !== 0) {
+					types.push(window * 256 + bit);
+				}
+			}
+
+			lastWindow = window;
+		}
+
+		return types;
+	});
+}
+
+function writeTypeBitMaps(
+	writer: DnsPacketWriter,
+	types: ReadonlyArray<number>,
+) {
+	const windows = new Map<number, Uint8Array>();
+
+	for (const type of [...new Set(types)].sort((a, b) => a - b)) {
+		const window = type >> 8;
+		const bit = type & 0xff;
+		const bitmap = windows.get(window) ?? new Uint8Array(32);
+
+		bitmap[bit >> 3] = (bitmap[bit >> 3] ?? 0) | (0x80 >> (bit & 7));
+		windows.set(window, bitmap);
+	}
+
+	for (const [window, bitmap] of windows) {
+		// Trailing zero octets are left out
+		const length = bitmap.findLastIndex((octet) => octet !== 0) + 1;
+
+		DnsPacketWriter.write(writer, new Uint8Array([window, length]));
+		DnsPacketWriter.write(writer, bitmap.subarray(0, length));
+	}
+}
+
+function writeCharacterString(
+	writer: DnsPacketWriter,
+	characterString: Uint8Array,
+	ast: SchemaAST.AST,
+): Either.Either<void, ParseResult.ParseIssue> {
+	if (characterString.byteLength > 255) {
+		return Either.left(
+			new ParseResult.Type(
+				ast,
+				characterString,
+				`<character-string> must be 255 bytes or less, received ${characterString.byteLength}`,
+			),
+		);
+	}
+
+	return Either.map(writeUint8(writer, characterString.byteLength, ast), () =>
+		DnsPacketWriter.write(writer, characterString),
+	);
+}
+
+/**
+ * Formats 16 octets as in RFC 5952, e.g. "2001:db8::1" or "::ffff:192.0.2.1".
+ */
+function formatIpv6Address(uint8Array: Uint8Array) {
+	const dataView = toDataView(uint8Array);
+	const fields = Array.from({ length: 8 }, (_, idx) =>
+		dataView.getUint16(idx * 2),
+	);
+
+	// 5. Text Representation of Special Addresses
+	if (
+		fields.slice(0, 5).every((field) => field === 0) &&
+		fields[5] === 0xffff
+	) {
+		return `::ffff:${uint8Array.subarray(12).join(".")}`;
+	}
+
+	// 4.2.3. The longest run of consecutive zero fields is shortened
+	let runStart = -1;
+	let runLength = 0;
+
+	for (let idx = 0; idx < 8; idx++) {
+		let length = 0;
+
+		while (idx + length < 8 && fields[idx + length] === 0) {
+			length++;
+		}
+
+		if (length > runLength) {
+			runStart = idx;
+			runLength = length;
+		}
+
+		idx += length;
+	}
+
+	const hex = fields.map((field) => field.toString(16));
+
+	// 4.2.2. A single zero field is not shortened
+	if (runLength < 2) {
+		return hex.join(":");
+	}
+
+	return `${hex.slice(0, runStart).join(":")}::${hex.slice(runStart + runLength).join(":")}`;
+}
+
+/**
+ * Parses any text representation of RFC 4291 2.2, or returns undefined.
+ */
+function parseIpv6Address(str: string) {
+	const halves = str.split("::");
+
+	// Only the low-order 32 bits may be in dotted decimal notation
+	if (halves.length > 2 || str.slice(0, str.lastIndexOf(":")).includes(".")) {
+		return undefined;
+	}
+
+	const parseFields = (half: string | undefined) => {
+		const fields: Array<number> = [];
+
+		if (half === undefined || half === "") {
+			return fields;
+		}
+
+		for (const field of half.split(":")) {
+			if (/^[0-9a-fA-F]{1,4}$/.test(field)) {
+				fields.push(Number.parseInt(field, 16));
+			} else if (/^(0|[1-9]\d{0,2})(\.(0|[1-9]\d{0,2})){3}$/.test(field)) {
+				const octets = field.split(".").map(Number);
+
+				if (octets.some((octet) => octet > 255)) {
+					return undefined;
+				}
+
+				fields.push(
+					((octets[0] ?? 0) << 8) | (octets[1] ?? 0),
+					((octets[2] ?? 0) << 8) | (octets[3] ?? 0),
+				);
+			} else {
+				return undefined;
+			}
+		}
+
+		return fields;
+	};
+
+	const head = parseFields(halves[0]);
+	const tail = parseFields(halves[1]);
+
+	if (head === undefined || tail === undefined) {
+		return undefined;
+	}
+
+	// "::" stands for one or more zero fields
+	const zeros = 8 - head.length - tail.length;
+
+	if (halves.length === 2 ? zeros < 1 : zeros !== 0) {
+		return undefined;
+	}
+
+	const fields = [...head, ...Array<number>(zeros).fill(0), ...tail];
+	const uint8Array = new Uint8Array(16);
+	const dataView = toDataView(uint8Array);
+
+	fields.forEach((field, idx) => dataView.setUint16(idx * 2, field));
+
+	return uint8Array;
+}
+
+function toDataView(uint8Array: Uint8Array) {
+	return new DataView(
+		uint8Array.buffer,
+		uint8Array.byteOffset,
+		uint8Array.byteLength,
+	);
+}
+
+/**
+ * Compares RDATA field by field, with domain names compared
+ * case-insensitively.
+ */
+export function rdataEquals(a: unknown, b: unknown): boolean {
+	if (isName(a) && isName(b)) {
+		return nameEquals(a, b);
+	}
+
+	if (a instanceof Uint8Array && b instanceof Uint8Array) {
+		return equalBytes(a, b);
+	}
+
+	if (Array.isArray(a) && Array.isArray(b)) {
+		return (
+			a.length === b.length &&
+			a.every((value, idx) => rdataEquals(value, b[idx]))
+		);
+	}
+
+	if (
+		typeof a === "object" &&
+		a !== null &&
+		typeof b === "object" &&
+		b !== null
+	) {
+		const keys = Object.keys(a);
+
+		return (
+			keys.length === Object.keys(b).length &&
+			keys.every((key) =>
+				rdataEquals(
+					(a as Record<string, unknown>)[key],
+					(b as Record<string, unknown>)[key],
+				),
+			)
+		);
+	}
+
+	return a === b;
+}
+
+function isName(value: unknown): value is Name {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		"labels" in value &&
+		"encodedByteLength" in value
+	);
+}
@@ -0,0 +1,411 @@
+import { Context, Data, Effect, Layer, Option, type ParseResult } from "effect";
+import {
+	type DnsClientConfig,
+	type DnsClientError,
+	makeDnsClient,
+} from "./client";
+import type { Message } from "./message";
+import {
+	encodeSyncNameToString,
+	isSubdomain,
+	nameEquals,
+	type Name,
+} from "./name";
+import { QTypeNameToQType, type Question } from "./question";
+import {
+	RRTypeNameToRRType,
+	type ResourceRecord,
+	type ResourceRecordOf,
+} from "./resource-record";
+
+/**
+ * A name server to send queries to, with whatever addresses are known for
+ * it.
+ */
+export interface NameServerHint {
+	readonly name: Name;
+	readonly addresses: ReadonlyArray<string>;
+}
+
+export interface ResolverConfig {
+	/** Name servers of the root zone, where every resolution starts */
+	readonly rootHints: ReadonlyArray<NameServerHint>;
+	/** Queries a single resolution may send in total, defaults to 64 */
+	readonly maxQueries?: number;
+	/**
+	 * How deep resolutions of name server addresses missing glue may nest,
+	 * defaults to 4
+	 */
+	readonly maxDepth?: number;
+}
+
+/**
+ * The outcome of a resolution. The answer starts with the CNAME RRs that
+ * were followed, if any.
+ */
+export interface Resolution {
+	readonly rcode: "NOERROR" | "NXDOMAIN";
+	readonly answer: ReadonlyArray<ResourceRecord>;
+	readonly authority: ReadonlyArray<ResourceRecord>;
+}
+
+export class ResolverError extends Data.TaggedError("ResolverError")<{
+	readonly reason: "NoServers" | "LimitExceeded" | "CnameLoop";
+	readonly message: string;
+}> {}
+
+/**
+ * Sends a single query to the name server at `address`. Resolvers are
+ * tested against simulated name servers by providing their own transport.
+ */
+export class ResolverTransport extends Context.Tag("ResolverTransport")<
+	ResolverTransport,
+	{
+		readonly query: (
+			address: string,
+			question: Question,
+		) => Effect.Effect<Message, DnsClientError | ParseResult.ParseError>;
+	}
+>() {
+	/**
+	 * Queries over UDP, and over TCP when replies are truncated, without
+	 * asking for recursion.
+	 */
+	static readonly layer = (
+		config: Omit<DnsClientConfig, "address" | "recursionDesired"> = {},
+	) =>
+		Layer.succeed(
+			ResolverTransport,
+			ResolverTransport.of({
+				query: (address, question) =>
+					makeDnsClient({ ...config, address, recursionDesired: false }).pipe(
+						Effect.flatMap((client) => client.query(question)),
+						Effect.scoped,
+					),
+			}),
+		);
+}
+
+/**
+ * 5.3.3. Algorithm
+ *
+ * The top level algorithm has four steps:
+ *
+ *    1. See if the answer is in local information, and if so return
+ *       it to the client.
+ *
+ *    2. Find the best servers to ask.
+ *
+ *    3. Send them queries until one returns a response.
+ *
+ *    4. Analyze the response, either:
+ *
+ *          a. if the response answers the question or contains a name
+ *             error, cache the data as well as returning it back to
+ *             the client.
+ *
+ *          b. if the response contains a better delegation to other
+ *             servers, cache the delegation information, and go to
+ *             step 2.
+ *
+ *          c. if the response shows a CNAME and that is not the
+ *             answer itself, cache the CNAME, change the SNAME to the
+ *             canonical name in the CNAME RR and go to step 1.
+ *
+ *          d. if the response shows a servers failure or other
+ *             bizarre contents, delete the server from the SLIST and
+ *             go back to step 3.
+ *
+ * There is no local information, so the best servers to ask are always the
+ * root hints until a referral names better ones.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-5.3.3
+ */
+export class Resolver extends Context.Tag("Resolver")<
+	Resolver,
+	{
+		readonly resolve: (
+			question: Question,
+		) => Effect.Effect<Resolution, ResolverError>;
+	}
+>() {
+	static readonly layer = (config: ResolverConfig) =>
+		Layer.effect(Resolver, makeResolver(config));
+}
+
+/**
+ * Makes an iterative `Resolver` sending its queries with the
+ * `ResolverTransport`.
+ */
+export const makeResolver = (config: ResolverConfig) =>
+	Effect.gen(function* () {
+		const transport = yield* ResolverTransport;
+		const maxQueries = config.maxQueries ?? 64;
+		const maxDepth = config.maxDepth ?? 4;
+
+		// Queries sent so far, shared with nested resolutions
+		interface Budget {
+			queries: number;
+		}
+
+		const lookup = (
+			question: Question,
+			budget: Budget,
+			depth: number,
+		): Effect.Effect<Resolution, ResolverError> =>
+			Effect.gen(function* () {
+				const answer: Array<ResourceRecord> = [];
+				const followed: Array<Name> = [];
+
+				let sname = question.qname;
+				let zone = ROOT;
+				let servers = config.rootHints;
+
+				while (true) {
+					const response = yield* queryServers(
+						servers,
+						{ ...question, qname: sname },
+						zone,
+						budget,
+						depth,
+					);
+					const { chain, records } = followAnswer(
+						response.answer,
+						sname,
+						question.qtype,
+					);
+
+					answer.push(...chain);
+
+					if (response.header.rcode === "NXDOMAIN") {
+						return {
+							rcode: "NXDOMAIN",
+							answer,
+							authority: response.authority,
+						};
+					}
+
+					if (records.length > 0) {
+						return {
+							rcode: "NOERROR",
+							answer: [...answer, ...records],
+							authority: response.authority,
+						};
+					}
+
+					const [cname] = chain.slice(-1);
+
+					// Start over from the root for the canonical name
+					if (cname !== undefined) {
+						followed.push(sname, ...chain.map((record) => record.name));
+						sname = cname.rdata.cname;
+
+						if (followed.some((name) => nameEquals(name, sname))) {
+							return yield* new ResolverError({
+								reason: "CnameLoop",
+								message: `CNAME loop at '${encodeSyncNameToString(sname)}'`,
+							});
+						}
+
+						zone = ROOT;
+						servers = config.rootHints;
+						continue;
+					}
+
+					const delegation = findDelegation(response, sname, zone);
+
+					if (Option.isSome(delegation)) {
+						zone = delegation.value.zone;
+						servers = delegation.value.servers;
+						continue;
+					}
+
+					// The name exists without RRs of the type
+					return { rcode: "NOERROR", answer, authority: response.authority };
+				}
+			});
+
+		const queryServers = (
+			servers: ReadonlyArray<NameServerHint>,
+			question: Question,
+			zone: Name,
+			budget: Budget,
+			depth: number,
+		) =>
+			Effect.gen(function* () {
+				// Servers with glue are tried before those needing a resolution
+				const ordered = [
+					...servers.filter(({ addresses }) => addresses.length > 0),
+					...servers.filter(({ addresses }) => addresses.length === 0),
+				];
+
+				for (const server of ordered) {
+					const addresses =
+						server.addresses.length > 0
+							? server.addresses
+							: yield* resolveAddresses(server.name, budget, depth);
+
+					for (const address of addresses) {
+						if (budget.queries >= maxQueries) {
+							return yield* new ResolverError({
+								reason: "LimitExceeded",
+								message: `Resolution of '${encodeSyncNameToString(question.qname)}' needed more than ${maxQueries} queries`,
+							});
+						}
+
+						budget.queries++;
+
+						const response = yield* Effect.option(
+							transport.query(address, question),
+						);
+
+						if (
+							Option.isSome(response) &&
+							isUsable(response.value, question.qname, zone)
+						) {
+							return response.value;
+						}
+					}
+				}
+
+				return yield* new ResolverError({
+					reason: "NoServers",
+					message: `No name server for '${encodeSyncNameToString(zone)}' answered '${encodeSyncNameToString(question.qname)}'`,
+				});
+			});
+
+		// The addresses of a name server whose referral came without glue. IPv6
+		// addresses are only looked up for servers without IPv4 ones.
+		const resolveAddresses = (name: Name, budget: Budget, depth: number) => {
+			if (depth >= maxDepth) {
+				return Effect.succeed([]);
+			}
+
+			return lookupAddresses(name, "A", budget, depth).pipe(
+				Effect.flatMap((addresses) =>
+					addresses.length > 0
+						? Effect.succeed(addresses)
+						: lookupAddresses(name, "AAAA", budget, depth),
+				),
+			);
+		};
+
+		const lookupAddresses = (
+			name: Name,
+			type: "A" | "AAAA",
+			budget: Budget,
+			depth: number,
+		) =>
+			lookup(
+				{ qname: name, qtype: RRTypeNameToRRType[type], qclass: 1 },
+				budget,
+				depth + 1,
+			).pipe(
+				Effect.map(({ answer }) =>
+					answer.flatMap((record) =>
+						record.type === type ? [record.rdata.address] : [],
+					),
+				),
+				Effect.catchIf(
+					(error) => error.reason !== "LimitExceeded",
+					() => Effect.succeed([]),
+				),
+			);
+
+		return Resolver.of({
+			resolve: (question) => lookup(question, { queries: 0 }, 0),
+		});
+	});
+
+const ROOT: Name = { labels: [], encodedByteLength: 1 };
+
+/**
+ * Follows the CNAME RRs in the answer section from `sname`, returning them
+ * along with the RRs owned by the name they end at.
+ */
+function followAnswer(
+	answer: ReadonlyArray<ResourceRecord>,
+	sname: Name,
+	qtype: Question["qtype"],
+) {
+	const chain: Array<ResourceRecordOf<"CNAME">> = [];
+
+	let name = sname;
+
+	while (true) {
+		const owned = answer.filter((record) => nameEquals(record.name, name));
+		const cname = owned.find(
+			(record): record is ResourceRecordOf<"CNAME"> => record.type === "CNAME",
+		);
+
+		if (
+			cname === undefined ||
+			qtype === RRTypeNameToRRType.CNAME ||
+			qtype === QTypeNameToQType.ANY
+		) {
+			return { chain, records: owned };
+		}
+
+		// Left for the resolution to report as a loop
+		if (chain.includes(cname)) {
+			return { chain, records: [] };
+		}
+
+		chain.push(cname);
+		name = cname.rdata.cname;
+	}
+}
+
+/**
+ * The name servers of the zone closest to `sname` among the NS RRs of the
+ * authority section, if it is below the zone that was asked.
+ */
+function findDelegation(response: Message, sname: Name, zone: Name) {
+	const cuts = response.authority.filter(
+		(record): record is ResourceRecordOf<"NS"> =>
+			record.type === "NS" &&
+			isSubdomain(sname, record.name) &&
+			record.name.labels.length > zone.labels.length,
+	);
+	const depth = Math.max(...cuts.map((record) => record.name.labels.length));
+	const closest = cuts.filter((record) => record.name.labels.length === depth);
+	const [cut] = closest;
+
+	if (cut === undefined) {
+		return Option.none();
+	}
+
+	return Option.some({
+		zone: cut.name,
+		servers: closest.map((record): NameServerHint => ({
+			name: record.rdata.nsdname,
+			addresses: response.additional.flatMap((glue) =>
+				(glue.type === "A" || glue.type === "AAAA") &&
+				nameEquals(glue.name, record.rdata.nsdname)
+					? [glue.rdata.address]
+					: [],
+			),
+		})),
+	});
+}
+
+/**
+ * Server failures and referrals that do not lead closer to `sname`, as
+ * sent by lame servers, are no use to the resolution.
+ */
+function isUsable(response: Message, sname: Name, zone: Name) {
+	switch (response.header.rcode) {
+		case "NXDOMAIN": {
+			return true;
+		}
+		case "NOERROR": {
+			return (
+				response.answer.length > 0 ||
+				!response.authority.some((record) => record.type === "NS") ||
+				Option.isSome(findDelegation(response, sname, zone))
+			);
+		}
+	}
+
+	return false;
+}
@@ -1,7 +1,54 @@
-import { Effect, Either, ParseResult, Schema, Struct } from "effect";
-import { Name, decodeNameFromDnsPacketCursor } from "./name";
-import { DnsPacketCursor, Uint16, Uint31, isUint31 } from "./types";
-import { getUint16, getUint32 } from "./utils";
+import {
+	Effect,
+	Either,
+	ParseResult,
+	Schema,
+	SchemaAST,
+	Struct,
+} from "effect";
+import { OPT } from "./edns";
+import {
+	Name,
+	decodeNameFromDnsPacketCursor,
+	encodeNameToDnsPacketWriter,
+} from "./name";
+import {
+	DnsPacketCursor,
+	DnsPacketWriter,
+	Uint16,
+	Uint31,
+	isUint31,
+} from "./types";
+import {
+	AAAARData,
+	ARData,
+	CNAMERData,
+	DNSKEYRData,
+	DSRData,
+	HINFORData,
+	MBRData,
+	MDRData,
+	MFRData,
+	MGRData,
+	MINFORData,
+	MRRData,
+	MXRData,
+	NSEC3PARAMRData,
+	NSEC3RData,
+	NSECRData,
+	NSRData,
+	NULLRData,
+	PTRRData,
+	RRSIGRData,
+	SOARData,
+	SRVRData,
+	TXTRData,
+	UnknownRData,
+	WKSRData,
+	decodeRDataFromDnsPacketCursor,
+	encodeRDataToDnsPacketWriter,
+} from "./rdata";
+import { getUint16, getUint32, setUint16, setUint32 } from "./utils";
 
 export const ResourceRecordTypeName = Schema.Literal(
 	"A",
@@ -20,6 +67,14 @@ export const ResourceRecordTypeName = Schema.Literal(
 	"MINFO",
 	"MX",
 	"TXT",
+	"AAAA",
+	"SRV",
+	"DS",
+	"RRSIG",
+	"NSEC",
+	"DNSKEY",
+	"NSEC3",
+	"NSEC3PARAM",
 );
 
 export type ResourceRecordTypeName = typeof ResourceRecordTypeName.Type;
@@ -41,6 +96,14 @@ export const ResourceRecordTypeInteger = Schema.Literal(
 	14,
 	15,
 	16,
+	28,
+	33,
+	43,
+	46,
+	47,
+	48,
+	50,
+	51,
 ).annotations({
 	identifier: "Type",
 	description: "Todo",
@@ -54,7 +117,7 @@ export const ResourceRecordTypeInteger = Schema.Literal(
  *
  * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-3.2.2
  */
-const ResourceRecordType = Schema.transformOrFail(
+const KnownResourceRecordType = Schema.transformOrFail(
 	Uint16,
 	ResourceRecordTypeName,
 	{
@@ -109,13 +172,37 @@ const ResourceRecordType = Schema.transformOrFail(
 				case 16: {
 					return ParseResult.succeed("TXT" as const);
 				}
+				case 28: {
+					return ParseResult.succeed("AAAA" as const);
+				}
+				case 33: {
+					return ParseResult.succeed("SRV" as const);
+				}
+				case 43: {
+					return ParseResult.succeed("DS" as const);
+				}
+				case 46: {
+					return ParseResult.succeed("RRSIG" as const);
+				}
+				case 47: {
+					return ParseResult.succeed("NSEC" as const);
+				}
+				case 48: {
+					return ParseResult.succeed("DNSKEY" as const);
+				}
+				case 50: {
+					return ParseResult.succeed("NSEC3" as const);
+				}
+				case 51: {
+					return ParseResult.succeed("NSEC3PARAM" as const);
+				}
 			}
 
 			return ParseResult.fail(
 				new ParseResult.Type(
 					ast,
 					uint16,
-					`Type must be a integer between the values of 1 and 16. Recieved '${uint16}'`,
+					`Type must be a integer between the values of 1 and 16, 28, 33, 43, 46 to 48, 50 or 51. Recieved '${uint16}'`,
 				),
 			);
 		},
@@ -169,6 +256,30 @@ const ResourceRecordType = Schema.transformOrFail(
 				case "TXT": {
 					return ParseResult.succeed(16 as const);
 				}
+				case "AAAA": {
+					return ParseResult.succeed(28 as const);
+				}
+				case "SRV": {
+					return ParseResult.succeed(33 as const);
+				}
+				case "DS": {
+					return ParseResult.succeed(43 as const);
+				}
+				case "RRSIG": {
+					return ParseResult.succeed(46 as const);
+				}
+				case "NSEC": {
+					return ParseResult.succeed(47 as const);
+				}
+				case "DNSKEY": {
+					return ParseResult.succeed(48 as const);
+				}
+				case "NSEC3": {
+					return ParseResult.succeed(50 as const);
+				}
+				case "NSEC3PARAM": {
+					return ParseResult.succeed(51 as const);
+				}
 			}
 		},
 	},
@@ -178,8 +289,6 @@ const ResourceRecordType = Schema.transformOrFail(
 		"TYPE fields are used in resource records. Note that these types are a subset of QTYPEs.",
 });
 
-export type ResourceRecordType = typeof ResourceRecordType.Type;
-
 export const RRTypeNameToRRType = {
 	/** A host address */
 	A: 1,
@@ -213,6 +322,22 @@ export const RRTypeNameToRRType = {
 	MX: 15,
 	/** Text strings */
 	TXT: 16,
+	/** An IPv6 host address */
+	AAAA: 28,
+	/** The location of a service */
+	SRV: 33,
+	/** Delegation signer */
+	DS: 43,
+	/** The signature of an RRset */
+	RRSIG: 46,
+	/** The next owner name and the types of an owner name */
+	NSEC: 47,
+	/** A public key of a zone */
+	DNSKEY: 48,
+	/** Hashed authenticated denial of existence */
+	NSEC3: 50,
+	/** The NSEC3 parameters of a zone */
+	NSEC3PARAM: 51,
 } as const;
 
 export const RRTypeToRRTypeName = {
@@ -232,6 +357,25 @@ export const RRTypeToRRTypeName = {
 	14: "MINFO",
 	15: "MX",
 	16: "TXT",
+	28: "AAAA",
+	33: "SRV",
+	43: "DS",
+	46: "RRSIG",
+	47: "NSEC",
+	48: "DNSKEY",
+	50: "NSEC3",
+	51: "NSEC3PARAM",
+} as const;
+
+export const RRClassNameToRRClass = {
+	/** The Internet */
+	IN: 1,
+	/** The CSNET class (Obsolete) */
+	CS: 2,
+	/** The CHAOS class */
+	CH: 3,
+	/** Hesiod */
+	HS: 4,
 } as const;
 
 const ResourceRecordClassName = Schema.Literal(
@@ -246,6 +390,13 @@ const ResourceRecordClassName = Schema.Literal(
 		"mnemonics",
 });
 
+export const ResourceRecordClassInteger = Schema.Literal(1, 2, 3, 4).annotations({
+	identifier: "Class",
+	description:
+		"CLASS fields appear in resource records. The following CLASS " +
+		"mnemonics",
+});
+
 /**
  * 3.2.4. CLASS values
  *
@@ -259,7 +410,7 @@ const ResourceRecordClassName = Schema.Literal(
  *
  * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-3.2.4
  */
-export const ResourceRecordClass = Schema.transformOrFail(
+const KnownResourceRecordClass = Schema.transformOrFail(
 	Uint16,
 	ResourceRecordClassName,
 	{
@@ -307,6 +458,135 @@ export const ResourceRecordClass = Schema.transformOrFail(
 	},
 );
 
+export const RRClassToRRClassName = {
+	1: "IN",
+	2: "CS",
+	3: "CH",
+	4: "HS",
+} as const;
+
+/**
+ * 5. Text Representation
+ *
+ * The type mnemonic of an unknown type is the word "TYPE" immediately
+ * followed by the type number, with no intervening whitespace. In the
+ * class field, an unknown class is similarly represented as the word
+ * "CLASS" immediately followed by the class number.
+ *
+ * Values that have a mnemonic of their own must use it, and the reserved
+ * value 0 is never valid. Neither are the values of pseudo-RRs, which are
+ * not RRs of a section.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc3597.html#section-5
+ */
+function makeUnassigned(
+	prefix: "TYPE" | "CLASS",
+	integerToName: Readonly<Record<number, string>>,
+	pseudo: Readonly<Record<number, string>> = {},
+) {
+	return Uint16.pipe(
+		Schema.filter((integer) => {
+			if (integer === 0) {
+				return `${prefix}0 is reserved`;
+			}
+
+			if (Object.hasOwn(pseudo, integer)) {
+				return `${prefix}${integer} is ${pseudo[integer]}`;
+			}
+
+			if (Object.hasOwn(integerToName, integer)) {
+				return `${prefix}${integer} is assigned, use its mnemonic '${integerToName[integer]}'`;
+			}
+
+			return true;
+		}),
+	);
+}
+
+function makeGenericMnemonic<Prefix extends "TYPE" | "CLASS">(
+	prefix: Prefix,
+	unassigned: ReturnType<typeof makeUnassigned>,
+) {
+	return Schema.transform(
+		unassigned,
+		Schema.TemplateLiteral(Schema.Literal(prefix), Schema.Number),
+		{
+			strict: true,
+			decode: (integer) => `${prefix}${integer}` as const,
+			encode: (mnemonic) => Number(mnemonic.slice(prefix.length)),
+		},
+	);
+}
+
+/** TYPE values without a mnemonic, e.g. those of RR types defined later */
+export const UnknownResourceRecordTypeInteger = makeUnassigned(
+	"TYPE",
+	RRTypeToRRTypeName,
+	{ [OPT]: "the OPT pseudo-RR, which is carried by Message.opt" },
+).annotations({ identifier: "UnknownType" });
+
+/** CLASS values without a mnemonic */
+export const UnknownResourceRecordClassInteger = makeUnassigned(
+	"CLASS",
+	RRClassToRRClassName,
+).annotations({ identifier: "UnknownClass" });
+
+/**
+ * An unknown TYPE in its generic representation, e.g. TYPE65534
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc3597.html#section-5
+ */
+export const UnknownResourceRecordType = makeGenericMnemonic(
+	"TYPE",
+	UnknownResourceRecordTypeInteger,
+).annotations({ identifier: "UnknownType" });
+
+/**
+ * An unknown CLASS in its generic representation, e.g. CLASS32
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc3597.html#section-5
+ */
+export const UnknownResourceRecordClass = makeGenericMnemonic(
+	"CLASS",
+	UnknownResourceRecordClassInteger,
+).annotations({ identifier: "UnknownClass" });
+
+/**
+ * Types with a mnemonic are decoded to it, and the others to their generic
+ * representation.
+ */
+export const ResourceRecordType = Schema.Union(
+	KnownResourceRecordType,
+	UnknownResourceRecordType,
+).annotations({ identifier: "Type" });
+
+export type ResourceRecordType = typeof ResourceRecordType.Type;
+
+/**
+ * Classes with a mnemonic are decoded to it, and the others to their
+ * generic representation.
+ */
+export const ResourceRecordClass = Schema.Union(
+	KnownResourceRecordClass,
+	UnknownResourceRecordClass,
+).annotations({ identifier: "Class" });
+
+export type ResourceRecordClass = typeof ResourceRecordClass.Type;
+
+/** The TYPE value of `type`, e.g. 15 for "MX" and 65534 for "TYPE65534" */
+export function getRRType(type: ResourceRecordType): number {
+	return Object.hasOwn(RRTypeNameToRRType, type)
+		? RRTypeNameToRRType[type as ResourceRecordTypeName]
+		: Number(type.slice("TYPE".length));
+}
+
+/** The CLASS value of `rrclass`, e.g. 1 for "IN" and 32 for "CLASS32" */
+export function getRRClass(rrclass: ResourceRecordClass): number {
+	return Object.hasOwn(RRClassNameToRRClass, rrclass)
+		? RRClassNameToRRClass[rrclass as keyof typeof RRClassNameToRRClass]
+		: Number(rrclass.slice("CLASS".length));
+}
+
 /**
  * 4.1.3. Resource record format
  *
@@ -362,18 +642,92 @@ export const ResourceRecordClass = Schema.transformOrFail(
  *                 For example, if the TYPE is A and the CLASS is IN,
  *                 the RDATA field is a 4 octet ARPA Internet address.
  */
-export const ResourceRecord = Schema.Struct({
-	name: Name,
-	type: ResourceRecordType,
-	class: ResourceRecordClass,
-	ttl: Uint31,
-	rdlength: Uint16,
-	rdata: Schema.Uint8ArrayFromSelf,
+export const ResourceRecord = Schema.Union(
+	makeResourceRecord("A", ARData),
+	makeResourceRecord("NS", NSRData),
+	makeResourceRecord("MD", MDRData),
+	makeResourceRecord("MF", MFRData),
+	makeResourceRecord("CNAME", CNAMERData),
+	makeResourceRecord("SOA", SOARData),
+	makeResourceRecord("MB", MBRData),
+	makeResourceRecord("MG", MGRData),
+	makeResourceRecord("MR", MRRData),
+	makeResourceRecord("NULL", NULLRData),
+	makeResourceRecord("WKS", WKSRData),
+	makeResourceRecord("PTR", PTRRData),
+	makeResourceRecord("HINFO", HINFORData),
+	makeResourceRecord("MINFO", MINFORData),
+	makeResourceRecord("MX", MXRData),
+	makeResourceRecord("TXT", TXTRData),
+	makeResourceRecord("AAAA", AAAARData),
+	makeResourceRecord("SRV", SRVRData),
+	makeResourceRecord("DS", DSRData),
+	makeResourceRecord("RRSIG", RRSIGRData),
+	makeResourceRecord("NSEC", NSECRData),
+	makeResourceRecord("DNSKEY", DNSKEYRData),
+	makeResourceRecord("NSEC3", NSEC3RData),
+	makeResourceRecord("NSEC3PARAM", NSEC3PARAMRData),
+	makeUnknownResourceRecord(),
+).annotations({
+	identifier: "ResourceRecord",
+	description:
+		"A resource record whose RDATA is decoded according to its TYPE",
 });
 
 export type ResourceRecord = typeof ResourceRecord.Type;
 export type EncodedResourceRecord = typeof ResourceRecord.Encoded;
 
+/**
+ * The resource record variant for a single TYPE, e.g.
+ * `ResourceRecordOf<"MX">["rdata"]["exchange"]`.
+ */
+export type ResourceRecordOf<Type extends ResourceRecordTypeName> = Extract<
+	ResourceRecord,
+	{ readonly type: Type }
+>;
+
+/**
+ * 3. Transparency
+ *
+ * A resource record of an unknown TYPE, whose RDATA is kept as the
+ * opaque octets it was received as.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc3597.html#section-3
+ */
+export type UnknownResourceRecord = Extract<
+	ResourceRecord,
+	{ readonly type: typeof UnknownResourceRecordType.Type }
+>;
+
+/**
+ * Builds the resource record variant for `type`, whose RDATA is described by
+ * `rdata`. The TYPE field is the discriminant of the `ResourceRecord` union.
+ */
+function makeResourceRecord<
+	Type extends ResourceRecordTypeName,
+	RData extends Schema.Schema.Any,
+>(type: Type, rdata: RData) {
+	return Schema.Struct({
+		name: Name,
+		type: Schema.transformLiteral(RRTypeNameToRRType[type], type),
+		class: ResourceRecordClass,
+		ttl: Uint31,
+		rdlength: Uint16,
+		rdata,
+	}).annotations({ identifier: `${type}ResourceRecord` });
+}
+
+function makeUnknownResourceRecord() {
+	return Schema.Struct({
+		name: Name,
+		type: UnknownResourceRecordType,
+		class: ResourceRecordClass,
+		ttl: Uint31,
+		rdlength: Uint16,
+		rdata: UnknownRData,
+	}).annotations({ identifier: "UnknownResourceRecord" });
+}
+
 const ResourceRecordWithEncodedByteLengthFromDnsPacketCursor =
 	Schema.transformOrFail(
 		DnsPacketCursor.schema,
@@ -459,28 +813,33 @@ const ResourceRecordWithEncodedByteLengthFromDnsPacketCursor =
 						);
 					}
 
-					const rdata: Uint8Array = uint8Array.subarray(
-						offset,
-						offset + rdlength,
-					);
-
-					if (rdata.byteLength !== rdlength) {
+					if (type === RRTypeNameToRRType.AAAA && rdlength !== 16) {
 						return yield* ParseResult.fail(
 							new ParseResult.Type(
 								ast,
 								uint8Array,
-								`RDATA length did not match RDLENGTH. Expected '${rdlength}, received '${rdata.byteLength}'`,
+								"When a ResourceRecord's TYPE is 28, or an AAAA Record, the RDLENGTH must be " +
+									"16 bytes, representative of an IPv6 address",
 							),
 						);
 					}
 
-					const resourceRecord = {
-						name,
+					const typedRData = yield* decodeRDataFromDnsPacketCursor(
+						DnsPacketCursor.fromUint8Array(
+							cursor.uint8Array,
+							cursor.offset + offset,
+						),
 						type,
+						rdlength,
+						ast,
+					);
+
+					const resourceRecord: EncodedResourceRecord = {
+						...typedRData,
+						name,
 						class: resourceClass,
 						ttl,
 						rdlength,
-						rdata,
 					};
 
 					return {
@@ -514,19 +873,46 @@ export const decodeResourceRecordFromDnsPacketCursor = Schema.decode(
 	ResourceRecordWithEncodedByteLengthFromDnsPacketCursor,
 );
 
-// RR types with domain names that may be compressed:
-// - CNAME - Contains a domain name (CNAME field)
-// - MB - Contains a domain name (MADNAME field)
-// - MD (Obsolete) - Contains a domain name (MADNAME field)
-// - MF (Obsolete) - Contains a domain name (MADNAME field)
-// - MG - Contains a domain name (MGMNAME field)
-// - MINFO - Contains two domain names (RMAILBX and EMAILBX fields)
-// - MR - Contains a domain name (NEWNAME field)
-// - MX - Contains a domain name (EXCHANGE field)
-// - NS - Contains a domain name (NSDNAME field)
-// - PTR - Contains a domain name (PTRDNAME field)
-// - SOA - Contains two domain names (MNAME and RNAME fields)
-
-// function decodeCNameRData(rdata: Uint8Array) {
-//
-// }
+/**
+ * Writes `resourceRecord` in wire format. RDLENGTH is taken from the length
+ * of the RDATA being written rather than trusted from the record, since
+ * compressing names within the RDATA can shorten it.
+ */
+export function encodeResourceRecordToDnsPacketWriter(
+	writer: DnsPacketWriter,
+	resourceRecord: EncodedResourceRecord,
+	ast: SchemaAST.AST,
+): Effect.Effect<void, ParseResult.ParseIssue> {
+	return Effect.gen(function* () {
+		yield* encodeNameToDnsPacketWriter(writer, resourceRecord.name, ast);
+
+		// 2 bytes type, 2 bytes class, 4 bytes ttl, 2 bytes rdlength
+		const out = new Uint8Array(10);
+		const dataView = new DataView(out.buffer);
+
+		yield* setUint16(dataView, 0, resourceRecord.type, ast);
+		yield* setUint16(dataView, 2, resourceRecord.class, ast);
+		yield* setUint32(dataView, 4, resourceRecord.ttl, ast);
+
+		DnsPacketWriter.write(writer, out);
+
+		const rdataOffset = writer.offset;
+
+		yield* encodeRDataToDnsPacketWriter(writer, resourceRecord, ast);
+
+		const rdlength = writer.offset - rdataOffset;
+
+		if (rdlength > 65_535) {
+			return yield* ParseResult.fail(
+				new ParseResult.Type(
+					ast,
+					resourceRecord,
+					`RDATA must be 65535 bytes or less, received ${rdlength}`,
+				),
+			);
+		}
+
+		// RDLENGTH is only known once the RDATA has been written
+		yield* setUint16(dataView, 8, rdlength, ast);
+	});
+}
@@ -0,0 +1,1062 @@
+import * as Dgram from "node:dgram";
+import * as Net from "node:net";
+import {
+	Data,
+	Effect,
+	FiberMap,
+	FiberSet,
+	Option,
+	Schema,
+	Scope,
+	Stream,
+} from "effect";
+import type { Opt } from "./edns";
+import { OpcodeNameToOpcode, type Header } from "./header";
+import { MessageFromUint8Array, type Message } from "./message";
+import { isInverseQuery } from "./inverse-query";
+import { isSubdomain, nameEquals, type Name } from "./name";
+import { answerNotify } from "./notify";
+import {
+	QClassNameToQClass,
+	QTypeNameToQType,
+	type Question,
+} from "./question";
+import { rdataEquals } from "./rdata";
+import {
+	getRRClass,
+	getRRType,
+	RRTypeNameToRRType,
+	type ResourceRecord,
+	type ResourceRecordOf,
+} from "./resource-record";
+import { splitTcpFrames, Uint8ArrayFromTcpFrame } from "./tcp";
+import {
+	applyUpdate,
+	makeUpdateResponse,
+	UpdateMessageFromUint8Array,
+	type UpdateMessage,
+} from "./update";
+import { serialGreaterThan } from "./utils";
+
+/**
+ * The authoritative data of a zone: every RR from the top node of the
+ * zone at `origin` down to the leaves or the delegations to other zones,
+ * including any glue.
+ */
+export interface Zone {
+	readonly origin: Name;
+	readonly records: ReadonlyArray<ResourceRecord>;
+}
+
+export class DnsServerError extends Data.TaggedError("DnsServerError")<{
+	readonly message: string;
+	readonly cause?: unknown;
+}> {}
+
+/**
+ * A name server independent of any transport. Transports hand it the raw
+ * bytes of each request and send back the bytes it returns, if any.
+ */
+export interface NameServer {
+	/**
+	 * Answers the request, or returns none when it should be dropped.
+	 * Responses longer than `maxByteLength` are truncated and have the TC
+	 * bit set. An EDNS(0) request raises the limit to the UDP payload size
+	 * it advertises, up to the one advertised by the server.
+	 */
+	readonly handle: (
+		request: Uint8Array,
+		options?: { readonly maxByteLength?: number },
+	) => Effect.Effect<Option.Option<Uint8Array>>;
+	/**
+	 * Answers a request received over a stream transport such as TCP, where
+	 * zone transfers are answered with a sequence of messages.
+	 */
+	readonly handleStream: (request: Uint8Array) => Stream.Stream<Uint8Array>;
+}
+
+export interface AnswerOptions {
+	/**
+	 * Answers inverse queries, which RFC 3425 made obsolete. Defaults to
+	 * false, when they are not implemented.
+	 */
+	readonly inverseQueries?: boolean;
+	/**
+	 * Applies dynamic updates to the zones held in memory. Defaults to
+	 * false, when UPDATE requests are not implemented.
+	 */
+	readonly dynamicUpdates?: boolean;
+}
+
+/**
+ * Makes a name server answering queries from the authoritative data of
+ * `zones`, which dynamic updates replace as they are applied. NOTIFY
+ * requests are not implemented.
+ */
+export const makeAuthoritativeNameServer = (
+	zones: ReadonlyArray<Zone>,
+	options?: AnswerOptions,
+): NameServer => makeNameServer({ zones }, options);
+
+/**
+ * Makes a name server like `makeAuthoritativeNameServer`, which also
+ * refreshes the zones that NOTIFY requests announce a change to. `refresh`
+ * is given the SERIAL of the SOA RR the request hinted at, if any, and the
+ * zone it resolves to replaces the one answered from unless its SERIAL is
+ * not greater.
+ *
+ * At most one refresh of each zone runs at a time, in the background of
+ * the responses, and refreshes still running are interrupted when the
+ * scope is closed.
+ */
+export const makeSecondaryNameServer = (
+	zones: ReadonlyArray<Zone>,
+	refresh: (zone: Zone, serial: number | undefined) => Effect.Effect<Zone>,
+	options?: AnswerOptions,
+): Effect.Effect<NameServer, never, Scope.Scope> =>
+	Effect.gen(function* () {
+		const state = { zones };
+		const refreshing = yield* FiberMap.make<string>();
+
+		const replace = (refreshed: Zone) =>
+			Effect.sync(() => {
+				state.zones = state.zones.map((zone) => {
+					const [soa] = findSoa(zone);
+					const [refreshedSoa] = findSoa(refreshed);
+
+					return nameEquals(zone.origin, refreshed.origin) &&
+						(soa?.type !== "SOA" ||
+							(refreshedSoa?.type === "SOA" &&
+								serialGreaterThan(refreshedSoa.rdata.serial, soa.rdata.serial)))
+						? refreshed
+						: zone;
+				});
+			});
+
+		return makeNameServer(state, options, (query) => {
+			const result = answerNotify(state.zones, query);
+
+			if (result.refresh === undefined) {
+				return Effect.succeed(result.response);
+			}
+
+			const { zone, serial } = result.refresh;
+			const key = zone.origin.labels.join(".").toLowerCase();
+
+			return FiberMap.run(
+				refreshing,
+				key,
+				Effect.flatMap(refresh(zone, serial), replace),
+				{ onlyIfMissing: true },
+			).pipe(Effect.as(result.response));
+		});
+	});
+
+/**
+ * A name server answering from `state.zones`, which dynamic updates
+ * replace, and answering NOTIFY requests with `notify` if given.
+ */
+function makeNameServer(
+	state: { zones: ReadonlyArray<Zone> },
+	options?: AnswerOptions,
+	notify?: (query: Message) => Effect.Effect<Message>,
+): NameServer {
+	const update = (request: UpdateMessage) => {
+		if (options?.dynamicUpdates !== true) {
+			return makeUpdateResponse(request, "NOTIMP");
+		}
+
+		const result = applyUpdate(state.zones, request);
+		state.zones = result.zones;
+
+		return result.response;
+	};
+
+	const answer = (query: Message) =>
+		query.header.opcode === "NOTIFY" && notify !== undefined
+			? Effect.map(notify(query), (response) => [response])
+			: Effect.succeed([answerQuery(state.zones, query, options)]);
+
+	return {
+		handle(request, handleOptions) {
+			return Stream.runHead(
+				isUpdate(request)
+					? respondToUpdate(request, update)
+					: respond(request, answer, handleOptions?.maxByteLength),
+			);
+		},
+		handleStream(request) {
+			if (isUpdate(request)) {
+				return respondToUpdate(request, update);
+			}
+
+			return respond(request, (query) =>
+				isZoneTransfer(query)
+					? Effect.succeed(answerZoneTransfer(state.zones, query))
+					: answer(query),
+			);
+		},
+	};
+}
+
+/**
+ * 4.3.2. Algorithm
+ *
+ * The actual algorithm used by the name server will depend on the local OS
+ * and data structures used to store RRs. The following algorithm assumes
+ * that the RRs are organized in several tree structures, one for each
+ * zone, and another for the cache:
+ *
+ *    1. Set or clear the value of recursion available in the response
+ *       depending on whether the name server is willing to provide
+ *       recursive service.
+ *
+ *    2. Search the available zones for the zone which is the nearest
+ *       ancestor to QNAME. If such a zone is found, go to step 3,
+ *       otherwise step 4.
+ *
+ *    3. Start matching down, label by label, in the zone. The matching
+ *       process can terminate several ways:
+ *
+ *       a. If the whole of QNAME is matched, we have found the node.
+ *
+ *          If the data at the node is a CNAME, and QTYPE doesn't match
+ *          CNAME, copy the CNAME RR into the answer section of the
+ *          response, change QNAME to the canonical name in the CNAME RR,
+ *          and go back to step 1.
+ *
+ *          Otherwise, copy all RRs which match QTYPE into the answer
+ *          section and go to step 6.
+ *
+ *       b. If a match would take us out of the authoritative data, we have
+ *          a referral. This happens when we encounter a node with NS RRs
+ *          marking cuts along the bottom of a zone.
+ *
+ *          Copy the NS RRs for the subzone into the authority section of
+ *          the reply. Put whatever addresses are available into the
+ *          additional section, using glue RRs if the addresses are not
+ *          available from authoritative data or the cache. Go to step 4.
+ *
+ *       c. If at some label, a match is impossible (i.e., the corresponding
+ *          label does not exist), look to see if a the "*" label exists.
+ *
+ *          If the "*" label does not exist, check whether the name we are
+ *          looking for is the original QNAME in the query or a name we
+ *          have followed due to a CNAME. If the name is original, set an
+ *          authoritative name error in the response and exit. Otherwise
+ *          just exit.
+ *
+ *          If the "*" label does exist, match RRs at that node against
+ *          QTYPE. If any match, copy them into the answer section, but set
+ *          the owner of the RR to be QNAME, and not the node with the "*"
+ *          label. Go to step 6.
+ *
+ *    6. Using local data only, attempt to add other RRs which may be
+ *       useful to the additional section of the query. Exit.
+ *
+ * There is no cache and no recursion, so steps 4 and 5 never apply and
+ * queries for names outside of every zone are refused. As clarified by
+ * RFC 4592, the "*" label is only looked for at the closest encloser of a
+ * QNAME that does not exist, and a CNAME synthesized from a wildcard is
+ * followed like any other. As recommended by RFC 2308, negative responses
+ * carry the SOA of the zone in the authority section. EDNS(0) queries of a
+ * later version are answered with BADVERS.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-4.3.2
+ * @see https://www.rfc-editor.org/rfc/rfc4592.html#section-3.3.1
+ * @see https://www.rfc-editor.org/rfc/rfc2308.html#section-3
+ * @see https://www.rfc-editor.org/rfc/rfc6891.html#section-6.1.3
+ */
+export function answerQuery(
+	zones: ReadonlyArray<Zone>,
+	query: Message,
+	options?: AnswerOptions,
+): Message {
+	const [question] = query.question;
+
+	// RFC 6891 6.1.3
+	if (query.opt !== undefined && query.opt.version > EDNS_VERSION) {
+		return makeResponse(query, { rcode: "BADVERS" });
+	}
+
+	if (query.header.opcode === "IQUERY" && options?.inverseQueries === true) {
+		return answerInverseQuery(zones, query);
+	}
+
+	if (query.header.opcode !== "QUERY") {
+		return makeResponse(query, { rcode: "NOTIMP" });
+	}
+
+	if (question === undefined || query.question.length !== 1) {
+		return makeResponse(query, { rcode: "FORMERR" });
+	}
+
+	// Zone transfers are only answered over stream transports
+	if (question.qtype === QTypeNameToQType.AXFR) {
+		return makeResponse(query, { rcode: "NOTIMP" });
+	}
+
+	const answer: Array<ResourceRecord> = [];
+	const authority: Array<ResourceRecord> = [];
+	const followed: Array<Name> = [];
+
+	let qname = question.qname;
+	let aa: Header["aa"] = 0;
+	let rcode: Message["header"]["rcode"] = "NOERROR";
+
+	while (true) {
+		const isOriginalQName = followed.length === 0;
+		const zone = findNearestZone(zones, qname);
+
+		if (zone === undefined) {
+			if (isOriginalQName) {
+				rcode = "REFUSED";
+			}
+			break;
+		}
+
+		const referral = findDelegation(zone, qname, question);
+
+		if (referral.length > 0) {
+			authority.push(...referral);
+			break;
+		}
+
+		// The rest of the response comes from the authoritative data
+		if (isOriginalQName) {
+			aa = 1;
+		}
+
+		const nameExists = zone.records.some((record) =>
+			isSubdomain(record.name, qname),
+		);
+
+		const node = nameExists
+			? zone.records.filter(
+					(record) =>
+						nameEquals(record.name, qname) &&
+						classMatches(question.qclass, record),
+				)
+			: findWildcardNode(zone, qname, question);
+
+		if (node.length === 0) {
+			if (!nameExists && isOriginalQName) {
+				rcode = "NXDOMAIN";
+				authority.push(...findSoa(zone));
+			}
+
+			if (nameExists) {
+				authority.push(...findSoa(zone));
+			}
+			break;
+		}
+
+		const cname = node.find(
+			(record): record is ResourceRecordOf<"CNAME"> => record.type === "CNAME",
+		);
+
+		if (
+			cname !== undefined &&
+			question.qtype !== RRTypeNameToRRType.CNAME &&
+			question.qtype !== QTypeNameToQType.ANY
+		) {
+			answer.push(cname);
+			followed.push(qname);
+			qname = cname.rdata.cname;
+
+			// Stop following CNAME loops
+			if (followed.some((name) => nameEquals(name, qname))) {
+				break;
+			}
+			continue;
+		}
+
+		const matching = node.filter((record) =>
+			typeMatches(question.qtype, record),
+		);
+
+		if (matching.length === 0) {
+			authority.push(...findSoa(zone));
+		}
+
+		answer.push(...matching);
+		break;
+	}
+
+	return makeResponse(query, {
+		aa,
+		rcode,
+		answer,
+		authority,
+		additional: findAdditionalRecords(zones, [...answer, ...authority]),
+	});
+}
+
+/**
+ * Answers queries sent to a UDP socket bound to `address` and `port` until
+ * the scope is closed. Responses are limited to 512 bytes, or to the UDP
+ * payload size of EDNS(0) queries up to 1232 bytes. Queries are answered in
+ * fibers of the scope, which are interrupted when it is closed.
+ */
+export const serveUdp = (
+	server: NameServer,
+	options: { readonly address?: string; readonly port?: number } = {},
+): Effect.Effect<{ readonly port: number }, DnsServerError, Scope.Scope> =>
+	Effect.gen(function* () {
+		const address = options.address ?? "127.0.0.1";
+
+		const socket = yield* Effect.acquireRelease(
+			Effect.async<Dgram.Socket, DnsServerError>((resume) => {
+				const socket = Dgram.createSocket(
+					Net.isIPv6(address) ? "udp6" : "udp4",
+				);
+
+				socket.once("error", (cause) =>
+					resume(
+						Effect.fail(new DnsServerError({ message: cause.message, cause })),
+					),
+				);
+				socket.bind(options.port ?? 53, address, () =>
+					resume(Effect.succeed(socket)),
+				);
+			}),
+			(socket) =>
+				Effect.async<void>((resume) => {
+					socket.close(() => resume(Effect.void));
+				}),
+		);
+
+		// Acquired after the socket, so queries are interrupted before it closes
+		const run = yield* FiberSet.makeRuntime();
+
+		socket.on("message", (request, remote) => {
+			run(
+				server
+					.handle(new Uint8Array(request), {
+						maxByteLength: MAX_UDP_BYTE_LENGTH,
+					})
+					.pipe(
+						Effect.tap(
+							Option.match({
+								onNone: () => Effect.void,
+								onSome: (response) =>
+									Effect.sync(() =>
+										socket.send(response, remote.port, remote.address),
+									),
+							}),
+						),
+					),
+			);
+		});
+
+		return { port: socket.address().port };
+	});
+
+/**
+ * 6.4.2. Inverse query and response example
+ *
+ * The overall structure of an inverse query for retrieving the domain name
+ * that corresponds to Internet address 10.1.0.52 is shown below:
+ *
+ *                  +-----------------------------------------+
+ *    Header        |          OPCODE=IQUERY, ID=997          |
+ *                  +-----------------------------------------+
+ *   Question       |                 <empty>                 |
+ *                  +-----------------------------------------+
+ *    Answer        |        <anyname> A IN 10.1.0.52         |
+ *                  +-----------------------------------------+
+ *
+ * This query asks for a question whose answer is the Internet style
+ * address 10.1.0.52. Since the owner name is not known, any domain name
+ * can be used as a placeholder (and is ignored). The response to this
+ * query is:
+ *
+ *                  +-----------------------------------------+
+ *    Header        |         OPCODE=RESPONSE, ID=997         |
+ *                  +-----------------------------------------+
+ *   Question       |QTYPE=A, QCLASS=IN, QNAME=VENERA.ISI.EDU |
+ *                  +-----------------------------------------+
+ *    Answer        |  VENERA.ISI.EDU  A IN 10.1.0.52         |
+ *                  +-----------------------------------------+
+ *
+ * Every RR of `zones` with the TYPE, CLASS and RDATA of the query RR is
+ * answered, with a question for each of their names. Malformed inverse
+ * queries get a format error.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-6.4.2
+ */
+export function answerInverseQuery(
+	zones: ReadonlyArray<Zone>,
+	query: Message,
+): Message {
+	const [record] = query.answer;
+
+	if (!isInverseQuery(query) || record === undefined) {
+		return makeResponse(query, { rcode: "FORMERR" });
+	}
+
+	const answer = zones.flatMap((zone) =>
+		zone.records.filter(
+			(candidate) =>
+				candidate.type === record.type &&
+				candidate.class === record.class &&
+				rdataEquals(candidate.rdata, record.rdata),
+		),
+	);
+	const response = makeResponse(query, { aa: 1, answer });
+	const question = answer.map((record): Question => ({
+		qname: record.name,
+		qtype: getRRType(record.type),
+		qclass: getRRClass(record.class),
+	}));
+
+	return {
+		...response,
+		header: { ...response.header, qdcount: question.length },
+		question,
+	};
+}
+
+/**
+ * 2.2. AXFR Response
+ *
+ * The AXFR response will consist of one or more messages. The first
+ * message MUST begin with the SOA resource record of the zone, and the
+ * last message MUST conclude with the same SOA resource record.
+ * Intermediate messages MUST NOT contain the SOA resource record. The AXFR
+ * server MUST copy the Question section from the corresponding AXFR query
+ * message into the first response message's Question section. For
+ * subsequent messages, it MAY do the same or leave the Question section
+ * empty.
+ *
+ * Transfers of zones that are not served are refused.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc5936.html#section-2.2
+ */
+export function answerZoneTransfer(
+	zones: ReadonlyArray<Zone>,
+	query: Message,
+): ReadonlyArray<Message> {
+	const [question] = query.question;
+	const zone =
+		question === undefined
+			? undefined
+			: zones.find((zone) => nameEquals(zone.origin, question.qname));
+	const [soa] = zone === undefined ? [] : findSoa(zone);
+
+	if (question === undefined || zone === undefined || soa === undefined) {
+		return [makeResponse(query, { rcode: "REFUSED" })];
+	}
+
+	const records = [
+		soa,
+		...zone.records.filter(
+			(record) => record !== soa && classMatches(question.qclass, record),
+		),
+		soa,
+	];
+	let answer: Array<ResourceRecord> = [];
+	const messages = [answer];
+
+	let byteLength =
+		HEADER_BYTE_LENGTH +
+		question.qname.encodedByteLength +
+		QUESTION_FIXED_BYTE_LENGTH;
+
+	for (const record of records) {
+		// Compression only makes the encoded record shorter
+		const recordByteLength =
+			record.name.encodedByteLength + RR_FIXED_BYTE_LENGTH + record.rdlength;
+
+		if (byteLength + recordByteLength > MAX_TRANSFER_MESSAGE_BYTE_LENGTH) {
+			answer = [];
+			messages.push(answer);
+			byteLength = HEADER_BYTE_LENGTH;
+		}
+
+		answer.push(record);
+		byteLength += recordByteLength;
+	}
+
+	return messages.map((answer, idx) => {
+		const response = makeResponse(query, { aa: 1, answer });
+
+		return idx === 0
+			? response
+			: {
+					...response,
+					header: { ...response.header, qdcount: 0 },
+					question: [],
+				};
+	});
+}
+
+/**
+ * Answers requests sent over TCP connections to `address` and `port` until
+ * the scope is closed, when open connections are destroyed. Connections are
+ * served in fibers of the scope, which are interrupted when it is closed.
+ */
+export const serveTcp = (
+	server: NameServer,
+	options: { readonly address?: string; readonly port?: number } = {},
+): Effect.Effect<{ readonly port: number }, DnsServerError, Scope.Scope> =>
+	Effect.gen(function* () {
+		const connections = new Set<Net.Socket>();
+		const run = yield* FiberSet.makeRuntime();
+
+		const listener = yield* Effect.acquireRelease(
+			Effect.async<Net.Server, DnsServerError>((resume) => {
+				const listener = Net.createServer((connection) => {
+					connections.add(connection);
+					connection.once("close", () => connections.delete(connection));
+
+					run(serveConnection(server, connection));
+				});
+
+				listener.once("error", (cause) =>
+					resume(
+						Effect.fail(new DnsServerError({ message: cause.message, cause })),
+					),
+				);
+				listener.listen(
+					options.port ?? 53,
+					options.address ?? "127.0.0.1",
+					() => resume(Effect.succeed(listener)),
+				);
+			}),
+			(listener) =>
+				Effect.async<void>((resume) => {
+					listener.close(() => resume(Effect.void));
+
+					for (const connection of connections) {
+						connection.destroy();
+					}
+				}),
+		);
+
+		return { port: (listener.address() as Net.AddressInfo).port };
+	});
+
+/**
+ * 4.2.2. TCP usage
+ *
+ * Answers every length prefixed request of the connection in turn, and
+ * ends it when the client does. Connections sending malformed frames are
+ * destroyed.
+ */
+function serveConnection(server: NameServer, connection: Net.Socket) {
+	return Stream.async<Uint8Array>((emit) => {
+		connection.on("data", (buffer: Buffer) =>
+			emit.single(new Uint8Array(buffer)),
+		);
+		connection.on("end", () => emit.end());
+		connection.on("error", () => emit.end());
+	}).pipe(
+		splitTcpFrames,
+		Stream.mapEffect(Schema.decode(Uint8ArrayFromTcpFrame)),
+		Stream.flatMap((request) => server.handleStream(request)),
+		Stream.mapEffect(Schema.encode(Uint8ArrayFromTcpFrame)),
+		Stream.runForEach((frame) =>
+			Effect.async<void>((resume) => {
+				connection.write(frame, () => resume(Effect.void));
+			}),
+		),
+		Effect.match({
+			onFailure: () => connection.destroy(),
+			onSuccess: () => connection.end(),
+		}),
+	);
+}
+
+const HEADER_BYTE_LENGTH = 12;
+const QUESTION_FIXED_BYTE_LENGTH = 4;
+const RR_FIXED_BYTE_LENGTH = 10;
+const MAX_UDP_BYTE_LENGTH = 512;
+const EDNS_VERSION = 0;
+// The UDP payload size recommended to avoid IP fragmentation
+const EDNS_UDP_PAYLOAD_SIZE = 1232;
+const MAX_TRANSFER_MESSAGE_BYTE_LENGTH = 16384;
+
+/**
+ * Encodes the responses `answer` gives to the request, a format error when
+ * the request can not be decoded, or nothing when it should be dropped.
+ */
+function respond(
+	request: Uint8Array,
+	answer: (query: Message) => Effect.Effect<ReadonlyArray<Message>>,
+	maxByteLength?: number,
+): Stream.Stream<Uint8Array> {
+	// Too short to even hold the ID a response would be matched by
+	if (request.byteLength < HEADER_BYTE_LENGTH) {
+		return Stream.empty;
+	}
+
+	return Stream.unwrap(
+		Effect.gen(function* () {
+			const query = yield* Effect.option(
+				Schema.decode(MessageFromUint8Array)(request),
+			);
+
+			if (Option.isNone(query)) {
+				return Stream.make(makeFormatErrorResponse(request));
+			}
+
+			// Responses are never answered
+			if (query.value.header.qr === 1) {
+				return Stream.empty;
+			}
+
+			const opt = query.value.opt;
+
+			// RFC 6891 6.2.5
+			const limit =
+				maxByteLength === undefined || opt === undefined
+					? maxByteLength
+					: Math.max(
+							maxByteLength,
+							Math.min(opt.udpPayloadSize, EDNS_UDP_PAYLOAD_SIZE),
+						);
+
+			return Stream.fromIterable(yield* answer(query.value)).pipe(
+				Stream.mapEffect((response) => encodeResponse(response, limit)),
+			);
+		}),
+	);
+}
+
+/**
+ * Encodes the response `update` gives to the UPDATE request, a format
+ * error when the request can not be decoded, or nothing when it should be
+ * dropped.
+ */
+function respondToUpdate(
+	request: Uint8Array,
+	update: (request: UpdateMessage) => UpdateMessage,
+): Stream.Stream<Uint8Array> {
+	return Stream.fromEffect(
+		Effect.gen(function* () {
+			const decoded = yield* Effect.option(
+				Schema.decode(UpdateMessageFromUint8Array)(request),
+			);
+
+			if (Option.isNone(decoded)) {
+				return Option.some(makeFormatErrorResponse(request));
+			}
+
+			// Responses are never answered
+			if (decoded.value.header.qr === 1) {
+				return Option.none();
+			}
+
+			return Option.some(
+				yield* Schema.encode(UpdateMessageFromUint8Array)(
+					update(decoded.value),
+				).pipe(Effect.orDie),
+			);
+		}),
+	).pipe(Stream.filterMap((response) => response));
+}
+
+function isUpdate(request: Uint8Array) {
+	return (
+		request.byteLength >= HEADER_BYTE_LENGTH &&
+		(((request[2] ?? 0) >> 3) & 0x0f) === OpcodeNameToOpcode.UPDATE
+	);
+}
+
+function isZoneTransfer(query: Message) {
+	return (
+		query.header.opcode === "QUERY" &&
+		query.question.length === 1 &&
+		query.question[0]?.qtype === QTypeNameToQType.AXFR
+	);
+}
+
+function makeResponse(
+	query: Message,
+	response: Partial<
+		Pick<Message["header"], "aa" | "tc" | "rcode"> &
+			Pick<Message, "answer" | "authority" | "additional">
+	>,
+): Message {
+	const answer = response.answer ?? [];
+	const authority = response.authority ?? [];
+	const additional = response.additional ?? [];
+
+	return {
+		header: {
+			id: query.header.id,
+			qr: 1,
+			opcode: query.header.opcode,
+			aa: response.aa ?? 0,
+			tc: response.tc ?? 0,
+			rd: query.header.rd,
+			ra: 0,
+			z: 0,
+			rcode: response.rcode ?? "NOERROR",
+			qdcount: query.question.length,
+			ancount: answer.length,
+			nscount: authority.length,
+			arcount: additional.length,
+		},
+		question: query.question,
+		answer,
+		authority,
+		additional,
+		...(query.opt === undefined ? {} : { opt: makeResponseOpt(query.opt) }),
+	};
+}
+
+/**
+ * 7. Transport Considerations
+ *
+ * The presence of an OPT pseudo-RR in a request should be taken as an
+ * indication that the requestor fully implements the given version of
+ * EDNS and can correctly understand any response that conforms to that
+ * feature's specification.
+ *
+ * The DO bit of the query is copied into the response.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc6891.html#section-7
+ * @see https://www.rfc-editor.org/rfc/rfc3225.html#section-3
+ */
+function makeResponseOpt(opt: Opt): Opt {
+	return {
+		udpPayloadSize: EDNS_UDP_PAYLOAD_SIZE,
+		version: EDNS_VERSION,
+		dnssecOk: opt.dnssecOk,
+		options: [],
+	};
+}
+
+/**
+ * Encodes the response, falling back to the header and question with the
+ * TC bit set when it is longer than `maxByteLength`, or to a server failure
+ * when it can not be encoded at all.
+ */
+function encodeResponse(
+	response: Message,
+	maxByteLength: number | undefined,
+): Effect.Effect<Uint8Array> {
+	const encode = Schema.encode(MessageFromUint8Array);
+
+	return encode(response).pipe(
+		Effect.flatMap((uint8Array) =>
+			maxByteLength === undefined || uint8Array.byteLength <= maxByteLength
+				? Effect.succeed(uint8Array)
+				: encode({
+						...response,
+						header: { ...response.header, tc: 1 },
+						answer: [],
+						authority: [],
+						additional: [],
+					}),
+		),
+		Effect.orElse(() =>
+			encode({
+				...response,
+				header: { ...response.header, rcode: "SERVFAIL" },
+				answer: [],
+				authority: [],
+				additional: [],
+			}),
+		),
+		Effect.orDie,
+	);
+}
+
+/**
+ * A format error response to a request that could not be decoded, echoing
+ * its ID, opcode and RD bit.
+ */
+function makeFormatErrorResponse(request: Uint8Array) {
+	const response = new Uint8Array(HEADER_BYTE_LENGTH);
+
+	response.set(request.subarray(0, 2));
+	// QR, and the opcode and RD bit of the request
+	response[2] = 0x80 | ((request[2] ?? 0) & 0x79);
+	// RCODE 1, format error
+	response[3] = 0x01;
+
+	return response;
+}
+
+/**
+ * The zone with the longest origin that is an ancestor of `name`.
+ */
+function findNearestZone(zones: ReadonlyArray<Zone>, name: Name) {
+	let nearest: Zone | undefined = undefined;
+
+	for (const zone of zones) {
+		if (
+			isSubdomain(name, zone.origin) &&
+			(nearest === undefined ||
+				zone.origin.labels.length > nearest.origin.labels.length)
+		) {
+			nearest = zone;
+		}
+	}
+
+	return nearest;
+}
+
+/**
+ * The NS RRs of the highest cut between the top of `zone` and `name`, if
+ * matching down to `name` would leave the authoritative data.
+ */
+function findDelegation(zone: Zone, name: Name, question: Question) {
+	for (
+		let length = zone.origin.labels.length + 1;
+		length <= name.labels.length;
+		length++
+	) {
+		const cut = zone.records.filter(
+			(record) =>
+				record.type === "NS" &&
+				classMatches(question.qclass, record) &&
+				record.name.labels.length === length &&
+				isSubdomain(name, record.name),
+		);
+
+		if (cut.length > 0) {
+			return cut;
+		}
+	}
+
+	return [];
+}
+
+/**
+ * The RRs of the "*" label below the closest encloser of `name`, owned by
+ * `name` instead. The closest encloser is the nearest ancestor of `name`
+ * that exists in `zone`.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc4592.html#section-3.3.1
+ */
+function findWildcardNode(
+	zone: Zone,
+	name: Name,
+	question: Question,
+): Array<ResourceRecord> {
+	for (
+		let length = name.labels.length - 1;
+		length >= zone.origin.labels.length;
+		length--
+	) {
+		const labels = name.labels.slice(name.labels.length - length);
+		const encloser: Name = {
+			labels,
+			encodedByteLength: labels.reduce(
+				(sum, label) => sum + label.length + 1,
+				1,
+			),
+		};
+
+		if (!zone.records.some((record) => isSubdomain(record.name, encloser))) {
+			continue;
+		}
+
+		const wildcard: Name = {
+			labels: ["*", ...encloser.labels],
+			encodedByteLength: encloser.encodedByteLength + 2,
+		};
+
+		return zone.records
+			.filter(
+				(record) =>
+					nameEquals(record.name, wildcard) &&
+					classMatches(question.qclass, record),
+			)
+			.map((record) => ({ ...record, name }));
+	}
+
+	return [];
+}
+
+function findSoa(zone: Zone) {
+	return zone.records.filter(
+		(record) => record.type === "SOA" && nameEquals(record.name, zone.origin),
+	);
+}
+
+/**
+ * Additional section processing: the A and AAAA RRs of the hosts named by
+ * NS, MX, MB, MD, MF and SRV RRs, glue included.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc3596.html#section-3
+ * @see https://www.rfc-editor.org/rfc/rfc2782.html
+ */
+function findAdditionalRecords(
+	zones: ReadonlyArray<Zone>,
+	records: ReadonlyArray<ResourceRecord>,
+) {
+	const additional: Array<ResourceRecord> = [];
+
+	for (const record of records) {
+		const host = getAdditionalSectionName(record);
+
+		if (host === undefined) {
+			continue;
+		}
+
+		for (const zone of zones) {
+			for (const address of zone.records) {
+				if (
+					(address.type === "A" || address.type === "AAAA") &&
+					nameEquals(address.name, host) &&
+					!records.includes(address) &&
+					!additional.includes(address)
+				) {
+					additional.push(address);
+				}
+			}
+		}
+	}
+
+	return additional;
+}
+
+function getAdditionalSectionName(record: ResourceRecord): Name | undefined {
+	switch (record.type) {
+		case "NS": {
+			return record.rdata.nsdname;
+		}
+		case "MX": {
+			return record.rdata.exchange;
+		}
+		case "MB":
+		case "MD":
+		case "MF": {
+			return record.rdata.madname;
+		}
+		case "SRV": {
+			return record.rdata.target;
+		}
+	}
+
+	return undefined;
+}
+
+function typeMatches(qtype: Question["qtype"], record: ResourceRecord) {
+	switch (qtype) {
+		case QTypeNameToQType.ANY: {
+			return true;
+		}
+		case QTypeNameToQType.MAILB: {
+			return (
+				record.type === "MB" || record.type === "MG" || record.type === "MR"
+			);
+		}
+		case QTypeNameToQType.MAILA: {
+			return record.type === "MD" || record.type === "MF";
+		}
+	}
+
+	return getRRType(record.type) === qtype;
+}
+
+function classMatches(qclass: Question["qclass"], record: ResourceRecord) {
+	return (
+		qclass === QClassNameToQClass.ANY || getRRClass(record.class) === qclass
+	);
+}
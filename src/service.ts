@@ -0,0 +1,131 @@
+import { Effect, Random } from "effect";
+import {
+	decodeNameFromString,
+	encodeSyncNameToString,
+	type Name,
+} from "./name";
+import type { Question } from "./question";
+import {
+	RRClassNameToRRClass,
+	RRTypeNameToRRType,
+	type ResourceRecordOf,
+} from "./resource-record";
+
+/**
+ * The format of the SRV RR
+ *
+ * Here is the format of the SRV RR, whose DNS type code is 33:
+ *
+ *    _Service._Proto.Name TTL Class SRV Priority Weight Port Target
+ *
+ * Service
+ *     The symbolic name of the desired service, as defined in Assigned
+ *     Numbers [STD 2] or locally. An underscore (_) is prepended to the
+ *     service identifier to avoid collisions with DNS labels that occur in
+ *     nature.
+ *
+ * Proto
+ *     The symbolic name of the desired protocol, with an underscore (_)
+ *     prepended to prevent collisions with DNS labels that occur in
+ *     nature. _TCP and _UDP are at present the most useful values for this
+ *     field, though any name defined by Assigned Numbers or locally may be
+ *     used (as for Service).
+ *
+ * The underscores are prepended to `service` and `proto`, e.g. "ldap" and
+ * "tcp" under "example.com" make "_ldap._tcp.example.com".
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc2782.html
+ */
+export const makeServiceName = (service: string, proto: string, name: Name) => {
+	// Escaped dots stay within the label, where they are rejected
+	const escape = (label: string) => `_${label.replace(/[.\\]/g, "\\$&")}`;
+	const parent = name.labels.length === 0 ? "" : encodeSyncNameToString(name);
+
+	return decodeNameFromString(`${escape(service)}.${escape(proto)}.${parent}`);
+};
+
+/**
+ * The question for the SRV RRs of `service` over `proto` in the domain
+ * `name`.
+ */
+export const makeServiceQuestion = (
+	service: string,
+	proto: string,
+	name: Name,
+) =>
+	Effect.map(makeServiceName(service, proto, name), (qname): Question => ({
+		qname,
+		qtype: RRTypeNameToRRType.SRV,
+		qclass: RRClassNameToRRClass.IN,
+	}));
+
+/**
+ * Orders the SRV RRs of a service in the order their targets should be
+ * contacted, following the usage rules of RFC 2782:
+ *
+ *    Do a lookup for QNAME=_service._protocol.target, QCLASS=IN,
+ *    QTYPE=SRV.
+ *
+ *    If the reply is NOERROR, ANCOUNT>0 and there is at least one SRV RR
+ *    which specifies the requested Service and Protocol in the reply:
+ *
+ *       If there is precisely one SRV RR, and its Target is "." (the root
+ *       domain), abort.
+ *
+ *       Else, for all such RR's, build a list of (Priority, Weight, Target)
+ *       tuples
+ *
+ *       Sort the list by priority (lowest number first)
+ *
+ *       Create a new empty list
+ *
+ *       For each element in the old list, select an element at random from
+ *       the RRs with the lowest remaining priority, in proportion to their
+ *       weights, and append it to the new list.
+ *
+ * To select a target, the RRs are arranged with those of weight 0 first. A
+ * random number between 0 and the sum of the weights (inclusive) is chosen,
+ * and the first RR whose running sum of weights is greater than or equal to
+ * it is selected.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc2782.html
+ */
+export const orderServiceTargets = (
+	records: ReadonlyArray<ResourceRecordOf<"SRV">>,
+): Effect.Effect<Array<ResourceRecordOf<"SRV">>> =>
+	Effect.gen(function* () {
+		// The service is decidedly not available at this domain
+		if (records.length === 1 && records[0]?.rdata.target.labels.length === 0) {
+			return [];
+		}
+
+		const priorities = [
+			...new Set(records.map((record) => record.rdata.priority)),
+		].sort((a, b) => a - b);
+		const ordered: Array<ResourceRecordOf<"SRV">> = [];
+
+		for (const priority of priorities) {
+			// The sort is stable, so RRs of weight 0 keep their order
+			const remaining = records
+				.filter((record) => record.rdata.priority === priority)
+				.sort(
+					(a, b) => Number(a.rdata.weight !== 0) - Number(b.rdata.weight !== 0),
+				);
+
+			while (remaining.length > 0) {
+				const sum = remaining.reduce(
+					(weights, record) => weights + record.rdata.weight,
+					0,
+				);
+				const chosen = yield* Random.nextIntBetween(0, sum + 1);
+				let runningSum = 0;
+				const idx = remaining.findIndex(
+					(record) => (runningSum += record.rdata.weight) >= chosen,
+				);
+
+				ordered.push(...remaining.splice(idx, 1));
+			}
+		}
+
+		return ordered;
+	});
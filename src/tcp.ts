@@ -0,0 +1,189 @@
+import { Channel, Chunk, ParseResult, Schema, Stream } from "effect";
+import { MessageFromUint8Array, type Message } from "./message";
+
+/**
+ * 4.2.2. TCP usage
+ *
+ * Messages sent over TCP connections use server port 53 (decimal). The
+ * message is prefixed with a two byte length field which gives the message
+ * length, excluding the two byte length field. This length field allows
+ * the low-level processing to assemble a complete message before beginning
+ * to parse it.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1035.html#section-4.2.2
+ */
+export const Uint8ArrayFromTcpFrame = Schema.transformOrFail(
+	Schema.Uint8ArrayFromSelf,
+	Schema.Uint8ArrayFromSelf,
+	{
+		strict: true,
+		decode(frame, _, ast) {
+			if (frame.byteLength < TCP_LENGTH_BYTE_LENGTH) {
+				return ParseResult.fail(
+					new ParseResult.Type(
+						ast,
+						frame,
+						`TCP frame must be at least 2 bytes, received ${frame.byteLength}`,
+					),
+				);
+			}
+
+			const length = getFrameLength(frame);
+
+			if (frame.byteLength - TCP_LENGTH_BYTE_LENGTH !== length) {
+				return ParseResult.fail(
+					new ParseResult.Type(
+						ast,
+						frame,
+						`TCP frame length did not match its length field. Expected '${length}', received '${frame.byteLength - TCP_LENGTH_BYTE_LENGTH}'`,
+					),
+				);
+			}
+
+			return ParseResult.succeed(frame.slice(TCP_LENGTH_BYTE_LENGTH));
+		},
+		encode(uint8Array, _, ast) {
+			if (uint8Array.byteLength > MAX_TCP_MESSAGE_BYTE_LENGTH) {
+				return ParseResult.fail(
+					new ParseResult.Type(
+						ast,
+						uint8Array,
+						`TCP messages must be ${MAX_TCP_MESSAGE_BYTE_LENGTH} bytes or less, received ${uint8Array.byteLength}`,
+					),
+				);
+			}
+
+			const frame = new Uint8Array(
+				TCP_LENGTH_BYTE_LENGTH + uint8Array.byteLength,
+			);
+
+			new DataView(frame.buffer).setUint16(0, uint8Array.byteLength, false);
+			frame.set(uint8Array, TCP_LENGTH_BYTE_LENGTH);
+
+			return ParseResult.succeed(frame);
+		},
+	},
+).annotations({
+	identifier: "Uint8ArrayFromTcpFrame",
+	description: "A message prefixed with its two byte length",
+});
+
+export const MessageFromTcpFrame = Schema.compose(
+	Uint8ArrayFromTcpFrame,
+	MessageFromUint8Array,
+).annotations({
+	identifier: "MessageFromTcpFrame",
+	description: "A DNS Packet Message prefixed with its two byte length",
+});
+
+export const decodeMessageFromTcpFrame = Schema.decode(MessageFromTcpFrame);
+export const encodeMessageToTcpFrame = Schema.encode(MessageFromTcpFrame);
+
+/**
+ * Splits a byte stream, e.g. the data read from a TCP connection, into
+ * length prefixed frames. Frames may span any number of chunks and a chunk
+ * may hold any number of frames. Fails when the stream ends part way
+ * through a frame.
+ */
+export const splitTcpFrames = <E, R>(
+	stream: Stream.Stream<Uint8Array, E, R>,
+): Stream.Stream<Uint8Array, E | ParseResult.ParseError, R> =>
+	Stream.pipeThroughChannel(stream, splitTcpFramesChannel<E>(new Uint8Array()));
+
+/**
+ * Decodes every DNS message of a TCP byte stream.
+ */
+export const decodeMessagesFromTcpStream = <E, R>(
+	stream: Stream.Stream<Uint8Array, E, R>,
+): Stream.Stream<Message, E | ParseResult.ParseError, R> =>
+	splitTcpFrames(stream).pipe(Stream.mapEffect(decodeMessageFromTcpFrame));
+
+/**
+ * Encodes every message into a length prefixed frame, ready to be written
+ * to a TCP connection.
+ */
+export const encodeMessagesToTcpStream = <E, R>(
+	stream: Stream.Stream<Message, E, R>,
+): Stream.Stream<Uint8Array, E | ParseResult.ParseError, R> =>
+	stream.pipe(Stream.mapEffect(encodeMessageToTcpFrame));
+
+const TCP_LENGTH_BYTE_LENGTH = 2;
+const MAX_TCP_MESSAGE_BYTE_LENGTH = 65535;
+
+function splitTcpFramesChannel<E>(
+	buffer: Uint8Array,
+): Channel.Channel<
+	Chunk.Chunk<Uint8Array>,
+	Chunk.Chunk<Uint8Array>,
+	E | ParseResult.ParseError,
+	E,
+	unknown,
+	unknown
+> {
+	return Channel.readWithCause({
+		onInput(input: Chunk.Chunk<Uint8Array>) {
+			let remaining = concatUint8Arrays([buffer, ...input]);
+			const frames: Array<Uint8Array> = [];
+
+			while (remaining.byteLength >= TCP_LENGTH_BYTE_LENGTH) {
+				const frameLength = TCP_LENGTH_BYTE_LENGTH + getFrameLength(remaining);
+
+				if (remaining.byteLength < frameLength) {
+					break;
+				}
+
+				frames.push(remaining.slice(0, frameLength));
+				remaining = remaining.subarray(frameLength);
+			}
+
+			return Channel.zipRight(
+				Channel.write(Chunk.unsafeFromArray(frames)),
+				splitTcpFramesChannel<E>(remaining),
+			);
+		},
+		onFailure: Channel.failCause,
+		onDone() {
+			if (buffer.byteLength === 0) {
+				return Channel.void;
+			}
+
+			const message =
+				buffer.byteLength < TCP_LENGTH_BYTE_LENGTH
+					? "TCP stream ended part way through a length field"
+					: `TCP stream ended part way through a message. Expected '${getFrameLength(buffer)}' bytes, received '${buffer.byteLength - TCP_LENGTH_BYTE_LENGTH}'`;
+
+			return Channel.fail(
+				new ParseResult.ParseError({
+					issue: new ParseResult.Type(
+						Uint8ArrayFromTcpFrame.ast,
+						buffer,
+						message,
+					),
+				}),
+			);
+		},
+	});
+}
+
+function getFrameLength(frame: Uint8Array) {
+	return new DataView(
+		frame.buffer,
+		frame.byteOffset,
+		frame.byteLength,
+	).getUint16(0, false);
+}
+
+function concatUint8Arrays(uint8Arrays: ReadonlyArray<Uint8Array>) {
+	const uint8Array = new Uint8Array(
+		uint8Arrays.reduce((length, { byteLength }) => length + byteLength, 0),
+	);
+
+	let offset = 0;
+
+	for (const chunk of uint8Arrays) {
+		uint8Array.set(chunk, offset);
+		offset += chunk.byteLength;
+	}
+
+	return uint8Array;
+}
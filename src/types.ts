@@ -33,6 +33,13 @@ export const Uint8 = Schema.Number.pipe(
 	}),
 );
 
+export const Uint12 = Schema.Number.pipe(
+	Schema.between(0, 4_095, {
+		identifier: "Uint12",
+		description: "a 12-bit unsigned integer",
+	}),
+);
+
 export const Uint16 = Schema.Number.pipe(
 	Schema.between(0, 65_535, {
 		identifier: "Uint16",
@@ -40,6 +47,14 @@ export const Uint16 = Schema.Number.pipe(
 	}),
 );
 
+export type Uint32 = typeof Uint32.Type;
+export const Uint32 = Schema.Number.pipe(
+	Schema.between(0, 4_294_967_295, {
+		identifier: "Uint32",
+		description: "a 32-bit unsigned integer",
+	}),
+);
+
 export type Uint31 = typeof Uint31.Type;
 export const Uint31 = Schema.Number.pipe(
 	Schema.between(0, 2_147_483_647, {
@@ -75,3 +90,42 @@ export const DnsPacketCursor = {
 		offset,
 	}),
 } as const;
+
+/**
+ * Collects the octets of a DNS message while it is being encoded. `offset`
+ * is the number of octets written so far, which is also the position the
+ * next write will land at relative to the start of the message.
+ *
+ * When `compressionDictionary` is present, names written to the packet are
+ * compressed (RFC 1035 4.1.4) against the names already written. It maps the
+ * uncompressed wire format of every name suffix written so far to the offset
+ * it was written at.
+ */
+export type DnsPacketWriter = {
+	chunks: Array<Uint8Array>;
+	offset: number;
+	compressionDictionary: Map<string, number> | undefined;
+};
+
+export const DnsPacketWriter = {
+	make: (options?: { readonly compression?: boolean }): DnsPacketWriter => ({
+		chunks: [],
+		offset: 0,
+		compressionDictionary: options?.compression ? new Map() : undefined,
+	}),
+	write: (writer: DnsPacketWriter, uint8Array: Uint8Array): void => {
+		writer.chunks.push(uint8Array);
+		writer.offset += uint8Array.byteLength;
+	},
+	toUint8Array: (writer: DnsPacketWriter): Uint8Array => {
+		const out = new Uint8Array(writer.offset);
+
+		let offset = 0;
+		for (const chunk of writer.chunks) {
+			out.set(chunk, offset);
+			offset += chunk.byteLength;
+		}
+
+		return out;
+	},
+} as const;
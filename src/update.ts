@@ -0,0 +1,1229 @@
+import { Effect, Either, ParseResult, Schema, SchemaAST, Struct } from "effect";
+import {
+	decodeHeaderFromDnsPacket,
+	encodeHeaderToUint8Array,
+	Header,
+	OpcodeNameToOpcode,
+} from "./header";
+import {
+	decodeNameFromDnsPacketCursor,
+	encodeNameToDnsPacketWriter,
+	isSubdomain,
+	Name,
+	nameEquals,
+	type EncodedName,
+} from "./name";
+import {
+	decodeQuestionFromDnsPacketCursor,
+	encodeQuestionToDnsPacketWriter,
+	QClassNameToQClass,
+	QTypeNameToQType,
+	Question,
+} from "./question";
+import { rdataEquals } from "./rdata";
+import {
+	decodeResourceRecordFromDnsPacketCursor,
+	encodeResourceRecordToDnsPacketWriter,
+	RRClassNameToRRClass,
+	RRTypeNameToRRType,
+	ResourceRecord,
+	ResourceRecordType,
+	type EncodedResourceRecord,
+	type ResourceRecordOf,
+} from "./resource-record";
+import type { Zone } from "./server";
+import { DnsPacketCursor, DnsPacketWriter } from "./types";
+import { getUint16, getUint32, serialGreaterThan, setUint16 } from "./utils";
+
+/**
+ * 2.4.1. RRset Exists (Value Independent)
+ *
+ * At least one RR with a specified NAME and TYPE (in the zone and class
+ * specified in the Zone Section) must exist.
+ *
+ * For this prerequisite, a requestor adds to the section a single RR whose
+ * NAME and TYPE are equal to that of the zone RRset whose existence is
+ * required. RDLENGTH is zero and RDATA is therefore empty. CLASS must be
+ * specified as ANY to differentiate this condition from that of an actual
+ * RR whose RDLENGTH is naturally zero (0) (e.g., NULL). TTL is specified
+ * as zero (0).
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc2136.html#section-2.4.1
+ */
+export const RRsetExists = Schema.TaggedStruct("RRsetExists", {
+	name: Name,
+	type: ResourceRecordType,
+});
+
+/**
+ * 2.4.2. RRset Exists (Value Dependent)
+ *
+ * A set of RRs with a specified NAME and TYPE exists and has the same
+ * members with the same RDATAs as the RRset specified here in this
+ * section.
+ *
+ * The RRs of every `RRsetEquals` prerequisite with the same NAME and TYPE
+ * are compared to the zone RRset together.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc2136.html#section-2.4.2
+ */
+export const RRsetEquals = Schema.TaggedStruct("RRsetEquals", {
+	record: ResourceRecord,
+});
+
+/**
+ * 2.4.3. RRset Does Not Exist
+ *
+ * No RRs with a specified NAME and TYPE (in the zone and class denoted by
+ * the Zone Section) can exist.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc2136.html#section-2.4.3
+ */
+export const RRsetDoesNotExist = Schema.TaggedStruct("RRsetDoesNotExist", {
+	name: Name,
+	type: ResourceRecordType,
+});
+
+/**
+ * 2.4.4. Name Is In Use
+ *
+ * Name is in use. At least one RR with a specified NAME (in the zone and
+ * class specified by the Zone Section) must exist.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc2136.html#section-2.4.4
+ */
+export const NameInUse = Schema.TaggedStruct("NameInUse", { name: Name });
+
+/**
+ * 2.4.5. Name Is Not In Use
+ *
+ * Name is not in use. No RR of any type is owned by a specified NAME.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc2136.html#section-2.4.5
+ */
+export const NameNotInUse = Schema.TaggedStruct("NameNotInUse", {
+	name: Name,
+});
+
+export const Prerequisite = Schema.Union(
+	RRsetExists,
+	RRsetEquals,
+	RRsetDoesNotExist,
+	NameInUse,
+	NameNotInUse,
+).annotations({ identifier: "Prerequisite" });
+
+export type Prerequisite = typeof Prerequisite.Type;
+
+/**
+ * 2.5.1. Add To An RRset
+ *
+ * RRs are added to the Update Section whose NAME, TYPE, TTL, RDLENGTH and
+ * RDATA are those being added, and CLASS is the same as the zone class.
+ * Any duplicate RRs will be silently ignored by the primary master.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc2136.html#section-2.5.1
+ */
+export const AddToRRset = Schema.TaggedStruct("AddToRRset", {
+	record: ResourceRecord,
+});
+
+/**
+ * 2.5.2. Delete An RRset
+ *
+ * One RR is added to the Update Section whose NAME and TYPE are those of
+ * the RRset to be deleted. TTL must be specified as zero (0) and is
+ * otherwise not used by the primary master. CLASS must be specified as
+ * ANY. RDLENGTH must be zero (0) and RDATA must therefore be empty.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc2136.html#section-2.5.2
+ */
+export const DeleteRRset = Schema.TaggedStruct("DeleteRRset", {
+	name: Name,
+	type: ResourceRecordType,
+});
+
+/**
+ * 2.5.3. Delete All RRsets From A Name
+ *
+ * One RR is added to the Update Section whose NAME is that of the name to
+ * be cleansed of RRsets. TYPE must be specified as ANY. TTL must be
+ * specified as zero (0) and is otherwise not used by the primary master.
+ * CLASS must be specified as ANY. RDLENGTH must be zero (0) and RDATA must
+ * therefore be empty.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc2136.html#section-2.5.3
+ */
+export const DeleteName = Schema.TaggedStruct("DeleteName", { name: Name });
+
+/**
+ * 2.5.4. Delete An RR From An RRset
+ *
+ * RRs to be deleted are added to the Update Section. The NAME, TYPE,
+ * RDLENGTH and RDATA must match the RR being deleted. TTL must be
+ * specified as zero (0) and will otherwise be ignored by the primary
+ * master. CLASS must be specified as NONE to distinguish this from an RR
+ * addition.
+ *
+ * The `record` has the zone class, which is replaced by NONE on the wire.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc2136.html#section-2.5.4
+ */
+export const DeleteFromRRset = Schema.TaggedStruct("DeleteFromRRset", {
+	record: ResourceRecord,
+});
+
+export const UpdateOperation = Schema.Union(
+	AddToRRset,
+	DeleteRRset,
+	DeleteName,
+	DeleteFromRRset,
+).annotations({ identifier: "UpdateOperation" });
+
+export type UpdateOperation = typeof UpdateOperation.Type;
+
+/**
+ * 2. Update Message Format
+ *
+ *    +---------------------+
+ *    |        Header       |
+ *    +---------------------+
+ *    |         Zone        | specifies the zone to be updated
+ *    +---------------------+
+ *    |     Prerequisite    | RRs or RRsets which must (not) preexist
+ *    +---------------------+
+ *    |        Update       | RRs or RRsets to be added or deleted
+ *    +---------------------+
+ *    |   Additional Data   | additional data
+ *    +---------------------+
+ *
+ * The Header Section specifies that this message is an UPDATE, and
+ * describes the size of the other sections. The Zone Section names the
+ * zone that is to be updated by this message. The Prerequisite Section
+ * specifies the starting invariants (in terms of zone content) required
+ * for this update. The Update Section contains the edits to be made, and
+ * the Additional Data Section contains data which may be necessary to
+ * complete, but is not part of, this update.
+ *
+ * The sections are those of a `Message`, reinterpreted: ZOCOUNT, PRCOUNT,
+ * UPCOUNT and ADCOUNT are the QDCOUNT, ANCOUNT, NSCOUNT and ARCOUNT of its
+ * header.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc2136.html#section-2
+ */
+export const UpdateMessage = Schema.Struct({
+	header: Header,
+	/**
+	 * 2.3. Zone Section
+	 *
+	 * The Zone Section has the same format as that specified in [RFC1035
+	 * 4.1.2], with the fields redefined as follows: ZNAME is the zone name,
+	 * ZTYPE must be SOA, and ZCLASS is the zone's class.
+	 */
+	zone: Question,
+	prerequisite: Schema.Array(Prerequisite),
+	update: Schema.Array(UpdateOperation),
+	additional: Schema.Array(ResourceRecord),
+}).annotations({
+	identifier: "UpdateMessage",
+	description: "A DNS UPDATE message",
+});
+
+export type UpdateMessage = typeof UpdateMessage.Type;
+
+type EncodedPrerequisite = typeof Prerequisite.Encoded;
+type EncodedUpdateOperation = typeof UpdateOperation.Encoded;
+
+export const UpdateMessageFromUint8Array = Schema.transformOrFail(
+	Schema.Uint8ArrayFromSelf,
+	UpdateMessage,
+	{
+		strict: true,
+		decode(uint8Array, _, ast) {
+			return Effect.gen(function* () {
+				const cursor = DnsPacketCursor.fromUint8Array(uint8Array);
+
+				// --- Header ---
+				const { header, bytesConsumed } =
+					yield* decodeHeaderFromDnsPacket(cursor);
+
+				cursor.offset += bytesConsumed;
+
+				if (header.opcode !== OpcodeNameToOpcode.UPDATE) {
+					return yield* fail(
+						ast,
+						uint8Array,
+						`OPCODE must be UPDATE (5), received ${header.opcode}`,
+					);
+				}
+
+				// --- Zone ---
+				// RFC 2136 3.1.1
+				if (header.qdcount !== 1) {
+					return yield* fail(
+						ast,
+						uint8Array,
+						`ZOCOUNT must be 1, received ${header.qdcount}`,
+					);
+				}
+
+				const { question: zone, encodedByteLength } =
+					yield* decodeQuestionFromDnsPacketCursor(cursor);
+
+				cursor.offset += encodedByteLength;
+
+				if (zone.qtype !== RRTypeNameToRRType.SOA) {
+					return yield* fail(
+						ast,
+						uint8Array,
+						`ZTYPE must be SOA (6), received ${zone.qtype}`,
+					);
+				}
+
+				// --- Prerequisite ---
+				const prerequisite: Array<EncodedPrerequisite> = [];
+
+				for (let idx = 0; idx < header.ancount; idx++) {
+					const record = yield* decodeUpdateRecord(
+						cursor,
+						QClassNameToQClass.NONE,
+						ast,
+					);
+
+					prerequisite.push(yield* toPrerequisite(record, zone.qclass, ast));
+				}
+
+				// --- Update ---
+				const update: Array<EncodedUpdateOperation> = [];
+
+				for (let idx = 0; idx < header.nscount; idx++) {
+					// RRs of CLASS NONE carry the RDATA of the RR to delete
+					const record = yield* decodeUpdateRecord(
+						cursor,
+						QClassNameToQClass.ANY,
+						ast,
+					);
+
+					update.push(yield* toUpdateOperation(record, zone.qclass, ast));
+				}
+
+				// --- Additional Data ---
+				const additional: Array<EncodedResourceRecord> = [];
+
+				for (let idx = 0; idx < header.arcount; idx++) {
+					const { resourceRecord, encodedByteLength } =
+						yield* decodeResourceRecordFromDnsPacketCursor(cursor);
+
+					additional.push(resourceRecord);
+					cursor.offset += encodedByteLength;
+				}
+
+				return { header, zone, prerequisite, update, additional };
+			}).pipe(
+				Effect.catchTag("ParseError", (error) => ParseResult.fail(error.issue)),
+			);
+		},
+		encode(message, _, ast) {
+			return Effect.gen(function* () {
+				const sections = {
+					qdcount: 1,
+					ancount: message.prerequisite.length,
+					nscount: message.update.length,
+					arcount: message.additional.length,
+				};
+
+				for (const [field, count] of Object.entries(sections)) {
+					if (count > 65_535) {
+						return yield* fail(
+							ast,
+							message,
+							`${field.toUpperCase()} must be 65535 or less, received ${count}`,
+						);
+					}
+				}
+
+				// Names are compressed against every name written before them
+				const writer = DnsPacketWriter.make({ compression: true });
+
+				// --- Header ---
+				const header = yield* encodeHeaderToUint8Array({
+					...message.header,
+					...sections,
+				}).pipe(Effect.mapError(Struct.get("issue")));
+
+				DnsPacketWriter.write(writer, header);
+
+				// --- Zone ---
+				yield* encodeQuestionToDnsPacketWriter(writer, message.zone, ast);
+
+				// --- Prerequisite ---
+				for (const prerequisite of message.prerequisite) {
+					switch (prerequisite._tag) {
+						case "RRsetExists": {
+							yield* writeEmptyRecord(
+								writer,
+								prerequisite,
+								QClassNameToQClass.ANY,
+								ast,
+							);
+							break;
+						}
+						case "RRsetEquals": {
+							yield* encodeResourceRecordToDnsPacketWriter(
+								writer,
+								{ ...prerequisite.record, ttl: 0 },
+								ast,
+							);
+							break;
+						}
+						case "RRsetDoesNotExist": {
+							yield* writeEmptyRecord(
+								writer,
+								prerequisite,
+								QClassNameToQClass.NONE,
+								ast,
+							);
+							break;
+						}
+						case "NameInUse": {
+							yield* writeEmptyRecord(
+								writer,
+								{ name: prerequisite.name, type: QTypeNameToQType.ANY },
+								QClassNameToQClass.ANY,
+								ast,
+							);
+							break;
+						}
+						case "NameNotInUse": {
+							yield* writeEmptyRecord(
+								writer,
+								{ name: prerequisite.name, type: QTypeNameToQType.ANY },
+								QClassNameToQClass.NONE,
+								ast,
+							);
+							break;
+						}
+					}
+				}
+
+				// --- Update ---
+				for (const operation of message.update) {
+					switch (operation._tag) {
+						case "AddToRRset": {
+							yield* encodeResourceRecordToDnsPacketWriter(
+								writer,
+								operation.record,
+								ast,
+							);
+							break;
+						}
+						case "DeleteRRset": {
+							yield* writeEmptyRecord(
+								writer,
+								operation,
+								QClassNameToQClass.ANY,
+								ast,
+							);
+							break;
+						}
+						case "DeleteName": {
+							yield* writeEmptyRecord(
+								writer,
+								{ name: operation.name, type: QTypeNameToQType.ANY },
+								QClassNameToQClass.ANY,
+								ast,
+							);
+							break;
+						}
+						case "DeleteFromRRset": {
+							yield* encodeResourceRecordToDnsPacketWriter(
+								writer,
+								{ ...operation.record, class: QClassNameToQClass.NONE, ttl: 0 },
+								ast,
+							);
+							break;
+						}
+					}
+				}
+
+				// --- Additional Data ---
+				for (const resourceRecord of message.additional) {
+					yield* encodeResourceRecordToDnsPacketWriter(
+						writer,
+						resourceRecord,
+						ast,
+					);
+				}
+
+				return DnsPacketWriter.toUint8Array(writer);
+			});
+		},
+	},
+);
+
+/**
+ * An UPDATE message for the zone at `zone`, whose CLASS defaults to IN.
+ */
+export const makeUpdateMessage = (options: {
+	readonly id: number;
+	readonly zone: Name;
+	readonly zoneClass?: Question["qclass"];
+	readonly prerequisite?: ReadonlyArray<Prerequisite>;
+	readonly update: ReadonlyArray<UpdateOperation>;
+	readonly additional?: ReadonlyArray<ResourceRecord>;
+}): UpdateMessage => {
+	const prerequisite = options.prerequisite ?? [];
+	const additional = options.additional ?? [];
+
+	return {
+		header: {
+			id: options.id,
+			qr: 0,
+			opcode: "UPDATE",
+			aa: 0,
+			tc: 0,
+			rd: 0,
+			ra: 0,
+			z: 0,
+			rcode: "NOERROR",
+			qdcount: 1,
+			ancount: prerequisite.length,
+			nscount: options.update.length,
+			arcount: additional.length,
+		},
+		zone: {
+			qname: options.zone,
+			qtype: RRTypeNameToRRType.SOA,
+			qclass: options.zoneClass ?? RRClassNameToRRClass.IN,
+		},
+		prerequisite,
+		update: options.update,
+		additional,
+	};
+};
+
+/** Requires at least one RR of `type` at `name` (RFC 2136 2.4.1) */
+export const rrsetExists = (
+	name: Name,
+	type: ResourceRecordType,
+): Prerequisite => RRsetExists.make({ name, type });
+
+/**
+ * Requires the RRset of `records` to exist with exactly these RDATAs (RFC
+ * 2136 2.4.2).
+ */
+export const rrsetEquals = (
+	records: ReadonlyArray<ResourceRecord>,
+): Array<Prerequisite> => records.map((record) => RRsetEquals.make({ record }));
+
+/** Requires no RR of `type` at `name` (RFC 2136 2.4.3) */
+export const rrsetDoesNotExist = (
+	name: Name,
+	type: ResourceRecordType,
+): Prerequisite => RRsetDoesNotExist.make({ name, type });
+
+/** Requires at least one RR at `name` (RFC 2136 2.4.4) */
+export const nameInUse = (name: Name): Prerequisite => NameInUse.make({ name });
+
+/** Requires no RR at `name` (RFC 2136 2.4.5) */
+export const nameNotInUse = (name: Name): Prerequisite =>
+	NameNotInUse.make({ name });
+
+/** Adds `records` to their RRsets (RFC 2136 2.5.1) */
+export const addRRset = (
+	records: ReadonlyArray<ResourceRecord>,
+): Array<UpdateOperation> =>
+	records.map((record) => AddToRRset.make({ record }));
+
+/** Deletes the RRset of `type` at `name` (RFC 2136 2.5.2) */
+export const deleteRRset = (
+	name: Name,
+	type: ResourceRecordType,
+): UpdateOperation => DeleteRRset.make({ name, type });
+
+/** Deletes every RRset at `name` (RFC 2136 2.5.3) */
+export const deleteName = (name: Name): UpdateOperation =>
+	DeleteName.make({ name });
+
+/** Deletes `record` from its RRset (RFC 2136 2.5.4) */
+export const deleteFromRRset = (record: ResourceRecord): UpdateOperation =>
+	DeleteFromRRset.make({ record });
+
+/**
+ * 3. Server Behavior
+ *
+ * A server, upon receiving an UPDATE request, will signal NOTIMP to the
+ * requestor if the UPDATE opcode is not recognized or if it is recognized
+ * but has not been implemented. Otherwise, processing continues as
+ * follows.
+ *
+ * 3.1.1. The Zone Section is checked to see that there is exactly one RR
+ * therein and that the RR's ZTYPE is SOA, else signal FORMERR to the
+ * requestor. Next, the ZNAME and ZCLASS are checked to see if the zone so
+ * named is one of this server's authority zones, else signal NOTAUTH to
+ * the requestor.
+ *
+ * 3.2.5. Pseudocode for Prerequisite Section Processing
+ *
+ *    for rr in prerequisites
+ *         if (rr.ttl != 0)
+ *              return (FORMERR)
+ *         if (zone_of(rr.name) != ZNAME)
+ *              return (NOTZONE);
+ *         if (rr.class == ANY)
+ *              if (rr.rdlength != 0)
+ *                   return (FORMERR)
+ *              if (rr.type == ANY)
+ *                   if (!zone_name<rr.name>)
+ *                        return (NXDOMAIN)
+ *              else
+ *                   if (!zone_rrset<rr.name, rr.type>)
+ *                        return (NXRRSET)
+ *         if (rr.class == NONE)
+ *              if (rr.rdlength != 0)
+ *                   return (FORMERR)
+ *              if (rr.type == ANY)
+ *                   if (zone_name<rr.name>)
+ *                        return (YXDOMAIN)
+ *              else
+ *                   if (zone_rrset<rr.name, rr.type>)
+ *                        return (YXRRSET)
+ *         if (rr.class == zclass)
+ *              temp<rr.name, rr.type> += rr
+ *         else
+ *              return (FORMERR)
+ *
+ *    for rrset in temp
+ *         if (zone_rrset<rrset.name, rrset.type> != rrset)
+ *              return (NXRRSET)
+ *
+ * 3.4.2.7. Pseudocode For Update Section Processing
+ *
+ *    [rr] for rr in updates
+ *         if (rr.class == zclass)
+ *              if (rr.type == CNAME)
+ *                   if (zone_rrset<rr.name, ~CNAME>)
+ *                        next [rr]
+ *              elsif (zone_rrset<rr.name, CNAME>)
+ *                   next [rr]
+ *              if (rr.type == SOA)
+ *                   if (!zone_rrset<rr.name, SOA> ||
+ *                       zone_rr<rr.name, SOA>.serial > rr.soa.serial)
+ *                        next [rr]
+ *              for zrr in zone_rrset<rr.name, rr.type>
+ *                   if (rr.type == CNAME || rr.type == SOA ||
+ *                       (rr.type == WKS && rr.proto == zrr.proto &&
+ *                        rr.address == zrr.address) ||
+ *                       rr.rdata == zrr.rdata)
+ *                        zrr = rr
+ *                        next [rr]
+ *              zone_rrset<rr.name, rr.type> += rr
+ *         elsif (rr.class == ANY)
+ *              if (rr.type == ANY)
+ *                   if (rr.name == zname)
+ *                        zone_rrset<rr.name, ~(SOA|NS)> = Nil
+ *                   else
+ *                        zone_rrset<rr.name, *> = Nil
+ *              elsif (rr.name == zname &&
+ *                     (rr.type == SOA || rr.type == NS))
+ *                   next [rr]
+ *              else
+ *                   zone_rrset<rr.name, rr.type> = Nil
+ *         elsif (rr.class == NONE)
+ *              if (rr.type == SOA)
+ *                   next [rr]
+ *              if (rr.type == NS && zone_rrset<rr.name, NS> == rr)
+ *                   next [rr]
+ *              zone_rr<rr.name, rr.type, rr.data> = Nil
+ *    return (NOERROR)
+ *
+ * 3.6. Zone Identity
+ *
+ * If the zone's SOA SERIAL is changed by an update operation, that change
+ * must be in a positive direction (using modulo 2**32 arithmetic as
+ * specified by [RFC1982]). Attempts to replace an SOA with one whose
+ * SERIAL is less than the current one will be silently ignored by the
+ * primary master server.
+ *
+ * If the requestor did not increase the SERIAL of a zone they changed, it
+ * is incremented once for the whole update. The zone and the RRs of the
+ * request are matched case-insensitively, and the structural checks
+ * leading to FORMERR were made when the request was decoded.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc2136.html#section-3
+ */
+export function applyUpdate(
+	zones: ReadonlyArray<Zone>,
+	request: UpdateMessage,
+): { readonly response: UpdateMessage; readonly zones: ReadonlyArray<Zone> } {
+	const rejected = (rcode: UpdateMessage["header"]["rcode"]) => ({
+		response: makeUpdateResponse(request, rcode),
+		zones,
+	});
+
+	const zone = zones.find((zone) =>
+		nameEquals(zone.origin, request.zone.qname),
+	);
+
+	if (zone === undefined) {
+		return rejected("NOTAUTH");
+	}
+
+	const names = [
+		...request.prerequisite.map(getUpdateName),
+		...request.update.map(getUpdateName),
+	];
+
+	if (names.some((name) => !isSubdomain(name, zone.origin))) {
+		return rejected("NOTZONE");
+	}
+
+	const rcode = checkPrerequisites(zone, request.prerequisite);
+
+	if (rcode !== "NOERROR") {
+		return rejected(rcode);
+	}
+
+	const records = request.update.reduce(
+		(records, operation) => applyUpdateOperation(zone, records, operation),
+		zone.records,
+	);
+
+	if (records === zone.records) {
+		return { response: makeUpdateResponse(request, "NOERROR"), zones };
+	}
+
+	const updated: Zone = {
+		...zone,
+		records: incrementSoaSerial(zone, records),
+	};
+
+	return {
+		response: makeUpdateResponse(request, "NOERROR"),
+		zones: zones.map((candidate) => (candidate === zone ? updated : candidate)),
+	};
+}
+
+/**
+ * 3.8. Response
+ *
+ * At the end of UPDATE processing, a response code will be known. A
+ * response message is generated by copying the ID and Opcode fields from
+ * the request, and either copying the ZOCOUNT, PRCOUNT, UPCOUNT, and
+ * ADCOUNT fields and associated sections, or placing zeros (0) in the
+ * these "count" fields and not including any part of the original update.
+ * The QR bit is set to one (1), and the response is sent back to the
+ * requestor.
+ *
+ * The Zone Section is copied, and the others are left empty.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc2136.html#section-3.8
+ */
+export function makeUpdateResponse(
+	request: UpdateMessage,
+	rcode: UpdateMessage["header"]["rcode"],
+): UpdateMessage {
+	return {
+		header: {
+			...request.header,
+			qr: 1,
+			aa: 0,
+			tc: 0,
+			ra: 0,
+			z: 0,
+			rcode,
+			qdcount: 1,
+			ancount: 0,
+			nscount: 0,
+			arcount: 0,
+		},
+		zone: request.zone,
+		prerequisite: [],
+		update: [],
+		additional: [],
+	};
+}
+
+function getUpdateName(entry: Prerequisite | UpdateOperation) {
+	return "record" in entry ? entry.record.name : entry.name;
+}
+
+function checkPrerequisites(
+	zone: Zone,
+	prerequisites: ReadonlyArray<Prerequisite>,
+): UpdateMessage["header"]["rcode"] {
+	const rrsets: Array<[ResourceRecord, ...Array<ResourceRecord>]> = [];
+
+	for (const prerequisite of prerequisites) {
+		switch (prerequisite._tag) {
+			case "RRsetExists": {
+				if (findRRset(zone.records, prerequisite).length === 0) {
+					return "NXRRSET";
+				}
+				break;
+			}
+			case "RRsetDoesNotExist": {
+				if (findRRset(zone.records, prerequisite).length > 0) {
+					return "YXRRSET";
+				}
+				break;
+			}
+			case "NameInUse": {
+				if (!isNameInUse(zone.records, prerequisite.name)) {
+					return "NXDOMAIN";
+				}
+				break;
+			}
+			case "NameNotInUse": {
+				if (isNameInUse(zone.records, prerequisite.name)) {
+					return "YXDOMAIN";
+				}
+				break;
+			}
+			case "RRsetEquals": {
+				const { record } = prerequisite;
+				const rrset = rrsets.find(([first]) => isSameRRset(first, record));
+
+				if (rrset === undefined) {
+					rrsets.push([record]);
+				} else {
+					rrset.push(record);
+				}
+				break;
+			}
+		}
+	}
+
+	for (const rrset of rrsets) {
+		const existing = findRRset(zone.records, rrset[0]);
+
+		if (
+			!existing.every((record) => includesRData(rrset, record)) ||
+			!rrset.every((record) => includesRData(existing, record))
+		) {
+			return "NXRRSET";
+		}
+	}
+
+	return "NOERROR";
+}
+
+/**
+ * Applies a single operation of the update section to `records`, which
+ * are returned unchanged when the operation is ignored.
+ */
+function applyUpdateOperation(
+	zone: Zone,
+	records: ReadonlyArray<ResourceRecord>,
+	operation: UpdateOperation,
+): ReadonlyArray<ResourceRecord> {
+	switch (operation._tag) {
+		case "AddToRRset": {
+			const { record } = operation;
+			const node = records.filter((candidate) =>
+				nameEquals(candidate.name, record.name),
+			);
+
+			if (
+				record.type === "CNAME"
+					? node.some((candidate) => candidate.type !== "CNAME")
+					: node.some((candidate) => candidate.type === "CNAME")
+			) {
+				return records;
+			}
+
+			if (record.type === "SOA") {
+				const soa = node.find(
+					(candidate): candidate is ResourceRecordOf<"SOA"> =>
+						candidate.type === "SOA",
+				);
+
+				if (
+					soa === undefined ||
+					!serialGreaterThan(record.rdata.serial, soa.rdata.serial)
+				) {
+					return records;
+				}
+			}
+
+			const replaced = records.find(
+				(candidate) =>
+					isSameRRset(candidate, record) &&
+					(record.type === "CNAME" ||
+						record.type === "SOA" ||
+						rdataEquals(candidate.rdata, record.rdata)),
+			);
+
+			if (replaced === undefined) {
+				return [...records, record];
+			}
+
+			return records.map((candidate) =>
+				candidate === replaced ? record : candidate,
+			);
+		}
+		case "DeleteRRset": {
+			if (
+				nameEquals(operation.name, zone.origin) &&
+				(operation.type === "SOA" || operation.type === "NS")
+			) {
+				return records;
+			}
+
+			return removeRecords(records, (record) => isSameRRset(record, operation));
+		}
+		case "DeleteName": {
+			const isApex = nameEquals(operation.name, zone.origin);
+
+			return removeRecords(
+				records,
+				(record) =>
+					nameEquals(record.name, operation.name) &&
+					!(isApex && (record.type === "SOA" || record.type === "NS")),
+			);
+		}
+		case "DeleteFromRRset": {
+			const { record } = operation;
+
+			if (record.type === "SOA") {
+				return records;
+			}
+
+			const rrset = findRRset(records, record);
+
+			// The last NS RR of the zone apex is kept
+			if (
+				record.type === "NS" &&
+				nameEquals(record.name, zone.origin) &&
+				rrset.every((candidate) => rdataEquals(candidate.rdata, record.rdata))
+			) {
+				return records;
+			}
+
+			return removeRecords(
+				records,
+				(candidate) =>
+					isSameRRset(candidate, record) &&
+					rdataEquals(candidate.rdata, record.rdata),
+			);
+		}
+	}
+}
+
+function removeRecords(
+	records: ReadonlyArray<ResourceRecord>,
+	predicate: (record: ResourceRecord) => boolean,
+) {
+	return records.some(predicate)
+		? records.filter((record) => !predicate(record))
+		: records;
+}
+
+/**
+ * The records of an updated zone, whose SOA SERIAL is incremented unless
+ * the update increased it already.
+ */
+function incrementSoaSerial(
+	zone: Zone,
+	records: ReadonlyArray<ResourceRecord>,
+): ReadonlyArray<ResourceRecord> {
+	const isSoa = (record: ResourceRecord): record is ResourceRecordOf<"SOA"> =>
+		record.type === "SOA" && nameEquals(record.name, zone.origin);
+	const previous = zone.records.find(isSoa);
+	const soa = records.find(isSoa);
+
+	if (
+		previous === undefined ||
+		soa === undefined ||
+		serialGreaterThan(soa.rdata.serial, previous.rdata.serial)
+	) {
+		return records;
+	}
+
+	return records.map((record): ResourceRecord =>
+		record === soa
+			? {
+					...soa,
+					rdata: { ...soa.rdata, serial: (soa.rdata.serial + 1) % 2 ** 32 },
+				}
+			: record,
+	);
+}
+
+function findRRset(
+	records: ReadonlyArray<ResourceRecord>,
+	rrset: { readonly name: Name; readonly type: ResourceRecord["type"] },
+) {
+	return records.filter((record) => isSameRRset(record, rrset));
+}
+
+function isSameRRset(
+	a: { readonly name: Name; readonly type: ResourceRecord["type"] },
+	b: { readonly name: Name; readonly type: ResourceRecord["type"] },
+) {
+	return a.type === b.type && nameEquals(a.name, b.name);
+}
+
+function isNameInUse(records: ReadonlyArray<ResourceRecord>, name: Name) {
+	return records.some((record) => nameEquals(record.name, name));
+}
+
+function includesRData(
+	records: ReadonlyArray<ResourceRecord>,
+	record: ResourceRecord,
+) {
+	return records.some((candidate) =>
+		rdataEquals(candidate.rdata, record.rdata),
+	);
+}
+
+/**
+ * An RR of the prerequisite or update section: either a complete RR, or
+ * the NAME, TYPE, CLASS and TTL of one without RDATA.
+ */
+type UpdateRecord =
+	| { readonly resourceRecord: EncodedResourceRecord }
+	| {
+			readonly resourceRecord?: undefined;
+			readonly name: EncodedName;
+			readonly type: number;
+			readonly class: number;
+			readonly ttl: number;
+	  };
+
+/**
+ * Reads the RR at the cursor and moves past it. RRs of CLASS ANY, and of
+ * `emptyClass` too, have no RDATA when their RDLENGTH is zero, whatever
+ * their TYPE.
+ */
+function decodeUpdateRecord(
+	cursor: DnsPacketCursor,
+	emptyClass: number,
+	ast: SchemaAST.AST,
+): Effect.Effect<
+	UpdateRecord,
+	ParseResult.ParseIssue | ParseResult.ParseError
+> {
+	return Effect.gen(function* () {
+		const name = yield* decodeNameFromDnsPacketCursor(cursor);
+
+		const uint8Array = cursor.uint8Array.subarray(
+			cursor.offset + name.encodedByteLength,
+		);
+		const dataView = new DataView(
+			uint8Array.buffer,
+			uint8Array.byteOffset,
+			uint8Array.byteLength,
+		);
+
+		// 2 bytes type, 2 bytes class, 4 bytes ttl, 2 bytes rdlength
+		const fields = Either.all([
+			getUint16(dataView, 0, ast),
+			getUint16(dataView, 2, ast),
+			getUint32(dataView, 4, ast),
+			getUint16(dataView, 8, ast),
+		]);
+
+		if (Either.isLeft(fields)) {
+			return yield* ParseResult.fail(fields.left);
+		}
+
+		const [type, rrClass, ttl, rdlength] = fields.right;
+
+		if (
+			rdlength === 0 &&
+			(rrClass === QClassNameToQClass.ANY || rrClass === emptyClass)
+		) {
+			cursor.offset += name.encodedByteLength + 10;
+
+			return { name, type, class: rrClass, ttl };
+		}
+
+		const { resourceRecord, encodedByteLength } =
+			yield* decodeResourceRecordFromDnsPacketCursor(cursor);
+
+		cursor.offset += encodedByteLength;
+
+		return { resourceRecord };
+	});
+}
+
+/**
+ * 3.2.1. Prerequisite Section RRs
+ *
+ * For each prerequisite, TTL must be zero, and CLASS must be the zone
+ * class, ANY or NONE. RRs of CLASS ANY or NONE must have an empty RDATA,
+ * and the others may not be of a meta-TYPE.
+ */
+function toPrerequisite(
+	record: UpdateRecord,
+	zoneClass: number,
+	ast: SchemaAST.AST,
+) {
+	return Effect.gen(function* () {
+		const { resourceRecord } = record;
+
+		if (resourceRecord === undefined) {
+			if (record.ttl !== 0) {
+				return yield* fail(ast, record, "Prerequisite TTL must be 0");
+			}
+
+			const { name, type } = record;
+
+			if (record.class === QClassNameToQClass.ANY) {
+				return type === QTypeNameToQType.ANY
+					? { _tag: "NameInUse" as const, name }
+					: { _tag: "RRsetExists" as const, name, type };
+			}
+
+			return type === QTypeNameToQType.ANY
+				? { _tag: "NameNotInUse" as const, name }
+				: { _tag: "RRsetDoesNotExist" as const, name, type };
+		}
+
+		if (resourceRecord.ttl !== 0) {
+			return yield* fail(ast, resourceRecord, "Prerequisite TTL must be 0");
+		}
+
+		yield* checkZoneRecord(resourceRecord, zoneClass, ast);
+
+		return { _tag: "RRsetEquals" as const, record: resourceRecord };
+	});
+}
+
+/**
+ * 3.4.1.3. Pseudocode For Update Section Prescan
+ *
+ *    [rr] for rr in updates
+ *         if (zone_of(rr.name) != ZNAME)
+ *              return (NOTZONE);
+ *         if (rr.class == zclass)
+ *              if (rr.type & ANY|AXFR|MAILA|MAILB)
+ *                   return (FORMERR)
+ *         elsif (rr.class == ANY)
+ *              if (rr.ttl != 0 || rr.rdlength != 0
+ *                  || rr.type & AXFR|MAILA|MAILB)
+ *                   return (FORMERR)
+ *         elsif (rr.class == NONE)
+ *              if (rr.ttl != 0 || rr.type & ANY|AXFR|MAILA|MAILB)
+ *                   return (FORMERR)
+ *         else
+ *              return (FORMERR)
+ *
+ * The zone of each name is checked when the update is applied.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc2136.html#section-3.4.1.3
+ */
+function toUpdateOperation(
+	record: UpdateRecord,
+	zoneClass: number,
+	ast: SchemaAST.AST,
+) {
+	return Effect.gen(function* () {
+		const { resourceRecord } = record;
+
+		if (resourceRecord === undefined) {
+			const { name, type } = record;
+
+			if (record.ttl !== 0 || isMetaQType(type)) {
+				return yield* fail(
+					ast,
+					record,
+					"RRs deleting RRsets must have a TTL of 0 and a TYPE that is not AXFR, MAILA or MAILB",
+				);
+			}
+
+			return type === QTypeNameToQType.ANY
+				? { _tag: "DeleteName" as const, name }
+				: { _tag: "DeleteRRset" as const, name, type };
+		}
+
+		if (resourceRecord.class === QClassNameToQClass.NONE) {
+			if (resourceRecord.ttl !== 0) {
+				return yield* fail(
+					ast,
+					resourceRecord,
+					"RRs deleting an RR must have a TTL of 0",
+				);
+			}
+
+			yield* checkZoneRecord(
+				{ ...resourceRecord, class: zoneClass },
+				zoneClass,
+				ast,
+			);
+
+			return {
+				_tag: "DeleteFromRRset" as const,
+				record: { ...resourceRecord, class: zoneClass },
+			};
+		}
+
+		yield* checkZoneRecord(resourceRecord, zoneClass, ast);
+
+		return { _tag: "AddToRRset" as const, record: resourceRecord };
+	});
+}
+
+function checkZoneRecord(
+	resourceRecord: EncodedResourceRecord,
+	zoneClass: number,
+	ast: SchemaAST.AST,
+) {
+	if (resourceRecord.class !== zoneClass) {
+		return fail(
+			ast,
+			resourceRecord,
+			`CLASS must be the zone class ${zoneClass}, ANY or NONE, received ${resourceRecord.class}`,
+		);
+	}
+
+	if (
+		resourceRecord.type === QTypeNameToQType.ANY ||
+		isMetaQType(resourceRecord.type)
+	) {
+		return fail(
+			ast,
+			resourceRecord,
+			`TYPE ${resourceRecord.type} is a QTYPE, which RRs may not have`,
+		);
+	}
+
+	return Effect.void;
+}
+
+/**
+ * Writes an RR with a TTL of 0 and no RDATA.
+ */
+function writeEmptyRecord(
+	writer: DnsPacketWriter,
+	record: { readonly name: EncodedName; readonly type: number },
+	rrClass: number,
+	ast: SchemaAST.AST,
+): Effect.Effect<void, ParseResult.ParseIssue> {
+	return Effect.gen(function* () {
+		yield* encodeNameToDnsPacketWriter(writer, record.name, ast);
+
+		// 2 bytes type, 2 bytes class, 4 bytes ttl, 2 bytes rdlength
+		const out = new Uint8Array(10);
+		const dataView = new DataView(out.buffer);
+
+		yield* setUint16(dataView, 0, record.type, ast);
+		yield* setUint16(dataView, 2, rrClass, ast);
+
+		DnsPacketWriter.write(writer, out);
+	});
+}
+
+/** Whether `type` is AXFR, MAILA or MAILB */
+function isMetaQType(type: number) {
+	return (
+		type === QTypeNameToQType.AXFR ||
+		type === QTypeNameToQType.MAILA ||
+		type === QTypeNameToQType.MAILB
+	);
+}
+
+function fail(ast: SchemaAST.AST, actual: unknown, message: string) {
+	return ParseResult.fail(new ParseResult.Type(ast, actual, message));
+}
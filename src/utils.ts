@@ -71,6 +71,42 @@ export function setUint8(
 	});
 }
 
+export function setUint16(
+	dataView: DataView,
+	offset: number,
+	value: number,
+	ast: SchemaAST.AST,
+): Either.Either<void, ParseResult.ParseIssue> {
+	return ParseResult.try({
+		try: () => dataView.setUint16(offset, value, false),
+		catch(cause) {
+			return new ParseResult.Type(
+				ast,
+				dataView,
+				isError(cause) ? cause.message : "Malformed input",
+			);
+		},
+	});
+}
+
+export function setUint32(
+	dataView: DataView,
+	offset: number,
+	value: number,
+	ast: SchemaAST.AST,
+): Either.Either<void, ParseResult.ParseIssue> {
+	return ParseResult.try({
+		try: () => dataView.setUint32(offset, value, false),
+		catch(cause) {
+			return new ParseResult.Type(
+				ast,
+				dataView,
+				isError(cause) ? cause.message : "Malformed input",
+			);
+		},
+	});
+}
+
 export function uint8ArraySet(
 	target: Uint8Array,
 	value: Uint8Array,
@@ -87,4 +123,31 @@ export function uint8ArraySet(
 			);
 		},
 	});
-}
\ No newline at end of file
+}
+
+/**
+ * Whether SERIAL `a` is greater than `b` in serial number arithmetic over
+ * 32 bits (RFC 1982 3.2).
+ */
+export function serialGreaterThan(a: number, b: number) {
+	const distance = (a - b) >>> 0;
+
+	return distance !== 0 && distance < 2 ** 31;
+}
+
+/** Orders `a` and `b` as left justified unsigned octet sequences */
+export function compareBytes(a: Uint8Array, b: Uint8Array) {
+	const length = Math.min(a.byteLength, b.byteLength);
+
+	for (let i = 0; i < length; i++) {
+		if (a[i] !== b[i]) {
+			return (a[i] ?? 0) - (b[i] ?? 0);
+		}
+	}
+
+	return a.byteLength - b.byteLength;
+}
+
+export function equalBytes(a: Uint8Array, b: Uint8Array) {
+	return compareBytes(a, b) === 0;
+}
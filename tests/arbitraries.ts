@@ -218,6 +218,10 @@ export const arbitraryValidResourceRecord = fc
 		if (record.type === 1 && record.rdlength !== 4) {
 			return false;
 		}
+		// AAAA records must have 16 byte rdlength
+		if (record.type === 28 && record.rdlength !== 16) {
+			return false;
+		}
 		return true;
 	})
 	.chain((record) =>
@@ -359,6 +363,10 @@ export const arbitraryInvalidLabel = fc.oneof(
 			fc.string({ unit: charFrom(INVALID_CHARS), minLength: 1, maxLength: 3 }),
 			fc.string({ unit: charFrom(ALPHA_NUM_HYPHEN), maxLength: 30 }),
 		)
+		// A single leading underscore is valid (RFC 8552), as is the asterisk
+		// label of a wildcard (RFC 4592)
+		.filter(([pre, bad]) => pre !== "" || bad !== "_")
+		.filter(([pre, bad, post]) => `${pre}${bad}${post}` !== "*")
 		.map(([pre, bad, post]) => encode(`${pre}${bad}${post}`.slice(0, 63))),
 
 	// Consecutive hyphens in the 3rd and 4th indices
@@ -383,9 +391,6 @@ const LABEL_63 = encode("A".repeat(63));
 
 // Generate invalid Name instances for negative testing
 export const arbitraryInvalidName = fc.oneof(
-	// Empty array (no labels)
-	fc.constant([]),
-
 	// Name whose encoded length exceeds 255 bytes
 	fc.array(fc.constant(LABEL_63), { minLength: 5, maxLength: 10 }),
 
@@ -1747,14 +1752,13 @@ export const arbitraryMultiCompressionMessage = {
 			0x51,
 			0x80, // TTL: 86400
 			0x00,
-			0x11, // RDLENGTH: 17
+			0x06, // RDLENGTH: 6
 			// RDATA: ns1.example.com (ns1 + pointer to example.com)
 			0x03,
 			0x6e,
 			0x73,
 			0x31, // "ns1"
 			...createCompressionPointer(17), // Pointer to example.com at offset 17
-			0x00, // terminator
 
 			// Additional: ns1.example.com A record (uses pointer)
 			0x03,
@@ -0,0 +1,200 @@
+import { describe, expect, it } from "@effect/vitest";
+import { Effect, Option, TestClock } from "effect";
+import { DnsCache } from "../src/cache";
+import { decodeSyncNameFromString } from "../src/name";
+import type { ResourceRecord, ResourceRecordOf } from "../src/resource-record";
+
+const name = decodeSyncNameFromString("www.example.com");
+
+const makeA = (address: string, ttl: number): ResourceRecord => ({
+	name,
+	type: "A",
+	class: "IN",
+	ttl,
+	rdlength: 4,
+	rdata: { address },
+});
+
+const soa: ResourceRecordOf<"SOA"> = {
+	name: decodeSyncNameFromString("example.com"),
+	type: "SOA",
+	class: "IN",
+	ttl: 3600,
+	rdlength: 56,
+	rdata: {
+		mname: decodeSyncNameFromString("ns.example.com"),
+		rname: decodeSyncNameFromString("hostmaster.example.com"),
+		serial: 1,
+		refresh: 7200,
+		retry: 600,
+		expire: 3600000,
+		minimum: 60,
+	},
+};
+
+describe("DnsCache", () => {
+	it.effect("counts TTLs down with the clock", () =>
+		Effect.gen(function* () {
+			const cache = yield* DnsCache;
+
+			yield* cache.insert([makeA("192.0.2.1", 300), makeA("192.0.2.2", 300)]);
+			yield* TestClock.adjust("100 seconds");
+
+			const answer = yield* cache.lookup(
+				decodeSyncNameFromString("WWW.example.COM"),
+				"A",
+				"IN",
+			);
+
+			expect(answer).toEqual(
+				Option.some({
+					_tag: "RRset",
+					records: [makeA("192.0.2.1", 200), makeA("192.0.2.2", 200)],
+				}),
+			);
+		}).pipe(Effect.provide(DnsCache.layer())),
+	);
+
+	it.effect("caches RRsets for their smallest TTL", () =>
+		Effect.gen(function* () {
+			const cache = yield* DnsCache;
+
+			yield* cache.insert([makeA("192.0.2.1", 300), makeA("192.0.2.2", 30)]);
+			yield* TestClock.adjust("29 seconds");
+
+			expect(yield* cache.lookup(name, "A", "IN")).toEqual(
+				Option.some({
+					_tag: "RRset",
+					records: [makeA("192.0.2.1", 1), makeA("192.0.2.2", 1)],
+				}),
+			);
+
+			yield* TestClock.adjust("1 second");
+
+			expect(yield* cache.lookup(name, "A", "IN")).toEqual(Option.none());
+		}).pipe(Effect.provide(DnsCache.layer())),
+	);
+
+	it.effect("keys entries by TYPE and CLASS", () =>
+		Effect.gen(function* () {
+			const cache = yield* DnsCache;
+
+			yield* cache.insert([makeA("192.0.2.1", 300)]);
+
+			expect(yield* cache.lookup(name, "MX", "IN")).toEqual(Option.none());
+			expect(yield* cache.lookup(name, "A", "CH")).toEqual(Option.none());
+		}).pipe(Effect.provide(DnsCache.layer())),
+	);
+
+	it.effect("does not cache zero TTLs", () =>
+		Effect.gen(function* () {
+			const cache = yield* DnsCache;
+
+			yield* cache.insert([makeA("192.0.2.1", 0)]);
+
+			expect(yield* cache.size).toBe(0);
+		}).pipe(Effect.provide(DnsCache.layer())),
+	);
+
+	it.effect("replaces cached RRsets with zero TTL ones", () =>
+		Effect.gen(function* () {
+			const cache = yield* DnsCache;
+
+			yield* cache.insert([makeA("192.0.2.1", 300)]);
+			yield* TestClock.adjust("10 seconds");
+			yield* cache.insert([makeA("192.0.2.2", 0)]);
+
+			expect(yield* cache.lookup(name, "A", "IN")).toEqual(Option.none());
+			expect(yield* cache.size).toBe(0);
+		}).pipe(Effect.provide(DnsCache.layer())),
+	);
+
+	it.effect("evicts expired entries", () =>
+		Effect.gen(function* () {
+			const cache = yield* DnsCache;
+
+			yield* cache.insert([makeA("192.0.2.1", 60)]);
+			yield* cache.insertNoData(name, "MX", "IN", soa);
+			yield* TestClock.adjust("1 minute");
+
+			expect(yield* cache.size).toBe(2);
+
+			yield* cache.evictExpired;
+
+			expect(yield* cache.size).toBe(0);
+		}).pipe(Effect.provide(DnsCache.layer())),
+	);
+
+	it.effect("evicts expired entries when inserting past maxEntries", () =>
+		Effect.gen(function* () {
+			const cache = yield* DnsCache;
+
+			yield* cache.insertNoData(name, "MX", "IN", soa);
+			yield* cache.insert([makeA("192.0.2.1", 300)]);
+			yield* TestClock.adjust("1 minute");
+			yield* cache.insertNoData(name, "TXT", "IN", soa);
+
+			expect(yield* cache.size).toBe(2);
+			expect(Option.isSome(yield* cache.lookup(name, "A", "IN"))).toBe(true);
+		}).pipe(Effect.provide(DnsCache.layer({ maxEntries: 2 }))),
+	);
+
+	it.effect("evicts the least recently cached entries past maxEntries", () =>
+		Effect.gen(function* () {
+			const cache = yield* DnsCache;
+
+			yield* cache.insertNoData(name, "MX", "IN", soa);
+			yield* cache.insertNoData(name, "TXT", "IN", soa);
+			yield* cache.insertNoData(name, "MX", "IN", soa);
+			yield* cache.insert([makeA("192.0.2.1", 300)]);
+
+			expect(yield* cache.size).toBe(2);
+			expect(yield* cache.lookup(name, "TXT", "IN")).toEqual(Option.none());
+			expect(Option.isSome(yield* cache.lookup(name, "MX", "IN"))).toBe(true);
+			expect(Option.isSome(yield* cache.lookup(name, "A", "IN"))).toBe(true);
+		}).pipe(Effect.provide(DnsCache.layer({ maxEntries: 2 }))),
+	);
+
+	it.effect("caches name errors for every TYPE per the SOA minimum", () =>
+		Effect.gen(function* () {
+			const cache = yield* DnsCache;
+
+			yield* cache.insertNameError(name, "IN", soa);
+			yield* TestClock.adjust("20 seconds");
+
+			expect(yield* cache.lookup(name, "MX", "IN")).toEqual(
+				Option.some({ _tag: "NameError", soa: { ...soa, ttl: 40 } }),
+			);
+
+			yield* TestClock.adjust("40 seconds");
+
+			expect(yield* cache.lookup(name, "MX", "IN")).toEqual(Option.none());
+		}).pipe(Effect.provide(DnsCache.layer())),
+	);
+
+	it.effect("caches no data answers for a single TYPE", () =>
+		Effect.gen(function* () {
+			const cache = yield* DnsCache;
+
+			yield* cache.insertNoData(name, "MX", "IN", { ...soa, ttl: 30 });
+
+			expect(yield* cache.lookup(name, "MX", "IN")).toEqual(
+				Option.some({ _tag: "NoData", soa: { ...soa, ttl: 30 } }),
+			);
+			expect(yield* cache.lookup(name, "TXT", "IN")).toEqual(Option.none());
+		}).pipe(Effect.provide(DnsCache.layer())),
+	);
+
+	it.effect("replaces name errors with data", () =>
+		Effect.gen(function* () {
+			const cache = yield* DnsCache;
+
+			yield* cache.insertNameError(name, "IN", soa);
+			yield* cache.insert([makeA("192.0.2.1", 300)]);
+
+			expect(yield* cache.lookup(name, "A", "IN")).toEqual(
+				Option.some({ _tag: "RRset", records: [makeA("192.0.2.1", 300)] }),
+			);
+		}).pipe(Effect.provide(DnsCache.layer())),
+	);
+});
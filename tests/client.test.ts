@@ -0,0 +1,454 @@
+import { describe, expect, it } from "@effect/vitest";
+import * as Dgram from "node:dgram";
+import * as Net from "node:net";
+import { Effect, Schema, Stream } from "effect";
+import { DnsClient, DnsClientError } from "../src/client";
+import { MessageFromUint8Array, type Message } from "../src/message";
+import { decodeSyncNameFromString } from "../src/name";
+import type { Question } from "../src/question";
+import type { ResourceRecord } from "../src/resource-record";
+import {
+	decodeMessagesFromTcpStream,
+	encodeMessageToTcpFrame,
+} from "../src/tcp";
+
+const question: Question = {
+	qname: { labels: ["example", "com"], encodedByteLength: 13 },
+	qtype: 1,
+	qclass: 1,
+};
+
+const answer = (query: Message): Message => ({
+	...query,
+	header: { ...query.header, qr: 1, ra: 1, ancount: 1 },
+	answer: [
+		{
+			name: query.question[0]!.qname,
+			type: "A",
+			class: "IN",
+			ttl: 300,
+			rdlength: 4,
+			rdata: { address: "93.184.216.34" },
+		},
+	],
+});
+
+const makeSoa = (serial: number): ResourceRecord => ({
+	name: question.qname,
+	type: "SOA",
+	class: "IN",
+	ttl: 3600,
+	rdlength: 60,
+	rdata: {
+		mname: decodeSyncNameFromString("ns.example.com"),
+		rname: decodeSyncNameFromString("hostmaster.example.com"),
+		serial,
+		refresh: 7200,
+		retry: 600,
+		expire: 3600000,
+		minimum: 60,
+	},
+});
+
+const transfer = (
+	query: Message,
+	records: Array<ResourceRecord>,
+	rcode: Message["header"]["rcode"] = "NOERROR",
+): Message => ({
+	...query,
+	header: { ...query.header, qr: 1, aa: 1, rcode, ancount: records.length },
+	answer: records,
+});
+
+/**
+ * A loopback stand-in for a name server. `reply` returns the messages to
+ * send back for the n-th query received.
+ */
+const makeServer = (
+	reply: (query: Message, count: number) => Array<Message>,
+	port = 0,
+) =>
+	Effect.gen(function* () {
+		const queries: Array<Message> = [];
+
+		const socket = yield* Effect.acquireRelease(
+			Effect.async<Dgram.Socket>((resume) => {
+				const socket = Dgram.createSocket("udp4");
+				socket.bind(port, "127.0.0.1", () => resume(Effect.succeed(socket)));
+			}),
+			(socket) => Effect.sync(() => socket.close()),
+		);
+
+		socket.on("message", (buffer, remote) => {
+			const query = Schema.decodeSync(MessageFromUint8Array)(
+				new Uint8Array(buffer),
+			);
+			queries.push(query);
+
+			for (const message of reply(query, queries.length)) {
+				socket.send(
+					Schema.encodeSync(MessageFromUint8Array)(message),
+					remote.port,
+					remote.address,
+				);
+			}
+		});
+
+		return { port: socket.address().port, queries };
+	});
+
+/**
+ * A loopback stand-in for a name server answering over TCP.
+ */
+const makeTcpServer = (reply: (query: Message) => Array<Message>) =>
+	Effect.gen(function* () {
+		const queries: Array<Message> = [];
+
+		const server = yield* Effect.acquireRelease(
+			Effect.async<Net.Server>((resume) => {
+				const server = Net.createServer((connection) => {
+					Effect.runFork(
+						decodeMessagesFromTcpStream(
+							Stream.fromAsyncIterable(connection, (cause) => cause),
+						).pipe(
+							Stream.runForEach((query) =>
+								Effect.gen(function* () {
+									queries.push(query);
+
+									for (const message of reply(query)) {
+										connection.write(yield* encodeMessageToTcpFrame(message));
+									}
+								}),
+							),
+							Effect.ignore,
+						),
+					);
+				});
+				server.listen(0, "127.0.0.1", () => resume(Effect.succeed(server)));
+			}),
+			(server) => Effect.sync(() => server.close()),
+		);
+
+		const address = server.address();
+
+		return {
+			port: typeof address === "object" && address !== null ? address.port : 0,
+			queries,
+		};
+	});
+
+describe("DnsClient", () => {
+	it.scopedLive("sends a query and decodes the reply", () =>
+		Effect.gen(function* () {
+			const server = yield* makeServer((query) => [answer(query)]);
+
+			const message = yield* Effect.flatMap(DnsClient, (client) =>
+				client.query(question),
+			).pipe(
+				Effect.provide(
+					DnsClient.layer({ address: "127.0.0.1", port: server.port }),
+				),
+			);
+
+			expect(server.queries).toHaveLength(1);
+			expect(server.queries[0]?.header.rd).toBe(1);
+			expect(server.queries[0]?.question).toEqual([question]);
+			expect(message.header.id).toBe(server.queries[0]?.header.id);
+			expect(message.answer[0]?.rdata).toEqual({ address: "93.184.216.34" });
+		}),
+	);
+
+	it.scopedLive("advertises the UDP payload size in an OPT RR", () =>
+		Effect.gen(function* () {
+			const server = yield* makeServer((query) => [answer(query)]);
+
+			yield* Effect.flatMap(DnsClient, (client) => client.query(question)).pipe(
+				Effect.provide(
+					DnsClient.layer({
+						address: "127.0.0.1",
+						port: server.port,
+						udpPayloadSize: 1232,
+					}),
+				),
+			);
+
+			expect(server.queries[0]?.opt).toEqual({
+				udpPayloadSize: 1232,
+				version: 0,
+				dnssecOk: 0,
+				options: [],
+			});
+		}),
+	);
+
+	it.scopedLive("ignores replies with another ID", () =>
+		Effect.gen(function* () {
+			const server = yield* makeServer((query) => {
+				const reply = answer(query);
+				const stray: Message = {
+					...reply,
+					header: { ...reply.header, id: (query.header.id + 1) % 65536 },
+					answer: [],
+				};
+
+				return [stray, reply];
+			});
+
+			const message = yield* Effect.flatMap(DnsClient, (client) =>
+				client.query(question),
+			).pipe(
+				Effect.provide(
+					DnsClient.layer({ address: "127.0.0.1", port: server.port }),
+				),
+			);
+
+			expect(message.answer).toHaveLength(1);
+		}),
+	);
+
+	it.scopedLive("fails replies that are not responses", () =>
+		Effect.gen(function* () {
+			const server = yield* makeServer((query) => {
+				const reply = answer(query);
+
+				return [{ ...reply, header: { ...reply.header, qr: 0 } }];
+			});
+
+			const error = yield* Effect.flatMap(DnsClient, (client) =>
+				client.query(question),
+			).pipe(
+				Effect.provide(
+					DnsClient.layer({ address: "127.0.0.1", port: server.port }),
+				),
+				Effect.flip,
+			);
+
+			expect(error).toBeInstanceOf(DnsClientError);
+			expect(error).toMatchObject({ reason: "InvalidResponse" });
+		}),
+	);
+
+	it.scopedLive("fails replies to another question", () =>
+		Effect.gen(function* () {
+			const server = yield* makeServer((query) => [
+				{
+					...answer(query),
+					question: [
+						{ ...question, qname: decodeSyncNameFromString("example.org") },
+					],
+				},
+			]);
+
+			const error = yield* Effect.flatMap(DnsClient, (client) =>
+				client.query(question),
+			).pipe(
+				Effect.provide(
+					DnsClient.layer({ address: "127.0.0.1", port: server.port }),
+				),
+				Effect.flip,
+			);
+
+			expect(error).toBeInstanceOf(DnsClientError);
+			expect(error).toMatchObject({ reason: "InvalidResponse" });
+		}),
+	);
+
+	it.scopedLive("accepts the question echoed in another case", () =>
+		Effect.gen(function* () {
+			const server = yield* makeServer((query) => [
+				{
+					...answer(query),
+					question: [
+						{ ...question, qname: decodeSyncNameFromString("EXAMPLE.com") },
+					],
+				},
+			]);
+
+			const message = yield* Effect.flatMap(DnsClient, (client) =>
+				client.query(question),
+			).pipe(
+				Effect.provide(
+					DnsClient.layer({ address: "127.0.0.1", port: server.port }),
+				),
+			);
+
+			expect(message.answer).toHaveLength(1);
+		}),
+	);
+
+	it.scopedLive("retransmits the query when a reply times out", () =>
+		Effect.gen(function* () {
+			// The first query is lost
+			const server = yield* makeServer((query, count) =>
+				count === 1 ? [] : [answer(query)],
+			);
+
+			const message = yield* Effect.flatMap(DnsClient, (client) =>
+				client.query(question),
+			).pipe(
+				Effect.provide(
+					DnsClient.layer({
+						address: "127.0.0.1",
+						port: server.port,
+						timeout: "100 millis",
+						backoff: "10 millis",
+					}),
+				),
+			);
+
+			expect(server.queries).toHaveLength(2);
+			expect(server.queries[1]?.header.id).toBe(server.queries[0]?.header.id);
+			expect(message.answer).toHaveLength(1);
+		}),
+	);
+
+	it.scopedLive("fails once every retransmission timed out", () =>
+		Effect.gen(function* () {
+			const server = yield* makeServer(() => []);
+
+			const error = yield* Effect.flatMap(DnsClient, (client) =>
+				client.query(question),
+			).pipe(
+				Effect.provide(
+					DnsClient.layer({
+						address: "127.0.0.1",
+						port: server.port,
+						timeout: "50 millis",
+						retries: 1,
+						backoff: "10 millis",
+					}),
+				),
+				Effect.flip,
+			);
+
+			expect(error).toBeInstanceOf(DnsClientError);
+			expect(error).toMatchObject({ reason: "Timeout" });
+			expect(server.queries).toHaveLength(2);
+		}),
+	);
+
+	it.scopedLive("repeats truncated queries over TCP", () =>
+		Effect.gen(function* () {
+			const tcpServer = yield* makeTcpServer((query) => {
+				const reply = answer(query);
+				const stray: Message = {
+					...reply,
+					header: { ...reply.header, id: (query.header.id + 1) % 65536 },
+				};
+
+				return [
+					stray,
+					{ ...reply, answer: [...reply.answer, ...reply.answer] },
+				];
+			});
+			const udpServer = yield* makeServer(
+				(query) => [{ ...query, header: { ...query.header, qr: 1, tc: 1 } }],
+				tcpServer.port,
+			);
+
+			const message = yield* Effect.flatMap(DnsClient, (client) =>
+				client.query(question),
+			).pipe(
+				Effect.provide(
+					DnsClient.layer({ address: "127.0.0.1", port: udpServer.port }),
+				),
+			);
+
+			expect(udpServer.queries).toHaveLength(1);
+			expect(tcpServer.queries).toHaveLength(1);
+			expect(tcpServer.queries[0]?.header.id).toBe(
+				udpServer.queries[0]?.header.id,
+			);
+			expect(message.header.tc).toBe(0);
+			expect(message.header.id).toBe(udpServer.queries[0]?.header.id);
+			expect(message.answer).toHaveLength(2);
+		}),
+	);
+
+	it.scopedLive("transfers a zone over TCP", () =>
+		Effect.gen(function* () {
+			const server = yield* makeTcpServer((query) => {
+				const [address] = answer(query).answer;
+
+				return [
+					transfer(query, [makeSoa(1), address!]),
+					transfer(query, [address!, makeSoa(1)]),
+				];
+			});
+
+			const records = yield* Effect.flatMap(DnsClient, (client) =>
+				client.transferZone(question.qname),
+			).pipe(
+				Effect.provide(
+					DnsClient.layer({ address: "127.0.0.1", port: server.port }),
+				),
+			);
+
+			expect(server.queries[0]?.question[0]?.qtype).toBe(252);
+			expect(records.map(({ type }) => type)).toEqual(["SOA", "A", "A"]);
+		}),
+	);
+
+	it.scopedLive(
+		"fails transfers that do not end with the SOA they began with",
+		() =>
+			Effect.gen(function* () {
+				const server = yield* makeTcpServer((query) => [
+					transfer(query, [makeSoa(1), ...answer(query).answer, makeSoa(2)]),
+				]);
+
+				const error = yield* Effect.flatMap(DnsClient, (client) =>
+					client.transferZone(question.qname),
+				).pipe(
+					Effect.provide(
+						DnsClient.layer({ address: "127.0.0.1", port: server.port }),
+					),
+					Effect.flip,
+				);
+
+				expect(error).toBeInstanceOf(DnsClientError);
+				expect(error).toMatchObject({ reason: "InvalidResponse" });
+			}),
+	);
+
+	it.scopedLive("fails transfers that do not begin with the SOA", () =>
+		Effect.gen(function* () {
+			const server = yield* makeTcpServer((query) => [
+				transfer(query, [...answer(query).answer, makeSoa(1)]),
+			]);
+
+			const error = yield* Effect.flatMap(DnsClient, (client) =>
+				client.transferZone(question.qname),
+			).pipe(
+				Effect.provide(
+					DnsClient.layer({ address: "127.0.0.1", port: server.port }),
+				),
+				Effect.flip,
+			);
+
+			expect(error).toMatchObject({ reason: "InvalidResponse" });
+		}),
+	);
+
+	it.scopedLive("fails refused transfers", () =>
+		Effect.gen(function* () {
+			const server = yield* makeTcpServer((query) => [
+				transfer(query, [], "REFUSED"),
+			]);
+
+			const error = yield* Effect.flatMap(DnsClient, (client) =>
+				client.transferZone(question.qname),
+			).pipe(
+				Effect.provide(
+					DnsClient.layer({ address: "127.0.0.1", port: server.port }),
+				),
+				Effect.flip,
+			);
+
+			expect(error).toMatchObject({
+				reason: "InvalidResponse",
+				message: "Transfer of 'example.com.' failed with REFUSED",
+			});
+		}),
+	);
+});
@@ -0,0 +1,216 @@
+import { describe, expect, it } from "@effect/vitest";
+import { Effect, Exit, TestClock } from "effect";
+import {
+	canonicalizeRRset,
+	computeKeyTag,
+	verifyDS,
+	verifyRRSIG,
+} from "../src/dnssec";
+import { decodeMasterFile } from "../src/master-file";
+import type { ResourceRecord, ResourceRecordOf } from "../src/resource-record";
+
+const zone = (lines: ReadonlyArray<string>) =>
+	Effect.map(decodeMasterFile(lines.join("\n")), (records) => ({
+		dnskey: records.find(
+			(record): record is ResourceRecordOf<"DNSKEY"> =>
+				record.type === "DNSKEY",
+		)!,
+		ds: records.find(
+			(record): record is ResourceRecordOf<"DS"> => record.type === "DS",
+		)!,
+		rrsig: records.find(
+			(record): record is ResourceRecordOf<"RRSIG"> => record.type === "RRSIG",
+		)!,
+		rrset: records.filter(
+			(record) =>
+				record.type !== "DNSKEY" &&
+				record.type !== "DS" &&
+				record.type !== "RRSIG",
+		),
+	}));
+
+const setTime = (seconds: number) => TestClock.setTime(seconds * 1000);
+
+// RFC 8080 6.1
+const ed25519 = zone([
+	"example.com. 3600 IN DNSKEY 257 3 15 (",
+	"    l02Woi0iS8Aa25FQkUd9RMzZHJpBoRQwAQEX1SxZJA4= )",
+	"example.com. 3600 IN DS 3613 15 2 (",
+	"    3aa5ab37efce57f737fc1627013fee07bdf241bd10f3b1964ab55c78e79",
+	"    a304b )",
+	"example.com. 3600 IN MX 10 mail.example.com.",
+	"example.com. 3600 IN RRSIG MX 15 2 3600 (",
+	"    1440021600 1438207200 3613 example.com.",
+	"    oL9krJun7xfBOIWcGHi7mag5/hdZrKWw15jPGrHpjQeRAvTdszaPD+QLs3f",
+	"    x8A4M3e23mRZ9VrbpMngwcrqNAg== )",
+]);
+
+// RFC 6605 6.1
+const ecdsa = zone([
+	"example.net. 3600 IN DNSKEY 257 3 13 (",
+	"    GojIhhXUN/u4v54ZQqGSnyhWJwaubCvTmeexv7bR6edb",
+	"    krSqQpF64cYbcB7wNcP+e+MAnLr+Wi9xMWyQLc8NAA== )",
+	"example.net. 3600 IN DS 55648 13 2 (",
+	"    b4c8c1fe2e7477127b27115656ad6256f424625bf5c1",
+	"    e2770ce6d6e37df61d17 )",
+	"www.example.net. 3600 IN A 192.0.2.1",
+	"www.example.net. 3600 IN RRSIG A 13 3 3600 (",
+	"    20100909100439 20100812100439 55648 example.net.",
+	"    qx6wLYqmh+l9oCKTN6qIc+bw6ya+KJ8oMz0YP107epXA",
+	"    yGmt+3SNruPFKG7tZoLBLlUzGGus7ZwmwWep666VCw== )",
+]);
+
+// RFC 5702 6.1
+const rsa = zone([
+	"example.net. 3600 IN DNSKEY 256 3 8 ( AwEAAcFcGsaxxdgiuuGmCkVI",
+	"    my4h99CqT7jwY3pexPGcnUFtR2Fh36BponcwtkZ4cAgtvd4Qs8P",
+	"    kxUdp6p/DlUmObdk= )",
+	"www.example.net. 3600 IN A 192.0.2.91",
+	"www.example.net. 3600 IN RRSIG A 8 3 3600 20300101000000 (",
+	"    20000101000000 9033 example.net. kRCOH6u7l0QGy9qpC9",
+	"    l1sLncJcOKFLJ7GhiUOibu4teYp5VE9RncriShZNz85mwlMgNEa",
+	"    cFYK/lPtPiVYP4bwg== )",
+]);
+
+describe("dnssec", () => {
+	it.effect("computes key tags", () =>
+		Effect.gen(function* () {
+			expect(computeKeyTag((yield* ed25519).dnskey.rdata)).toBe(3613);
+			expect(computeKeyTag((yield* ecdsa).dnskey.rdata)).toBe(55648);
+			expect(computeKeyTag((yield* rsa).dnskey.rdata)).toBe(9033);
+		}),
+	);
+
+	it.effect("verifies Ed25519 signatures", () =>
+		Effect.gen(function* () {
+			const { rrset, rrsig, dnskey } = yield* ed25519;
+			yield* setTime(1439000000);
+
+			yield* verifyRRSIG(rrset, rrsig, dnskey);
+		}),
+	);
+
+	it.effect("verifies ECDSA P-256 signatures", () =>
+		Effect.gen(function* () {
+			const { rrset, rrsig, dnskey } = yield* ecdsa;
+			yield* setTime(1282000000);
+
+			yield* verifyRRSIG(rrset, rrsig, dnskey);
+		}),
+	);
+
+	it.effect("verifies RSA/SHA-256 signatures", () =>
+		Effect.gen(function* () {
+			const { rrset, rrsig, dnskey } = yield* rsa;
+			yield* setTime(1700000000);
+
+			yield* verifyRRSIG(rrset, rrsig, dnskey);
+		}),
+	);
+
+	it.effect("checks DS digests", () =>
+		Effect.gen(function* () {
+			const { dnskey, ds } = yield* ed25519;
+			yield* verifyDS(dnskey, ds);
+
+			const p256 = yield* ecdsa;
+			yield* verifyDS(p256.dnskey, p256.ds);
+		}),
+	);
+
+	it.effect("verifies RRsets regardless of case and order", () =>
+		Effect.gen(function* () {
+			const { rrset, rrsig, dnskey } = yield* ecdsa;
+			yield* setTime(1282000000);
+
+			const uppercase = rrset.map((record) => ({
+				...record,
+				name: {
+					...record.name,
+					labels: record.name.labels.map((label) => label.toUpperCase()),
+				},
+				ttl: 60,
+			}));
+
+			yield* verifyRRSIG([...uppercase, ...rrset], rrsig, dnskey);
+		}),
+	);
+
+	it.effect("rejects tampered RRsets", () =>
+		Effect.gen(function* () {
+			const { rrset, rrsig, dnskey } = yield* ed25519;
+			yield* setTime(1439000000);
+
+			const tampered = rrset.map((record) =>
+				record.type === "MX"
+					? { ...record, rdata: { ...record.rdata, preference: 20 } }
+					: record,
+			);
+
+			const result = yield* Effect.flip(verifyRRSIG(tampered, rrsig, dnskey));
+
+			expect(result).toMatchObject({ reason: "BogusSignature" });
+		}),
+	);
+
+	it.effect("rejects signatures outside of their validity period", () =>
+		Effect.gen(function* () {
+			const { rrset, rrsig, dnskey } = yield* ed25519;
+
+			yield* setTime(1438207199);
+			expect(
+				yield* Effect.flip(verifyRRSIG(rrset, rrsig, dnskey)),
+			).toMatchObject({ reason: "SignatureNotYetValid" });
+
+			yield* setTime(1440021601);
+			expect(
+				yield* Effect.flip(verifyRRSIG(rrset, rrsig, dnskey)),
+			).toMatchObject({ reason: "SignatureExpired" });
+		}),
+	);
+
+	it.effect("rejects keys that do not match the signature", () =>
+		Effect.gen(function* () {
+			const { rrset, rrsig } = yield* ed25519;
+			const { dnskey } = yield* ecdsa;
+			yield* setTime(1439000000);
+
+			const result = yield* Effect.flip(verifyRRSIG(rrset, rrsig, dnskey));
+
+			expect(result).toMatchObject({ reason: "KeyMismatch" });
+		}),
+	);
+
+	it.effect("rejects DS digests of other keys", () =>
+		Effect.gen(function* () {
+			const { dnskey, ds } = yield* ed25519;
+
+			const result = yield* Effect.exit(
+				verifyDS(dnskey, {
+					...ds,
+					rdata: { ...ds.rdata, digest: ds.rdata.digest.map((b) => b ^ 1) },
+				}),
+			);
+
+			expect(Exit.isFailure(result)).toBe(true);
+		}),
+	);
+
+	it.effect("writes wildcard owner names in their unexpanded form", () =>
+		Effect.gen(function* () {
+			const { rrset, rrsig } = yield* ecdsa;
+
+			const [wire] = yield* canonicalizeRRset(
+				rrset.map((record): ResourceRecord => ({
+					...record,
+					name: { ...record.name, labels: ["A", "www", "example", "net"] },
+				})),
+				rrsig.rdata,
+			);
+
+			// *.www.example.net, with the Original TTL
+			expect(Array.from(wire!.subarray(0, 3))).toEqual([1, 0x2a, 3]);
+			expect(Array.from(wire!.subarray(23, 27))).toEqual([0, 0, 0x0e, 0x10]);
+		}),
+	);
+});
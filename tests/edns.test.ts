@@ -0,0 +1,274 @@
+import { describe, expect, it } from "@effect/vitest";
+import { Effect, Exit, Schema } from "effect";
+import type { Opt } from "../src/edns";
+import { MessageFromUint8Array, type Message } from "../src/message";
+import { decodeSyncNameFromString } from "../src/name";
+import { ResourceRecord } from "../src/resource-record";
+
+const query: Message = {
+	header: {
+		id: 0xabcd,
+		qr: 0,
+		opcode: "QUERY",
+		aa: 0,
+		tc: 0,
+		rd: 1,
+		ra: 0,
+		z: 0,
+		rcode: "NOERROR",
+		qdcount: 1,
+		ancount: 0,
+		nscount: 0,
+		arcount: 0,
+	},
+	question: [{ qname: decodeSyncNameFromString("a.io"), qtype: 1, qclass: 1 }],
+	answer: [],
+	authority: [],
+	additional: [],
+};
+
+const opt: Opt = {
+	udpPayloadSize: 1232,
+	version: 0,
+	dnssecOk: 1,
+	options: [],
+};
+
+// Header with ARCOUNT 1 and QNAME a.io, QTYPE A, QCLASS IN
+const queryBytes = [
+	0xab, 0xcd, 0x01, 0x00, 0x00, 0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x01, 1, 97,
+	2, 105, 111, 0, 0x00, 0x01, 0x00, 0x01,
+];
+
+const roundtrip = (message: Message) =>
+	Effect.flatMap(
+		Schema.encode(MessageFromUint8Array)(message),
+		Schema.decode(MessageFromUint8Array),
+	);
+
+describe("edns", () => {
+	it.effect("encodes the OPT RR last in the additional section", () =>
+		Effect.gen(function* () {
+			const uint8Array = yield* Schema.encode(MessageFromUint8Array)({
+				...query,
+				opt,
+			});
+
+			expect(Array.from(uint8Array)).toEqual([
+				...queryBytes,
+				// NAME: root, TYPE: OPT, CLASS: 1232
+				...[0, 0x00, 0x29, 0x04, 0xd0],
+				// EXTENDED-RCODE 0, VERSION 0, DO
+				...[0x00, 0x00, 0x80, 0x00],
+				// RDLEN
+				...[0x00, 0x00],
+			]);
+		}),
+	);
+
+	it.effect("decodes the OPT RR out of the additional section", () =>
+		Effect.gen(function* () {
+			const message = yield* Schema.decode(MessageFromUint8Array)(
+				new Uint8Array([
+					...queryBytes,
+					// CLASS: 4096
+					...[0, 0x00, 0x29, 0x10, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00],
+				]),
+			);
+
+			expect(message.additional).toEqual([]);
+			expect(message.opt).toEqual({
+				udpPayloadSize: 4096,
+				version: 0,
+				dnssecOk: 0,
+				options: [],
+			});
+		}),
+	);
+
+	it.effect("has no OPT RR unless one is present", () =>
+		Effect.gen(function* () {
+			const message = yield* roundtrip(query);
+
+			expect(message).not.toHaveProperty("opt");
+		}),
+	);
+
+	it.effect("roundtrips typed options", () =>
+		Effect.gen(function* () {
+			const options: Opt["options"] = [
+				{ code: "NSID", nsid: new Uint8Array([0x6e, 0x73, 0x31]) },
+				{
+					code: "ECS",
+					family: 1,
+					sourcePrefixLength: 24,
+					scopePrefixLength: 0,
+					address: "192.0.2.0",
+				},
+				{
+					code: "ECS",
+					family: 2,
+					sourcePrefixLength: 56,
+					scopePrefixLength: 48,
+					address: "2001:db8:0:ab00::",
+				},
+				{ code: "COOKIE", client: new Uint8Array(8).fill(1) },
+				{
+					code: "COOKIE",
+					client: new Uint8Array(8).fill(1),
+					server: new Uint8Array(16).fill(2),
+				},
+				{ code: "PADDING", length: 12 },
+				{ code: 65001, data: new Uint8Array([1, 2, 3]) },
+			];
+
+			const message = yield* roundtrip({ ...query, opt: { ...opt, options } });
+
+			expect(message.opt?.options).toEqual(options);
+		}),
+	);
+
+	it.effect("truncates client subnet addresses to the source prefix", () =>
+		Effect.gen(function* () {
+			const uint8Array = yield* Schema.encode(MessageFromUint8Array)({
+				...query,
+				opt: {
+					...opt,
+					options: [
+						{
+							code: "ECS",
+							family: 1,
+							sourcePrefixLength: 20,
+							scopePrefixLength: 0,
+							address: "198.51.100.7",
+						},
+					],
+				},
+			});
+
+			// OPTION-CODE 8, OPTION-LENGTH 7, FAMILY 1, SOURCE 20, SCOPE 0
+			expect(Array.from(uint8Array.subarray(-11))).toEqual([
+				0x00, 0x08, 0x00, 0x07, 0x00, 0x01, 20, 0, 198, 51, 96,
+			]);
+		}),
+	);
+
+	it.effect("rejects client subnet addresses with bits beyond the prefix", () =>
+		Effect.gen(function* () {
+			const result = yield* Effect.exit(
+				Schema.decode(MessageFromUint8Array)(
+					new Uint8Array([
+						...queryBytes,
+						...[0, 0x00, 0x29, 0x04, 0xd0, 0x00, 0x00, 0x00, 0x00, 0x00, 11],
+						...[0x00, 0x08, 0x00, 0x07, 0x00, 0x01, 20, 0, 198, 51, 100],
+					]),
+				),
+			);
+
+			expect(Exit.isFailure(result)).toBe(true);
+		}),
+	);
+
+	it.effect("rejects cookies of the wrong length", () =>
+		Effect.gen(function* () {
+			const result = yield* Effect.exit(
+				Schema.decode(MessageFromUint8Array)(
+					new Uint8Array([
+						...queryBytes,
+						...[0, 0x00, 0x29, 0x04, 0xd0, 0x00, 0x00, 0x00, 0x00, 0x00, 8],
+						...[0x00, 0x0a, 0x00, 0x04, 1, 2, 3, 4],
+					]),
+				),
+			);
+
+			expect(Exit.isFailure(result)).toBe(true);
+		}),
+	);
+
+	it.effect("combines the extended RCODE with the header RCODE", () =>
+		Effect.gen(function* () {
+			const response: Message = {
+				...query,
+				header: { ...query.header, qr: 1, rcode: "BADVERS" },
+				opt,
+			};
+
+			const uint8Array = yield* Schema.encode(MessageFromUint8Array)(response);
+
+			// RCODE 0 in the header and EXTENDED-RCODE 1 in the OPT RR
+			expect(uint8Array[3]! & 0x0f).toBe(0);
+			expect(uint8Array[uint8Array.byteLength - 6]).toBe(1);
+
+			const message = yield* Schema.decode(MessageFromUint8Array)(uint8Array);
+
+			expect(message.header.rcode).toBe("BADVERS");
+		}),
+	);
+
+	it.effect("requires an OPT RR for extended RCODEs", () =>
+		Effect.gen(function* () {
+			const result = yield* Effect.exit(
+				Schema.encode(MessageFromUint8Array)({
+					...query,
+					header: { ...query.header, rcode: "BADCOOKIE" },
+				}),
+			);
+
+			expect(Exit.isFailure(result)).toBe(true);
+		}),
+	);
+
+	it.effect("rejects messages with more than one OPT RR", () =>
+		Effect.gen(function* () {
+			const result = yield* Effect.exit(
+				Schema.decode(MessageFromUint8Array)(
+					new Uint8Array([
+						...queryBytes.slice(0, 11),
+						2,
+						...queryBytes.slice(12),
+						...[0, 0x00, 0x29, 0x04, 0xd0, 0, 0, 0, 0, 0, 0],
+						...[0, 0x00, 0x29, 0x04, 0xd0, 0, 0, 0, 0, 0, 0],
+					]),
+				),
+			);
+
+			expect(Exit.isFailure(result)).toBe(true);
+		}),
+	);
+
+	it.effect("rejects OPT RRs outside of the additional section", () =>
+		Effect.gen(function* () {
+			const result = yield* Effect.exit(
+				Schema.decode(MessageFromUint8Array)(
+					new Uint8Array([
+						...queryBytes.slice(0, 7),
+						1,
+						...queryBytes.slice(8, 11),
+						0,
+						...queryBytes.slice(12),
+						...[0, 0x00, 0x29, 0x04, 0xd0, 0, 0, 0, 0, 0, 0],
+					]),
+				),
+			);
+
+			expect(Exit.isFailure(result)).toBe(true);
+		}),
+	);
+
+	it.effect("does not decode TYPE41 as an unknown RR type", () =>
+		Effect.gen(function* () {
+			const result = yield* Effect.exit(
+				Schema.decodeUnknown(ResourceRecord)({
+					name: { labels: [], encodedByteLength: 1 },
+					type: 41,
+					class: 1,
+					ttl: 0,
+					rdlength: 0,
+					rdata: { data: new Uint8Array() },
+				}),
+			);
+
+			expect(Exit.isFailure(result)).toBe(true);
+		}),
+	);
+});
@@ -1,14 +1,21 @@
 import { describe, expect, it } from "@effect/vitest";
-import { Effect, Exit } from "effect";
+import { Effect, Exit, Schema } from "effect";
 import {
 	decodeHeaderFromUint8Array,
 	encodeHeaderToUint8Array,
+	Header,
+	HeaderFromUint8Array,
 } from "../src/header";
 import {
 	arbitraryValidDnsHeaderUint8Array,
 	arbitraryInvalidDnsHeaderUint8Array,
 } from "./arbitraries";
 
+const HeaderWithNamesFromUint8Array = Schema.compose(
+	HeaderFromUint8Array,
+	Header,
+);
+
 describe("header", () => {
 	it.effect.prop(
 		"successfully decodes valid RFC-compliant headers",
@@ -40,8 +47,6 @@ describe("header", () => {
 				);
 				// RFC 1035 requires rejection of:
 				// - Non-zero Z field
-				// - Reserved opcodes 3-15
-				// - Reserved rcodes 6-15
 				expect(Exit.isFailure(result)).toBe(true);
 			}),
 	);
@@ -60,36 +65,74 @@ describe("header", () => {
 		}),
 	);
 
-	it.effect("validates reserved opcode values", () =>
+	it.effect("decodes opcodes assigned after RFC 1035 and unassigned ones", () =>
 		Effect.gen(function* () {
-			// RFC 1035: opcodes 3-15 are "reserved for future use"
-			const reservedOpcodes = [3, 4, 5, 15];
-
-			for (const opcode of reservedOpcodes) {
+			const opcodes = [
+				[3, 3],
+				[4, "NOTIFY"],
+				[5, "UPDATE"],
+				[6, "DSO"],
+				[15, 15],
+			] as const;
+
+			for (const [nibble, opcode] of opcodes) {
 				const headerBytes = new Uint8Array(12);
 				const dataView = new DataView(headerBytes.buffer);
-				dataView.setUint8(2, (opcode & 0x0f) << 3);
+				dataView.setUint8(2, (nibble & 0x0f) << 3);
 
-				const result = yield* Effect.exit(
-					decodeHeaderFromUint8Array(headerBytes),
+				const header = yield* Schema.decode(HeaderWithNamesFromUint8Array)(
+					headerBytes,
 				);
-				expect(Exit.isFailure(result)).toBe(true);
+				expect(header.opcode).toBe(opcode);
+				expect(
+					yield* Schema.encode(HeaderWithNamesFromUint8Array)(header),
+				).toEqual(headerBytes);
 			}
 		}),
 	);
 
-	it.effect("validates reserved rcode values", () =>
+	it.effect("decodes rcodes assigned after RFC 1035 and unassigned ones", () =>
 		Effect.gen(function* () {
-			// RFC 1035: rcodes 6-15 are "Reserved for future use"
-			const reservedRcodes = [6, 7, 8, 15];
-
-			for (const rcode of reservedRcodes) {
+			const rcodes = [
+				[6, "YXDOMAIN"],
+				[7, "YXRRSET"],
+				[8, "NXRRSET"],
+				[9, "NOTAUTH"],
+				[10, "NOTZONE"],
+				[11, "DSOTYPENI"],
+				[12, 12],
+				[15, 15],
+			] as const;
+
+			for (const [nibble, rcode] of rcodes) {
 				const headerBytes = new Uint8Array(12);
 				const dataView = new DataView(headerBytes.buffer);
-				dataView.setUint8(3, rcode & 0x0f);
+				dataView.setUint8(2, 0x80);
+				dataView.setUint8(3, nibble & 0x0f);
+
+				const header = yield* Schema.decode(HeaderWithNamesFromUint8Array)(
+					headerBytes,
+				);
+				expect(header.rcode).toBe(rcode);
+				expect(
+					yield* Schema.encode(HeaderWithNamesFromUint8Array)(header),
+				).toEqual(headerBytes);
+			}
+		}),
+	);
+
+	it.effect("fails to encode assigned opcodes and rcodes as numbers", () =>
+		Effect.gen(function* () {
+			const header = yield* Schema.decode(HeaderWithNamesFromUint8Array)(
+				new Uint8Array(12),
+			);
 
+			for (const invalid of [{ opcode: 4 }, { rcode: 3 }]) {
 				const result = yield* Effect.exit(
-					decodeHeaderFromUint8Array(headerBytes),
+					Schema.encode(HeaderWithNamesFromUint8Array)({
+						...header,
+						...invalid,
+					}),
 				);
 				expect(Exit.isFailure(result)).toBe(true);
 			}
@@ -170,4 +213,3 @@ describe("header", () => {
 		}),
 	);
 });
-
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "@effect/vitest";
+import { Effect, Schema } from "effect";
+import {
+	isInverseQuery,
+	makeInverseQuery,
+	validateInverseQuery,
+} from "../src/inverse-query";
+import { MessageFromUint8Array, type Message } from "../src/message";
+import { decodeSyncNameFromString } from "../src/name";
+import type { ResourceRecord } from "../src/resource-record";
+
+const record: ResourceRecord = {
+	name: decodeSyncNameFromString("."),
+	type: "A",
+	class: "IN",
+	ttl: 0,
+	rdlength: 4,
+	rdata: { address: "10.1.0.52" },
+};
+
+describe("inverse query", () => {
+	it.effect("builds the inverse query of RFC 1035 6.4.2", () =>
+		Effect.gen(function* () {
+			const query = makeInverseQuery(997, record);
+			const decoded = yield* Schema.decode(MessageFromUint8Array)(
+				yield* Schema.encode(MessageFromUint8Array)(query),
+			);
+
+			expect(decoded.header).toMatchObject({
+				id: 997,
+				qr: 0,
+				opcode: "IQUERY",
+				qdcount: 0,
+				ancount: 1,
+			});
+			expect(decoded.question).toEqual([]);
+			expect(decoded.answer).toMatchObject([
+				{ type: "A", rdata: { address: "10.1.0.52" } },
+			]);
+			expect(yield* validateInverseQuery(decoded)).toEqual(decoded);
+		}),
+	);
+
+	it.effect("rejects messages of another shape", () =>
+		Effect.gen(function* () {
+			const query = makeInverseQuery(997, record);
+			const invalid: Array<[Message, string]> = [
+				[
+					{ ...query, header: { ...query.header, opcode: "QUERY" } },
+					"Inverse queries must have the IQUERY opcode, received 'QUERY'",
+				],
+				[
+					{ ...query, header: { ...query.header, qr: 1 } },
+					"Inverse queries must not be responses",
+				],
+				[
+					{
+						...query,
+						question: [{ qname: record.name, qtype: 1, qclass: 1 }],
+					},
+					"Inverse queries must have an empty question section, received 1 questions",
+				],
+				[
+					{ ...query, answer: [record, record] },
+					"Inverse queries must have a single RR in the answer section, received 2",
+				],
+			];
+
+			for (const [message, expected] of invalid) {
+				expect(isInverseQuery(message)).toBe(false);
+
+				const error = yield* Effect.flip(validateInverseQuery(message));
+
+				expect(error.message).toContain(expected);
+			}
+		}),
+	);
+});
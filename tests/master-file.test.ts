@@ -0,0 +1,447 @@
+import { describe, expect, it } from "@effect/vitest";
+import { Effect, Exit, Schema } from "effect";
+import { decodeMasterFile, encodeMasterFile } from "../src/master-file";
+import { MessageFromUint8Array } from "../src/message";
+import { decodeSyncNameFromString } from "../src/name";
+import type { ResourceRecord } from "../src/resource-record";
+
+const origin = decodeSyncNameFromString("ISI.EDU.");
+
+const summarize = (records: ReadonlyArray<ResourceRecord>) =>
+	records.map((record) => [
+		record.name.labels.join("."),
+		record.ttl,
+		record.class,
+		record.type,
+	]);
+
+describe("master file", () => {
+	it.effect("parses the example zone of RFC 1035 5.3", () =>
+		Effect.gen(function* () {
+			const records = yield* decodeMasterFile(
+				[
+					"@   IN  SOA     VENERA      Action (",
+					"                                 20     ; SERIAL",
+					"                                 7200   ; REFRESH",
+					"                                 600    ; RETRY",
+					"                                 3600000; EXPIRE",
+					"                                 60)    ; MINIMUM",
+					"",
+					"        NS      A.ISI.EDU.",
+					"        NS      VENERA",
+					"        NS      VAXA",
+					"        MX      10      VENERA",
+					"        MX      20      VAXA",
+					"",
+					"A       A       26.3.0.103",
+					"",
+					"VENERA  A       10.1.0.52",
+					"        A       128.9.0.32",
+					"",
+					"VAXA    A       10.2.0.27",
+					"        A       128.9.0.33",
+				].join("\n"),
+				{ origin, ttl: 3600 },
+			);
+
+			expect(summarize(records)).toEqual([
+				["ISI.EDU", 3600, "IN", "SOA"],
+				["ISI.EDU", 3600, "IN", "NS"],
+				["ISI.EDU", 3600, "IN", "NS"],
+				["ISI.EDU", 3600, "IN", "NS"],
+				["ISI.EDU", 3600, "IN", "MX"],
+				["ISI.EDU", 3600, "IN", "MX"],
+				["A.ISI.EDU", 3600, "IN", "A"],
+				["VENERA.ISI.EDU", 3600, "IN", "A"],
+				["VENERA.ISI.EDU", 3600, "IN", "A"],
+				["VAXA.ISI.EDU", 3600, "IN", "A"],
+				["VAXA.ISI.EDU", 3600, "IN", "A"],
+			]);
+
+			expect(records[0]).toEqual({
+				name: { labels: ["ISI", "EDU"], encodedByteLength: 9 },
+				type: "SOA",
+				class: "IN",
+				ttl: 3600,
+				rdlength: 52,
+				rdata: {
+					mname: { labels: ["VENERA", "ISI", "EDU"], encodedByteLength: 16 },
+					rname: { labels: ["Action", "ISI", "EDU"], encodedByteLength: 16 },
+					serial: 20,
+					refresh: 7200,
+					retry: 600,
+					expire: 3600000,
+					minimum: 60,
+				},
+			});
+			expect(records[4]?.rdata).toEqual({
+				preference: 10,
+				exchange: { labels: ["VENERA", "ISI", "EDU"], encodedByteLength: 16 },
+			});
+			expect(records[8]?.rdata).toEqual({ address: "128.9.0.32" });
+		}),
+	);
+
+	it.effect("applies $ORIGIN, $TTL and the last stated TTL and class", () =>
+		Effect.gen(function* () {
+			const records = yield* decodeMasterFile(
+				[
+					"$ORIGIN example.com.",
+					"www     300 IN  A   192.0.2.1",
+					"        A           192.0.2.2",
+					"mail    CH  60  A   192.0.2.3",
+					"$TTL 86400",
+					"$ORIGIN sub",
+					"@       CNAME       www.example.com.",
+					"host    IN  A       192.0.2.4",
+				].join("\n"),
+			);
+
+			expect(summarize(records)).toEqual([
+				["www.example.com", 300, "IN", "A"],
+				["www.example.com", 300, "IN", "A"],
+				["mail.example.com", 60, "CH", "A"],
+				["sub.example.com", 86400, "CH", "CNAME"],
+				["host.sub.example.com", 86400, "IN", "A"],
+			]);
+		}),
+	);
+
+	it.effect("parses quoted character-strings and escapes", () =>
+		Effect.gen(function* () {
+			const records = yield* decodeMasterFile(
+				[
+					'@ 60 HINFO "VAX-11/780" UNIX',
+					'  TXT "v=spf1 -all; no mail" "say \\"hi\\"" a\\032b \\255',
+					'  TXT ""',
+				].join("\n"),
+				{ origin },
+			);
+
+			expect(records.map((record) => record.rdata)).toEqual([
+				{ cpu: "VAX-11/780", os: "UNIX" },
+				{ txtData: ["v=spf1 -all; no mail", 'say "hi"', "a b", "ÿ"] },
+				{ txtData: [""] },
+			]);
+			expect(records[1]?.rdlength).toBe(21 + 9 + 4 + 2);
+		}),
+	);
+
+	it.effect("encodes WKS services as a bitmap", () =>
+		Effect.gen(function* () {
+			const [record] = yield* decodeMasterFile(
+				"@ 60 WKS 10.0.0.1 TCP 21 25\n",
+				{ origin },
+			);
+
+			expect(record?.rdata).toEqual({
+				address: "10.0.0.1",
+				protocol: 6,
+				// ftp (21) and smtp (25)
+				bitmap: new Uint8Array([0, 0, 0x04, 0x40]),
+			});
+		}),
+	);
+
+	it.effect("reads $INCLUDE files with their own origin", () =>
+		Effect.gen(function* () {
+			const files: Record<string, string> = {
+				"hosts.zone": "$ORIGIN other.\nhost A 10.0.0.1\n",
+				"mail.zone": "mx MX 10 host\n",
+			};
+			const includedFiles: Array<string> = [];
+
+			const records = yield* decodeMasterFile(
+				[
+					"$TTL 60",
+					"$INCLUDE hosts.zone hosts ; comment",
+					"$INCLUDE mail.zone",
+					"after A 10.0.0.2",
+				].join("\n"),
+				{
+					origin,
+					readFile: (fileName) => {
+						includedFiles.push(fileName);
+						return Effect.succeed(files[fileName] ?? "");
+					},
+				},
+			);
+
+			expect(includedFiles).toEqual(["hosts.zone", "mail.zone"]);
+			expect(summarize(records)).toEqual([
+				["host.other", 60, "IN", "A"],
+				["mx.ISI.EDU", 60, "IN", "MX"],
+				["after.ISI.EDU", 60, "IN", "A"],
+			]);
+		}),
+	);
+
+	it.effect("rejects malformed master files", () =>
+		Effect.gen(function* () {
+			const invalidMasterFiles = [
+				// relative name without origin
+				["www 60 A 10.0.0.1", {}],
+				// no TTL stated
+				["@ A 10.0.0.1", { origin }],
+				["@ 60 FOO bar", { origin }],
+				["@ 60 A 10.0.0", { origin }],
+				["@ 60 MX 10", { origin }],
+				["@ 60 MX 10 host extra", { origin }],
+				["@ 60 SOA a b ( 1 2 3 4 5", { origin }],
+				["@ 60 A 10.0.0.1 )", { origin }],
+				['@ 60 TXT "unterminated', { origin }],
+				["@ 60 NULL", { origin }],
+				["  60 A 10.0.0.1", { origin }],
+				["$INCLUDE other.zone", { origin }],
+				["$ORIGN example.com.", { origin }],
+				// labels are validated like the wire decoder does
+				["bad_label 60 A 10.0.0.1", { origin }],
+				["@ 60 MX 70000 host", { origin }],
+			] as const;
+
+			for (const [text, options] of invalidMasterFiles) {
+				const result = yield* Effect.exit(decodeMasterFile(text, options));
+				expect(Exit.isFailure(result), text).toBe(true);
+			}
+		}),
+	);
+
+	it.effect("reports the line of an invalid entry", () =>
+		Effect.gen(function* () {
+			const result = yield* Effect.exit(
+				decodeMasterFile("$TTL 60\n\n@ A 10.0.0.1\n@ A 10.0.0.256\n", {
+					origin,
+				}),
+			);
+
+			expect(Exit.isFailure(result)).toBe(true);
+			expect(String(result)).toContain("Line 4");
+		}),
+	);
+
+	it.effect("rejects $INCLUDE cycles", () =>
+		Effect.gen(function* () {
+			const result = yield* Effect.exit(
+				decodeMasterFile("$INCLUDE self.zone", {
+					origin,
+					readFile: () => Effect.succeed("$INCLUDE self.zone"),
+				}),
+			);
+
+			expect(Exit.isFailure(result)).toBe(true);
+		}),
+	);
+});
+
+describe("master file serialization", () => {
+	const exampleOrigin = decodeSyncNameFromString("example.com.");
+
+	const zone = [
+		"$TTL 3600",
+		"@ IN SOA ns1 hostmaster 2024010101 7200 3600 1209600 300",
+		"@ IN NS ns1",
+		"@ IN NS ns.other.net.",
+		"www 300 IN A 192.0.2.1",
+		"www.example.com. IN MX 10 mail",
+		'@ IN TXT "v=spf1 -all" "a\\"b\\009"',
+	].join("\n");
+
+	it.effect("writes aligned, relative and parenthesized entries", () =>
+		Effect.gen(function* () {
+			const records = yield* decodeMasterFile(zone, { origin: exampleOrigin });
+			const text = yield* encodeMasterFile(records, { origin: exampleOrigin });
+
+			expect(text).toBe(
+				[
+					"$ORIGIN example.com.",
+					"$TTL 3600",
+					"@       IN SOA ns1 hostmaster (",
+					"               2024010101 ; SERIAL",
+					"               7200       ; REFRESH",
+					"               3600       ; RETRY",
+					"               1209600    ; EXPIRE",
+					"               300 )      ; MINIMUM",
+					"@       IN NS  ns1",
+					"@       IN NS  ns.other.net.",
+					"www 300 IN A   192.0.2.1",
+					"www     IN MX  10 mail",
+					'@       IN TXT "v=spf1 -all" "a\\"b\\009"',
+					"",
+				].join("\n"),
+			);
+		}),
+	);
+
+	it.effect("roundtrips through the master file parser", () =>
+		Effect.gen(function* () {
+			const records = yield* decodeMasterFile(
+				[
+					zone,
+					"@ IN HINFO VAX UNIX",
+					"@ IN WKS 10.0.0.1 UDP 53",
+					"@ IN MINFO owner errors.other.net.",
+					"@ IN AAAA 2001:DB8:0::0:1",
+					"_ldap._tcp IN SRV 0 5 389 ldap",
+					"alias IN CNAME www",
+					"Host.EXAMPLE.COM. IN A 10.0.0.2",
+					"@ IN DNSKEY 257 3 15 l02Woi0iS8Aa25FQkUd9RMzZHJpBoRQwAQEX1SxZJA4=",
+					"@ IN DS 3613 15 2 3AA5AB37EFCE57F737FC1627013FEE07BDF241BD10F3B1964AB55C78E79A304B",
+					"@ IN RRSIG MX 15 2 3600 20150819220000 20150729220000 3613 @ (",
+					"    oL9krJun7xfBOIWcGHi7mag5/hdZrKWw15jPGrHpjQeRAvTdszaPD+QLs3f",
+					"    x8A4M3e23mRZ9VrbpMngwcrqNAg== )",
+					"@ IN NSEC www A MX RRSIG NSEC TYPE65534",
+					"@ IN NSEC3PARAM 1 0 0 -",
+					"2vptu5timamqttgl4luu9kg21e0aor3s IN NSEC3 1 1 12 AABBCCDD 2vptu5timamqttgl4luu9kg21e0aor3s A RRSIG",
+				].join("\n"),
+				{ origin: exampleOrigin },
+			);
+			const text = yield* encodeMasterFile(records, { origin: exampleOrigin });
+
+			expect(yield* decodeMasterFile(text)).toEqual(records);
+		}),
+	);
+
+	it.effect("writes absolute names without an origin", () =>
+		Effect.gen(function* () {
+			const records = yield* decodeMasterFile("@ 60 IN CNAME www\n", {
+				origin: exampleOrigin,
+			});
+
+			expect(yield* encodeMasterFile(records)).toBe(
+				"$TTL 60\nexample.com. IN CNAME www.example.com.\n",
+			);
+		}),
+	);
+
+	it.effect("writes DNSSEC RDATA in its presentation format", () =>
+		Effect.gen(function* () {
+			const records = yield* decodeMasterFile(
+				[
+					"@ 60 IN RRSIG NSEC 13 2 60 1440021600 20150729220000 3613 @ AAECAw==",
+					"@ 60 IN NSEC www A MX RRSIG NSEC TYPE65534",
+					"@ 60 IN DS 3613 13 2 3aa5ab37",
+				].join("\n"),
+				{ origin: exampleOrigin },
+			);
+
+			expect(yield* encodeMasterFile(records, { origin: exampleOrigin })).toBe(
+				[
+					"$ORIGIN example.com.",
+					"$TTL 60",
+					"@ IN RRSIG NSEC 13 2 60 20150819220000 20150729220000 3613 @ AAECAw==",
+					"@ IN NSEC  www A MX RRSIG NSEC TYPE65534",
+					"@ IN DS    3613 13 2 3AA5AB37",
+					"",
+				].join("\n"),
+			);
+		}),
+	);
+
+	it.effect("dumps records captured from the wire decoder", () =>
+		Effect.gen(function* () {
+			const message = yield* Schema.decode(MessageFromUint8Array)(
+				new Uint8Array([
+					// Header, ANCOUNT 2
+					0x00, 0x01, 0x80, 0x00, 0x00, 0x00, 0x00, 0x02, 0x00, 0x00, 0x00,
+					0x00,
+					// NAME: example.com, TYPE A, CLASS IN, TTL 300, RDLENGTH 4
+					7, 101, 120, 97, 109, 112, 108, 101, 3, 99, 111, 109, 0, 0x00, 0x01,
+					0x00, 0x01, 0x00, 0x00, 0x01, 0x2c, 0x00, 0x04, 93, 184, 216, 34,
+					// NAME: pointer to example.com, TYPE MX, TTL 60, RDLENGTH 9
+					0xc0, 0x0c, 0x00, 0x0f, 0x00, 0x01, 0x00, 0x00, 0x00, 0x3c, 0x00,
+					0x09, 0x00, 0x0a, 4, 109, 97, 105, 108, 0xc0, 0x0c,
+				]),
+			);
+
+			const text = yield* encodeMasterFile(message.answer, {
+				origin: exampleOrigin,
+			});
+
+			expect(text).toBe(
+				[
+					"$ORIGIN example.com.",
+					"$TTL 300",
+					"@    IN A  93.184.216.34",
+					"@ 60 IN MX 10 mail",
+					"",
+				].join("\n"),
+			);
+		}),
+	);
+
+	it.effect("reads and writes unknown RRs in the generic encoding", () =>
+		Effect.gen(function* () {
+			const records = yield* decodeMasterFile(
+				[
+					"a CLASS32 TYPE731 \\# 6 abcd (",
+					"                      ef 012345 )",
+					"b CLASS32 TYPE731 \\# 0",
+					"e IN TYPE1 \\# 4 0A000001",
+				].join("\n"),
+				{ origin: exampleOrigin, ttl: 60 },
+			);
+
+			expect(records).toMatchObject([
+				{
+					type: "TYPE731",
+					class: "CLASS32",
+					rdlength: 6,
+					rdata: { data: new Uint8Array([0xab, 0xcd, 0xef, 1, 0x23, 0x45]) },
+				},
+				{ type: "TYPE731", class: "CLASS32", rdlength: 0 },
+				{ type: "A", class: "IN", rdata: { address: "10.0.0.1" } },
+			]);
+
+			const text = yield* encodeMasterFile(records, { origin: exampleOrigin });
+
+			expect(text).toBe(
+				[
+					"$ORIGIN example.com.",
+					"$TTL 60",
+					"a CLASS32 TYPE731 \\# 6 ABCDEF012345",
+					"b CLASS32 TYPE731 \\# 0",
+					"e IN      A       10.0.0.1",
+					"",
+				].join("\n"),
+			);
+			expect(yield* decodeMasterFile(text)).toEqual(records);
+		}),
+	);
+
+	it.effect("rejects malformed generic RDATA", () =>
+		Effect.gen(function* () {
+			for (const entry of [
+				"@ 60 TYPE731 abcd",
+				"@ 60 TYPE731 \\# 3 abcd",
+				"@ 60 TYPE731 \\# 2 abc",
+				"@ 60 TYPE65536 \\# 0",
+				"@ 60 A \\# 3 0a0000",
+			]) {
+				const result = yield* Effect.exit(
+					decodeMasterFile(entry, { origin: exampleOrigin }),
+				);
+
+				expect(Exit.isFailure(result)).toBe(true);
+			}
+		}),
+	);
+
+	it.effect("fails to write NULL records", () =>
+		Effect.gen(function* () {
+			const result = yield* Effect.exit(
+				encodeMasterFile([
+					{
+						name: exampleOrigin,
+						type: "NULL",
+						class: "IN",
+						ttl: 60,
+						rdlength: 1,
+						rdata: { anything: new Uint8Array([0]) },
+					},
+				]),
+			);
+
+			expect(Exit.isFailure(result)).toBe(true);
+		}),
+	);
+});
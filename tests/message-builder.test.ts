@@ -0,0 +1,158 @@
+import { describe, expect, it } from "@effect/vitest";
+import { Effect, pipe, Schema } from "effect";
+import { MessageFromUint8Array } from "../src/message";
+import {
+	makeQuery,
+	makeResponseTo,
+	withAdditional,
+	withAnswer,
+	withAuthority,
+	withFlags,
+	withOpt,
+	withQuestion,
+	withRcode,
+} from "../src/message-builder";
+import { decodeSyncNameFromString } from "../src/name";
+import type { ResourceRecord } from "../src/resource-record";
+
+const www = decodeSyncNameFromString("www.example.com.");
+
+const address = (text: string): ResourceRecord => ({
+	name: www,
+	type: "A",
+	class: "IN",
+	ttl: 3600,
+	rdlength: 4,
+	rdata: { address: text },
+});
+
+describe("makeQuery", () => {
+	it("builds a standard query from a presentation format name", () => {
+		const query = makeQuery("www.example.com.", "AAAA", { id: 7 });
+
+		expect(query.header).toMatchObject({
+			id: 7,
+			qr: 0,
+			opcode: "QUERY",
+			rd: 1,
+			qdcount: 1,
+			ancount: 0,
+			nscount: 0,
+			arcount: 0,
+		});
+		expect(query.question).toEqual([{ qname: www, qtype: 28, qclass: 1 }]);
+	});
+
+	it("accepts QTYPEs and QCLASSes as integers", () => {
+		const query = makeQuery(www, 252, {
+			qclass: 255,
+			recursionDesired: false,
+		});
+
+		expect(query.header.rd).toBe(0);
+		expect(query.question).toEqual([{ qname: www, qtype: 252, qclass: 255 }]);
+	});
+});
+
+describe("makeResponseTo", () => {
+	it("copies the ID, OPCODE, RD bit and question of the query", () => {
+		const query = pipe(
+			makeQuery("www.example.com.", "A", { id: 42, recursionDesired: false }),
+			withOpt({
+				udpPayloadSize: 4096,
+				version: 0,
+				dnssecOk: 1,
+				options: [],
+			}),
+		);
+
+		const response = makeResponseTo(query);
+
+		expect(response.header).toMatchObject({
+			id: 42,
+			qr: 1,
+			opcode: "QUERY",
+			aa: 0,
+			rd: 0,
+			rcode: "NOERROR",
+			qdcount: 1,
+			arcount: 0,
+		});
+		expect(response.question).toBe(query.question);
+		expect(response.opt).toBeUndefined();
+	});
+
+	it.effect("keeps the header counts consistent with the sections", () =>
+		Effect.gen(function* () {
+			const response = pipe(
+				makeResponseTo(makeQuery("www.example.com.", "A", { id: 42 })),
+				withAnswer(address("192.0.2.1")),
+				withAnswer([address("192.0.2.2"), address("192.0.2.3")]),
+				withAuthority(address("192.0.2.4")),
+				withAdditional([]),
+				withFlags({ aa: 1, ra: 1 }),
+				withRcode("NOERROR"),
+			);
+
+			expect(response.header).toMatchObject({
+				aa: 1,
+				ra: 1,
+				qdcount: 1,
+				ancount: 3,
+				nscount: 1,
+				arcount: 0,
+			});
+
+			const decoded = yield* Schema.decode(MessageFromUint8Array)(
+				yield* Schema.encode(MessageFromUint8Array)(response),
+			);
+
+			expect(decoded.header).toEqual(response.header);
+			expect(
+				decoded.answer.map((record) => record.type === "A" && record.rdata),
+			).toEqual([
+				{ address: "192.0.2.1" },
+				{ address: "192.0.2.2" },
+				{ address: "192.0.2.3" },
+			]);
+		}),
+	);
+
+	it("counts the OPT RR in ARCOUNT", () => {
+		const response = withOpt(
+			withAdditional(makeResponseTo(makeQuery(www, "A")), address("192.0.2.1")),
+			{ udpPayloadSize: 1232, version: 0, dnssecOk: 0, options: [] },
+		);
+
+		expect(response.header.arcount).toBe(2);
+	});
+
+	it.effect("sets extended RCODEs carried by the OPT RR", () =>
+		Effect.gen(function* () {
+			const response = pipe(
+				makeResponseTo(makeQuery(www, "A")),
+				withOpt({ udpPayloadSize: 1232, version: 0, dnssecOk: 0, options: [] }),
+				withRcode("BADVERS"),
+			);
+
+			const decoded = yield* Schema.decode(MessageFromUint8Array)(
+				yield* Schema.encode(MessageFromUint8Array)(response),
+			);
+
+			expect(decoded.header.rcode).toBe("BADVERS");
+		}),
+	);
+
+	it("appends questions", () => {
+		const response = withQuestion(makeResponseTo(makeQuery(www, "A")), {
+			qname: www,
+			qtype: 28,
+			qclass: 1,
+		});
+
+		expect(response.header.qdcount).toBe(2);
+		expect(response.question.map((question) => question.qtype)).toEqual([
+			1, 28,
+		]);
+	});
+});
@@ -0,0 +1,275 @@
+import { describe, expect, it } from "@effect/vitest";
+import { Effect, Exit, Schema } from "effect";
+import { MessageFromUint8Array, type Message } from "../src/message";
+
+const makeName = (labels: ReadonlyArray<string>) => ({
+	labels,
+	encodedByteLength: labels.reduce(
+		(bytes, label) => bytes + label.length + 1,
+		1,
+	),
+});
+
+const makeQuestion = (labels: ReadonlyArray<string>) => ({
+	qname: makeName(labels),
+	qtype: 1 as const,
+	qclass: 1 as const,
+});
+
+const header: Message["header"] = {
+	id: 0x1234,
+	qr: 1,
+	opcode: "QUERY",
+	aa: 1,
+	tc: 0,
+	rd: 1,
+	ra: 1,
+	z: 0,
+	rcode: "NOERROR",
+	qdcount: 0,
+	ancount: 0,
+	nscount: 0,
+	arcount: 0,
+};
+
+const response: Message = {
+	header,
+	question: [makeQuestion(["example", "com"])],
+	answer: [
+		{
+			name: makeName(["example", "com"]),
+			type: "A",
+			class: "IN",
+			ttl: 3600,
+			rdlength: 4,
+			rdata: { address: "93.184.216.34" },
+		},
+	],
+	authority: [
+		{
+			name: makeName(["example", "com"]),
+			type: "NS",
+			class: "IN",
+			ttl: 86400,
+			rdlength: 17,
+			rdata: { nsdname: makeName(["ns1", "example", "com"]) },
+		},
+	],
+	additional: [],
+};
+
+describe("message encoding", () => {
+	it.effect("encodes a query to the exact wire format", () =>
+		Effect.gen(function* () {
+			const query: Message = {
+				header: { ...header, id: 0xabcd, qr: 0, aa: 0, ra: 0 },
+				question: [{ qname: makeName(["a", "io"]), qtype: 15, qclass: 1 }],
+				answer: [],
+				authority: [],
+				additional: [],
+			};
+
+			const uint8Array = yield* Schema.encode(MessageFromUint8Array)(query);
+
+			expect(Array.from(uint8Array)).toEqual([
+				// Header
+				0xab, 0xcd, 0x01, 0x00, 0x00, 0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
+				// QNAME
+				1, 97, 2, 105, 111, 0,
+				// QTYPE: MX, QCLASS: IN
+				0x00, 0x0f, 0x00, 0x01,
+			]);
+		}),
+	);
+
+	it.effect("recomputes header counts from the sections", () =>
+		Effect.gen(function* () {
+			const uint8Array = yield* Schema.encode(MessageFromUint8Array)({
+				...response,
+				header: { ...header, qdcount: 7, ancount: 0, nscount: 9, arcount: 3 },
+			});
+
+			const dataView = new DataView(uint8Array.buffer);
+
+			expect(dataView.getUint16(4)).toBe(1);
+			expect(dataView.getUint16(6)).toBe(1);
+			expect(dataView.getUint16(8)).toBe(1);
+			expect(dataView.getUint16(10)).toBe(0);
+		}),
+	);
+
+	it.effect("roundtrips through MessageFromUint8Array", () =>
+		Effect.gen(function* () {
+			const uint8Array = yield* Schema.encode(MessageFromUint8Array)(response);
+			const decoded = yield* Schema.decode(MessageFromUint8Array)(uint8Array);
+
+			expect(decoded.header).toEqual({
+				...header,
+				qdcount: 1,
+				ancount: 1,
+				nscount: 1,
+				arcount: 0,
+			});
+			expect(decoded.question).toEqual(response.question);
+			expect(decoded.answer[0]?.name.labels).toEqual(["example", "com"]);
+			expect(decoded.answer[0]?.rdata).toEqual(response.answer[0]?.rdata);
+			expect(decoded.authority[0]?.name.labels).toEqual(["example", "com"]);
+			expect(decoded.additional).toEqual([]);
+		}),
+	);
+
+	it.effect("writes RDLENGTH from the RDATA being encoded", () =>
+		Effect.gen(function* () {
+			const uint8Array = yield* Schema.encode(MessageFromUint8Array)({
+				...response,
+				question: [],
+				authority: [],
+				answer: [{ ...response.answer[0]!, rdlength: 42 }],
+			});
+
+			// header + NAME + TYPE + CLASS + TTL
+			const rdlengthOffset = 12 + 13 + 8;
+			const dataView = new DataView(uint8Array.buffer);
+
+			expect(dataView.getUint16(rdlengthOffset)).toBe(4);
+			expect(uint8Array.byteLength).toBe(rdlengthOffset + 2 + 4);
+		}),
+	);
+
+	it.effect("fails to encode a label longer than 63 bytes", () =>
+		Effect.gen(function* () {
+			const result = yield* Effect.exit(
+				Schema.encode(MessageFromUint8Array)({
+					...response,
+					question: [makeQuestion(["a".repeat(64), "com"])],
+				}),
+			);
+
+			expect(Exit.isFailure(result)).toBe(true);
+		}),
+	);
+
+	describe("name compression", () => {
+		it.effect("replaces repeated names with pointers", () =>
+			Effect.gen(function* () {
+				const uint8Array = yield* Schema.encode(MessageFromUint8Array)(
+					response,
+				);
+
+				// QNAME is written in full at offset 12 (0x0c)
+				const answerOffset = 12 + 13 + 4;
+
+				expect(
+					Array.from(uint8Array.subarray(answerOffset, answerOffset + 2)),
+				).toEqual([0xc0, 0x0c]);
+			}),
+		);
+
+		it.effect("compresses domain names embedded in RDATA", () =>
+			Effect.gen(function* () {
+				const uint8Array = yield* Schema.encode(MessageFromUint8Array)(
+					response,
+				);
+
+				// header + question + answer + authority NAME, TYPE, CLASS, TTL
+				const rdlengthOffset = 12 + 17 + 16 + 2 + 8;
+				const dataView = new DataView(uint8Array.buffer);
+
+				// 'ns1' followed by a pointer to 'example.com' in the question
+				expect(dataView.getUint16(rdlengthOffset)).toBe(6);
+				expect(
+					Array.from(
+						uint8Array.subarray(rdlengthOffset + 2, rdlengthOffset + 8),
+					),
+				).toEqual([3, 110, 115, 49, 0xc0, 0x0c]);
+				expect(uint8Array.byteLength).toBe(rdlengthOffset + 8);
+
+				const decoded = yield* Schema.decode(MessageFromUint8Array)(uint8Array);
+
+				expect(decoded.authority[0]?.rdlength).toBe(6);
+			}),
+		);
+
+		it.effect("reuses the longest previously written suffix", () =>
+			Effect.gen(function* () {
+				const uint8Array = yield* Schema.encode(MessageFromUint8Array)({
+					header,
+					question: [
+						makeQuestion(["www", "example", "com"]),
+						makeQuestion(["mail", "example", "com"]),
+						makeQuestion(["example", "com"]),
+						makeQuestion(["com"]),
+					],
+					answer: [],
+					authority: [],
+					additional: [],
+				});
+
+				expect(Array.from(uint8Array.subarray(12))).toEqual([
+					// www.example.com
+					3, 119, 119, 119, 7, 101, 120, 97, 109, 112, 108, 101, 3, 99, 111,
+					109, 0, 0, 1, 0, 1,
+					// mail + pointer to example.com
+					4, 109, 97, 105, 108, 0xc0, 16, 0, 1, 0, 1,
+					// pointer to example.com
+					0xc0, 16, 0, 1, 0, 1,
+					// pointer to com
+					0xc0, 24, 0, 1, 0, 1,
+				]);
+
+				const decoded = yield* Schema.decode(MessageFromUint8Array)(uint8Array);
+
+				expect(
+					decoded.question.map((question) => question.qname.labels),
+				).toEqual([
+						["www", "example", "com"],
+						["mail", "example", "com"],
+						["example", "com"],
+						["com"],
+					]);
+			}),
+		);
+
+		it.effect("decodes chained pointers written by the encoder", () =>
+			Effect.gen(function* () {
+				const uint8Array = yield* Schema.encode(MessageFromUint8Array)({
+					header,
+					question: [
+						makeQuestion(["example", "com"]),
+						makeQuestion(["b", "example", "com"]),
+						makeQuestion(["a", "b", "example", "com"]),
+					],
+					answer: [],
+					authority: [],
+					additional: [],
+				});
+
+				const decoded = yield* Schema.decode(MessageFromUint8Array)(uint8Array);
+
+				expect(decoded.question[2]?.qname).toEqual({
+					labels: ["a", "b", "example", "com"],
+					// 'a' + pointer to 'b' which in turn points to 'example.com'
+					encodedByteLength: 4,
+				});
+			}),
+		);
+
+		it.effect("rejects pointers that do not point backwards", () =>
+			Effect.gen(function* () {
+				const result = yield* Effect.exit(
+					Schema.decode(MessageFromUint8Array)(
+						new Uint8Array([
+							// Header
+							0x00, 0x01, 0x00, 0x00, 0x00, 0x01, 0x00, 0x00, 0x00, 0x00, 0x00,
+							0x00,
+							// QNAME pointing at itself
+							0xc0, 0x0c, 0x00, 0x01, 0x00, 0x01,
+						]),
+					),
+				);
+
+				expect(Exit.isFailure(result)).toBe(true);
+			}),
+		);
+	});
+});
@@ -18,6 +18,10 @@ import {
 	arbitraryInvalidDnsHeaderUint8Array,
 } from "./arbitraries";
 import { RRTypeNameToRRType } from "../src";
+import { Header } from "../src/header";
+
+// The labels of the arbitraries are bytes, and those of decoded names strings
+const decodeLabel = (label: Uint8Array) => new TextDecoder().decode(label);
 
 describe("message", () => {
 	it.effect.prop(
@@ -37,17 +41,18 @@ describe("message", () => {
 
 				if (Exit.isSuccess(result)) {
 					const message = result.value;
+					const expectedHeader = Schema.decodeUnknownSync(Header)(header);
 
 					// Validate header fields
 					expect(message.header.id).toBe(header.id);
 					expect(message.header.qr).toBe(header.qr);
-					expect(message.header.opcode).toBe(header.opcode);
+					expect(message.header.opcode).toBe(expectedHeader.opcode);
 					expect(message.header.aa).toBe(header.aa);
 					expect(message.header.tc).toBe(header.tc);
 					expect(message.header.rd).toBe(header.rd);
 					expect(message.header.ra).toBe(header.ra);
 					expect(message.header.z).toBe(header.z);
-					expect(message.header.rcode).toBe(header.rcode);
+					expect(message.header.rcode).toBe(expectedHeader.rcode);
 					expect(message.header.qdcount).toBe(header.qdcount);
 					expect(message.header.ancount).toBe(header.ancount);
 					expect(message.header.nscount).toBe(header.nscount);
@@ -65,8 +70,8 @@ describe("message", () => {
 					);
 
 					for (let i = 0; i < expectedQuestion.qname.length; i++) {
-						expect(Array.from(actualQuestion.qname.labels[i]!)).toEqual(
-							Array.from(expectedQuestion.qname[i]!),
+						expect(actualQuestion.qname.labels[i]).toBe(
+							decodeLabel(expectedQuestion.qname[i]!),
 						);
 					}
 					expect(expectedQuestion.qtype).toBe(actualQuestion.qtype);
@@ -82,7 +87,6 @@ describe("message", () => {
 					expect(message.additional).toHaveLength(header.arcount);
 				}
 			}),
-		{ only: true },
 	);
 
 	it.effect.prop(
@@ -173,20 +177,8 @@ describe("message", () => {
 				expect(message.header.rd).toBe(1);
 				expect(message.question).toHaveLength(1);
 				expect(message.question[0]!.qname.labels).toHaveLength(2);
-				expect(Array.from(message.question[0]!.qname.labels[0]!)).toEqual([
-					101,
-					120,
-					97,
-					109,
-					112,
-					108,
-					101, // "example"
-				]);
-				expect(Array.from(message.question[0]!.qname.labels[1]!)).toEqual([
-					99,
-					111,
-					109, // "com"
-				]);
+				expect(message.question[0]!.qname.labels[0]).toBe("example");
+				expect(message.question[0]!.qname.labels[1]).toBe("com");
 				expect(message.question[0]!.qtype).toBe(RRTypeNameToRRType.A);
 				expect(message.question[0]!.qclass).toBe(1);
 			}
@@ -239,17 +231,7 @@ describe("message", () => {
 				expect(message.header.id).toBe(54321);
 				expect(message.header.rd).toBe(0);
 				expect(message.question[0]!.qname.labels).toHaveLength(1);
-				expect(Array.from(message.question[0]!.qname.labels[0]!)).toEqual([
-					108,
-					111,
-					99,
-					97,
-					108,
-					104,
-					111,
-					115,
-					116, // "localhost"
-				]);
+				expect(message.question[0]!.qname.labels[0]).toBe("localhost");
 				expect(message.question[0]!.qtype).toBe(RRTypeNameToRRType.A);
 			}
 		}),
@@ -476,10 +458,10 @@ describe("message", () => {
 	it.effect("handles different header flag combinations", () =>
 		Effect.gen(function* () {
 			const flagCombinations = [
-				{ qr: 0, opcode: 0, rd: 0, byte2: 0x00, byte3: 0x00 },
-				{ qr: 0, opcode: 0, rd: 1, byte2: 0x01, byte3: 0x00 },
-				{ qr: 0, opcode: 1, rd: 0, byte2: 0x08, byte3: 0x00 },
-				{ qr: 0, opcode: 2, rd: 0, byte2: 0x10, byte3: 0x00 },
+				{ qr: 0, opcode: "QUERY", rd: 0, byte2: 0x00, byte3: 0x00 },
+				{ qr: 0, opcode: "QUERY", rd: 1, byte2: 0x01, byte3: 0x00 },
+				{ qr: 0, opcode: "IQUERY", rd: 0, byte2: 0x08, byte3: 0x00 },
+				{ qr: 0, opcode: "STATUS", rd: 0, byte2: 0x10, byte3: 0x00 },
 			];
 
 			for (const flags of flagCombinations) {
@@ -619,11 +601,13 @@ describe("message", () => {
 				// Validate answer section
 				expect(message.answer).toHaveLength(1);
 				const answerRecord = message.answer[0]!;
-				expect(answerRecord.type).toBe(1); // A record
-				expect(answerRecord.class).toBe(1); // IN
+				expect(answerRecord.type).toBe("A");
+				expect(answerRecord.class).toBe("IN");
 				expect(answerRecord.ttl).toBe(300);
 				expect(answerRecord.rdlength).toBe(4);
-				expect(Array.from(answerRecord.rdata)).toEqual([93, 184, 216, 34]);
+				if (answerRecord.type === "A") {
+					expect(answerRecord.rdata.address).toBe("93.184.216.34");
+				}
 
 				// Validate other sections are empty
 				expect(message.authority).toHaveLength(0);
@@ -734,8 +718,8 @@ describe("message", () => {
 
 				// Validate authority record
 				const authorityRecord = message.authority[0]!;
-				expect(authorityRecord.type).toBe(2); // NS record
-				expect(authorityRecord.class).toBe(1); // IN
+				expect(authorityRecord.type).toBe("NS");
+				expect(authorityRecord.class).toBe("IN");
 				expect(authorityRecord.ttl).toBe(300);
 				expect(authorityRecord.rdlength).toBe(17);
 			}
@@ -834,11 +818,13 @@ describe("message", () => {
 
 				// Validate additional record
 				const additionalRecord = message.additional[0]!;
-				expect(additionalRecord.type).toBe(1); // A record
-				expect(additionalRecord.class).toBe(1); // IN
+				expect(additionalRecord.type).toBe("A");
+				expect(additionalRecord.class).toBe("IN");
 				expect(additionalRecord.ttl).toBe(300);
 				expect(additionalRecord.rdlength).toBe(4);
-				expect(Array.from(additionalRecord.rdata)).toEqual([192, 0, 2, 1]);
+				if (additionalRecord.type === "A") {
+					expect(additionalRecord.rdata.address).toBe("192.0.2.1");
+				}
 			}
 		}),
 	);
@@ -1032,23 +1018,21 @@ describe("message", () => {
 					expect(message.additional).toHaveLength(1);
 
 					// Validate answer records
-					expect(message.answer[0]!.type).toBe(1); // A record
-					expect(message.answer[1]!.type).toBe(1); // A record
-					expect(Array.from(message.answer[0]!.rdata)).toEqual([
-						93, 184, 216, 34,
-					]);
-					expect(Array.from(message.answer[1]!.rdata)).toEqual([
-						93, 184, 216, 35,
-					]);
+					expect(
+						message.answer.map(
+							(record) => record.type === "A" && record.rdata.address,
+						),
+					).toEqual(["93.184.216.34", "93.184.216.35"]);
 
 					// Validate authority record
-					expect(message.authority[0]!.type).toBe(2); // NS record
+					expect(message.authority[0]!.type).toBe("NS");
 
 					// Validate additional record
-					expect(message.additional[0]!.type).toBe(1); // A record
-					expect(Array.from(message.additional[0]!.rdata)).toEqual([
-						192, 0, 2, 1,
-					]);
+					const additionalRecord = message.additional[0]!;
+					expect(additionalRecord.type).toBe("A");
+					if (additionalRecord.type === "A") {
+						expect(additionalRecord.rdata.address).toBe("192.0.2.1");
+					}
 				}
 			}),
 	);
@@ -1090,8 +1074,8 @@ describe("message", () => {
 						);
 
 						for (let j = 0; j < expectedQuestion.qname.length; j++) {
-							expect(Array.from(actualQuestion.qname.labels[j]!)).toEqual(
-								Array.from(expectedQuestion.qname[j]!),
+							expect(actualQuestion.qname.labels[j]).toBe(
+								decodeLabel(expectedQuestion.qname[j]!),
 							);
 						}
 					}
@@ -1202,24 +1186,16 @@ describe("message", () => {
 					expect(question1.qtype).toBe(1); // A record
 					expect(question1.qclass).toBe(1); // IN
 					expect(question1.qname.labels).toHaveLength(2);
-					expect(Array.from(question1.qname.labels[0]!)).toEqual([
-						101, 120, 97, 109, 112, 108, 101,
-					]); // "example"
-					expect(Array.from(question1.qname.labels[1]!)).toEqual([
-						99, 111, 109,
-					]); // "com"
+					expect(question1.qname.labels[0]).toBe("example");
+					expect(question1.qname.labels[1]).toBe("com");
 
 					// Second question: example.org NS IN
 					const question2 = message.question[1]!;
 					expect(question2.qtype).toBe(2); // NS record
 					expect(question2.qclass).toBe(1); // IN
 					expect(question2.qname.labels).toHaveLength(2);
-					expect(Array.from(question2.qname.labels[0]!)).toEqual([
-						101, 120, 97, 109, 112, 108, 101,
-					]); // "example"
-					expect(Array.from(question2.qname.labels[1]!)).toEqual([
-						111, 114, 103,
-					]); // "org"
+					expect(question2.qname.labels[0]).toBe("example");
+					expect(question2.qname.labels[1]).toBe("org");
 
 					// Validate other sections are empty
 					expect(message.answer).toHaveLength(0);
@@ -1558,8 +1534,8 @@ describe("message", () => {
 					expectedQuestionName.labels.length,
 				);
 				for (let i = 0; i < expectedQuestionName.labels.length; i++) {
-					expect(Array.from(question.qname.labels[i]!)).toEqual(
-						Array.from(expectedQuestionName.labels[i]!),
+					expect(question.qname.labels[i]).toBe(
+						decodeLabel(expectedQuestionName.labels[i]!),
 					);
 				}
 
@@ -1570,8 +1546,8 @@ describe("message", () => {
 					expectedAnswerName.labels.length,
 				);
 				for (let i = 0; i < expectedAnswerName.labels.length; i++) {
-					expect(Array.from(answer.name.labels[i]!)).toEqual(
-						Array.from(expectedAnswerName.labels[i]!),
+					expect(answer.name.labels[i]).toBe(
+						decodeLabel(expectedAnswerName.labels[i]!),
 					);
 				}
 
@@ -1615,8 +1591,8 @@ describe("message", () => {
 					expectedNames[0]!.labels.length,
 				);
 				for (let i = 0; i < expectedNames[0]!.labels.length; i++) {
-					expect(Array.from(question1.qname.labels[i]!)).toEqual(
-						Array.from(expectedNames[0]!.labels[i]!),
+					expect(question1.qname.labels[i]).toBe(
+						decodeLabel(expectedNames[0]!.labels[i]!),
 					);
 				}
 				expect(question1.qtype).toBe(1); // A record
@@ -1628,8 +1604,8 @@ describe("message", () => {
 					expectedNames[1]!.labels.length,
 				);
 				for (let i = 0; i < expectedNames[1]!.labels.length; i++) {
-					expect(Array.from(question2.qname.labels[i]!)).toEqual(
-						Array.from(expectedNames[1]!.labels[i]!),
+					expect(question2.qname.labels[i]).toBe(
+						decodeLabel(expectedNames[1]!.labels[i]!),
 					);
 				}
 				expect(question2.qtype).toBe(1); // A record
@@ -1641,8 +1617,8 @@ describe("message", () => {
 					expectedNames[2]!.labels.length,
 				);
 				for (let i = 0; i < expectedNames[2]!.labels.length; i++) {
-					expect(Array.from(question3.qname.labels[i]!)).toEqual(
-						Array.from(expectedNames[2]!.labels[i]!),
+					expect(question3.qname.labels[i]).toBe(
+						decodeLabel(expectedNames[2]!.labels[i]!),
 					);
 				}
 				expect(question3.qtype).toBe(1); // A record
@@ -1659,22 +1635,18 @@ describe("message", () => {
 
 				// Verify specific RFC 1035 compression cases
 				// FOO.F.ISI.ARPA should start with "FOO" then match F.ISI.ARPA
-				expect(Array.from(question2.qname.labels[0]!)).toEqual([70, 79, 79]); // "FOO"
-				expect(Array.from(question2.qname.labels[1]!)).toEqual([70]); // "F"
-				expect(Array.from(question2.qname.labels[2]!)).toEqual([73, 83, 73]); // "ISI"
-				expect(Array.from(question2.qname.labels[3]!)).toEqual([
-					65, 82, 80, 65,
-				]); // "ARPA"
+				expect(question2.qname.labels[0]).toBe("FOO");
+				expect(question2.qname.labels[1]).toBe("F");
+				expect(question2.qname.labels[2]).toBe("ISI");
+				expect(question2.qname.labels[3]).toBe("ARPA");
 
 				// ARPA question should only have the ARPA label
-				expect(Array.from(question3.qname.labels[0]!)).toEqual([
-					65, 82, 80, 65,
-				]); // "ARPA"
+				expect(question3.qname.labels[0]).toBe("ARPA");
 			}
 		}),
 	);
 
-	it.effect.only(
+	it.effect(
 		"successfully decodes messages with multiple compression scenarios",
 		() =>
 			Effect.gen(function* () {
@@ -1,10 +1,14 @@
 import { describe, expect, it } from "@effect/vitest";
-import { Effect, Exit, Schema } from "effect";
+import { Effect, Either, Exit, Schema } from "effect";
 import {
+	type EncodedName,
 	Label,
 	Name,
+	decodeNameFromString,
 	decodeNameFromUint8Array,
+	encodeEncodedNameToString,
 	encodeNameFromUint8Array,
+	encodeNameToString,
 } from "../src/name";
 import {
 	arbitraryValidLabel,
@@ -17,6 +21,14 @@ import {
 	arbitraryInvalidNameWireFormat,
 } from "./arbitraries";
 
+// Labels are only valid once decoded from their bytes, and the decoded labels
+// of a name are strings
+const isLabel = (label: Uint8Array) =>
+	Either.isRight(Schema.decodeEither(Label)(label));
+const isName = (name: EncodedName) =>
+	Either.isRight(Schema.decodeEither(Name)(name));
+const decodeLabel = (label: Uint8Array) => new TextDecoder().decode(label);
+
 describe("Name", () => {
 	it.effect.prop(
 		"successfully validates valid RFC-compliant labels",
@@ -24,7 +36,7 @@ describe("Name", () => {
 		([uint8Array]) =>
 			Effect.gen(function* () {
 				const result = yield* Effect.exit(
-					Effect.sync(() => Schema.is(Label)(uint8Array)),
+					Effect.sync(() => isLabel(uint8Array)),
 				);
 				expect(result).toEqual(Exit.succeed(true));
 			}),
@@ -36,7 +48,7 @@ describe("Name", () => {
 		([uint8Array]) =>
 			Effect.gen(function* () {
 				const result = yield* Effect.exit(
-					Effect.sync(() => Schema.is(Label)(uint8Array)),
+					Effect.sync(() => isLabel(uint8Array)),
 				);
 				expect(result).toEqual(Exit.succeed(false));
 			}),
@@ -47,14 +59,14 @@ describe("Name", () => {
 			// Exactly 63 bytes - should pass
 			const maxLabel = new Uint8Array(63).fill(65); // 63 'A's
 			const validResult = yield* Effect.exit(
-				Effect.sync(() => Schema.is(Label)(maxLabel)),
+				Effect.sync(() => isLabel(maxLabel)),
 			);
 			expect(validResult).toEqual(Exit.succeed(true));
 
 			// 64 bytes - should fail
 			const tooLongLabel = new Uint8Array(64).fill(65); // 64 'A's
 			const invalidResult = yield* Effect.exit(
-				Effect.sync(() => Schema.is(Label)(tooLongLabel)),
+				Effect.sync(() => isLabel(tooLongLabel)),
 			);
 			expect(invalidResult).toEqual(Exit.succeed(false));
 		}),
@@ -76,7 +88,7 @@ describe("Name", () => {
 
 			for (const label of validChars) {
 				const result = yield* Effect.exit(
-					Effect.sync(() => Schema.is(Label)(label)),
+					Effect.sync(() => isLabel(label)),
 				);
 				expect(result).toEqual(Exit.succeed(true));
 			}
@@ -95,7 +107,7 @@ describe("Name", () => {
 
 			for (const label of invalidChars) {
 				const result = yield* Effect.exit(
-					Effect.sync(() => Schema.is(Label)(label)),
+					Effect.sync(() => isLabel(label)),
 				);
 				expect(result).toEqual(Exit.succeed(false));
 			}
@@ -107,28 +119,28 @@ describe("Name", () => {
 			// Cannot start with hyphen
 			const startsWithHyphen = new Uint8Array([45, 65]); // '-A'
 			const startResult = yield* Effect.exit(
-				Effect.sync(() => Schema.is(Label)(startsWithHyphen)),
+				Effect.sync(() => isLabel(startsWithHyphen)),
 			);
 			expect(startResult).toEqual(Exit.succeed(false));
 
 			// Cannot end with hyphen
 			const endsWithHyphen = new Uint8Array([65, 45]); // 'A-'
 			const endResult = yield* Effect.exit(
-				Effect.sync(() => Schema.is(Label)(endsWithHyphen)),
+				Effect.sync(() => isLabel(endsWithHyphen)),
 			);
 			expect(endResult).toEqual(Exit.succeed(false));
 
 			// Can have hyphen in middle
 			const validHyphen = new Uint8Array([65, 45, 65]); // 'A-A'
 			const validResult = yield* Effect.exit(
-				Effect.sync(() => Schema.is(Label)(validHyphen)),
+				Effect.sync(() => isLabel(validHyphen)),
 			);
 			expect(validResult).toEqual(Exit.succeed(true));
 
 			// Cannot have consecutive hyphens in the 3rd and 4th indicies
 			const consecutiveHyphens = new Uint8Array([65, 65, 45, 45]); // 'AA--'
 			const consecutiveResult = yield* Effect.exit(
-				Effect.sync(() => Schema.is(Label)(consecutiveHyphens)),
+				Effect.sync(() => isLabel(consecutiveHyphens)),
 			);
 			expect(consecutiveResult).toEqual(Exit.succeed(false));
 		}),
@@ -139,42 +151,56 @@ describe("Name", () => {
 			// Empty label - should fail (RFC requires 1-63 octets)
 			const empty = new Uint8Array(0);
 			const emptyResult = yield* Effect.exit(
-				Effect.sync(() => Schema.is(Label)(empty)),
+				Effect.sync(() => isLabel(empty)),
 			);
 			expect(emptyResult).toEqual(Exit.succeed(false));
 
 			// Single character letter - should pass
 			const singleLetter = new Uint8Array([65]); // 'A'
 			const singleLetterResult = yield* Effect.exit(
-				Effect.sync(() => Schema.is(Label)(singleLetter)),
+				Effect.sync(() => isLabel(singleLetter)),
 			);
 			expect(singleLetterResult).toEqual(Exit.succeed(true));
 
 			// Single character digit - should pass
 			const singleDigit = new Uint8Array([48]); // '0'
 			const singleDigitResult = yield* Effect.exit(
-				Effect.sync(() => Schema.is(Label)(singleDigit)),
+				Effect.sync(() => isLabel(singleDigit)),
 			);
 			expect(singleDigitResult).toEqual(Exit.succeed(true));
 
+			// Single asterisk - should pass (the label of a wildcard)
+			const asterisk = new Uint8Array([42]); // '*'
+			const asteriskResult = yield* Effect.exit(
+				Effect.sync(() => isLabel(asterisk)),
+			);
+			expect(asteriskResult).toEqual(Exit.succeed(true));
+
+			// Asterisk within a label - should fail
+			const embeddedAsterisk = new Uint8Array([42, 65]); // '*A'
+			const embeddedAsteriskResult = yield* Effect.exit(
+				Effect.sync(() => isLabel(embeddedAsterisk)),
+			);
+			expect(embeddedAsteriskResult).toEqual(Exit.succeed(false));
+
 			// Single hyphen - should fail (cannot start with hyphen)
 			const singleHyphen = new Uint8Array([45]); // '-'
 			const singleHyphenResult = yield* Effect.exit(
-				Effect.sync(() => Schema.is(Label)(singleHyphen)),
+				Effect.sync(() => isLabel(singleHyphen)),
 			);
 			expect(singleHyphenResult).toEqual(Exit.succeed(false));
 
 			// Two valid characters - should pass
 			const two = new Uint8Array([65, 66]); // 'AB'
 			const twoResult = yield* Effect.exit(
-				Effect.sync(() => Schema.is(Label)(two)),
+				Effect.sync(() => isLabel(two)),
 			);
 			expect(twoResult).toEqual(Exit.succeed(true));
 
 			// Mixed letters, digits, and valid hyphen - should pass
 			const mixed = new Uint8Array([65, 48, 45, 66, 57]); // 'A0-B9'
 			const mixedResult = yield* Effect.exit(
-				Effect.sync(() => Schema.is(Label)(mixed)),
+				Effect.sync(() => isLabel(mixed)),
 			);
 			expect(mixedResult).toEqual(Exit.succeed(true));
 		}),
@@ -187,7 +213,7 @@ describe("Name", () => {
 			Effect.gen(function* () {
 				// Test that valid labels pass validation consistently
 				const result1 = yield* Effect.exit(
-					Effect.sync(() => Schema.is(Label)(label)),
+					Effect.sync(() => isLabel(label)),
 				);
 				expect(result1).toEqual(Exit.succeed(true));
 
@@ -195,7 +221,7 @@ describe("Name", () => {
 				const decoded = yield* Schema.decodeUnknown(Label)(label);
 				const encoded = yield* Schema.encodeUnknown(Label)(decoded);
 
-				// Should be identical since Label is just Uint8Array with validation
+				// Should be identical since a Label is decoded from the bytes it encodes to
 				expect(Array.from(encoded)).toEqual(Array.from(label));
 			}),
 	);
@@ -241,7 +267,7 @@ describe("Name", () => {
 					labels.reduce((sum, label) => sum + label.length + 1, 0) + 1;
 				const nameStruct = { labels, encodedByteLength };
 				const result = yield* Effect.exit(
-					Effect.sync(() => Schema.is(Name)(nameStruct)),
+					Effect.sync(() => isName(nameStruct)),
 				);
 				expect(result).toEqual(Exit.succeed(true));
 			}),
@@ -253,7 +279,7 @@ describe("Name", () => {
 				labels.reduce((sum, label) => sum + label.length + 1, 0) + 1;
 			const nameStruct = { labels, encodedByteLength };
 			const result = yield* Effect.exit(
-				Effect.sync(() => Schema.is(Name)(nameStruct)),
+				Effect.sync(() => isName(nameStruct)),
 			);
 			expect(result).toEqual(Exit.succeed(false));
 		}),
@@ -277,7 +303,7 @@ describe("Name", () => {
 			}; // 193 total bytes
 
 			const validResult = yield* Effect.exit(
-				Effect.sync(() => Schema.is(Name)(validNameStruct)),
+				Effect.sync(() => isName(validNameStruct)),
 			);
 			expect(validResult).toEqual(Exit.succeed(true));
 
@@ -296,15 +322,15 @@ describe("Name", () => {
 				encodedByteLength: oversizedEncodedByteLength,
 			};
 			const invalidResult = yield* Effect.exit(
-				Effect.sync(() => Schema.is(Name)(oversizedNameStruct)),
+				Effect.sync(() => isName(oversizedNameStruct)),
 			);
 			expect(invalidResult).toEqual(Exit.succeed(false));
 		}),
 	);
 
-	it.effect("validates empty name arrays", () =>
+	it.effect("validates the root name", () =>
 		Effect.gen(function* () {
-			// Empty array should fail (RFC requires at least one label)
+			// The root name has no labels, only the null terminator
 			const emptyLabels: Uint8Array[] = [];
 			const emptyEncodedByteLength =
 				emptyLabels.reduce((sum, label) => sum + label.length + 1, 0) + 1;
@@ -313,9 +339,9 @@ describe("Name", () => {
 				encodedByteLength: emptyEncodedByteLength,
 			};
 			const result = yield* Effect.exit(
-				Effect.sync(() => Schema.is(Name)(emptyNameStruct)),
+				Effect.sync(() => isName(emptyNameStruct)),
 			);
-			expect(result).toEqual(Exit.succeed(false));
+			expect(result).toEqual(Exit.succeed(true));
 		}),
 	);
 
@@ -330,7 +356,7 @@ describe("Name", () => {
 
 				// Test that valid names pass validation consistently
 				const result1 = yield* Effect.exit(
-					Effect.sync(() => Schema.is(Name)(nameStruct)),
+					Effect.sync(() => isName(nameStruct)),
 				);
 				expect(result1).toEqual(Exit.succeed(true));
 
@@ -397,7 +423,10 @@ describe("Name", () => {
 				Effect.gen(function* () {
 					const encodedByteLength =
 						labels.reduce((sum, label) => sum + label.length + 1, 0) + 1;
-					const nameStruct = { labels, encodedByteLength };
+					const nameStruct = {
+						labels: labels.map(decodeLabel),
+						encodedByteLength,
+					};
 					const result = yield* Effect.exit(
 						encodeNameFromUint8Array(nameStruct),
 					);
@@ -426,7 +455,10 @@ describe("Name", () => {
 				Effect.gen(function* () {
 					const encodedByteLength =
 						labels.reduce((sum, label) => sum + label.length + 1, 0) + 1;
-					const nameStruct = { labels, encodedByteLength };
+					const nameStruct = {
+						labels: labels.map(decodeLabel),
+						encodedByteLength,
+					};
 					const result = yield* Effect.exit(
 						encodeNameFromUint8Array(nameStruct),
 					);
@@ -454,9 +486,7 @@ describe("Name", () => {
 				const singleLabel = new Uint8Array([4, 116, 101, 115, 116, 0]);
 				const decoded1 = yield* decodeNameFromUint8Array(singleLabel);
 				expect(decoded1.labels.length).toBe(1);
-				expect(Array.from(decoded1.labels[0] ?? [])).toEqual([
-					116, 101, 115, 116,
-				]);
+				expect(decoded1.labels[0]).toBe("test");
 
 				// Two labels "www.example"
 				const twoLabels = new Uint8Array([
@@ -464,15 +494,13 @@ describe("Name", () => {
 				]);
 				const decoded2 = yield* decodeNameFromUint8Array(twoLabels);
 				expect(decoded2.labels.length).toBe(2);
-				expect(Array.from(decoded2.labels[0] ?? [])).toEqual([119, 119, 119]); // "www"
-				expect(Array.from(decoded2.labels[1] ?? [])).toEqual([
-					101, 120, 97, 109, 112, 108, 101,
-				]); // "example"
-
-				// Empty name (just terminator)
-				const emptyName = new Uint8Array([0]);
-				const result = yield* Effect.exit(decodeNameFromUint8Array(emptyName));
-				expect(Exit.isFailure(result)).toBe(true); // Should fail - no labels before terminator
+				expect(decoded2.labels[0]).toBe("www");
+				expect(decoded2.labels[1]).toBe("example");
+
+				// Root name (just terminator)
+				const rootName = new Uint8Array([0]);
+				const decoded3 = yield* decodeNameFromUint8Array(rootName);
+				expect(decoded3).toEqual({ labels: [], encodedByteLength: 1 });
 			}),
 		);
 
@@ -509,17 +537,14 @@ describe("Name", () => {
 				const testCases = [
 					{
 						nameStruct: {
-							labels: [new Uint8Array([65])],
+							labels: ["A"],
 							encodedByteLength: 3,
-						}, // ["A"]
+						},
 						expected: new Uint8Array([1, 65, 0]),
 					},
 					{
 						nameStruct: {
-							labels: [
-								new Uint8Array([116, 101, 115, 116]), // "test"
-								new Uint8Array([99, 111, 109]), // "com"
-							],
+							labels: ["test", "com"],
 							encodedByteLength: 10,
 						},
 						expected: new Uint8Array([
@@ -528,10 +553,7 @@ describe("Name", () => {
 					},
 					{
 						nameStruct: {
-							labels: [
-								new Uint8Array([65, 45, 66]), // "A-B"
-								new Uint8Array([49, 50, 51]), // "123"
-							],
+							labels: ["A-B", "123"],
 							encodedByteLength: 9,
 						},
 						expected: new Uint8Array([3, 65, 45, 66, 3, 49, 50, 51, 0]),
@@ -555,9 +577,8 @@ describe("Name", () => {
 		it.effect("validates RFC 1035 size limits in wire format", () =>
 			Effect.gen(function* () {
 				// Maximum valid label (63 bytes)
-				const maxLabel = new Uint8Array(63).fill(65); // 63 'A's
 				const maxLabelNameStruct = {
-					labels: [maxLabel],
+					labels: ["A".repeat(63)],
 					encodedByteLength: 65,
 				};
 				const encoded1 = yield* encodeNameFromUint8Array(maxLabelNameStruct);
@@ -567,10 +588,10 @@ describe("Name", () => {
 				// Multiple labels approaching size limit
 				const multipleLabelsStruct = {
 					labels: [
-						new Uint8Array(60).fill(65), // 60 'A's
-						new Uint8Array(60).fill(66), // 60 'B's
-						new Uint8Array(60).fill(67), // 60 'C's
-						new Uint8Array(60).fill(68), // 60 'D's
+						"A".repeat(60),
+						"B".repeat(60),
+						"C".repeat(60),
+						"D".repeat(60),
 					],
 					encodedByteLength: 245,
 				};
@@ -614,7 +635,7 @@ describe("Name", () => {
 					encodedByteLength: 193,
 				};
 				const validResult = yield* Effect.exit(
-					Effect.sync(() => Schema.is(Name)(validNameStruct)),
+					Effect.sync(() => isName(validNameStruct)),
 				);
 				expect(validResult).toEqual(Exit.succeed(true));
 
@@ -624,7 +645,7 @@ describe("Name", () => {
 					encodedByteLength: 257,
 				};
 				const invalidResult = yield* Effect.exit(
-					Effect.sync(() => Schema.is(Name)(invalidNameStruct)),
+					Effect.sync(() => isName(invalidNameStruct)),
 				);
 
 				expect(invalidResult).toEqual(Exit.succeed(false));
@@ -656,17 +677,17 @@ describe("Name", () => {
 			}),
 		);
 
-		it.effect("validates empty name edge case", () =>
+		it.effect("validates root name edge case", () =>
 			Effect.gen(function* () {
-				// Empty labels array should fail
+				// Empty labels array is the root name
 				const emptyNameStruct = {
 					labels: [] as Uint8Array[],
 					encodedByteLength: 1,
 				};
 				const result = yield* Effect.exit(
-					Effect.sync(() => Schema.is(Name)(emptyNameStruct)),
+					Effect.sync(() => isName(emptyNameStruct)),
 				);
-				expect(result).toEqual(Exit.succeed(false));
+				expect(result).toEqual(Exit.succeed(true));
 			}),
 		);
 	});
@@ -693,7 +714,10 @@ describe("Name struct with encodedByteLength", () => {
 				// Verify the labels match
 				expect(decoded.labels.length).toBe(expectedName.labels.length);
 				for (let i = 0; i < decoded.labels.length; i++) {
-					expect(decoded.labels[i]).toEqual(expectedName.labels[i]);
+					const expectedLabel = expectedName.labels[i];
+					expect(decoded.labels[i]).toBe(
+						expectedLabel && decodeLabel(expectedLabel),
+					);
 				}
 			}),
 	);
@@ -806,9 +830,7 @@ describe("Name struct with encodedByteLength", () => {
 			expect(decoded.labels.length).toBe(3);
 
 			// Verify individual labels
-			expect(Array.from(decoded.labels[0] ?? [])).toEqual([65, 66]); // "AB"
-			expect(Array.from(decoded.labels[1] ?? [])).toEqual([67, 68, 69, 70, 71]); // "CDEFG"
-			expect(Array.from(decoded.labels[2] ?? [])).toEqual([72]); // "H"
+			expect(decoded.labels).toEqual(["AB", "CDEFG", "H"]);
 		}),
 	);
 
@@ -818,10 +840,7 @@ describe("Name struct with encodedByteLength", () => {
 			Effect.gen(function* () {
 				// Create a known name structure
 				const originalName = {
-					labels: [
-						new Uint8Array([116, 101, 115, 116]), // "test"
-						new Uint8Array([99, 111, 109]), // "com"
-					],
+					labels: ["test", "com"],
 					encodedByteLength: 10, // Will be calculated during encoding
 				};
 
@@ -929,7 +948,7 @@ describe("Name struct with encodedByteLength", () => {
 
 			// Verify labels array can be used properly
 			expect(decoded.labels.length).toBeGreaterThan(0);
-			expect(decoded.labels[0]).toBeInstanceOf(Uint8Array);
+			expect(typeof decoded.labels[0]).toBe("string");
 
 			// Verify labels array methods work
 			const mapped = decoded.labels.map((label) => label.length);
@@ -938,10 +957,236 @@ describe("Name struct with encodedByteLength", () => {
 			// Verify for...of iteration works on labels
 			let count = 0;
 			for (const label of decoded.labels) {
-				expect(label).toBeInstanceOf(Uint8Array);
+				expect(typeof label).toBe("string");
 				count++;
 			}
 			expect(count).toBe(1);
 		}),
 	);
 });
+
+describe("NameFromUint8Array", () => {
+	it.effect("decodes uncompressed wire format into a Name", () =>
+		Effect.gen(function* () {
+			const name = yield* decodeNameFromUint8Array(
+				new Uint8Array([
+					3, 119, 119, 119, 7, 101, 120, 97, 109, 112, 108, 101, 0,
+				]),
+			);
+
+			expect(name).toEqual({
+				labels: ["www", "example"],
+				encodedByteLength: 13,
+			});
+		}),
+	);
+
+	it.effect("decodes the root name", () =>
+		Effect.gen(function* () {
+			const name = yield* decodeNameFromUint8Array(new Uint8Array([0]));
+
+			expect(name).toEqual({ labels: [], encodedByteLength: 1 });
+		}),
+	);
+
+	it.effect("encodes a Name without compression", () =>
+		Effect.gen(function* () {
+			const uint8Array = yield* encodeNameFromUint8Array({
+				labels: ["example", "example"],
+				encodedByteLength: 17,
+			});
+
+			expect(Array.from(uint8Array)).toEqual([
+				7, 101, 120, 97, 109, 112, 108, 101, 7, 101, 120, 97, 109, 112, 108,
+				101, 0,
+			]);
+		}),
+	);
+
+	it.effect("roundtrips the longest allowed name", () =>
+		Effect.gen(function* () {
+			// 3 x (1 + 63) + (1 + 61) + 1 = 255 bytes
+			const labels = [
+				"a".repeat(63),
+				"b".repeat(63),
+				"c".repeat(63),
+				"d".repeat(61),
+			];
+
+			const uint8Array = yield* encodeNameFromUint8Array({
+				labels,
+				encodedByteLength: 255,
+			});
+			const name = yield* decodeNameFromUint8Array(uint8Array);
+
+			expect(uint8Array.byteLength).toBe(255);
+			expect(name).toEqual({ labels, encodedByteLength: 255 });
+		}),
+	);
+
+	it.effect("rejects names and labels over the size limits", () =>
+		Effect.gen(function* () {
+			const longLabel = yield* Effect.exit(
+				encodeNameFromUint8Array({
+					labels: ["a".repeat(64)],
+					encodedByteLength: 66,
+				}),
+			);
+			expect(Exit.isFailure(longLabel)).toBe(true);
+
+			const longName = yield* Effect.exit(
+				encodeNameFromUint8Array({
+					labels: [
+						"a".repeat(63),
+						"b".repeat(63),
+						"c".repeat(63),
+						"d".repeat(62),
+					],
+					encodedByteLength: 255,
+				}),
+			);
+			expect(Exit.isFailure(longName)).toBe(true);
+
+			const oversized = new Uint8Array(257);
+			for (let offset = 0; offset < 256; offset += 64) {
+				oversized.set([63, ...new Array(63).fill(97)], offset);
+			}
+			const decoded = yield* Effect.exit(decodeNameFromUint8Array(oversized));
+			expect(Exit.isFailure(decoded)).toBe(true);
+		}),
+	);
+
+	it.effect("rejects pointers, truncation and trailing bytes", () =>
+		Effect.gen(function* () {
+			const invalidWireFormats = [
+				new Uint8Array([]),
+				new Uint8Array([1, 97, 0xc0, 0x00]),
+				new Uint8Array([3, 97, 98]),
+				new Uint8Array([1, 97]),
+				new Uint8Array([1, 97, 0, 0]),
+				new Uint8Array([64, ...new Array(64).fill(97), 0]),
+			];
+
+			for (const uint8Array of invalidWireFormats) {
+				const result = yield* Effect.exit(
+					decodeNameFromUint8Array(uint8Array),
+				);
+				expect(Exit.isFailure(result)).toBe(true);
+			}
+		}),
+	);
+});
+
+describe("NameFromString", () => {
+	it.effect("parses names with and without a trailing dot", () =>
+		Effect.gen(function* () {
+			const absolute = yield* decodeNameFromString("www.example.com.");
+			const relative = yield* decodeNameFromString("www.example.com");
+
+			expect(absolute).toEqual({
+				labels: ["www", "example", "com"],
+				encodedByteLength: 17,
+			});
+			expect(relative).toEqual(absolute);
+		}),
+	);
+
+	it.effect("parses and formats the root name", () =>
+		Effect.gen(function* () {
+			const name = yield* decodeNameFromString(".");
+
+			expect(name).toEqual({ labels: [], encodedByteLength: 1 });
+			expect(yield* encodeNameToString(name)).toBe(".");
+		}),
+	);
+
+	it.effect("formats a Name as an absolute name", () =>
+		Effect.gen(function* () {
+			const str = yield* encodeNameToString({
+				labels: ["mail", "Example", "com"],
+				encodedByteLength: 18,
+			});
+
+			expect(str).toBe("mail.Example.com.");
+		}),
+	);
+
+	it.effect("decodes \\X and \\DDD escapes", () =>
+		Effect.gen(function* () {
+			const name = yield* decodeNameFromString("\\119ww.ex\\ample.com");
+
+			expect(name).toEqual({
+				labels: ["www", "example", "com"],
+				encodedByteLength: 17,
+			});
+		}),
+	);
+
+	it.effect("escapes special and non printable octets when formatting", () =>
+		Effect.gen(function* () {
+			const textEncoder = new TextEncoder();
+			const str = yield* encodeEncodedNameToString({
+				labels: ["a.b", "c\\d", "e f"].map((label) =>
+					textEncoder.encode(label),
+				),
+				encodedByteLength: 13,
+			});
+
+			expect(str).toBe("a\\.b.c\\\\d.e\\032f.");
+
+			// They are not valid labels of a Name
+			const result = yield* Effect.exit(
+				encodeNameToString({
+					labels: ["a.b", "c\\d", "e f"],
+					encodedByteLength: 13,
+				}),
+			);
+			expect(Exit.isFailure(result)).toBe(true);
+		}),
+	);
+
+	it.effect("validates escaped octets as labels", () =>
+		Effect.gen(function* () {
+			const escapedDot = yield* Effect.exit(decodeNameFromString("a\\.b.com"));
+			const escapedSpace = yield* Effect.exit(
+				decodeNameFromString("a\\032b.com"),
+			);
+
+			expect(Exit.isFailure(escapedDot)).toBe(true);
+			expect(Exit.isFailure(escapedSpace)).toBe(true);
+		}),
+	);
+
+	it.effect("rejects malformed presentation format", () =>
+		Effect.gen(function* () {
+			const invalidNames = [
+				"",
+				"..",
+				".example.com",
+				"example..com",
+				"example.com..",
+				"a\\25.com",
+				"a\\256.com",
+				"a\\",
+				"bücher.example",
+				`${"a".repeat(64)}.com`,
+				`${"a".repeat(63)}.${"b".repeat(63)}.${"c".repeat(63)}.${"d".repeat(62)}`,
+			];
+
+			for (const str of invalidNames) {
+				const result = yield* Effect.exit(decodeNameFromString(str));
+				expect(Exit.isFailure(result), str).toBe(true);
+			}
+		}),
+	);
+
+	it.effect("computes encodedByteLength of the longest allowed name", () =>
+		Effect.gen(function* () {
+			const str = `${"a".repeat(63)}.${"b".repeat(63)}.${"c".repeat(63)}.${"d".repeat(61)}.`;
+			const name = yield* decodeNameFromString(str);
+
+			expect(name.encodedByteLength).toBe(255);
+			expect(yield* encodeNameToString(name)).toBe(str);
+		}),
+	);
+});
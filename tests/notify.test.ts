@@ -0,0 +1,316 @@
+import { describe, expect, it } from "@effect/vitest";
+import { Deferred, Effect, Exit, Option, Schema, Scope } from "effect";
+import { DnsClient } from "../src/client";
+import { decodeMasterFile } from "../src/master-file";
+import { MessageFromUint8Array } from "../src/message";
+import { makeQuery } from "../src/message-builder";
+import { decodeSyncNameFromString } from "../src/name";
+import { answerNotify, makeNotifyMessage } from "../src/notify";
+import type { ResourceRecordOf } from "../src/resource-record";
+import {
+	makeAuthoritativeNameServer,
+	makeSecondaryNameServer,
+	serveUdp,
+	type NameServer,
+	type Zone,
+} from "../src/server";
+
+const origin = decodeSyncNameFromString("example.com.");
+
+const zoneWithSerial = (serial: number): Effect.Effect<Zone, unknown> =>
+	Effect.map(
+		decodeMasterFile(
+			[
+				"$TTL 3600",
+				`@       SOA     ns1 hostmaster ${serial} 7200 600 3600000 60`,
+				"        NS      ns1",
+				"ns1     A       192.0.2.1",
+				`www     A       192.0.2.${serial}`,
+			].join("\n"),
+			{ origin },
+		),
+		(records) => ({ origin, records }),
+	);
+
+const getSoa = (zone: Zone) =>
+	zone.records.find(
+		(record): record is ResourceRecordOf<"SOA"> => record.type === "SOA",
+	)!;
+
+describe("makeNotifyMessage", () => {
+	it.effect("builds the NOTIFY request of RFC 1996 3.7", () =>
+		Effect.gen(function* () {
+			const soa = getSoa(yield* zoneWithSerial(2));
+			const decoded = yield* Schema.decode(MessageFromUint8Array)(
+				yield* Schema.encode(MessageFromUint8Array)(
+					makeNotifyMessage({ id: 7, zone: origin, soa }),
+				),
+			);
+
+			expect(decoded.header).toMatchObject({
+				id: 7,
+				qr: 0,
+				opcode: "NOTIFY",
+				aa: 1,
+				qdcount: 1,
+				ancount: 1,
+			});
+			expect(decoded.question).toEqual([
+				{ qname: origin, qtype: 6, qclass: 1 },
+			]);
+			expect(decoded.answer).toMatchObject([
+				{ name: { labels: origin.labels }, type: "SOA", rdata: { serial: 2 } },
+			]);
+		}),
+	);
+
+	it("leaves the answer section empty without an SOA RR", () => {
+		const message = makeNotifyMessage({ id: 7, zone: origin });
+
+		expect(message.header.ancount).toBe(0);
+		expect(message.answer).toEqual([]);
+	});
+});
+
+describe("answerNotify", () => {
+	it.effect("refreshes zones without a hint", () =>
+		Effect.gen(function* () {
+			const zone = yield* zoneWithSerial(1);
+			const { response, refresh } = answerNotify(
+				[zone],
+				makeNotifyMessage({ id: 7, zone: origin }),
+			);
+
+			expect(response.header).toMatchObject({
+				id: 7,
+				qr: 1,
+				opcode: "NOTIFY",
+				aa: 1,
+				rcode: "NOERROR",
+			});
+			expect(response.question).toEqual([
+				{ qname: origin, qtype: 6, qclass: 1 },
+			]);
+			expect(refresh).toEqual({ zone });
+		}),
+	);
+
+	it.effect("refreshes zones older than the hinted SERIAL", () =>
+		Effect.gen(function* () {
+			const zone = yield* zoneWithSerial(1);
+			const soa = getSoa(yield* zoneWithSerial(2));
+
+			expect(
+				answerNotify([zone], makeNotifyMessage({ id: 7, zone: origin, soa }))
+					.refresh,
+			).toEqual({ zone, serial: 2 });
+		}),
+	);
+
+	it.effect("does not refresh zones as new as the hint", () =>
+		Effect.gen(function* () {
+			const zone = yield* zoneWithSerial(2);
+
+			for (const serial of [1, 2]) {
+				const soa = getSoa(yield* zoneWithSerial(serial));
+				const { response, refresh } = answerNotify(
+					[zone],
+					makeNotifyMessage({ id: 7, zone: origin, soa }),
+				);
+
+				expect(response.header.rcode).toBe("NOERROR");
+				expect(refresh).toBeUndefined();
+			}
+		}),
+	);
+
+	it.effect("is not authoritative for zones that are not served", () =>
+		Effect.gen(function* () {
+			const { response, refresh } = answerNotify(
+				[yield* zoneWithSerial(1)],
+				makeNotifyMessage({
+					id: 7,
+					zone: decodeSyncNameFromString("example.org."),
+				}),
+			);
+
+			expect(response.header.rcode).toBe("NOTAUTH");
+			expect(refresh).toBeUndefined();
+		}),
+	);
+
+	it.effect("does not implement QTYPEs other than SOA", () =>
+		Effect.gen(function* () {
+			const notify = makeNotifyMessage({ id: 7, zone: origin });
+			const { response } = answerNotify([yield* zoneWithSerial(1)], {
+				...notify,
+				question: [{ qname: origin, qtype: 1, qclass: 1 }],
+			});
+
+			expect(response.header.rcode).toBe("NOTIMP");
+		}),
+	);
+});
+
+describe("makeAuthoritativeNameServer", () => {
+	it.effect("does not implement NOTIFY without a refresh", () =>
+		Effect.gen(function* () {
+			const server = makeAuthoritativeNameServer([yield* zoneWithSerial(1)]);
+
+			const response = yield* server.handle(
+				yield* Schema.encode(MessageFromUint8Array)(
+					makeNotifyMessage({ id: 7, zone: origin }),
+				),
+			);
+			const decoded = yield* Schema.decode(MessageFromUint8Array)(
+				Option.getOrThrow(response),
+			);
+
+			expect(decoded.header).toMatchObject({
+				opcode: "NOTIFY",
+				rcode: "NOTIMP",
+			});
+		}),
+	);
+});
+
+describe("makeSecondaryNameServer", () => {
+	const notify = (server: NameServer, serial?: number) =>
+		Effect.gen(function* () {
+			const soa =
+				serial === undefined
+					? undefined
+					: getSoa(yield* zoneWithSerial(serial));
+
+			return yield* server.handle(
+				yield* Schema.encode(MessageFromUint8Array)(
+					makeNotifyMessage({ id: 7, zone: origin, soa }),
+				),
+			);
+		});
+
+	it.scopedLive("answers from the zone a NOTIFY refreshed", () =>
+		Effect.gen(function* () {
+			const refreshed = yield* Deferred.make<number | undefined>();
+			const { port } = yield* serveUdp(
+				yield* makeSecondaryNameServer(
+					[yield* zoneWithSerial(1)],
+					(_zone, serial) =>
+						zoneWithSerial(serial ?? 1).pipe(
+							Effect.orDie,
+							Effect.tap(() => Deferred.succeed(refreshed, serial)),
+						),
+				),
+				{ port: 0 },
+			);
+
+			const soa = getSoa(yield* zoneWithSerial(2));
+
+			const [response, message] = yield* Effect.flatMap(DnsClient, (client) =>
+				Effect.gen(function* () {
+					const response = yield* client.notify(origin, soa);
+					expect(yield* Deferred.await(refreshed)).toBe(2);
+
+					return [
+						response,
+						yield* client.query({
+							qname: decodeSyncNameFromString("www.example.com."),
+							qtype: 1,
+							qclass: 1,
+						}),
+					] as const;
+				}),
+			).pipe(
+				Effect.provide(
+					DnsClient.layer({ address: "127.0.0.1", port, timeout: "1 second" }),
+				),
+			);
+
+			expect(response.header).toMatchObject({
+				qr: 1,
+				opcode: "NOTIFY",
+				rcode: "NOERROR",
+			});
+			expect(message.answer).toMatchObject([
+				{ rdata: { address: "192.0.2.2" } },
+			]);
+		}),
+	);
+
+	it.effect("runs one refresh of a zone at a time", () =>
+		Effect.gen(function* () {
+			const release = yield* Deferred.make<void>();
+			let refreshes = 0;
+			const server = yield* makeSecondaryNameServer(
+				[yield* zoneWithSerial(1)],
+				() =>
+					Effect.sync(() => refreshes++).pipe(
+						Effect.zipRight(Deferred.await(release)),
+						Effect.zipRight(Effect.orDie(zoneWithSerial(2))),
+					),
+			);
+
+			yield* notify(server);
+			yield* notify(server, 2);
+			yield* Effect.yieldNow();
+			expect(refreshes).toBe(1);
+
+			yield* Deferred.succeed(release, undefined);
+			yield* Effect.yieldNow();
+			yield* notify(server, 3);
+			expect(refreshes).toBe(2);
+		}).pipe(Effect.scoped),
+	);
+
+	it.effect("ignores refreshed zones that are not newer", () =>
+		Effect.gen(function* () {
+			const refreshed = yield* Deferred.make<void>();
+			const server = yield* makeSecondaryNameServer(
+				[yield* zoneWithSerial(2)],
+				() =>
+					Effect.orDie(zoneWithSerial(1)).pipe(
+						Effect.ensuring(Deferred.succeed(refreshed, undefined)),
+					),
+			);
+
+			yield* notify(server);
+			yield* Deferred.await(refreshed);
+			yield* Effect.yieldNow();
+
+			const response = yield* server.handle(
+				yield* Schema.encode(MessageFromUint8Array)(
+					makeQuery("www.example.com.", "A"),
+				),
+			);
+			const decoded = yield* Schema.decode(MessageFromUint8Array)(
+				Option.getOrThrow(response),
+			);
+
+			expect(decoded.answer).toMatchObject([
+				{ rdata: { address: "192.0.2.2" } },
+			]);
+		}).pipe(Effect.scoped),
+	);
+
+	it.effect("interrupts refreshes when the scope is closed", () =>
+		Effect.gen(function* () {
+			const started = yield* Deferred.make<void>();
+			const interrupted = yield* Deferred.make<void>();
+			const scope = yield* Scope.make();
+			const server = yield* makeSecondaryNameServer(
+				[yield* zoneWithSerial(1)],
+				() =>
+					Deferred.succeed(started, undefined).pipe(
+						Effect.zipRight(Effect.never),
+						Effect.onInterrupt(() => Deferred.succeed(interrupted, undefined)),
+					),
+			).pipe(Scope.extend(scope));
+
+			yield* notify(server);
+			yield* Deferred.await(started);
+			yield* Scope.close(scope, Exit.void);
+
+			expect(yield* Deferred.isDone(interrupted)).toBe(true);
+		}),
+	);
+});
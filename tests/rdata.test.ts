@@ -0,0 +1,511 @@
+import { describe, expect, it } from "@effect/vitest";
+import { Effect, Exit, Schema } from "effect";
+import { MessageFromUint8Array, type Message } from "../src/message";
+import type { ResourceRecord } from "../src/resource-record";
+import { CharacterString, Ipv4Address, Ipv6Address } from "../src/rdata";
+
+const makeName = (labels: ReadonlyArray<string>) => ({
+	labels,
+	encodedByteLength: labels.reduce(
+		(bytes, label) => bytes + label.length + 1,
+		1,
+	),
+});
+
+const makeMessage = (answer: Array<ResourceRecord>): Message => ({
+	header: {
+		id: 1,
+		qr: 1,
+		opcode: "QUERY",
+		aa: 0,
+		tc: 0,
+		rd: 0,
+		ra: 0,
+		z: 0,
+		rcode: "NOERROR",
+		qdcount: 0,
+		ancount: answer.length,
+		nscount: 0,
+		arcount: 0,
+	},
+	question: [],
+	answer,
+	authority: [],
+	additional: [],
+});
+
+const owner = makeName(["example", "com"]);
+
+// RDLENGTH is recomputed while encoding, compressed names included
+const records: Array<ResourceRecord> = [
+	{
+		name: owner,
+		type: "A",
+		class: "IN",
+		ttl: 300,
+		rdlength: 4,
+		rdata: { address: "192.0.2.1" },
+	},
+	{
+		name: owner,
+		type: "NS",
+		class: "IN",
+		ttl: 300,
+		rdlength: 6,
+		rdata: { nsdname: makeName(["ns1", "example", "com"]) },
+	},
+	{
+		name: owner,
+		type: "MD",
+		class: "IN",
+		ttl: 300,
+		rdlength: 7,
+		rdata: { madname: makeName(["mail", "example", "com"]) },
+	},
+	{
+		name: owner,
+		type: "MF",
+		class: "IN",
+		ttl: 300,
+		rdlength: 2,
+		rdata: { madname: makeName(["mail", "example", "com"]) },
+	},
+	{
+		name: makeName(["www", "example", "com"]),
+		type: "CNAME",
+		class: "IN",
+		ttl: 300,
+		rdlength: 2,
+		rdata: { cname: owner },
+	},
+	{
+		name: owner,
+		type: "SOA",
+		class: "IN",
+		ttl: 3600,
+		rdlength: 34,
+		rdata: {
+			mname: makeName(["ns1", "example", "com"]),
+			rname: makeName(["hostmaster", "example", "com"]),
+			serial: 4_294_967_295,
+			refresh: 7200,
+			retry: 3600,
+			expire: 1_209_600,
+			minimum: 300,
+		},
+	},
+	{
+		name: owner,
+		type: "MB",
+		class: "IN",
+		ttl: 300,
+		rdlength: 2,
+		rdata: { madname: makeName(["mail", "example", "com"]) },
+	},
+	{
+		name: owner,
+		type: "MG",
+		class: "IN",
+		ttl: 300,
+		rdlength: 2,
+		rdata: { mgmname: makeName(["list", "example", "com"]) },
+	},
+	{
+		name: owner,
+		type: "MR",
+		class: "IN",
+		ttl: 300,
+		rdlength: 2,
+		rdata: { newname: makeName(["renamed", "example", "com"]) },
+	},
+	{
+		name: owner,
+		type: "NULL",
+		class: "IN",
+		ttl: 300,
+		rdlength: 3,
+		rdata: { anything: new Uint8Array([0, 255, 1]) },
+	},
+	{
+		name: owner,
+		type: "WKS",
+		class: "IN",
+		ttl: 300,
+		rdlength: 8,
+		rdata: {
+			address: "192.0.2.1",
+			protocol: 6,
+			bitmap: new Uint8Array([0, 0, 0, 0x40]),
+		},
+	},
+	{
+		name: makeName(["1", "2", "0", "192", "in-addr", "arpa"]),
+		type: "PTR",
+		class: "IN",
+		ttl: 300,
+		rdlength: 2,
+		rdata: { ptrdname: owner },
+	},
+	{
+		name: owner,
+		type: "HINFO",
+		class: "IN",
+		ttl: 300,
+		rdlength: 11,
+		rdata: { cpu: "VAX-11/780", os: "UNIX" },
+	},
+	{
+		name: owner,
+		type: "MINFO",
+		class: "IN",
+		ttl: 300,
+		rdlength: 4,
+		rdata: {
+			rmailbx: makeName(["owner", "example", "com"]),
+			emailbx: makeName(["errors", "example", "com"]),
+		},
+	},
+	{
+		name: owner,
+		type: "MX",
+		class: "IN",
+		ttl: 300,
+		rdlength: 4,
+		rdata: { preference: 10, exchange: makeName(["mail", "example", "com"]) },
+	},
+	{
+		name: owner,
+		type: "TXT",
+		class: "IN",
+		ttl: 300,
+		rdlength: 20,
+		rdata: { txtData: ["v=spf1 -all", "", "\u0000ÿ"] },
+	},
+	{
+		name: owner,
+		type: "AAAA",
+		class: "IN",
+		ttl: 300,
+		rdlength: 16,
+		rdata: { address: "2001:db8::1" },
+	},
+	{
+		name: makeName(["_sip", "_udp", "example", "com"]),
+		type: "SRV",
+		class: "IN",
+		ttl: 300,
+		rdlength: 24,
+		rdata: {
+			priority: 10,
+			weight: 60,
+			port: 5060,
+			target: makeName(["sip", "example", "com"]),
+		},
+	},
+	{
+		name: owner,
+		type: "DS",
+		class: "IN",
+		ttl: 300,
+		rdlength: 8,
+		rdata: {
+			keyTag: 3613,
+			algorithm: 15,
+			digestType: 2,
+			digest: new Uint8Array([0x3a, 0xa5, 0xab, 0x37]),
+		},
+	},
+	{
+		name: owner,
+		type: "RRSIG",
+		class: "IN",
+		ttl: 300,
+		rdlength: 35,
+		rdata: {
+			typeCovered: 15,
+			algorithm: 15,
+			labels: 2,
+			originalTtl: 3600,
+			signatureExpiration: 1440021600,
+			signatureInception: 1438207200,
+			keyTag: 3613,
+			signerName: makeName(["example", "com"]),
+			signature: new Uint8Array([1, 2, 3, 4]),
+		},
+	},
+	{
+		name: owner,
+		type: "NSEC",
+		class: "IN",
+		ttl: 300,
+		rdlength: 27,
+		rdata: {
+			nextDomainName: makeName(["www", "example", "com"]),
+			types: [1, 15, 46, 47, 257],
+		},
+	},
+	{
+		name: owner,
+		type: "DNSKEY",
+		class: "IN",
+		ttl: 300,
+		rdlength: 8,
+		rdata: {
+			flags: 257,
+			protocol: 3,
+			algorithm: 15,
+			publicKey: new Uint8Array([0x97, 0x4d, 0x96, 0xa2]),
+		},
+	},
+	{
+		name: owner,
+		type: "NSEC3",
+		class: "IN",
+		ttl: 300,
+		rdlength: 19,
+		rdata: {
+			hashAlgorithm: 1,
+			flags: 1,
+			iterations: 0,
+			salt: new Uint8Array([0xaa, 0xbb]),
+			nextHashedOwnerName: new Uint8Array([1, 2, 3, 4, 5]),
+			types: [1, 46],
+		},
+	},
+	{
+		name: owner,
+		type: "NSEC3PARAM",
+		class: "IN",
+		ttl: 300,
+		rdlength: 5,
+		rdata: {
+			hashAlgorithm: 1,
+			flags: 0,
+			iterations: 0,
+			salt: new Uint8Array(),
+		},
+	},
+];
+
+// Decoded names carry the number of bytes they occupied in the packet
+const withoutByteLengths = (value: unknown): unknown => {
+	if (value instanceof Uint8Array) {
+		return value;
+	}
+
+	if (Array.isArray(value)) {
+		return value.map(withoutByteLengths);
+	}
+
+	if (typeof value === "object" && value !== null) {
+		return Object.fromEntries(
+			Object.entries(value)
+				.filter(([key]) => key !== "encodedByteLength" && key !== "rdlength")
+				.map(([key, field]) => [key, withoutByteLengths(field)]),
+		);
+	}
+
+	return value;
+};
+
+describe("rdata", () => {
+	it.effect("roundtrips typed RDATA for every RFC 1035 type", () =>
+		Effect.gen(function* () {
+			const uint8Array = yield* Schema.encode(MessageFromUint8Array)(
+				makeMessage(records),
+			);
+			const decoded = yield* Schema.decode(MessageFromUint8Array)(uint8Array);
+
+			expect(decoded.answer.map((record) => record.type)).toEqual(
+				records.map((record) => record.type),
+			);
+			expect(withoutByteLengths(decoded.answer)).toEqual(
+				withoutByteLengths(records),
+			);
+		}),
+	);
+
+	it.effect("decodes compressed names inside RDATA", () =>
+		Effect.gen(function* () {
+			const message = yield* Schema.decode(MessageFromUint8Array)(
+				new Uint8Array([
+					// Header, ANCOUNT 1
+					0x00, 0x01, 0x80, 0x00, 0x00, 0x00, 0x00, 0x01, 0x00, 0x00, 0x00,
+					0x00,
+					// NAME: example.com at offset 12
+					7, 101, 120, 97, 109, 112, 108, 101, 3, 99, 111, 109, 0,
+					// TYPE MX, CLASS IN, TTL 300, RDLENGTH 9
+					0x00, 0x0f, 0x00, 0x01, 0x00, 0x00, 0x01, 0x2c, 0x00, 0x09,
+					// PREFERENCE 10, EXCHANGE: mail + pointer to example.com
+					0x00, 0x0a, 4, 109, 97, 105, 108, 0xc0, 0x0c,
+				]),
+			);
+
+			const [answer] = message.answer;
+
+			expect(answer?.type).toBe("MX");
+
+			if (answer?.type === "MX") {
+				expect(answer.rdata.preference).toBe(10);
+				expect(answer.rdata.exchange.labels).toEqual([
+					"mail",
+					"example",
+					"com",
+				]);
+			}
+		}),
+	);
+
+	it.effect("decodes the root name at the end of RDATA", () =>
+		Effect.gen(function* () {
+			const message = yield* Schema.decode(MessageFromUint8Array)(
+				new Uint8Array([
+					// Header, ANCOUNT 1
+					0x00, 0x01, 0x80, 0x00, 0x00, 0x00, 0x00, 0x01, 0x00, 0x00, 0x00,
+					0x00,
+					// NAME: root, TYPE NS, CLASS IN, TTL 300, RDLENGTH 1
+					0, 0x00, 0x02, 0x00, 0x01, 0x00, 0x00, 0x01, 0x2c, 0x00, 0x01,
+					// NSDNAME: root
+					0,
+				]),
+			);
+
+			expect(message.answer[0]?.rdata).toEqual({
+				nsdname: { labels: [], encodedByteLength: 1 },
+			});
+		}),
+	);
+
+	it.effect("fails when RDATA is longer than its fields", () =>
+		Effect.gen(function* () {
+			const result = yield* Effect.exit(
+				Schema.decode(MessageFromUint8Array)(
+					new Uint8Array([
+						// Header, ANCOUNT 1
+						0x00, 0x01, 0x80, 0x00, 0x00, 0x00, 0x00, 0x01, 0x00, 0x00, 0x00,
+						0x00,
+						// NAME: root, TYPE CNAME, CLASS IN, TTL 300, RDLENGTH 3
+						0, 0x00, 0x05, 0x00, 0x01, 0x00, 0x00, 0x01, 0x2c, 0x00, 0x03,
+						// CNAME: root followed by two stray bytes
+						0, 0xde, 0xad,
+					]),
+				),
+			);
+
+			expect(Exit.isFailure(result)).toBe(true);
+		}),
+	);
+
+	it.effect("fails when a name overruns RDLENGTH", () =>
+		Effect.gen(function* () {
+			const result = yield* Effect.exit(
+				Schema.decode(MessageFromUint8Array)(
+					new Uint8Array([
+						// Header, ANCOUNT 1
+						0x00, 0x01, 0x80, 0x00, 0x00, 0x00, 0x00, 0x01, 0x00, 0x00, 0x00,
+						0x00,
+						// NAME: root, TYPE PTR, CLASS IN, TTL 300, RDLENGTH 2
+						0, 0x00, 0x0c, 0x00, 0x01, 0x00, 0x00, 0x01, 0x2c, 0x00, 0x02,
+						// PTRDNAME: 'ab' does not fit in 2 bytes
+						2, 97, 98, 0,
+					]),
+				),
+			);
+
+			expect(Exit.isFailure(result)).toBe(true);
+		}),
+	);
+
+	it("validates character-strings", () => {
+		const encode = Schema.encodeEither(CharacterString);
+
+		expect(encode("a".repeat(255))._tag).toBe("Right");
+		expect(encode("a".repeat(256))._tag).toBe("Left");
+		expect(encode("Ā")._tag).toBe("Left");
+	});
+
+	it("validates IPv4 addresses", () => {
+		const encode = Schema.encodeEither(Ipv4Address);
+
+		expect(encode("255.255.255.255")._tag).toBe("Right");
+		expect(encode("256.0.0.1")._tag).toBe("Left");
+		expect(encode("1.2.3")._tag).toBe("Left");
+		expect(encode("01.2.3.4")._tag).toBe("Left");
+	});
+
+	it("formats IPv6 addresses canonically", () => {
+		const canonicalize = (address: string) =>
+			Schema.decodeSync(Ipv6Address)(Schema.encodeSync(Ipv6Address)(address));
+
+		expect(canonicalize("2001:0DB8:0000:0000:0000:0000:0000:0001")).toBe(
+			"2001:db8::1",
+		);
+		expect(canonicalize("::")).toBe("::");
+		expect(canonicalize("::1")).toBe("::1");
+		expect(canonicalize("fe80::")).toBe("fe80::");
+		// A single zero field is not shortened
+		expect(canonicalize("2001:db8:0:1:1:1:1:1")).toBe("2001:db8:0:1:1:1:1:1");
+		// The longest run of zero fields is shortened, the first on a tie
+		expect(canonicalize("2001:0:0:1:0:0:0:1")).toBe("2001:0:0:1::1");
+		expect(canonicalize("2001:db8:0:0:1:0:0:1")).toBe("2001:db8::1:0:0:1");
+		expect(canonicalize("::ffff:c000:0201")).toBe("::ffff:192.0.2.1");
+		expect(canonicalize("64:ff9b::192.0.2.33")).toBe("64:ff9b::c000:221");
+	});
+
+	it("validates IPv6 addresses", () => {
+		const encode = Schema.encodeEither(Ipv6Address);
+
+		expect(encode("1:2:3:4:5:6:7:8")._tag).toBe("Right");
+		expect(encode("1:2:3:4:5:6:7:8:9")._tag).toBe("Left");
+		expect(encode("1:2:3:4:5:6:7")._tag).toBe("Left");
+		expect(encode("1::2::3")._tag).toBe("Left");
+		expect(encode("1:2:3:4::5:6:7:8")._tag).toBe("Left");
+		expect(encode("12345::")._tag).toBe("Left");
+		expect(encode("::g")._tag).toBe("Left");
+		expect(encode("::1.2.3.256")._tag).toBe("Left");
+		expect(encode("::1.2.3.4:1")._tag).toBe("Left");
+		expect(encode("192.0.2.1")._tag).toBe("Left");
+	});
+
+	it.effect("does not compress the target of SRV RRs", () =>
+		Effect.gen(function* () {
+			const uint8Array = yield* Schema.encode(MessageFromUint8Array)(
+				makeMessage([
+					{
+						name: owner,
+						type: "SRV",
+						class: "IN",
+						ttl: 300,
+						rdlength: 19,
+						rdata: { priority: 0, weight: 0, port: 80, target: owner },
+					},
+				]),
+			);
+
+			// Owner, TYPE to RDLENGTH, then PRIORITY, WEIGHT, PORT and TARGET
+			expect([...uint8Array.subarray(12 + 13 + 10 + 6)]).toEqual([
+				7, 101, 120, 97, 109, 112, 108, 101, 3, 99, 111, 109, 0,
+			]);
+		}),
+	);
+
+	it.effect("fails when an AAAA RR is not 16 bytes", () =>
+		Effect.gen(function* () {
+			const result = yield* Effect.exit(
+				Schema.decode(MessageFromUint8Array)(
+					new Uint8Array([
+						// Header, ANCOUNT 1
+						0x00, 0x01, 0x80, 0x00, 0x00, 0x00, 0x00, 0x01, 0x00, 0x00, 0x00,
+						0x00,
+						// NAME: root, TYPE AAAA, CLASS IN, TTL 300, RDLENGTH 4
+						0, 0x00, 0x1c, 0x00, 0x01, 0x00, 0x00, 0x01, 0x2c, 0x00, 0x04,
+						// An IPv4 address
+						192, 0, 2, 1,
+					]),
+				),
+			);
+
+			expect(Exit.isFailure(result)).toBe(true);
+		}),
+	);
+});
@@ -0,0 +1,355 @@
+import { describe, expect, it } from "@effect/vitest";
+import { Effect, Layer } from "effect";
+import { DnsClientError } from "../src/client";
+import { decodeMasterFile } from "../src/master-file";
+import { decodeSyncNameFromString } from "../src/name";
+import type { Question } from "../src/question";
+import type { ResourceRecord } from "../src/resource-record";
+import {
+	Resolver,
+	ResolverTransport,
+	type ResolverConfig,
+} from "../src/resolver";
+import {
+	answerQuery,
+	makeAuthoritativeNameServer,
+	serveUdp,
+	type Zone,
+} from "../src/server";
+
+const makeZone = (origin: string, lines: Array<string>) => {
+	const name = decodeSyncNameFromString(origin);
+
+	return Effect.map(
+		decodeMasterFile(["$TTL 3600", ...lines, ""].join("\n"), {
+			origin: name,
+		}),
+		(records): Zone => ({ origin: name, records }),
+	);
+};
+
+/**
+ * A simulated hierarchy: the root delegates com. with glue and org. to a
+ * server without glue, and www.example.com. is an alias in org.
+ */
+const hierarchy = Effect.gen(function* () {
+	const root = yield* makeZone(".", [
+		"@                   SOA  a.root-servers.net. hostmaster 1 7200 600 3600000 60",
+		"                    NS   a.root-servers.net.",
+		"a.root-servers.net. A    198.41.0.4",
+		"com.                NS   a.gtld-servers.net.",
+		"a.gtld-servers.net. A    192.5.6.30",
+		"org.                NS   ns.example.com.",
+	]);
+	const com = yield* makeZone("com.", [
+		"@           SOA  a.gtld-servers.net. hostmaster 1 7200 600 3600000 60",
+		"            NS   a.gtld-servers.net.",
+		"example     NS   ns.example",
+		"ns.example  A    192.0.2.1",
+	]);
+	const example = yield* makeZone("example.com.", [
+		"@     SOA    ns hostmaster 1 7200 600 3600000 60",
+		"      NS     ns",
+		"ns    A      192.0.2.1",
+		"mail  A      192.0.2.25",
+		"www   CNAME  www.example.org.",
+		"loop  CNAME  loop.example.org.",
+	]);
+	const org = yield* makeZone("org.", [
+		"@                 SOA    ns.example.com. hostmaster 1 7200 600 3600000 60",
+		"                  NS     ns.example.com.",
+		"www.example       A      192.0.2.80",
+		"loop.example      CNAME  loop.example.com.",
+	]);
+
+	return new Map<string, ReadonlyArray<Zone>>([
+		["198.41.0.4", [root]],
+		["192.5.6.30", [com]],
+		["192.0.2.1", [example, org]],
+	]);
+});
+
+const rootHints: ResolverConfig["rootHints"] = [
+	{
+		name: decodeSyncNameFromString("a.root-servers.net"),
+		addresses: ["198.41.0.4"],
+	},
+];
+
+/**
+ * Answers queries from the zones of the simulated server at each address,
+ * recording the addresses queried.
+ */
+const makeTransport = (
+	servers: Map<string, ReadonlyArray<Zone>>,
+	queried: Array<string>,
+) =>
+	Layer.succeed(
+		ResolverTransport,
+		ResolverTransport.of({
+			query(address, question) {
+				queried.push(address);
+
+				const zones = servers.get(address);
+
+				if (zones === undefined) {
+					return new DnsClientError({
+						reason: "Timeout",
+						message: `No reply from ${address}`,
+					});
+				}
+
+				return Effect.succeed(
+					answerQuery(zones, {
+						header: {
+							id: 1,
+							qr: 0,
+							opcode: "QUERY",
+							aa: 0,
+							tc: 0,
+							rd: 0,
+							ra: 0,
+							z: 0,
+							rcode: "NOERROR",
+							qdcount: 1,
+							ancount: 0,
+							nscount: 0,
+							arcount: 0,
+						},
+						question: [question],
+						answer: [],
+						authority: [],
+						additional: [],
+					}),
+				);
+			},
+		}),
+	);
+
+const resolve = (
+	question: Question,
+	config: Partial<ResolverConfig> = {},
+	queried: Array<string> = [],
+) =>
+	Effect.gen(function* () {
+		const servers = yield* Effect.orDie(hierarchy);
+
+		return yield* Effect.flatMap(Resolver, (resolver) =>
+			resolver.resolve(question),
+		).pipe(
+			Effect.provide(
+				Resolver.layer({ rootHints, ...config }).pipe(
+					Layer.provide(makeTransport(servers, queried)),
+				),
+			),
+		);
+	});
+
+const makeQuestion = (
+	name: string,
+	qtype: Question["qtype"] = 1,
+): Question => ({
+	qname: decodeSyncNameFromString(name),
+	qtype,
+	qclass: 1,
+});
+
+const summarize = (records: ReadonlyArray<ResourceRecord>) =>
+	records.map((record) => `${record.name.labels.join(".")} ${record.type}`);
+
+describe("Resolver", () => {
+	it.effect("follows referrals from the root using glue", () =>
+		Effect.gen(function* () {
+			const queried: Array<string> = [];
+			const resolution = yield* resolve(
+				makeQuestion("mail.example.com"),
+				{},
+				queried,
+			);
+
+			expect(resolution.rcode).toBe("NOERROR");
+			expect(resolution.answer).toMatchObject([
+				{ type: "A", rdata: { address: "192.0.2.25" } },
+			]);
+			expect(queried).toEqual(["198.41.0.4", "192.5.6.30", "192.0.2.1"]);
+		}),
+	);
+
+	it.effect(
+		"chases CNAMEs across zones and resolves servers without glue",
+		() =>
+			Effect.gen(function* () {
+				const resolution = yield* resolve(makeQuestion("www.example.com"));
+
+				expect(resolution.rcode).toBe("NOERROR");
+				expect(summarize(resolution.answer)).toEqual([
+					"www.example.com CNAME",
+					"www.example.org A",
+				]);
+			}),
+	);
+
+	it.effect("uses IPv6 glue and addresses of name servers", () =>
+		Effect.gen(function* () {
+			const root = yield* makeZone(".", [
+				"@                   SOA   a.root-servers.net. hostmaster 1 7200 600 3600000 60",
+				"                    NS    a.root-servers.net.",
+				"a.root-servers.net. A     198.41.0.4",
+				"net.                NS    a.gtld-servers.net.",
+				"a.gtld-servers.net. AAAA  2001:db8::30",
+				"org.                NS    ns.example.net.",
+			]);
+			const net = yield* makeZone("net.", [
+				"@                   SOA   a.gtld-servers.net. hostmaster 1 7200 600 3600000 60",
+				"                    NS    a.gtld-servers.net.",
+				"a.gtld-servers      AAAA  2001:db8::30",
+				"example             NS    ns.example",
+				"ns.example          AAAA  2001:db8::1",
+			]);
+			const example = yield* makeZone("example.net.", [
+				"@     SOA    ns hostmaster 1 7200 600 3600000 60",
+				"      NS     ns",
+				"ns    AAAA   2001:db8::1",
+			]);
+			const org = yield* makeZone("org.", [
+				"@                 SOA    ns.example.net. hostmaster 1 7200 600 3600000 60",
+				"                  NS     ns.example.net.",
+				"www.example       A      192.0.2.80",
+			]);
+			const servers = new Map<string, ReadonlyArray<Zone>>([
+				["198.41.0.4", [root]],
+				["2001:db8::30", [net]],
+				["2001:db8::1", [example, org]],
+			]);
+			const queried: Array<string> = [];
+
+			const resolution = yield* Effect.flatMap(Resolver, (resolver) =>
+				resolver.resolve(makeQuestion("www.example.org")),
+			).pipe(
+				Effect.provide(
+					Resolver.layer({ rootHints }).pipe(
+						Layer.provide(makeTransport(servers, queried)),
+					),
+				),
+			);
+
+			expect(resolution.answer).toMatchObject([
+				{ type: "A", rdata: { address: "192.0.2.80" } },
+			]);
+			expect(queried.at(-1)).toBe("2001:db8::1");
+		}),
+	);
+
+	it.effect("returns name errors with the SOA", () =>
+		Effect.gen(function* () {
+			const resolution = yield* resolve(makeQuestion("missing.example.com"));
+
+			expect(resolution.rcode).toBe("NXDOMAIN");
+			expect(resolution.answer).toEqual([]);
+			expect(summarize(resolution.authority)).toEqual(["example.com SOA"]);
+		}),
+	);
+
+	it.effect("returns no data for names without the type", () =>
+		Effect.gen(function* () {
+			const resolution = yield* resolve(makeQuestion("mail.example.com", 15));
+
+			expect(resolution.rcode).toBe("NOERROR");
+			expect(resolution.answer).toEqual([]);
+			expect(summarize(resolution.authority)).toEqual(["example.com SOA"]);
+		}),
+	);
+
+	it.effect("tries the next server when one does not reply", () =>
+		Effect.gen(function* () {
+			const queried: Array<string> = [];
+			const resolution = yield* resolve(
+				makeQuestion("mail.example.com"),
+				{
+					rootHints: [
+						{
+							name: decodeSyncNameFromString("b.root-servers.net"),
+							addresses: ["199.9.14.201"],
+						},
+						...rootHints,
+					],
+				},
+				queried,
+			);
+
+			expect(resolution.rcode).toBe("NOERROR");
+			expect(queried[0]).toBe("199.9.14.201");
+		}),
+	);
+
+	it.effect("fails when no server replies", () =>
+		Effect.gen(function* () {
+			const error = yield* Effect.flip(
+				resolve(makeQuestion("mail.example.com"), {
+					rootHints: [
+						{
+							name: decodeSyncNameFromString("b.root-servers.net"),
+							addresses: ["199.9.14.201"],
+						},
+					],
+				}),
+			);
+
+			expect(error.reason).toBe("NoServers");
+		}),
+	);
+
+	it.effect("fails on CNAME loops", () =>
+		Effect.gen(function* () {
+			const error = yield* Effect.flip(
+				resolve(makeQuestion("loop.example.com")),
+			);
+
+			expect(error.reason).toBe("CnameLoop");
+		}),
+	);
+
+	it.effect("limits the queries of a resolution", () =>
+		Effect.gen(function* () {
+			const error = yield* Effect.flip(
+				resolve(makeQuestion("mail.example.com"), { maxQueries: 2 }),
+			);
+
+			expect(error.reason).toBe("LimitExceeded");
+		}),
+	);
+
+	it.scopedLive("queries name servers over UDP", () =>
+		Effect.gen(function* () {
+			const servers = yield* hierarchy;
+			const { port } = yield* serveUdp(
+				makeAuthoritativeNameServer([...servers.values()].flat()),
+				{ port: 0 },
+			);
+
+			const resolution = yield* Effect.flatMap(Resolver, (resolver) =>
+				resolver.resolve(makeQuestion("www.example.com")),
+			).pipe(
+				Effect.provide(
+					Resolver.layer({
+						rootHints: [
+							{
+								name: decodeSyncNameFromString("localhost"),
+								addresses: ["127.0.0.1"],
+							},
+						],
+					}).pipe(
+						Layer.provide(
+							ResolverTransport.layer({ port, timeout: "1 second" }),
+						),
+					),
+				),
+			);
+
+			expect(summarize(resolution.answer)).toEqual([
+				"www.example.com CNAME",
+				"www.example.org A",
+			]);
+		}),
+	);
+});
@@ -1,9 +1,13 @@
 import { describe, expect, it } from "@effect/vitest";
-import { Effect, Exit } from "effect";
+import { Effect, Exit, Schema } from "effect";
+import { MessageFromUint8Array } from "../src/message";
 import {
 	decodeResourceRecordFromUint8Array,
 	encodeResourceRecord,
+	getRRClass,
+	getRRType,
 	RRTypeNameToRRType,
+	type ResourceRecord,
 } from "../src/resource-record";
 import { arbitraryValidResourceRecordUint8Array } from "./arbitraries";
 
@@ -299,3 +303,69 @@ describe("resource record", () => {
 		);
 	});
 });
+
+describe("unknown RR types", () => {
+	// A response with an RR of TYPE 65534 and CLASS 32 answering a query for it
+	const uint8Array = new Uint8Array([
+		// Header, QDCOUNT 1, ANCOUNT 1
+		0x00, 0x01, 0x84, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00, 0x00, 0x00,
+		// QNAME: example.com, QTYPE 65534, QCLASS 32
+		7, 101, 120, 97, 109, 112, 108, 101, 3, 99, 111, 109, 0, 0xff, 0xfe, 0x00,
+		0x20,
+		// NAME: pointer to example.com, TYPE 65534, CLASS 32, TTL 300, RDLENGTH 5
+		0xc0, 0x0c, 0xff, 0xfe, 0x00, 0x20, 0x00, 0x00, 0x01, 0x2c, 0x00, 0x05,
+		0x01, 0x02, 0x03, 0x04, 0x05,
+	]);
+
+	it.effect("decodes their RDATA as opaque octets", () =>
+		Effect.gen(function* () {
+			const message = yield* Schema.decode(MessageFromUint8Array)(uint8Array);
+
+			expect(message.question[0]).toMatchObject({ qtype: 65534, qclass: 32 });
+			expect(message.answer[0]).toMatchObject({
+				type: "TYPE65534",
+				class: "CLASS32",
+				ttl: 300,
+				rdlength: 5,
+				rdata: { data: new Uint8Array([1, 2, 3, 4, 5]) },
+			});
+		}),
+	);
+
+	it.effect("re-encodes them byte for byte", () =>
+		Effect.gen(function* () {
+			const message = yield* Schema.decode(MessageFromUint8Array)(uint8Array);
+
+			expect(yield* Schema.encode(MessageFromUint8Array)(message)).toEqual(
+				uint8Array,
+			);
+		}),
+	);
+
+	it.effect("rejects generic mnemonics of known types and classes", () =>
+		Effect.gen(function* () {
+			const message = yield* Schema.decode(MessageFromUint8Array)(uint8Array);
+
+			for (const record of [
+				{ ...message.answer[0], type: "TYPE1" },
+				{ ...message.answer[0], class: "CLASS1" },
+			] as Array<ResourceRecord>) {
+				const result = yield* Effect.exit(
+					Schema.encode(MessageFromUint8Array)({
+						...message,
+						answer: [record],
+					}),
+				);
+
+				expect(Exit.isFailure(result)).toBe(true);
+			}
+		}),
+	);
+
+	it("maps mnemonics to their values", () => {
+		expect(getRRType("MX")).toBe(15);
+		expect(getRRType("TYPE65534")).toBe(65534);
+		expect(getRRClass("IN")).toBe(1);
+		expect(getRRClass("CLASS32")).toBe(32);
+	});
+});
@@ -0,0 +1,700 @@
+import { describe, expect, it } from "@effect/vitest";
+import { Deferred, Effect, Exit, Option, Schema, Scope, Stream } from "effect";
+import { DnsClient } from "../src/client";
+import { makeInverseQuery } from "../src/inverse-query";
+import { decodeMasterFile } from "../src/master-file";
+import { MessageFromUint8Array, type Message } from "../src/message";
+import { decodeSyncNameFromString } from "../src/name";
+import type { Question } from "../src/question";
+import type { ResourceRecord } from "../src/resource-record";
+import {
+	answerQuery,
+	answerZoneTransfer,
+	makeAuthoritativeNameServer,
+	serveTcp,
+	serveUdp,
+	type NameServer,
+	type Zone,
+} from "../src/server";
+
+const origin = decodeSyncNameFromString("example.com.");
+
+const zone: Effect.Effect<Zone, unknown> = Effect.map(
+	decodeMasterFile(
+		[
+			"$TTL 3600",
+			"@       SOA     ns1 hostmaster 1 7200 600 3600000 60",
+			"        NS      ns1",
+			"        MX      10 mail",
+			"ns1     A       192.0.2.1",
+			"mail    A       192.0.2.2",
+			"www     CNAME   web",
+			"web     A       192.0.2.3",
+			"loop    CNAME   loop",
+			"a.b     A       192.0.2.4",
+			"sub     NS      ns.sub",
+			"ns.sub  A       192.0.2.5",
+			"",
+		].join("\n"),
+		{ origin },
+	),
+	(records) => ({ origin, records }),
+);
+
+const wildcardZone: Effect.Effect<Zone, unknown> = Effect.map(
+	decodeMasterFile(
+		[
+			"$TTL 3600",
+			"@       SOA     ns1 hostmaster 1 7200 600 3600000 60",
+			"        NS      ns1",
+			"ns1     A       192.0.2.1",
+			"*       A       192.0.2.2",
+			"*.alias CNAME   ns1",
+			"a.b     A       192.0.2.3",
+			"host.c  A       192.0.2.4",
+			"",
+		].join("\n"),
+		{ origin },
+	),
+	(records) => ({ origin, records }),
+);
+
+const makeQuery = (
+	name: string,
+	qtype: Question["qtype"],
+	header: Partial<Message["header"]> = {},
+): Message => ({
+	header: {
+		id: 4321,
+		qr: 0,
+		opcode: "QUERY",
+		aa: 0,
+		tc: 0,
+		rd: 1,
+		ra: 0,
+		z: 0,
+		rcode: "NOERROR",
+		qdcount: 1,
+		ancount: 0,
+		nscount: 0,
+		arcount: 0,
+		...header,
+	},
+	question: [{ qname: decodeSyncNameFromString(name), qtype, qclass: 1 }],
+	answer: [],
+	authority: [],
+	additional: [],
+});
+
+const summarize = (records: ReadonlyArray<ResourceRecord>) =>
+	records.map((record) => `${record.name.labels.join(".")} ${record.type}`);
+
+describe("answerQuery", () => {
+	it.effect("answers authoritatively with additional addresses", () =>
+		Effect.gen(function* () {
+			const response = answerQuery([yield* zone], makeQuery("example.com", 15));
+
+			expect(response.header).toMatchObject({
+				id: 4321,
+				qr: 1,
+				aa: 1,
+				rd: 1,
+				ra: 0,
+				rcode: "NOERROR",
+				ancount: 1,
+				arcount: 1,
+			});
+			expect(summarize(response.answer)).toEqual(["example.com MX"]);
+			expect(summarize(response.additional)).toEqual(["mail.example.com A"]);
+		}),
+	);
+
+	it.effect("adds the IPv6 addresses of hosts to the additional section", () =>
+		Effect.gen(function* () {
+			const records = yield* decodeMasterFile(
+				[
+					"@    60 SOA  ns1 hostmaster 1 7200 600 3600000 60",
+					"     60 MX   10 mail",
+					"mail 60 A    192.0.2.2",
+					"mail 60 AAAA 2001:db8::2",
+					"",
+				].join("\n"),
+				{ origin },
+			);
+			const response = answerQuery(
+				[{ origin, records }],
+				makeQuery("example.com", 15),
+			);
+
+			expect(summarize(response.additional)).toEqual([
+				"mail.example.com A",
+				"mail.example.com AAAA",
+			]);
+		}),
+	);
+
+	it.effect("matches names case-insensitively", () =>
+		Effect.gen(function* () {
+			const response = answerQuery(
+				[yield* zone],
+				makeQuery("WEB.Example.COM", 1),
+			);
+
+			expect(summarize(response.answer)).toEqual(["web.example.com A"]);
+		}),
+	);
+
+	it.effect("follows CNAMEs unless they are asked for", () =>
+		Effect.gen(function* () {
+			const zones = [yield* zone];
+
+			expect(
+				summarize(answerQuery(zones, makeQuery("www.example.com", 1)).answer),
+			).toEqual(["www.example.com CNAME", "web.example.com A"]);
+			expect(
+				summarize(answerQuery(zones, makeQuery("www.example.com", 5)).answer),
+			).toEqual(["www.example.com CNAME"]);
+		}),
+	);
+
+	it.effect("stops at CNAME loops", () =>
+		Effect.gen(function* () {
+			const response = answerQuery(
+				[yield* zone],
+				makeQuery("loop.example.com", 1),
+			);
+
+			expect(response.header.rcode).toBe("NOERROR");
+			expect(summarize(response.answer)).toEqual(["loop.example.com CNAME"]);
+		}),
+	);
+
+	it.effect("answers QTYPE * with every RR of the node", () =>
+		Effect.gen(function* () {
+			const response = answerQuery(
+				[yield* zone],
+				makeQuery("example.com", 255),
+			);
+
+			expect(summarize(response.answer)).toEqual([
+				"example.com SOA",
+				"example.com NS",
+				"example.com MX",
+			]);
+		}),
+	);
+
+	it.effect("returns an authoritative name error with the SOA", () =>
+		Effect.gen(function* () {
+			const response = answerQuery(
+				[yield* zone],
+				makeQuery("missing.example.com", 1),
+			);
+
+			expect(response.header).toMatchObject({ aa: 1, rcode: "NXDOMAIN" });
+			expect(summarize(response.authority)).toEqual(["example.com SOA"]);
+		}),
+	);
+
+	it.effect("returns no data for existing names without the type", () =>
+		Effect.gen(function* () {
+			const zones = [yield* zone];
+
+			for (const name of ["ns1.example.com", "b.example.com"]) {
+				const response = answerQuery(zones, makeQuery(name, 15));
+
+				expect(response.header).toMatchObject({ aa: 1, rcode: "NOERROR" });
+				expect(response.answer).toEqual([]);
+				expect(summarize(response.authority)).toEqual(["example.com SOA"]);
+			}
+		}),
+	);
+
+	it.effect("synthesizes answers from wildcards owned by QNAME", () =>
+		Effect.gen(function* () {
+			const zones = [yield* wildcardZone];
+
+			for (const name of ["missing.example.com", "a.missing.example.com"]) {
+				const response = answerQuery(zones, makeQuery(name, 1));
+
+				expect(response.header).toMatchObject({ aa: 1, rcode: "NOERROR" });
+				expect(summarize(response.answer)).toEqual([`${name} A`]);
+			}
+		}),
+	);
+
+	it.effect("returns no data for wildcards without the type", () =>
+		Effect.gen(function* () {
+			const response = answerQuery(
+				[yield* wildcardZone],
+				makeQuery("missing.example.com", 15),
+			);
+
+			expect(response.header).toMatchObject({ aa: 1, rcode: "NOERROR" });
+			expect(response.answer).toEqual([]);
+			expect(summarize(response.authority)).toEqual(["example.com SOA"]);
+		}),
+	);
+
+	it.effect("follows CNAMEs synthesized from wildcards", () =>
+		Effect.gen(function* () {
+			const response = answerQuery(
+				[yield* wildcardZone],
+				makeQuery("www.alias.example.com", 1),
+			);
+
+			expect(summarize(response.answer)).toEqual([
+				"www.alias.example.com CNAME",
+				"ns1.example.com A",
+			]);
+		}),
+	);
+
+	it.effect("only matches wildcards of the closest encloser", () =>
+		Effect.gen(function* () {
+			const zones = [yield* wildcardZone];
+
+			// Existing names, empty non-terminals included, are never matched
+			const noData = answerQuery(zones, makeQuery("b.example.com", 1));
+
+			expect(noData.header).toMatchObject({ aa: 1, rcode: "NOERROR" });
+			expect(noData.answer).toEqual([]);
+
+			// c.example.com exists and has no "*" label below it
+			const nameError = answerQuery(zones, makeQuery("x.c.example.com", 1));
+
+			expect(nameError.header).toMatchObject({ aa: 1, rcode: "NXDOMAIN" });
+			expect(nameError.answer).toEqual([]);
+		}),
+	);
+
+	it.effect("refers queries below a zone cut with glue", () =>
+		Effect.gen(function* () {
+			const response = answerQuery(
+				[yield* zone],
+				makeQuery("host.sub.example.com", 1),
+			);
+
+			expect(response.header).toMatchObject({ aa: 0, rcode: "NOERROR" });
+			expect(response.answer).toEqual([]);
+			expect(summarize(response.authority)).toEqual(["sub.example.com NS"]);
+			expect(summarize(response.additional)).toEqual(["ns.sub.example.com A"]);
+		}),
+	);
+
+	it.effect("refuses names outside of every zone", () =>
+		Effect.gen(function* () {
+			const response = answerQuery([yield* zone], makeQuery("example.org", 1));
+
+			expect(response.header).toMatchObject({ aa: 0, rcode: "REFUSED" });
+		}),
+	);
+
+	it.effect("only answers zone transfers over stream transports", () =>
+		Effect.gen(function* () {
+			const response = answerQuery(
+				[yield* zone],
+				makeQuery("example.com", 252),
+			);
+
+			expect(response.header.rcode).toBe("NOTIMP");
+		}),
+	);
+
+	it.effect("answers EDNS queries with an OPT RR", () =>
+		Effect.gen(function* () {
+			const response = answerQuery([yield* zone], {
+				...makeQuery("example.com", 15),
+				opt: { udpPayloadSize: 4096, version: 0, dnssecOk: 1, options: [] },
+			});
+
+			expect(response.header.rcode).toBe("NOERROR");
+			expect(response.opt).toEqual({
+				udpPayloadSize: 1232,
+				version: 0,
+				dnssecOk: 1,
+				options: [],
+			});
+		}),
+	);
+
+	it.effect("returns BADVERS for later EDNS versions", () =>
+		Effect.gen(function* () {
+			const response = answerQuery([yield* zone], {
+				...makeQuery("example.com", 15),
+				opt: { udpPayloadSize: 4096, version: 1, dnssecOk: 0, options: [] },
+			});
+
+			expect(response.header.rcode).toBe("BADVERS");
+			expect(response.answer).toEqual([]);
+			expect(response.opt?.version).toBe(0);
+		}),
+	);
+
+	it.effect("does not implement other opcodes", () =>
+		Effect.gen(function* () {
+			const response = answerQuery(
+				[yield* zone],
+				makeQuery("example.com", 1, { opcode: "STATUS" }),
+			);
+
+			expect(response.header).toMatchObject({
+				opcode: "STATUS",
+				rcode: "NOTIMP",
+			});
+		}),
+	);
+});
+
+describe("inverse queries", () => {
+	const makeAddress = (address: string): ResourceRecord => ({
+		name: decodeSyncNameFromString("."),
+		type: "A",
+		class: "IN",
+		ttl: 0,
+		rdlength: 4,
+		rdata: { address },
+	});
+
+	it.effect("answers the names owning the RR", () =>
+		Effect.gen(function* () {
+			const response = answerQuery(
+				[yield* zone],
+				makeInverseQuery(997, makeAddress("192.0.2.3")),
+				{ inverseQueries: true },
+			);
+
+			expect(response.header).toMatchObject({
+				id: 997,
+				qr: 1,
+				opcode: "IQUERY",
+				rcode: "NOERROR",
+				qdcount: 1,
+				ancount: 1,
+			});
+			expect(response.question).toEqual([
+				{ qname: response.answer[0]?.name, qtype: 1, qclass: 1 },
+			]);
+			expect(summarize(response.answer)).toEqual(["web.example.com A"]);
+		}),
+	);
+
+	it.effect("compares names in RDATA case-insensitively", () =>
+		Effect.gen(function* () {
+			const response = answerQuery(
+				[yield* zone],
+				makeInverseQuery(997, {
+					name: decodeSyncNameFromString("."),
+					type: "CNAME",
+					class: "IN",
+					ttl: 0,
+					rdlength: 17,
+					rdata: { cname: decodeSyncNameFromString("WEB.example.com") },
+				}),
+				{ inverseQueries: true },
+			);
+
+			expect(summarize(response.answer)).toEqual(["www.example.com CNAME"]);
+		}),
+	);
+
+	it.effect("answers no names when no RR matches", () =>
+		Effect.gen(function* () {
+			const response = answerQuery(
+				[yield* zone],
+				makeInverseQuery(997, makeAddress("198.51.100.1")),
+				{ inverseQueries: true },
+			);
+
+			expect(response.header).toMatchObject({ rcode: "NOERROR", qdcount: 0 });
+			expect(response.answer).toEqual([]);
+		}),
+	);
+
+	it.effect("returns a format error for malformed inverse queries", () =>
+		Effect.gen(function* () {
+			const query = makeInverseQuery(997, makeAddress("192.0.2.3"));
+			const response = answerQuery(
+				[yield* zone],
+				{ ...query, answer: [] },
+				{ inverseQueries: true },
+			);
+
+			expect(response.header.rcode).toBe("FORMERR");
+		}),
+	);
+
+	it.effect("does not implement inverse queries unless enabled", () =>
+		Effect.gen(function* () {
+			const server = makeAuthoritativeNameServer([yield* zone]);
+			const response = yield* server.handle(
+				yield* Schema.encode(MessageFromUint8Array)(
+					makeInverseQuery(997, makeAddress("192.0.2.3")),
+				),
+			);
+			const message = yield* Schema.decode(MessageFromUint8Array)(
+				Option.getOrThrow(response),
+			);
+
+			expect(message.header).toMatchObject({
+				opcode: "IQUERY",
+				rcode: "NOTIMP",
+			});
+		}),
+	);
+});
+
+describe("makeAuthoritativeNameServer", () => {
+	it.effect("answers encoded queries", () =>
+		Effect.gen(function* () {
+			const server = makeAuthoritativeNameServer([yield* zone]);
+			const response = yield* server.handle(
+				yield* Schema.encode(MessageFromUint8Array)(
+					makeQuery("web.example.com", 1),
+				),
+			);
+			const message = yield* Schema.decode(MessageFromUint8Array)(
+				Option.getOrThrow(response),
+			);
+
+			expect(summarize(message.answer)).toEqual(["web.example.com A"]);
+		}),
+	);
+
+	it.effect("returns a format error for malformed queries", () =>
+		Effect.gen(function* () {
+			const server = makeAuthoritativeNameServer([yield* zone]);
+			const request = new Uint8Array([
+				0x12, 0x34, 0x01, 0x00, 0x00, 0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
+				0x07,
+			]);
+
+			expect(yield* server.handle(request)).toEqual(
+				Option.some(
+					new Uint8Array([
+						0x12, 0x34, 0x81, 0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
+						0x00,
+					]),
+				),
+			);
+		}),
+	);
+
+	it.effect("drops requests shorter than a header and responses", () =>
+		Effect.gen(function* () {
+			const server = makeAuthoritativeNameServer([yield* zone]);
+
+			expect(yield* server.handle(new Uint8Array([0x12, 0x34]))).toEqual(
+				Option.none(),
+			);
+			expect(
+				yield* server.handle(
+					yield* Schema.encode(MessageFromUint8Array)(
+						makeQuery("example.com", 1, { qr: 1 }),
+					),
+				),
+			).toEqual(Option.none());
+		}),
+	);
+
+	it.effect("truncates responses longer than the limit", () =>
+		Effect.gen(function* () {
+			const server = makeAuthoritativeNameServer([yield* zone]);
+			const response = yield* server.handle(
+				yield* Schema.encode(MessageFromUint8Array)(
+					makeQuery("example.com", 255),
+				),
+				{ maxByteLength: 64 },
+			);
+			const message = yield* Schema.decode(MessageFromUint8Array)(
+				Option.getOrThrow(response),
+			);
+
+			expect(message.header).toMatchObject({ tc: 1, ancount: 0 });
+			expect(message.question).toHaveLength(1);
+		}),
+	);
+
+	it.effect("raises the limit to the UDP payload size of EDNS queries", () =>
+		Effect.gen(function* () {
+			const server = makeAuthoritativeNameServer([yield* zone]);
+			const response = yield* server.handle(
+				yield* Schema.encode(MessageFromUint8Array)({
+					...makeQuery("example.com", 255),
+					opt: { udpPayloadSize: 4096, version: 0, dnssecOk: 0, options: [] },
+				}),
+				{ maxByteLength: 64 },
+			);
+			const message = yield* Schema.decode(MessageFromUint8Array)(
+				Option.getOrThrow(response),
+			);
+
+			expect(message.header).toMatchObject({ tc: 0, ancount: 3 });
+		}),
+	);
+});
+
+describe("serveUdp", () => {
+	it.scopedLive("answers queries from a DnsClient", () =>
+		Effect.gen(function* () {
+			const { port } = yield* serveUdp(
+				makeAuthoritativeNameServer([yield* zone]),
+				{ port: 0 },
+			);
+
+			const message = yield* Effect.flatMap(DnsClient, (client) =>
+				client.query({
+					qname: decodeSyncNameFromString("www.example.com"),
+					qtype: 1,
+					qclass: 1,
+				}),
+			).pipe(
+				Effect.provide(
+					DnsClient.layer({ address: "127.0.0.1", port, timeout: "1 second" }),
+				),
+			);
+
+			expect(message.header).toMatchObject({ aa: 1, rcode: "NOERROR" });
+			expect(summarize(message.answer)).toEqual([
+				"www.example.com CNAME",
+				"web.example.com A",
+			]);
+		}),
+	);
+
+	it.scopedLive("interrupts unanswered queries when the scope is closed", () =>
+		Effect.gen(function* () {
+			const received = yield* Deferred.make<void>();
+			const interrupted = yield* Deferred.make<void>();
+			const server: NameServer = {
+				handle: () =>
+					Deferred.succeed(received, undefined).pipe(
+						Effect.zipRight(Effect.never),
+						Effect.onInterrupt(() => Deferred.succeed(interrupted, undefined)),
+					),
+				handleStream: () => Stream.empty,
+			};
+
+			const scope = yield* Scope.make();
+			const { port } = yield* serveUdp(server, { port: 0 }).pipe(
+				Scope.extend(scope),
+			);
+
+			yield* Effect.fork(
+				Effect.flatMap(DnsClient, (client) =>
+					client.query({
+						qname: decodeSyncNameFromString("www.example.com"),
+						qtype: 1,
+						qclass: 1,
+					}),
+				).pipe(
+					Effect.provide(
+						DnsClient.layer({
+							address: "127.0.0.1",
+							port,
+							timeout: "1 second",
+						}),
+					),
+					Effect.ignore,
+				),
+			);
+
+			yield* Deferred.await(received);
+			yield* Scope.close(scope, Exit.void);
+
+			expect(yield* Deferred.isDone(interrupted)).toBe(true);
+		}),
+	);
+});
+
+describe("answerZoneTransfer", () => {
+	it.effect("begins and ends the transfer with the SOA", () =>
+		Effect.gen(function* () {
+			const zones = [yield* zone];
+			const [response, ...rest] = answerZoneTransfer(
+				zones,
+				makeQuery("example.com", 252),
+			);
+
+			expect(rest).toEqual([]);
+			expect(response?.header).toMatchObject({ aa: 1, rcode: "NOERROR" });
+			expect(response?.question).toHaveLength(1);
+			expect(summarize(response?.answer ?? [])).toEqual([
+				"example.com SOA",
+				...summarize(zones[0]!.records.slice(1)),
+				"example.com SOA",
+			]);
+		}),
+	);
+
+	it.effect("splits large zones across messages", () =>
+		Effect.gen(function* () {
+			const { records } = yield* zone;
+			const large: Zone = {
+				origin,
+				records: [
+					...records,
+					...Array.from({ length: 2000 }, (_, idx) => ({
+						...records.find(({ type }) => type === "A")!,
+						name: decodeSyncNameFromString(`host-${idx}.example.com`),
+					})),
+				],
+			};
+			const messages = answerZoneTransfer(
+				[large],
+				makeQuery("example.com", 252),
+			);
+			const encoded = yield* Effect.forEach(messages, (message) =>
+				Schema.encode(MessageFromUint8Array)(message),
+			);
+
+			expect(messages.length).toBeGreaterThan(1);
+			expect(messages.slice(1).map(({ question }) => question)).toEqual(
+				messages.slice(1).map(() => []),
+			);
+			expect(
+				messages.flatMap(({ answer }) => answer).map(({ type }) => type),
+			).toEqual([
+				"SOA",
+				...large.records.slice(1).map(({ type }) => type),
+				"SOA",
+			]);
+			expect(encoded.every(({ byteLength }) => byteLength <= 16384)).toBe(true);
+		}),
+	);
+
+	it.effect("refuses transfers of zones that are not served", () =>
+		Effect.gen(function* () {
+			for (const name of ["example.org", "www.example.com"]) {
+				const messages = answerZoneTransfer(
+					[yield* zone],
+					makeQuery(name, 252),
+				);
+
+				expect(messages.map(({ header }) => header.rcode)).toEqual(["REFUSED"]);
+			}
+		}),
+	);
+});
+
+describe("serveTcp", () => {
+	it.scopedLive("transfers zones to a DnsClient", () =>
+		Effect.gen(function* () {
+			const { origin, records } = yield* zone;
+			const { port } = yield* serveTcp(
+				makeAuthoritativeNameServer([{ origin, records }]),
+				{ port: 0 },
+			);
+
+			const transferred = yield* Effect.flatMap(DnsClient, (client) =>
+				client.transferZone(origin),
+			).pipe(
+				Effect.provide(
+					DnsClient.layer({ address: "127.0.0.1", port, timeout: "1 second" }),
+				),
+			);
+
+			expect(summarize(transferred)).toEqual(summarize(records));
+		}),
+	);
+});
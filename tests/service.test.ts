@@ -0,0 +1,109 @@
+import { describe, expect, it } from "@effect/vitest";
+import { Effect, Exit, Random } from "effect";
+import { decodeSyncNameFromString } from "../src/name";
+import type { ResourceRecordOf } from "../src/resource-record";
+import {
+	makeServiceName,
+	makeServiceQuestion,
+	orderServiceTargets,
+} from "../src/service";
+
+const domain = decodeSyncNameFromString("example.com");
+
+const makeSrv = (
+	target: string,
+	priority: number,
+	weight: number,
+): ResourceRecordOf<"SRV"> => ({
+	name: decodeSyncNameFromString("_sip._udp.example.com"),
+	type: "SRV",
+	class: "IN",
+	ttl: 300,
+	rdlength: 0,
+	rdata: {
+		priority,
+		weight,
+		port: 5060,
+		target: decodeSyncNameFromString(target),
+	},
+});
+
+const targets = (records: ReadonlyArray<ResourceRecordOf<"SRV">>) =>
+	records.map((record) => record.rdata.target.labels[0]);
+
+describe("service", () => {
+	it.effect("builds the names and questions of services", () =>
+		Effect.gen(function* () {
+			const name = yield* makeServiceName("ldap", "tcp", domain);
+
+			expect(name.labels).toEqual(["_ldap", "_tcp", "example", "com"]);
+			expect(
+				(yield* makeServiceName("sip", "udp", decodeSyncNameFromString(".")))
+					.labels,
+			).toEqual(["_sip", "_udp"]);
+			expect(yield* makeServiceQuestion("ldap", "tcp", domain)).toEqual({
+				qname: name,
+				qtype: 33,
+				qclass: 1,
+			});
+		}),
+	);
+
+	it.effect("rejects services that are not a single label", () =>
+		Effect.gen(function* () {
+			for (const service of ["a.b", "", "a_b", "a\\"]) {
+				const result = yield* Effect.exit(
+					makeServiceName(service, "tcp", domain),
+				);
+
+				expect(Exit.isFailure(result)).toBe(true);
+			}
+		}),
+	);
+
+	it.effect("orders targets by priority, then by weight", () =>
+		Effect.gen(function* () {
+			const records = [
+				makeSrv("backup", 20, 0),
+				makeSrv("small", 10, 10),
+				makeSrv("large", 10, 90),
+			];
+
+			// 0-10 chooses small, 11-100 chooses large
+			expect(
+				targets(
+					yield* orderServiceTargets(records).pipe(
+						Effect.withRandom(Random.fixed([10, 0, 0])),
+					),
+				),
+			).toEqual(["small", "large", "backup"]);
+			expect(
+				targets(
+					yield* orderServiceTargets(records).pipe(
+						Effect.withRandom(Random.fixed([11, 0, 0])),
+					),
+				),
+			).toEqual(["large", "small", "backup"]);
+		}),
+	);
+
+	it.effect("puts targets of weight 0 first", () =>
+		Effect.gen(function* () {
+			const records = [makeSrv("weighted", 10, 5), makeSrv("zero", 10, 0)];
+
+			expect(
+				targets(
+					yield* orderServiceTargets(records).pipe(
+						Effect.withRandom(Random.fixed([0])),
+					),
+				),
+			).toEqual(["zero", "weighted"]);
+		}),
+	);
+
+	it.effect("is empty when the service is decidedly not available", () =>
+		Effect.gen(function* () {
+			expect(yield* orderServiceTargets([makeSrv(".", 0, 0)])).toEqual([]);
+		}),
+	);
+});
@@ -0,0 +1,153 @@
+import { describe, expect, it } from "@effect/vitest";
+import { Chunk, Effect, Exit, Schema, Stream } from "effect";
+import { MessageFromUint8Array, type Message } from "../src/message";
+import {
+	Uint8ArrayFromTcpFrame,
+	decodeMessagesFromTcpStream,
+	encodeMessagesToTcpStream,
+	splitTcpFrames,
+} from "../src/tcp";
+
+const makeQuery = (id: number): Message => ({
+	header: {
+		id,
+		qr: 0,
+		opcode: "QUERY",
+		aa: 0,
+		tc: 0,
+		rd: 1,
+		ra: 0,
+		z: 0,
+		rcode: "NOERROR",
+		qdcount: 1,
+		ancount: 0,
+		nscount: 0,
+		arcount: 0,
+	},
+	question: [
+		{
+			qname: { labels: ["example", "com"], encodedByteLength: 13 },
+			qtype: 1,
+			qclass: 1,
+		},
+	],
+	answer: [],
+	authority: [],
+	additional: [],
+});
+
+// Splits `uint8Array` into chunks of `size` bytes
+const chunksOf = (uint8Array: Uint8Array, size: number) => {
+	const chunks: Array<Uint8Array> = [];
+
+	for (let offset = 0; offset < uint8Array.byteLength; offset += size) {
+		chunks.push(uint8Array.subarray(offset, offset + size));
+	}
+
+	return chunks;
+};
+
+const concat = (uint8Arrays: ReadonlyArray<Uint8Array>) =>
+	new Uint8Array(uint8Arrays.flatMap((uint8Array) => Array.from(uint8Array)));
+
+describe("tcp framing", () => {
+	it.effect("prefixes encoded messages with their length", () =>
+		Effect.gen(function* () {
+			const [frame] = yield* Stream.runCollect(
+				encodeMessagesToTcpStream(Stream.make(makeQuery(0xabcd))),
+			).pipe(Effect.map(Chunk.toArray));
+
+			const message = yield* Schema.encode(MessageFromUint8Array)(
+				makeQuery(0xabcd),
+			);
+
+			expect(Array.from(frame!.subarray(0, 2))).toEqual([0, 29]);
+			expect(frame!.subarray(2)).toEqual(message);
+		}),
+	);
+
+	it.effect("decodes messages split across and packed into chunks", () =>
+		Effect.gen(function* () {
+			const frames = yield* Stream.runCollect(
+				encodeMessagesToTcpStream(Stream.make(makeQuery(1), makeQuery(2))),
+			).pipe(Effect.map(Chunk.toArray));
+			const bytes = concat(frames);
+
+			for (const size of [1, 2, 7, 31, bytes.byteLength]) {
+				const messages = yield* Stream.runCollect(
+					decodeMessagesFromTcpStream(
+						Stream.fromIterable(chunksOf(bytes, size)),
+					),
+				).pipe(Effect.map(Chunk.toArray));
+
+				expect(messages.map((message) => message.header.id)).toEqual([1, 2]);
+				expect(messages[1]?.question).toEqual(makeQuery(2).question);
+			}
+		}),
+	);
+
+	it.effect("splits frames without decoding them", () =>
+		Effect.gen(function* () {
+			const frames = yield* Stream.runCollect(
+				splitTcpFrames(
+					Stream.make(
+						new Uint8Array([0, 1, 9, 0, 0, 0, 2, 7]),
+						new Uint8Array([8]),
+					),
+				),
+			).pipe(Effect.map(Chunk.toArray));
+
+			expect(frames.map((frame) => Array.from(frame))).toEqual([
+				[0, 1, 9],
+				[0, 0],
+				[0, 2, 7, 8],
+			]);
+		}),
+	);
+
+	it.effect("fails when the stream ends part way through a frame", () =>
+		Effect.gen(function* () {
+			const partialLength = yield* Effect.exit(
+				Stream.runCollect(
+					splitTcpFrames(Stream.make(new Uint8Array([0, 1, 9, 0]))),
+				),
+			);
+			const partialMessage = yield* Effect.exit(
+				Stream.runCollect(
+					splitTcpFrames(Stream.make(new Uint8Array([0, 3, 1, 2]))),
+				),
+			);
+
+			expect(Exit.isFailure(partialLength)).toBe(true);
+			expect(Exit.isFailure(partialMessage)).toBe(true);
+		}),
+	);
+
+	it.effect("passes through failures of the byte stream", () =>
+		Effect.gen(function* () {
+			const result = yield* Effect.exit(
+				Stream.runCollect(
+					splitTcpFrames(
+						Stream.concat(
+							Stream.make(new Uint8Array([0, 1, 9])),
+							Stream.fail("connection reset" as const),
+						),
+					),
+				),
+			);
+
+			expect(result).toEqual(Exit.fail("connection reset"));
+		}),
+	);
+
+	it("validates the length field of a frame", () => {
+		const decode = Schema.decodeEither(Uint8ArrayFromTcpFrame);
+		const encode = Schema.encodeEither(Uint8ArrayFromTcpFrame);
+
+		expect(decode(new Uint8Array([0, 2, 1, 2]))._tag).toBe("Right");
+		expect(decode(new Uint8Array([0, 3, 1, 2]))._tag).toBe("Left");
+		expect(decode(new Uint8Array([0]))._tag).toBe("Left");
+		expect(encode(new Uint8Array(65535))._tag).toBe("Right");
+		expect(encode(new Uint8Array(65536))._tag).toBe("Left");
+	});
+});
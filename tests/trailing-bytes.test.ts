@@ -0,0 +1,70 @@
+import { describe, expect, it } from "@effect/vitest";
+import { Effect, Schema } from "effect";
+import {
+	decodeMessageWithTrailingBytes,
+	MessageFromUint8Array,
+	StrictMessageFromUint8Array,
+} from "../src/message";
+import { makeQuery } from "../src/message-builder";
+
+describe("trailing bytes", () => {
+	const withTrailingBytes = Effect.map(
+		Schema.encode(MessageFromUint8Array)(
+			makeQuery("www.example.com.", "A", { id: 7 }),
+		),
+		(uint8Array) => {
+			const packet = new Uint8Array(uint8Array.byteLength + 3);
+			packet.set(uint8Array);
+			packet.set([0xde, 0xad, 0xbe], uint8Array.byteLength);
+
+			return { packet, offset: uint8Array.byteLength };
+		},
+	);
+
+	it.effect("are ignored by MessageFromUint8Array", () =>
+		Effect.gen(function* () {
+			const { packet } = yield* withTrailingBytes;
+			const message = yield* Schema.decode(MessageFromUint8Array)(packet);
+
+			expect(message.header.id).toBe(7);
+		}),
+	);
+
+	it.effect("fail StrictMessageFromUint8Array", () =>
+		Effect.gen(function* () {
+			const { packet, offset } = yield* withTrailingBytes;
+
+			const error = yield* Effect.flip(
+				Schema.decode(StrictMessageFromUint8Array)(packet),
+			);
+
+			expect(error.message).toContain(
+				`3 bytes trail the last record, at offset ${offset}`,
+			);
+			expect(
+				yield* Schema.decode(StrictMessageFromUint8Array)(
+					packet.subarray(0, offset),
+				),
+			).toMatchObject({ header: { id: 7 } });
+		}),
+	);
+
+	it.effect("are reported with their offset", () =>
+		Effect.gen(function* () {
+			const { packet, offset } = yield* withTrailingBytes;
+
+			const { message, trailing } =
+				yield* decodeMessageWithTrailingBytes(packet);
+
+			expect(message.header.id).toBe(7);
+			expect(trailing?.offset).toBe(offset);
+			expect(Array.from(trailing?.bytes ?? [])).toEqual([0xde, 0xad, 0xbe]);
+
+			const untrailed = yield* decodeMessageWithTrailingBytes(
+				packet.subarray(0, offset),
+			);
+
+			expect(untrailed.trailing).toBeUndefined();
+		}),
+	);
+});
@@ -0,0 +1,469 @@
+import { describe, expect, it } from "@effect/vitest";
+import { Effect, Exit, Option, Schema } from "effect";
+import { decodeMasterFile } from "../src/master-file";
+import { MessageFromUint8Array } from "../src/message";
+import { decodeSyncNameFromString } from "../src/name";
+import type { ResourceRecord, ResourceRecordOf } from "../src/resource-record";
+import {
+	answerQuery,
+	makeAuthoritativeNameServer,
+	type Zone,
+} from "../src/server";
+import {
+	addRRset,
+	applyUpdate,
+	deleteFromRRset,
+	deleteName,
+	deleteRRset,
+	makeUpdateMessage,
+	nameInUse,
+	nameNotInUse,
+	rrsetDoesNotExist,
+	rrsetEquals,
+	rrsetExists,
+	UpdateMessageFromUint8Array,
+	type Prerequisite,
+} from "../src/update";
+
+const origin = decodeSyncNameFromString("example.com.");
+const name = (text: string) => decodeSyncNameFromString(text);
+
+const records = (text: string) =>
+	decodeMasterFile(`$TTL 3600\n${text}\n`, { origin });
+
+const zone: Effect.Effect<Zone, unknown> = Effect.map(
+	records(
+		[
+			"@       SOA     ns1 hostmaster 1 7200 600 3600000 60",
+			"        NS      ns1",
+			"ns1     A       192.0.2.1",
+			"www     A       192.0.2.3",
+			"        A       192.0.2.4",
+			"alias   CNAME   www",
+		].join("\n"),
+	),
+	(records) => ({ origin, records }),
+);
+
+const summarize = (records: ReadonlyArray<ResourceRecord>) =>
+	records.map((record) =>
+		[
+			record.name.labels.join("."),
+			record.type,
+			record.type === "A" ? record.rdata.address : "",
+		]
+			.join(" ")
+			.trim(),
+	);
+
+const getSerial = (zone: Zone) =>
+	zone.records.find(
+		(record): record is ResourceRecordOf<"SOA"> => record.type === "SOA",
+	)!.rdata.serial;
+
+// Header with OPCODE UPDATE and ZOCOUNT 1
+const header = (prcount: number, upcount: number) => [
+	...[0x00, 0x2a, 0x28, 0x00, 0x00, 0x01],
+	...[0x00, prcount, 0x00, upcount, 0x00, 0x00],
+];
+
+// ZNAME example.com, ZTYPE SOA, ZCLASS IN
+const zoneSection = [
+	...[7, 101, 120, 97, 109, 112, 108, 101, 3, 99, 111, 109, 0],
+	...[0x00, 0x06, 0x00, 0x01],
+];
+
+describe("UpdateMessageFromUint8Array", () => {
+	it.effect("writes RRs without RDATA for RRset and name conditions", () =>
+		Effect.gen(function* () {
+			const uint8Array = yield* Schema.encode(UpdateMessageFromUint8Array)(
+				makeUpdateMessage({
+					id: 42,
+					zone: origin,
+					prerequisite: [rrsetExists(origin, "MX")],
+					update: [deleteName(name("www.example.com"))],
+				}),
+			);
+
+			expect(Array.from(uint8Array)).toEqual([
+				...header(1, 1),
+				...zoneSection,
+				// Pointer to example.com, TYPE MX, CLASS ANY, TTL 0, RDLENGTH 0
+				...[0xc0, 0x0c, 0x00, 0x0f, 0x00, 0xff, 0, 0, 0, 0, 0, 0],
+				// www + pointer, TYPE ANY, CLASS ANY, TTL 0, RDLENGTH 0
+				...[3, 119, 119, 119, 0xc0, 0x0c],
+				...[0x00, 0xff, 0x00, 0xff, 0, 0, 0, 0, 0, 0],
+			]);
+		}),
+	);
+
+	it.effect("roundtrips every prerequisite and operation", () =>
+		Effect.gen(function* () {
+			const [a, txt] = yield* records(
+				["www A 192.0.2.9", "txt TXT hello"].join("\n"),
+			);
+			const message = makeUpdateMessage({
+				id: 7,
+				zone: origin,
+				prerequisite: [
+					rrsetExists(name("www.example.com"), "A"),
+					...rrsetEquals([{ ...a!, ttl: 0 }]),
+					rrsetDoesNotExist(name("www.example.com"), "AAAA"),
+					nameInUse(name("www.example.com")),
+					nameNotInUse(name("new.example.com")),
+				],
+				update: [
+					...addRRset([a!, txt!]),
+					deleteRRset(name("old.example.com"), "TXT"),
+					deleteName(name("gone.example.com")),
+					deleteFromRRset({ ...a!, ttl: 0 }),
+				],
+			});
+
+			const decoded = yield* Schema.decode(UpdateMessageFromUint8Array)(
+				yield* Schema.encode(UpdateMessageFromUint8Array)(message),
+			);
+
+			expect(decoded.prerequisite.map((entry) => entry._tag)).toEqual([
+				"RRsetExists",
+				"RRsetEquals",
+				"RRsetDoesNotExist",
+				"NameInUse",
+				"NameNotInUse",
+			]);
+			expect(decoded.update.map((entry) => entry._tag)).toEqual([
+				"AddToRRset",
+				"AddToRRset",
+				"DeleteRRset",
+				"DeleteName",
+				"DeleteFromRRset",
+			]);
+			expect(decoded.update[4]).toMatchObject({
+				record: { class: "IN", ttl: 0, rdata: { address: "192.0.2.9" } },
+			});
+		}),
+	);
+
+	it.effect("rejects malformed updates", () =>
+		Effect.gen(function* () {
+			const decode = (bytes: ReadonlyArray<number>) =>
+				Effect.exit(
+					Schema.decode(UpdateMessageFromUint8Array)(new Uint8Array(bytes)),
+				);
+
+			// ZTYPE A
+			expect(
+				Exit.isFailure(
+					yield* decode([
+						...header(0, 0),
+						...zoneSection.slice(0, 13),
+						...[0x00, 0x01, 0x00, 0x01],
+					]),
+				),
+			).toBe(true);
+			// Prerequisite with a TTL
+			expect(
+				Exit.isFailure(
+					yield* decode([
+						...header(1, 0),
+						...zoneSection,
+						...[0xc0, 0x0c, 0x00, 0x0f, 0x00, 0xff, 0, 0, 0, 1, 0, 0],
+					]),
+				),
+			).toBe(true);
+			// Deleting the AXFR RRset
+			expect(
+				Exit.isFailure(
+					yield* decode([
+						...header(0, 1),
+						...zoneSection,
+						...[0xc0, 0x0c, 0x00, 0xfc, 0x00, 0xff, 0, 0, 0, 0, 0, 0],
+					]),
+				),
+			).toBe(true);
+			// Adding an RR of another class
+			expect(
+				Exit.isFailure(
+					yield* decode([
+						...header(0, 1),
+						...zoneSection,
+						...[0xc0, 0x0c, 0x00, 0x01, 0x00, 0x03, 0, 0, 0, 0, 0, 4],
+						...[192, 0, 2, 1],
+					]),
+				),
+			).toBe(true);
+		}),
+	);
+});
+
+describe("applyUpdate", () => {
+	it.effect("adds RRs and increments the SOA serial", () =>
+		Effect.gen(function* () {
+			const current = yield* zone;
+			const [mail] = yield* records("mail A 192.0.2.5");
+
+			const { response, zones } = applyUpdate(
+				[current],
+				makeUpdateMessage({
+					id: 1,
+					zone: origin,
+					prerequisite: [nameNotInUse(name("mail.example.com"))],
+					update: addRRset([mail!, mail!]),
+				}),
+			);
+
+			expect(response.header).toMatchObject({
+				id: 1,
+				qr: 1,
+				opcode: "UPDATE",
+				rcode: "NOERROR",
+			});
+			expect(summarize(zones[0]!.records)).toContain(
+				"mail.example.com A 192.0.2.5",
+			);
+			expect(zones[0]!.records.length).toBe(current.records.length + 1);
+			expect(getSerial(zones[0]!)).toBe(2);
+		}),
+	);
+
+	it.effect("fails unmet prerequisites with their rcode", () =>
+		Effect.gen(function* () {
+			const current = yield* zone;
+			const www = name("www.example.com");
+			const check = (prerequisite: ReadonlyArray<Prerequisite>) => {
+				const { response, zones } = applyUpdate(
+					[current],
+					makeUpdateMessage({
+						id: 1,
+						zone: origin,
+						prerequisite,
+						update: [deleteName(www)],
+					}),
+				);
+
+				expect(zones[0]).toBe(current);
+
+				return response.header.rcode;
+			};
+
+			expect(check([rrsetExists(www, "AAAA")])).toBe("NXRRSET");
+			expect(check([rrsetDoesNotExist(www, "A")])).toBe("YXRRSET");
+			expect(check([nameInUse(name("nope.example.com"))])).toBe("NXDOMAIN");
+			expect(check([nameNotInUse(www)])).toBe("YXDOMAIN");
+			expect(check([nameInUse(name("example.org"))])).toBe("NOTZONE");
+		}),
+	);
+
+	it.effect("compares value dependent prerequisites as whole RRsets", () =>
+		Effect.gen(function* () {
+			const current = yield* zone;
+			const [first, second, third] = yield* records(
+				["www A 192.0.2.4", "www A 192.0.2.3", "www A 192.0.2.5"].join("\n"),
+			);
+			const rcode = (rrset: ReadonlyArray<ResourceRecord>) =>
+				applyUpdate(
+					[current],
+					makeUpdateMessage({
+						id: 1,
+						zone: origin,
+						prerequisite: rrsetEquals(
+							rrset.map((record) => ({ ...record, ttl: 0 })),
+						),
+						update: [],
+					}),
+				).response.header.rcode;
+
+			expect(rcode([first!, second!])).toBe("NOERROR");
+			expect(rcode([first!])).toBe("NXRRSET");
+			expect(rcode([first!, second!, third!])).toBe("NXRRSET");
+		}),
+	);
+
+	it.effect("refuses zones that are not served", () =>
+		Effect.gen(function* () {
+			const { response } = applyUpdate(
+				[yield* zone],
+				makeUpdateMessage({
+					id: 1,
+					zone: name("example.org"),
+					update: [],
+				}),
+			);
+
+			expect(response.header.rcode).toBe("NOTAUTH");
+		}),
+	);
+
+	it.effect("keeps the SOA and NS RRs of the zone apex", () =>
+		Effect.gen(function* () {
+			const current = yield* zone;
+			const [ns] = current.records.filter((record) => record.type === "NS");
+
+			const { zones } = applyUpdate(
+				[current],
+				makeUpdateMessage({
+					id: 1,
+					zone: origin,
+					update: [
+						deleteName(origin),
+						deleteRRset(origin, "SOA"),
+						deleteFromRRset(ns!),
+						deleteName(name("www.example.com")),
+					],
+				}),
+			);
+
+			expect(summarize(zones[0]!.records)).toEqual([
+				"example.com SOA",
+				"example.com NS",
+				"ns1.example.com A 192.0.2.1",
+				"alias.example.com CNAME",
+			]);
+		}),
+	);
+
+	it.effect("ignores RRs conflicting with CNAMEs and older SOAs", () =>
+		Effect.gen(function* () {
+			const current = yield* zone;
+			const [alias, cname, soa] = yield* records(
+				[
+					"alias A 192.0.2.6",
+					"www CNAME ns1",
+					"@ SOA ns1 hostmaster 0 7200 600 3600000 60",
+				].join("\n"),
+			);
+
+			const { zones } = applyUpdate(
+				[current],
+				makeUpdateMessage({
+					id: 1,
+					zone: origin,
+					update: addRRset([alias!, cname!, soa!]),
+				}),
+			);
+
+			expect(zones[0]).toBe(current);
+		}),
+	);
+
+	it.effect("replaces the SOA with one of a later serial", () =>
+		Effect.gen(function* () {
+			const [soa] = yield* records(
+				"@ SOA ns1 hostmaster 10 7200 600 3600000 60",
+			);
+
+			const { zones } = applyUpdate(
+				[yield* zone],
+				makeUpdateMessage({ id: 1, zone: origin, update: addRRset([soa!]) }),
+			);
+
+			expect(getSerial(zones[0]!)).toBe(10);
+		}),
+	);
+});
+
+describe("makeAuthoritativeNameServer", () => {
+	it.effect("applies encoded updates to the zones it answers from", () =>
+		Effect.gen(function* () {
+			const server = makeAuthoritativeNameServer([yield* zone], {
+				dynamicUpdates: true,
+			});
+			const [mail] = yield* records("mail A 192.0.2.5");
+
+			const response = yield* server.handle(
+				yield* Schema.encode(UpdateMessageFromUint8Array)(
+					makeUpdateMessage({ id: 9, zone: origin, update: addRRset([mail!]) }),
+				),
+			);
+			const decoded = yield* Schema.decode(UpdateMessageFromUint8Array)(
+				Option.getOrThrow(response),
+			);
+
+			expect(decoded.header).toMatchObject({ id: 9, qr: 1, rcode: "NOERROR" });
+
+			const answer = yield* server.handle(
+				yield* Schema.encode(MessageFromUint8Array)({
+					header: {
+						id: 10,
+						qr: 0,
+						opcode: "QUERY",
+						aa: 0,
+						tc: 0,
+						rd: 0,
+						ra: 0,
+						z: 0,
+						rcode: "NOERROR",
+						qdcount: 1,
+						ancount: 0,
+						nscount: 0,
+						arcount: 0,
+					},
+					question: [{ qname: mail!.name, qtype: 1, qclass: 1 }],
+					answer: [],
+					authority: [],
+					additional: [],
+				}),
+			);
+			const message = yield* Schema.decode(MessageFromUint8Array)(
+				Option.getOrThrow(answer),
+			);
+
+			expect(summarize(message.answer)).toEqual([
+				"mail.example.com A 192.0.2.5",
+			]);
+		}),
+	);
+
+	it.effect("does not implement updates unless enabled", () =>
+		Effect.gen(function* () {
+			const server = makeAuthoritativeNameServer([yield* zone]);
+
+			const response = yield* server.handle(
+				yield* Schema.encode(UpdateMessageFromUint8Array)(
+					makeUpdateMessage({
+						id: 9,
+						zone: origin,
+						update: [deleteName(name("www.example.com"))],
+					}),
+				),
+			);
+			const decoded = yield* Schema.decode(UpdateMessageFromUint8Array)(
+				Option.getOrThrow(response),
+			);
+
+			expect(decoded.header.rcode).toBe("NOTIMP");
+			expect(
+				answerQuery([yield* zone], {
+					header: {
+						...decoded.header,
+						opcode: "QUERY",
+						qr: 0,
+						rcode: "NOERROR",
+					},
+					question: [{ qname: name("www.example.com"), qtype: 1, qclass: 1 }],
+					answer: [],
+					authority: [],
+					additional: [],
+				}).answer,
+			).toHaveLength(2);
+		}),
+	);
+
+	it.effect("returns a format error for malformed updates", () =>
+		Effect.gen(function* () {
+			const server = makeAuthoritativeNameServer([yield* zone], {
+				dynamicUpdates: true,
+			});
+
+			const response = yield* server.handle(
+				new Uint8Array([
+					...header(1, 0),
+					...zoneSection,
+					...[0xc0, 0x0c, 0x00, 0x0f, 0x00, 0xff, 0, 0, 0, 1, 0, 0],
+				]),
+			);
+
+			expect(Option.getOrThrow(response)[3]! & 0x0f).toBe(1);
+		}),
+	);
+});